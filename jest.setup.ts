@@ -1,4 +1,13 @@
-// Jest setup file (currently empty). Add shared test hooks or mocks here.
+// Jest setup file. Add shared test hooks or mocks here.
 import { config } from 'dotenv';
+import { sharedCircuitBreaker } from '@/lib/server/http_client';
 
-config({ path: '.env.test' });
\ No newline at end of file
+config({ path: '.env.test' });
+
+// テスト間で外部 API の応答を使い回さないよう、既定ではキャッシュしない
+process.env.RESPONSE_CACHE_BACKEND ??= 'none';
+
+// 外部 API クライアントが共有するサーキットブレーカーの状態を、前のテストから持ち越さない
+beforeEach(() => {
+    sharedCircuitBreaker.reset();
+});
@@ -1,6 +1,9 @@
-import { Calendar, Cloud, MapPin, Star } from "lucide-react";
+import { Calendar, Cloud, MapPin, Sparkles, Star } from "lucide-react";
+import { AccommodationPlan, MEAL_PLAN_LABELS } from "@/lib/accommodation_plans";
+import { ACCOMMODATION_PROVIDER_LABELS, AccommodationSource } from "@/lib/accommodation_sources";
+import { LightPollutionLevel } from "@/lib/light_pollution";
 
-export type LightPollutionLevel = "低" | "中" | "高";
+export type { LightPollutionLevel };
 
 export interface Accommodation {
     id: string;
@@ -8,28 +11,43 @@ export interface Accommodation {
     location: string;
     prefecture: string;
     newMoonDate: string;
-    clearSkyProbability: number;
+    /** 宿泊日の夜、施設の座標で晴れと予報された時間の割合 (%)。予報が取れなければ null */
+    clearSkyProbability: number | null;
     price: number;
     rating: number;
     availableRooms: number;
     imageUrl: string;
-    altitude: number;
+    /** 施設の標高 (m)。取得できなければ null */
+    altitude: number | null;
+    latitude: number | null;
+    longitude: number | null;
+    /** 検索の中心にした星空観察地の名前。座標で検索した場合は null */
+    darkSkySite: string | null;
+    /** 施設周辺の光害の程度。推定できなければ null */
+    lightPollution: LightPollutionLevel | null;
+    /** 施設周辺のボートル・スケールの推定等級 (1〜9)。推定できなければ null */
+    bortleClass: number | null;
     bookingUrl: string;
+    /** 宿が掲載されていた予約サイト */
+    sources: AccommodationSource[];
+    /** 空きのある宿泊プラン (安い順、最大 3 件) */
+    plans: AccommodationPlan[];
 }
 
 interface AccommodationCardProps {
     accommodation: Accommodation;
 }
 
-// const lightPollutionStyles: Record<LightPollutionLevel, string> = {
-//     低: "bg-emerald-100 text-emerald-900",
-//     中: "bg-amber-100 text-amber-900",
-//     高: "bg-rose-100 text-rose-900",
-// };
+const lightPollutionStyles: Record<LightPollutionLevel, string> = {
+    低: "bg-emerald-100 text-emerald-900",
+    中: "bg-amber-100 text-amber-900",
+    高: "bg-rose-100 text-rose-900",
+};
 
 export function AccommodationCard({ accommodation }: AccommodationCardProps) {
-    // TODO 光害レベルに応じたバッジのスタイルを適用する
-    // const badgeClass = lightPollutionStyles[accommodation.lightPollution] ?? "bg-slate-100 text-slate-900";
+    const badgeClass = accommodation.lightPollution
+        ? lightPollutionStyles[accommodation.lightPollution]
+        : "bg-slate-100 text-slate-900";
 
     return (
         <article className="overflow-hidden rounded-2xl border bg-white shadow-sm transition-shadow hover:shadow-lg">
@@ -40,6 +58,12 @@ export function AccommodationCard({ accommodation }: AccommodationCardProps) {
                     className="h-full w-full object-cover"
                     loading="lazy"
                 />
+                <span
+                    className={`absolute left-3 top-3 rounded-full px-3 py-1 text-xs font-semibold shadow-sm ${badgeClass}`}
+                    title={accommodation.bortleClass !== null ? `ボートル・スケール ${accommodation.bortleClass} (推定)` : undefined}
+                >
+                    光害: {accommodation.lightPollution ?? '不明'}
+                </span>
             </div>
 
             <div className="space-y-4 px-6 py-5">
@@ -56,25 +80,71 @@ export function AccommodationCard({ accommodation }: AccommodationCardProps) {
                         <MapPin className="h-4 w-4" />
                         <span>{accommodation.location}, {accommodation.prefecture}</span>
                     </div>
+                    {accommodation.darkSkySite ? (
+                        <div className="flex items-center gap-2">
+                            <Sparkles className="h-4 w-4" />
+                            <span>近くの星空スポット: {accommodation.darkSkySite}</span>
+                        </div>
+                    ) : null}
                     <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
                         <span>新月: {accommodation.newMoonDate}</span>
                     </div>
                     <div className="flex items-center gap-2">
                         <Cloud className="h-4 w-4" />
-                        <span>晴天確率: {accommodation.clearSkyProbability}%</span>
+                        <span>
+                            晴天確率: {accommodation.clearSkyProbability !== null ? `${accommodation.clearSkyProbability}%` : '---'}
+                        </span>
                     </div>
-                    <div>標高: {accommodation.altitude}m</div>
+                    <div>標高: {accommodation.altitude !== null ? `${accommodation.altitude}m` : '---'}</div>
                 </dl>
 
                 <div className="flex items-center justify-between text-sm">
-                    <p className="text-slate-500">残り{accommodation.availableRooms}室</p>
+                    <p className="text-slate-500">{accommodation.availableRooms}室の空きあり</p>
                     <p className="text-right text-lg font-bold">
                         ¥{accommodation.price.toLocaleString()}
-                        <span className="ml-1 text-xs font-normal text-slate-500">/泊</span>
+                        <span className="ml-1 text-xs font-normal text-slate-500">〜/泊</span>
                     </p>
                 </div>
 
+                {accommodation.plans.length > 0 ? (
+                    <ul className="space-y-2 text-xs">
+                        {accommodation.plans.map((plan) => (
+                            <li key={`${plan.planName}-${plan.roomName}`} className="rounded-xl border border-slate-100 bg-slate-50 px-3 py-2">
+                                {plan.bookingUrl ? (
+                                    <a href={plan.bookingUrl} target="_blank" rel="noopener noreferrer" className="font-medium text-slate-800 line-clamp-2 hover:underline">
+                                        {plan.planName}
+                                    </a>
+                                ) : (
+                                    <p className="font-medium text-slate-800 line-clamp-2">{plan.planName}</p>
+                                )}
+                                <p className="mt-1 text-slate-500">{plan.roomName} / {MEAL_PLAN_LABELS[plan.meals]}</p>
+                                <p className="mt-1 text-right text-slate-700">
+                                    ¥{plan.pricePerNight.toLocaleString()}/泊
+                                    <span className="ml-2 text-slate-500">(合計 ¥{plan.totalPrice.toLocaleString()})</span>
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                ) : null}
+
+                {accommodation.sources.length > 0 ? (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-slate-500">掲載:</span>
+                        {accommodation.sources.map((source) => (
+                            <a
+                                key={source.provider}
+                                href={source.bookingUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="rounded-full border border-slate-200 px-2 py-0.5 text-slate-700 hover:bg-slate-50"
+                            >
+                                {ACCOMMODATION_PROVIDER_LABELS[source.provider]}
+                            </a>
+                        ))}
+                    </div>
+                ) : null}
+
                 <a
                     href={accommodation.bookingUrl}
                     target="_blank"
@@ -0,0 +1,227 @@
+'use client';
+
+import { Sparkles, X } from "lucide-react";
+import { ChangeEvent, FormEvent, useEffect, useRef, useState } from "react";
+import { describeApiError } from "@/lib/api_errors";
+import { DEFAULT_MAX_RESULTS } from "@/lib/hotel_search_options";
+import { PREFECTURES } from "@/lib/prefectures";
+
+interface BestNightsFinderProps {
+    onSelectNight: (year: string, month: string, day: string, prefecture: string) => void;
+}
+
+interface RankedNight {
+    prefecture: string;
+    date: string;
+    rankingScore: number;
+    isClearSky: boolean;
+    clearSkyProbability: number | null;
+    darkHours: number;
+    moonIlluminatedFraction: number;
+    /** 検索の上限まで取得した空室のある宿の数。空室のある宿の総数ではない */
+    sampledHotelCount: number | null;
+}
+
+// API 側の上限 (MAX_BEST_NIGHT_PREFECTURES) と合わせる
+const MAX_PREFECTURES = 10;
+const LIMIT_OPTIONS = [3, 5, 10];
+
+// 上限まで見つかった場合は、それより多く空いている可能性がある
+function formatSampledHotelCount(count: number | null): string {
+    if (count === null) {
+        return '取得できませんでした';
+    }
+    return count >= DEFAULT_MAX_RESULTS ? `${count}件以上` : `${count}件`;
+}
+
+function formatJapaneseDate(value: string): string {
+    const [year, month, day] = value.split('-').map((part) => Number.parseInt(part, 10));
+    return `${year}年${month}月${day}日`;
+}
+
+export function BestNightsFinder({ onSelectNight }: BestNightsFinderProps) {
+    const [selectedPrefectures, setSelectedPrefectures] = useState<string[]>([]);
+    const [limit, setLimit] = useState<number>(5);
+    const [nights, setNights] = useState<RankedNight[] | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => {
+            abortControllerRef.current?.abort();
+        };
+    }, []);
+
+    const handleAddPrefecture = (event: ChangeEvent<HTMLSelectElement>) => {
+        const value = event.target.value;
+        if (value && !selectedPrefectures.includes(value) && selectedPrefectures.length < MAX_PREFECTURES) {
+            setSelectedPrefectures([...selectedPrefectures, value]);
+        }
+    };
+
+    const handleRemovePrefecture = (prefecture: string) => {
+        setSelectedPrefectures(selectedPrefectures.filter((value) => value !== prefecture));
+    };
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        if (selectedPrefectures.length === 0) {
+            setErrorMessage('都道府県を1つ以上選択してください。');
+            return;
+        }
+
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        setIsLoading(true);
+        setErrorMessage(null);
+        setNotice(null);
+        setNights(null);
+
+        try {
+            const query = new URLSearchParams({ prefectures: selectedPrefectures.join(','), limit: String(limit) });
+            const response = await fetch(`/api/best-nights?${query.toString()}`, { signal: controller.signal });
+            const payload = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                const message = describeApiError(payload, 'ベストな夜の検索に失敗しました');
+                throw new Error(message);
+            }
+
+            setNights(Array.isArray(payload?.nights) ? payload.nights : []);
+            if (payload?.availability === 'out_of_supported_range' && typeof payload?.message === 'string') {
+                setNotice(payload.message);
+            }
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return;
+            }
+            setErrorMessage(error instanceof Error ? error.message : '予期しないエラーが発生しました');
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsLoading(false);
+            }
+        }
+    };
+
+    const handleSelectNight = (night: RankedNight) => {
+        const [year, month, day] = night.date.split('-');
+        if (year && month && day) {
+            onSelectNight(year, String(Number(month)), String(Number(day)), night.prefecture);
+        }
+    };
+
+    const remainingPrefectures = PREFECTURES.filter((prefecture) => !selectedPrefectures.includes(prefecture));
+
+    return (
+        <section className="mx-auto w-full max-w-3xl">
+            <div className="rounded-3xl border bg-white p-6 shadow-sm">
+                <h2 className="text-center text-lg font-semibold">15日以内のベストな夜を探す</h2>
+                <p className="mt-2 text-center text-xs text-slate-500">
+                    晴れの見込み・月明かり・暗夜の長さから、行き先候補の夜をまとめて順位付けします。
+                </p>
+                <form className="mt-6 grid gap-6" onSubmit={handleSubmit}>
+                    <label className="grid gap-2 text-sm font-medium text-slate-700">
+                        <span>都道府県 (最大{MAX_PREFECTURES}件)</span>
+                        <select
+                            name="prefecture"
+                            value=""
+                            onChange={handleAddPrefecture}
+                            disabled={selectedPrefectures.length >= MAX_PREFECTURES}
+                            className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100 disabled:bg-slate-100"
+                        >
+                            <option value="" disabled>
+                                都道府県を追加
+                            </option>
+                            {remainingPrefectures.map((prefecture) => (
+                                <option key={prefecture} value={prefecture}>
+                                    {prefecture}
+                                </option>
+                            ))}
+                        </select>
+                        {selectedPrefectures.length > 0 ? (
+                            <div className="flex flex-wrap gap-2">
+                                {selectedPrefectures.map((prefecture) => (
+                                    <span key={prefecture} className="inline-flex items-center gap-1 rounded-full bg-sky-50 px-3 py-1 text-xs text-sky-800">
+                                        {prefecture}
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemovePrefecture(prefecture)}
+                                            className="text-sky-500 hover:text-sky-700"
+                                            aria-label={`${prefecture}を外す`}
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                        ) : null}
+                    </label>
+
+                    <label className="grid gap-2 text-sm font-medium text-slate-700">
+                        <span>表示件数</span>
+                        <select
+                            name="limit"
+                            value={limit}
+                            onChange={(event) => setLimit(Number.parseInt(event.target.value, 10))}
+                            className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                        >
+                            {LIMIT_OPTIONS.map((option) => (
+                                <option key={option} value={option}>
+                                    上位{option}件
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {errorMessage ? <p className="text-xs text-rose-500">{errorMessage}</p> : null}
+
+                    <button
+                        type="submit"
+                        className="w-full rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+                        disabled={selectedPrefectures.length === 0 || isLoading}
+                    >
+                        {isLoading ? '検索中…' : 'ベストな夜を探す'}
+                    </button>
+                </form>
+
+                {notice ? <p className="mt-4 text-xs text-amber-600">{notice}</p> : null}
+                {nights && nights.length === 0 && !notice ? (
+                    <p className="mt-4 text-center text-sm text-slate-500">候補の夜が見つかりませんでした。</p>
+                ) : null}
+                {nights && nights.length > 0 ? (
+                    <ol className="mt-6 grid gap-3">
+                        {nights.map((night, index) => (
+                            <li key={`${night.prefecture}-${night.date}`} className="flex items-center gap-4 rounded-2xl border px-4 py-3">
+                                <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-sky-600 text-sm font-semibold text-white">
+                                    {index + 1}
+                                </span>
+                                <div className="flex-1 text-sm">
+                                    <p className="font-semibold text-slate-800">
+                                        {formatJapaneseDate(night.date)}の夜・{night.prefecture}
+                                    </p>
+                                    <p className="mt-1 text-xs text-slate-500">
+                                        得点: {night.rankingScore} / 晴天率: {night.clearSkyProbability !== null ? `${night.clearSkyProbability}%` : night.isClearSky ? '晴れ' : '---'} / 暗夜: {night.darkHours.toFixed(1)}時間 / 月の輝面: {Math.round(night.moonIlluminatedFraction * 100)}%
+                                    </p>
+                                    <p className="mt-1 text-xs text-slate-500">
+                                        空室のある宿: {formatSampledHotelCount(night.sampledHotelCount)}
+                                    </p>
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => handleSelectNight(night)}
+                                    className="inline-flex shrink-0 items-center gap-1 rounded-full border border-sky-200 px-3 py-1.5 text-xs font-semibold text-sky-700 hover:bg-sky-50"
+                                >
+                                    <Sparkles className="h-3.5 w-3.5" />
+                                    宿を見る
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                ) : null}
+            </div>
+        </section>
+    );
+}
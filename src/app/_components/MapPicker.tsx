@@ -0,0 +1,64 @@
+'use client';
+
+import "leaflet/dist/leaflet.css";
+import { Circle, CircleMarker, MapContainer, TileLayer, useMapEvents } from "react-leaflet";
+
+export interface MapPoint {
+    latitude: number;
+    longitude: number;
+}
+
+interface MapPickerProps {
+    value: MapPoint | null;
+    /** ピンの周りに表示する宿の検索範囲 (km) */
+    radiusKm: number;
+    onChange: (point: MapPoint) => void;
+}
+
+// 本州中部を中心に日本全体が入る縮尺
+const INITIAL_CENTER: [number, number] = [36.2, 138.25];
+const INITIAL_ZOOM = 5;
+
+function roundCoordinate(value: number): number {
+    return Math.round(value * 100_000) / 100_000;
+}
+
+function ClickToPin({ onChange }: Pick<MapPickerProps, 'onChange'>) {
+    useMapEvents({
+        click(event) {
+            onChange({ latitude: roundCoordinate(event.latlng.lat), longitude: roundCoordinate(event.latlng.lng) });
+        },
+    });
+    return null;
+}
+
+export function MapPicker({ value, radiusKm, onChange }: MapPickerProps) {
+    return (
+        <MapContainer
+            center={value ? [value.latitude, value.longitude] : INITIAL_CENTER}
+            zoom={value ? 10 : INITIAL_ZOOM}
+            scrollWheelZoom
+            className="h-72 w-full overflow-hidden rounded-2xl border border-slate-200"
+        >
+            <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <ClickToPin onChange={onChange} />
+            {value ? (
+                <>
+                    <Circle
+                        center={[value.latitude, value.longitude]}
+                        radius={radiusKm * 1000}
+                        pathOptions={{ color: '#0284c7', weight: 1, fillOpacity: 0.1 }}
+                    />
+                    <CircleMarker
+                        center={[value.latitude, value.longitude]}
+                        radius={7}
+                        pathOptions={{ color: '#fff', weight: 2, fillColor: '#0284c7', fillOpacity: 1 }}
+                    />
+                </>
+            ) : null}
+        </MapContainer>
+    );
+}
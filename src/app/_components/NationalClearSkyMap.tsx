@@ -0,0 +1,221 @@
+'use client';
+
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { describeApiError } from "@/lib/api_errors";
+import { formatTileLabel, PREFECTURE_TILE_GRID_SIZE, PREFECTURE_TILES } from "@/lib/prefecture_tiles";
+
+interface PrefectureNightCondition {
+    prefecture: string;
+    isClearSky: boolean;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+    darkHours: number;
+    moonIlluminatedFraction: number;
+}
+
+// 星空指数の区切りと色 (高いほど濃い青)
+const SCORE_LEVELS = [
+    { min: 80, fill: '#1e3a8a', text: '#ffffff', label: '80以上' },
+    { min: 60, fill: '#2563eb', text: '#ffffff', label: '60〜79' },
+    { min: 40, fill: '#60a5fa', text: '#0f172a', label: '40〜59' },
+    { min: 20, fill: '#bfdbfe', text: '#0f172a', label: '20〜39' },
+    { min: 0, fill: '#e2e8f0', text: '#334155', label: '20未満' },
+];
+const NO_DATA_COLOR = { fill: '#f8fafc', text: '#94a3b8' };
+const TILE_SIZE = 52;
+const TILE_GAP = 4;
+
+function colorForScore(score: number | null): { fill: string; text: string } {
+    if (score === null) {
+        return NO_DATA_COLOR;
+    }
+    return SCORE_LEVELS.find((level) => score >= level.min) ?? NO_DATA_COLOR;
+}
+
+function listDates(start: string, end: string): string[] {
+    const dates: string[] = [];
+    const cursor = new Date(`${start}T00:00:00Z`);
+    while (cursor.toISOString().slice(0, 10) <= end) {
+        dates.push(cursor.toISOString().slice(0, 10));
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return dates;
+}
+
+function formatJapaneseDate(value: string): string {
+    const [year, month, day] = value.split('-').map((part) => Number.parseInt(part, 10));
+    return `${year}年${month}月${day}日`;
+}
+
+function buildSearchHref(prefecture: string, date: string): string {
+    return `/?${new URLSearchParams({ prefecture, date }).toString()}`;
+}
+
+/**
+ * 指定した夜の全国の星空指数を、都道府県のタイル地図で色分けして表示する
+ * 都道府県を選ぶと、その都道府県と日付を入れた検索画面に移る。
+ */
+export function NationalClearSkyMap() {
+    const [date, setDate] = useState<string | null>(null);
+    const [dateRange, setDateRange] = useState<{ start: string; end: string } | null>(null);
+    const [conditions, setConditions] = useState<PrefectureNightCondition[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        const fetchConditions = async () => {
+            try {
+                const query = date ? `?date=${encodeURIComponent(date)}` : '';
+                const response = await fetch(`/api/clear-sky/national${query}`, { signal: controller.signal });
+                const payload = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    throw new Error(describeApiError(payload, '全国の晴れ予報の取得に失敗しました'));
+                }
+
+                setConditions(Array.isArray(payload?.prefectures) ? payload.prefectures : []);
+                setNotice(payload?.availability === 'out_of_supported_range' && typeof payload?.message === 'string' ? payload.message : null);
+                if (typeof payload?.startDate === 'string' && typeof payload?.endDate === 'string') {
+                    setDateRange({ start: payload.startDate, end: payload.endDate });
+                }
+                if (!date && typeof payload?.date === 'string') {
+                    setDate(payload.date);
+                }
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    return;
+                }
+                setErrorMessage(error instanceof Error ? error.message : '全国の晴れ予報の取得に失敗しました');
+                setConditions([]);
+            } finally {
+                if (!controller.signal.aborted) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        fetchConditions();
+
+        return () => {
+            controller.abort();
+        };
+    }, [date]);
+
+    const dateOptions = useMemo(() => (dateRange ? listDates(dateRange.start, dateRange.end) : []), [dateRange]);
+    const conditionByPrefecture = useMemo(
+        () => new Map(conditions.map((condition) => [condition.prefecture, condition])),
+        [conditions],
+    );
+    const topPrefectures = useMemo(
+        () => conditions
+            .filter((condition) => condition.stargazingScore !== null)
+            .sort((a, b) => (b.stargazingScore ?? 0) - (a.stargazingScore ?? 0))
+            .slice(0, 5),
+        [conditions],
+    );
+
+    const width = PREFECTURE_TILE_GRID_SIZE.columns * (TILE_SIZE + TILE_GAP);
+    const height = PREFECTURE_TILE_GRID_SIZE.rows * (TILE_SIZE + TILE_GAP);
+
+    return (
+        <section className="mx-auto w-full max-w-4xl rounded-3xl border border-slate-200 bg-white/90 p-6 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-slate-800">全国の星空指数</h2>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                    夜の日付
+                    <select
+                        value={date ?? ''}
+                        onChange={(event: ChangeEvent<HTMLSelectElement>) => setDate(event.target.value)}
+                        disabled={dateOptions.length === 0}
+                        className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+                    >
+                        {dateOptions.map((option) => (
+                            <option key={option} value={option}>{formatJapaneseDate(option)}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {errorMessage && <p className="mt-4 rounded-lg bg-rose-50 px-4 py-2 text-sm text-rose-700">{errorMessage}</p>}
+            {notice && <p className="mt-4 rounded-lg bg-amber-50 px-4 py-2 text-sm text-amber-800">{notice}</p>}
+
+            <p className="mt-4 text-sm text-slate-600">
+                {isLoading ? '晴れ予報を取得中です…' : '都道府県を選ぶと、その日付で宿を探せます。'}
+            </p>
+
+            <div className="mt-4 overflow-x-auto">
+                <svg
+                    viewBox={`0 0 ${width} ${height}`}
+                    className={`mx-auto w-full max-w-3xl transition-opacity ${isLoading ? 'opacity-50' : ''}`}
+                    role="img"
+                    aria-label={date ? `${formatJapaneseDate(date)}の都道府県別の星空指数` : '都道府県別の星空指数'}
+                >
+                    {Object.entries(PREFECTURE_TILES).map(([prefecture, tile]) => {
+                        const condition = conditionByPrefecture.get(prefecture);
+                        const score = condition?.stargazingScore ?? null;
+                        const color = colorForScore(score);
+                        const x = tile.column * (TILE_SIZE + TILE_GAP);
+                        const y = tile.row * (TILE_SIZE + TILE_GAP);
+                        const description = score === null
+                            ? `${prefecture}: 予報なし`
+                            : `${prefecture}: 星空指数 ${score}${condition?.isClearSky ? ' (晴れ)' : ''}`;
+                        const tileContent = (
+                            <>
+                                <title>{description}</title>
+                                <rect x={x} y={y} width={TILE_SIZE} height={TILE_SIZE} rx={8} fill={color.fill} stroke="#cbd5e1" />
+                                <text x={x + TILE_SIZE / 2} y={y + 22} textAnchor="middle" fontSize={12} fill={color.text}>
+                                    {formatTileLabel(prefecture)}
+                                </text>
+                                <text x={x + TILE_SIZE / 2} y={y + 40} textAnchor="middle" fontSize={12} fontWeight="bold" fill={color.text}>
+                                    {score ?? '-'}
+                                </text>
+                            </>
+                        );
+                        return date ? (
+                            <a key={prefecture} href={buildSearchHref(prefecture, date)} aria-label={description}>
+                                {tileContent}
+                            </a>
+                        ) : (
+                            <g key={prefecture}>{tileContent}</g>
+                        );
+                    })}
+                </svg>
+            </div>
+
+            <ul className="mt-4 flex flex-wrap items-center justify-center gap-3 text-xs text-slate-600">
+                {SCORE_LEVELS.map((level) => (
+                    <li key={level.min} className="flex items-center gap-1">
+                        <span className="inline-block h-3 w-3 rounded-sm border border-slate-300" style={{ backgroundColor: level.fill }} />
+                        {level.label}
+                    </li>
+                ))}
+                <li className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-sm border border-slate-300" style={{ backgroundColor: NO_DATA_COLOR.fill }} />
+                    予報なし
+                </li>
+            </ul>
+
+            {date && topPrefectures.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="text-sm font-semibold text-slate-700">星空指数の高い都道府県</h3>
+                    <ol className="mt-2 flex flex-wrap gap-2">
+                        {topPrefectures.map((condition) => (
+                            <li key={condition.prefecture}>
+                                <a
+                                    href={buildSearchHref(condition.prefecture, date)}
+                                    className="inline-block rounded-full border border-sky-200 bg-sky-50 px-3 py-1 text-sm text-sky-700 hover:bg-sky-100"
+                                >
+                                    {condition.prefecture} ({condition.stargazingScore})
+                                </a>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { ChangeEvent, useEffect, useState } from "react";
+import { describeApiError } from "@/lib/api_errors";
+import { PREFECTURES } from "@/lib/prefectures";
+
+interface NewMoonNight {
+    date: string;
+    daysFromNewMoon: number;
+    darkHours: number;
+    milkyWayCoreHours: number;
+    clearNightRate: number | null;
+}
+
+interface MeteorShowerPeak {
+    name: string;
+    date: string;
+    zenithalHourlyRate: number;
+}
+
+interface NewMoonWindow {
+    newMoon: string;
+    date: string;
+    startDate: string;
+    endDate: string;
+    bestDate: string;
+    nights: NewMoonNight[];
+    meteorShowers: MeteorShowerPeak[];
+}
+
+const DEFAULT_PREFECTURE = '長野県';
+
+function formatMonthDay(value: string): string {
+    const [, month, day] = value.split('-').map((part) => Number.parseInt(part, 10));
+    return `${month}/${day}`;
+}
+
+function formatJapaneseMonth(value: string): string {
+    const [year, month] = value.split('-').map((part) => Number.parseInt(part, 10));
+    return `${year}年${month}月`;
+}
+
+function formatOffset(days: number): string {
+    if (days === 0) {
+        return '新月';
+    }
+    return days > 0 ? `+${days}日` : `${days}日`;
+}
+
+function buildSearchHref(prefecture: string, date: string): string {
+    return `/?${new URLSearchParams({ prefecture, date }).toString()}`;
+}
+
+/**
+ * 今後 12 か月の新月ごとに、前後 3 晩の暗夜の長さ・天の川・流星群・過去の晴れやすさを並べる
+ * 夜を選ぶと、その都道府県と日付を入れた検索画面に移る。
+ */
+export function NewMoonPlanner() {
+    const [prefecture, setPrefecture] = useState<string>(DEFAULT_PREFECTURE);
+    const [windows, setWindows] = useState<NewMoonWindow[]>([]);
+    const [climatologyPeriod, setClimatologyPeriod] = useState<{ startYear: number; endYear: number } | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        const fetchWindows = async () => {
+            try {
+                const response = await fetch(`/api/new-moons?prefecture=${encodeURIComponent(prefecture)}`, { signal: controller.signal });
+                const payload = await response.json().catch(() => ({}));
+                if (!response.ok) {
+                    throw new Error(describeApiError(payload, '新月の候補の取得に失敗しました'));
+                }
+
+                setWindows(Array.isArray(payload?.newMoons) ? payload.newMoons : []);
+                const period = payload?.climatologyPeriod;
+                setClimatologyPeriod(typeof period?.startYear === 'number' && typeof period?.endYear === 'number'
+                    ? { startYear: period.startYear, endYear: period.endYear }
+                    : null);
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    return;
+                }
+                setErrorMessage(error instanceof Error ? error.message : '新月の候補の取得に失敗しました');
+                setWindows([]);
+            } finally {
+                if (!controller.signal.aborted) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        fetchWindows();
+
+        return () => {
+            controller.abort();
+        };
+    }, [prefecture]);
+
+    return (
+        <section className="mx-auto w-full max-w-4xl rounded-3xl border border-slate-200 bg-white/90 p-6 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-slate-800">新月の前後の夜</h2>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                    行き先
+                    <select
+                        value={prefecture}
+                        onChange={(event: ChangeEvent<HTMLSelectElement>) => setPrefecture(event.target.value)}
+                        className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+                    >
+                        {PREFECTURES.map((option) => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {errorMessage && <p className="mt-4 rounded-lg bg-rose-50 px-4 py-2 text-sm text-rose-700">{errorMessage}</p>}
+
+            <p className="mt-4 text-sm text-slate-600">
+                {isLoading
+                    ? '新月の候補を計算中です…'
+                    : `晴れの割合は${climatologyPeriod ? `${climatologyPeriod.startYear}〜${climatologyPeriod.endYear}年の` : '過去の'}同じ時期の実績で、予報ではありません。夜を選ぶとその日付で宿を探せます。`}
+            </p>
+
+            <ol className={`mt-4 grid gap-4 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+                {windows.map((plan) => (
+                    <li key={plan.newMoon} className="rounded-2xl border border-slate-200 p-4">
+                        <div className="flex flex-wrap items-baseline justify-between gap-2">
+                            <h3 className="font-semibold text-slate-800">
+                                {formatJapaneseMonth(plan.date)}の新月 ({formatMonthDay(plan.date)})
+                            </h3>
+                            <a
+                                href={buildSearchHref(prefecture, plan.bestDate)}
+                                className="rounded-full bg-sky-600 px-3 py-1 text-xs font-semibold text-white hover:bg-sky-700"
+                            >
+                                おすすめの {formatMonthDay(plan.bestDate)} で宿を探す
+                            </a>
+                        </div>
+                        {plan.meteorShowers.length > 0 ? (
+                            <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+                                {plan.meteorShowers.map((peak) => (
+                                    <li key={peak.name} className="rounded-full bg-violet-50 px-2 py-0.5 text-violet-700">
+                                        {peak.name}の極大 {formatMonthDay(peak.date)} (1時間に約{peak.zenithalHourlyRate}個)
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : null}
+                        <ul className="mt-3 grid grid-cols-2 gap-2 text-xs sm:grid-cols-4 lg:grid-cols-7">
+                            {plan.nights.map((night) => (
+                                <li key={night.date}>
+                                    <a
+                                        href={buildSearchHref(prefecture, night.date)}
+                                        className={`block rounded-xl border px-2 py-2 hover:bg-sky-50 ${night.date === plan.bestDate ? 'border-sky-400 bg-sky-50' : 'border-slate-200'}`}
+                                    >
+                                        <span className="block font-semibold text-slate-700">
+                                            {formatMonthDay(night.date)} <span className="font-normal text-slate-400">{formatOffset(night.daysFromNewMoon)}</span>
+                                        </span>
+                                        <span className="block text-slate-600">暗夜 {night.darkHours.toFixed(1)}時間</span>
+                                        <span className="block text-slate-600">
+                                            天の川 {night.milkyWayCoreHours > 0 ? `${night.milkyWayCoreHours.toFixed(1)}時間` : '見えない'}
+                                        </span>
+                                        <span className="block text-slate-600">
+                                            晴れ {night.clearNightRate === null ? '-' : `${night.clearNightRate}%`}
+                                        </span>
+                                    </a>
+                                </li>
+                            ))}
+                        </ul>
+                    </li>
+                ))}
+            </ol>
+        </section>
+    );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+/** 夜の時間ごとの空の条件 (値がなければ null) */
+export interface NightTimelineHour {
+    /** 時刻 (ISO 8601) */
+    time: string;
+    cloudCover: number | null;
+    cloudCoverLow: number | null;
+    cloudCoverMid: number | null;
+    cloudCoverHigh: number | null;
+    /** 気温 (℃) */
+    temperature: number | null;
+    /** 風速 (km/h) */
+    windSpeed: number | null;
+    /** 相対湿度 (%) */
+    relativeHumidity: number | null;
+    /** 月の高度 (度)。地平線下なら負 */
+    moonAltitude: number;
+}
+
+interface NightTimelineStripProps {
+    timeline: NightTimelineHour[];
+    /** 表の見出し (「2月1日の夜」など) */
+    label: string;
+}
+
+type CloudLayer = 'cloudCoverLow' | 'cloudCoverMid' | 'cloudCoverHigh';
+
+const CLOUD_ROWS: Array<[CloudLayer, string]> = [
+    ['cloudCoverHigh', '上層雲'],
+    ['cloudCoverMid', '中層雲'],
+    ['cloudCoverLow', '下層雲'],
+];
+
+const hourFormatter = new Intl.DateTimeFormat('ja-JP', { hour: 'numeric', hour12: false, timeZone: 'Asia/Tokyo' });
+
+function formatHour(time: string): string {
+    return hourFormatter.format(new Date(time)).replace('時', '');
+}
+
+function formatValue(value: number | null): string {
+    return value === null ? '-' : String(Math.round(value));
+}
+
+/**
+ * 日の入りから日の出までの雲量 (層ごと)・気温・風・湿度・月の高度を、1 時間 1 列の帯グラフで並べる
+ * 雲は濃いほど空を覆い、月は地平線上にある時間を黄色で示す。
+ */
+export function NightTimelineStrip({ timeline, label }: NightTimelineStripProps) {
+    if (timeline.length === 0) {
+        return null;
+    }
+
+    const gridStyle = { gridTemplateColumns: `4rem repeat(${timeline.length}, minmax(1.75rem, 1fr))` };
+    const rowLabel = (text: string) => <div key={`label-${text}`} className="pr-2 text-right text-slate-500">{text}</div>;
+
+    return (
+        <figure className="overflow-x-auto">
+            <figcaption className="mb-1 text-xs font-semibold text-slate-600">{label}の時間ごとの予報</figcaption>
+            <div className="grid min-w-max gap-px text-[10px] leading-5 text-slate-700" style={gridStyle}>
+                {rowLabel('時刻')}
+                {timeline.map((hour) => (
+                    <div key={`time-${hour.time}`} className="text-center font-semibold text-slate-500">{formatHour(hour.time)}</div>
+                ))}
+
+                {CLOUD_ROWS.map(([layer, text]) => [
+                    rowLabel(text),
+                    ...timeline.map((hour) => {
+                        const cover = hour[layer];
+                        return (
+                            <div
+                                key={`${layer}-${hour.time}`}
+                                title={`${formatHour(hour.time)}時 ${text} ${cover === null ? '---' : `${Math.round(cover)}%`}`}
+                                className="h-5 rounded-sm"
+                                style={{ backgroundColor: cover === null ? '#f1f5f9' : `rgba(71, 85, 105, ${Math.min(Math.max(cover, 0), 100) / 100})` }}
+                            />
+                        );
+                    }),
+                ])}
+
+                {rowLabel('気温℃')}
+                {timeline.map((hour) => (
+                    <div key={`temperature-${hour.time}`} className="text-center">{formatValue(hour.temperature)}</div>
+                ))}
+
+                {rowLabel('風km/h')}
+                {timeline.map((hour) => (
+                    <div key={`wind-${hour.time}`} className="text-center">{formatValue(hour.windSpeed)}</div>
+                ))}
+
+                {rowLabel('湿度%')}
+                {timeline.map((hour) => (
+                    <div key={`humidity-${hour.time}`} className="text-center">{formatValue(hour.relativeHumidity)}</div>
+                ))}
+
+                {rowLabel('月高度°')}
+                {timeline.map((hour) => (
+                    <div
+                        key={`moon-${hour.time}`}
+                        className={`rounded-sm text-center ${hour.moonAltitude > 0 ? 'bg-amber-200 text-amber-900' : 'text-slate-400'}`}
+                    >
+                        {hour.moonAltitude > 0 ? Math.round(hour.moonAltitude) : '-'}
+                    </div>
+                ))}
+            </div>
+        </figure>
+    );
+}
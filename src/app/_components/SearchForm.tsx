@@ -1,32 +1,91 @@
 'use client';
 
-import { ChangeEvent, FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { ChangeEvent, ComponentProps, FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { DayPicker, type Matcher } from "react-day-picker";
+import { describeApiError } from "@/lib/api_errors";
+import { CLEAR_SKY_CONFIDENCE_LABELS, ClearSkyConfidence, isClearSkyConfidence } from "@/lib/clear_sky_confidence";
+import {
+    DEFAULT_GUESTS,
+    DEFAULT_MAX_RESULTS,
+    DEFAULT_ROOMS,
+    MAX_GUESTS,
+    MAX_GUESTS_PER_ROOM,
+    MAX_ROOMS,
+} from "@/lib/hotel_search_options";
+import { PREFECTURES } from "@/lib/prefectures";
+import { listStayNights, MAX_STAY_NIGHTS } from "@/lib/stay_dates";
+import type { MapPoint } from "./MapPicker";
 import { MoonDayButton } from "./MoonDayButton";
 
+// Leaflet は window を参照するのでクライアントでのみ読み込む
+const MapPicker = dynamic(() => import("./MapPicker").then((module) => module.MapPicker), {
+    ssr: false,
+    loading: () => <div className="h-72 w-full animate-pulse rounded-2xl bg-slate-100" />,
+});
+
+export type SearchLocation =
+    | { type: 'prefecture'; prefecture: string }
+    | { type: 'coordinates'; latitude: number; longitude: number; radiusKm: number; label: string };
+
+/** 泊まる人数と部屋数、表示する宿の件数と晴れの夜による絞り込み */
+export interface PartyOptions {
+    guests: number;
+    rooms: number;
+    maxResults: number;
+    /** true なら晴れの夜がない日程では宿を表示しない */
+    strictClearSky: boolean;
+}
+
 interface SearchFormProps {
-    onSearch: (year: string, month: string, day: string, prefecture: string) => void;
+    onSearch: (year: string, month: string, day: string, location: SearchLocation, nights: number, party: PartyOptions) => void;
+    /** 最初に選んでおく都道府県 (全国の晴れ予報の地図から来た場合など) */
+    initialPrefecture?: string;
+    /** 最初に選んでおくチェックイン日 (YYYY-MM-DD) */
+    initialDate?: string;
 }
 
+type LocationMode = 'prefecture' | 'map';
+
 interface WeatherWindowDay {
     date: string;
     isClearSky: boolean;
     weatherCode: number;
     temperatureMax: number;
     temperatureMin: number;
+    darkHours: number;
+    stargazingScore: number | null;
+    /** 複数の予報モデルによる晴れ予報の確度。モデルの予報がなければ null */
+    confidence: ClearSkyConfidence | null;
 }
 
-const prefectures = [
-    "北海道", "青森県", "岩手県", "宮城県", "秋田県", "山形県", "福島県",
-    "茨城県", "栃木県", "群馬県", "埼玉県", "千葉県", "東京都", "神奈川県",
-    "新潟県", "富山県", "石川県", "福井県", "山梨県", "長野県", "岐阜県",
-    "静岡県", "愛知県", "三重県", "滋賀県", "京都府", "大阪府", "兵庫県",
-    "奈良県", "和歌山県", "鳥取県", "島根県", "岡山県", "広島県", "山口県",
-    "徳島県", "香川県", "愛媛県", "高知県", "福岡県", "佐賀県", "長崎県",
-    "熊本県", "大分県", "宮崎県", "鹿児島県", "沖縄県",
-];
+/** 予報期間より先の夜の、過去の同じ時期に晴れた夜の割合 */
+interface ClimatologyDay {
+    date: string;
+    clearNightRate: number;
+}
+
+/** 選んだ都道府県に晴れの日がない場合に提案する、周辺の都道府県 */
+interface NeighborSuggestion {
+    prefecture: string;
+    driveDistanceKm: number;
+    driveMinutes: number;
+    clearDates: string[];
+}
 
 const CLEAR_DAY_MESSAGE = "選択された日は晴れではないため日付を再度選択してください。";
+const CLEAR_STAY_MESSAGE = "選択された日程には晴れの夜がないため日付を再度選択してください。";
+const CLOUDY_DATE_NOTICE = "選択された日程には晴れの予報がありません。宿は表示しますが、予報の変化にご注意ください。";
+
+const nightOptions = Array.from({ length: MAX_STAY_NIGHTS }, (_, index) => index + 1);
+// 3km を超える半径はサーバー側で範囲を分割して検索する (予約サイトの検索半径の上限が 3km)
+const RADIUS_OPTIONS_KM = [0.5, 1, 2, 3, 5];
+const roomOptions = Array.from({ length: MAX_ROOMS }, (_, index) => index + 1);
+const MAX_RESULTS_OPTIONS = [10, 30, 50, 100];
+
+function formatCoordinates({ latitude, longitude }: MapPoint): string {
+    return `北緯${latitude.toFixed(4)}° 東経${longitude.toFixed(4)}°`;
+}
 
 function formatIsoDate(date: Date): string {
     const year = date.getFullYear();
@@ -45,9 +104,29 @@ function formatJapaneseDate(value: string): string {
     return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`;
 }
 
-export function SearchForm({ onSearch }: SearchFormProps) {
-    const [selectedPrefecture, setSelectedPrefecture] = useState<string>('');
-    const [selectedDate, setSelectedDate] = useState<string>('');
+function formatMonthDay(value: string): string {
+    const date = parseIsoDate(value);
+    return `${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+function formatDriveDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return hours > 0 ? `${hours}時間${rest > 0 ? `${rest}分` : ''}` : `${rest}分`;
+}
+
+export function SearchForm({ onSearch, initialPrefecture = '', initialDate = '' }: SearchFormProps) {
+    const [locationMode, setLocationMode] = useState<LocationMode>('prefecture');
+    const [selectedPrefecture, setSelectedPrefecture] = useState<string>(initialPrefecture);
+    const [pinnedLocation, setPinnedLocation] = useState<MapPoint | null>(null);
+    const [pinnedAddress, setPinnedAddress] = useState<string | null>(null);
+    const [radiusKm, setRadiusKm] = useState<number>(3);
+    const [selectedDate, setSelectedDate] = useState<string>(initialDate);
+    const [selectedNights, setSelectedNights] = useState<number>(1);
+    const [guests, setGuests] = useState<number>(DEFAULT_GUESTS);
+    const [rooms, setRooms] = useState<number>(DEFAULT_ROOMS);
+    const [maxResults, setMaxResults] = useState<number>(DEFAULT_MAX_RESULTS);
+    const [strictClearSky, setStrictClearSky] = useState<boolean>(false);
     const [weatherWindow, setWeatherWindow] = useState<WeatherWindowDay[]>([]);
     const [dateRange, setDateRange] = useState<{ start: string | null; end: string | null }>({ start: null, end: null });
     const [isCalendarOpen, setIsCalendarOpen] = useState<boolean>(false);
@@ -55,22 +134,65 @@ export function SearchForm({ onSearch }: SearchFormProps) {
     const [weatherError, setWeatherError] = useState<string | null>(null);
     const [weatherNotice, setWeatherNotice] = useState<string | null>(null);
     const [annotation, setAnnotation] = useState<string | null>(null);
+    const [neighborSuggestions, setNeighborSuggestions] = useState<NeighborSuggestion[]>([]);
+    const [climatologyDays, setClimatologyDays] = useState<ClimatologyDay[]>([]);
+    const [climatologyPeriod, setClimatologyPeriod] = useState<{ startYear: number; endYear: number } | null>(null);
     const [validationMessage, setValidationMessage] = useState<string | null>(null);
 
     const weatherAbortControllerRef = useRef<AbortController | null>(null);
     const calendarContainerRef = useRef<HTMLDivElement | null>(null);
 
-    const allowedDateIsoList = useMemo(
+    const clearDateIsoList = useMemo(
         () => weatherWindow.filter((day) => day.isClearSky).map((day) => day.date),
         [weatherWindow],
     );
-    const allowedDateSet = useMemo(() => new Set(allowedDateIsoList), [allowedDateIsoList]);
-    const allowedDates = useMemo(() => allowedDateIsoList.map((iso) => parseIsoDate(iso)), [allowedDateIsoList]);
-    const fromDate = useMemo(() => (dateRange.start ? parseIsoDate(dateRange.start) : undefined), [dateRange.start]);
-    const toDate = useMemo(() => (dateRange.end ? parseIsoDate(dateRange.end) : undefined), [dateRange.end]);
+    // 連泊では宿泊中に 1 晩でも晴れの夜があればチェックイン日として選べる
+    const allowedDateIsoList = useMemo(() => {
+        const clearDateSet = new Set(clearDateIsoList);
+        return weatherWindow
+            .map((day) => day.date)
+            .filter((date) => listStayNights(date, selectedNights).some((night) => clearDateSet.has(night)));
+    }, [weatherWindow, clearDateIsoList, selectedNights]);
+    // strictClearSky でなければ、晴れの夜がない日も予報期間内なら選べる。予報期間より先の日は晴れの割合を見て選べる
+    const allowedDateSet = useMemo(
+        () => new Set([
+            ...(strictClearSky ? allowedDateIsoList : weatherWindow.map((day) => day.date)),
+            ...climatologyDays.map((day) => day.date),
+        ]),
+        [strictClearSky, allowedDateIsoList, weatherWindow, climatologyDays],
+    );
+    const climatologyRateByDate = useMemo(
+        () => new Map(climatologyDays.map((day) => [day.date, day.clearNightRate])),
+        [climatologyDays],
+    );
+    const clearStayDateSet = useMemo(() => new Set(allowedDateIsoList), [allowedDateIsoList]);
+    const clearDates = useMemo(() => clearDateIsoList.map((iso) => parseIsoDate(iso)), [clearDateIsoList]);
+    const unavailableDateMessage = selectedNights > 1 ? CLEAR_STAY_MESSAGE : CLEAR_DAY_MESSAGE;
+    const climatologyStart = climatologyDays[0]?.date ?? null;
+    const climatologyEnd = climatologyDays[climatologyDays.length - 1]?.date ?? null;
+    const fromDate = useMemo(() => {
+        const start = dateRange.start ?? climatologyStart;
+        return start ? parseIsoDate(start) : undefined;
+    }, [dateRange.start, climatologyStart]);
+    const toDate = useMemo(() => {
+        const end = [dateRange.end, climatologyEnd].filter((date): date is string => date !== null).sort().pop();
+        return end ? parseIsoDate(end) : undefined;
+    }, [dateRange.end, climatologyEnd]);
     const selectedDateObj = selectedDate ? parseIsoDate(selectedDate) : undefined;
-    const isSelectedDateSunny = selectedDate ? allowedDateSet.has(selectedDate) : false;
-    const hasSelectableDays = allowedDateIsoList.length > 0;
+    const isSelectedDateSunny = selectedDate ? clearStayDateSet.has(selectedDate) : false;
+    const isSelectedDateSelectable = selectedDate ? allowedDateSet.has(selectedDate) : false;
+    const selectedWeatherDay = useMemo(
+        () => weatherWindow.find((day) => day.date === selectedDate) ?? null,
+        [weatherWindow, selectedDate],
+    );
+    const hasSelectableDays = allowedDateSet.size > 0;
+    const locationQuery = useMemo(() => {
+        if (locationMode === 'prefecture') {
+            return selectedPrefecture ? `prefecture=${encodeURIComponent(selectedPrefecture)}` : null;
+        }
+        return pinnedLocation ? `latitude=${pinnedLocation.latitude}&longitude=${pinnedLocation.longitude}` : null;
+    }, [locationMode, selectedPrefecture, pinnedLocation]);
+    const hasLocation = locationQuery !== null;
 
     useEffect(() => {
         return () => {
@@ -99,7 +221,7 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         setWeatherNotice(null);
         setWeatherWindow([]);
         setDateRange({ start: null, end: null });
-        if (!selectedPrefecture) {
+        if (!locationQuery) {
             setIsFetchingWeather(false);
             return;
         }
@@ -111,13 +233,13 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         const fetchClearDays = async () => {
             try {
                 const response = await fetch(
-                    `/api/prefecture/clear-days?prefecture=${encodeURIComponent(selectedPrefecture)}`,
+                    `/api/prefecture/clear-days?${locationQuery}`,
                     { signal: controller.signal },
                 );
 
                 const payload = await response.json().catch(() => ({}));
                 if (!response.ok) {
-                    const message = typeof payload?.message === 'string' ? payload.message : '晴れ予報の取得に失敗しました';
+                    const message = describeApiError(payload, '晴れ予報の取得に失敗しました');
                     throw new Error(message);
                 }
 
@@ -136,6 +258,8 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                         const weatherCodeRaw = Number(record.weatherCode);
                         const temperatureMaxRaw = Number(record.temperatureMax);
                         const temperatureMinRaw = Number(record.temperatureMin);
+                        const darkHoursRaw = Number(record.darkHours);
+                        const agreement = record.forecastAgreement as Record<string, unknown> | null | undefined;
 
                         return {
                             date: dateValue,
@@ -143,6 +267,9 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                             weatherCode: Number.isFinite(weatherCodeRaw) ? weatherCodeRaw : Number.NaN,
                             temperatureMax: Number.isFinite(temperatureMaxRaw) ? temperatureMaxRaw : Number.NaN,
                             temperatureMin: Number.isFinite(temperatureMinRaw) ? temperatureMinRaw : Number.NaN,
+                            darkHours: Number.isFinite(darkHoursRaw) ? darkHoursRaw : Number.NaN,
+                            stargazingScore: typeof record.stargazingScore === 'number' ? record.stargazingScore : null,
+                            confidence: isClearSkyConfidence(agreement?.confidence) ? agreement.confidence : null,
                         } satisfies WeatherWindowDay;
                     })
                     .filter((day): day is WeatherWindowDay => day !== null)
@@ -179,19 +306,117 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         return () => {
             controller.abort();
         };
-    }, [selectedPrefecture]);
+    }, [locationQuery]);
+
+    // 選んだ都道府県の予報期間に晴れの日がなければ、晴れる周辺の都道府県を探す
+    const shouldSuggestNeighbors = locationMode === 'prefecture'
+        && selectedPrefecture !== ''
+        && !isFetchingWeather
+        && !weatherError
+        && weatherWindow.length > 0
+        && clearDateIsoList.length === 0;
+    useEffect(() => {
+        setNeighborSuggestions([]);
+        if (!shouldSuggestNeighbors) {
+            return;
+        }
+
+        const controller = new AbortController();
+        fetch(`/api/prefecture/neighbor-clear-days?prefecture=${encodeURIComponent(selectedPrefecture)}`, { signal: controller.signal })
+            .then((response) => (response.ok ? response.json() : null))
+            .then((payload) => {
+                if (controller.signal.aborted || !Array.isArray(payload?.suggestions)) {
+                    return;
+                }
+                const suggestions: unknown[] = payload.suggestions;
+                setNeighborSuggestions(suggestions
+                    .filter(isNeighborSuggestionPayload)
+                    .map((item) => ({
+                        prefecture: item.prefecture,
+                        driveDistanceKm: Number(item.driveDistanceKm),
+                        driveMinutes: Number(item.driveMinutes),
+                        clearDates: Array.isArray(item.clearDays)
+                            ? item.clearDays.map((day: { date?: unknown }) => day?.date).filter((date: unknown): date is string => typeof date === 'string')
+                            : [],
+                    })));
+            })
+            .catch(() => {
+                // 提案が取れなくても日付は選べるので無視する
+            });
+
+        return () => {
+            controller.abort();
+        };
+    }, [shouldSuggestNeighbors, selectedPrefecture]);
 
+    // 予報期間より先の日付は、過去の同じ時期に晴れた夜の割合をカレンダーに出す (都道府県ごとの集計しかない)
     useEffect(() => {
-        if (!selectedPrefecture || !selectedDate) {
+        setClimatologyDays([]);
+        setClimatologyPeriod(null);
+        if (locationMode !== 'prefecture' || !selectedPrefecture) {
+            return;
+        }
+
+        const controller = new AbortController();
+        fetch(`/api/prefecture/clear-night-climatology?prefecture=${encodeURIComponent(selectedPrefecture)}`, { signal: controller.signal })
+            .then((response) => (response.ok ? response.json() : null))
+            .then((payload) => {
+                if (controller.signal.aborted || !Array.isArray(payload?.days)) {
+                    return;
+                }
+                setClimatologyDays(payload.days.filter((day: unknown): day is ClimatologyDay => (
+                    typeof (day as ClimatologyDay | null)?.date === 'string'
+                    && typeof (day as ClimatologyDay).clearNightRate === 'number'
+                )));
+                const period = payload.period;
+                setClimatologyPeriod(typeof period?.startYear === 'number' && typeof period?.endYear === 'number'
+                    ? { startYear: period.startYear, endYear: period.endYear }
+                    : null);
+            })
+            .catch(() => {
+                // 晴れの割合が取れなくても予報期間内の日付は選べるので無視する
+            });
+
+        return () => {
+            controller.abort();
+        };
+    }, [locationMode, selectedPrefecture]);
+
+    useEffect(() => {
+        setPinnedAddress(null);
+        if (!pinnedLocation) {
+            return;
+        }
+
+        const controller = new AbortController();
+        const query = `latitude=${pinnedLocation.latitude}&longitude=${pinnedLocation.longitude}`;
+        fetch(`/api/reverse-geocode?${query}`, { signal: controller.signal })
+            .then((response) => (response.ok ? response.json() : null))
+            .then((payload) => {
+                if (!controller.signal.aborted && typeof payload?.address === 'string' && payload.address.length > 0) {
+                    setPinnedAddress(payload.address);
+                }
+            })
+            .catch(() => {
+                // 住所が取れなくても座標表示で検索できるので無視する
+            });
+
+        return () => {
+            controller.abort();
+        };
+    }, [pinnedLocation]);
+
+    useEffect(() => {
+        if (!hasLocation || !selectedDate) {
             setAnnotation(null);
             return;
         }
         if (!allowedDateSet.has(selectedDate)) {
-            setAnnotation(CLEAR_DAY_MESSAGE);
+            setAnnotation(unavailableDateMessage);
         } else {
             setAnnotation(null);
         }
-    }, [selectedPrefecture, selectedDate, allowedDateSet]);
+    }, [hasLocation, selectedDate, allowedDateSet, unavailableDateMessage]);
 
     useEffect(() => {
         if (selectedDate) {
@@ -200,10 +425,10 @@ export function SearchForm({ onSearch }: SearchFormProps) {
     }, [selectedDate]);
 
     useEffect(() => {
-        if (selectedPrefecture) {
+        if (hasLocation) {
             setValidationMessage(null);
         }
-    }, [selectedPrefecture]);
+    }, [hasLocation]);
 
     const disabledMatchers = useMemo(() => {
         const matchers: Matcher[] = [];
@@ -217,11 +442,31 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         return matchers;
     }, [fromDate, toDate, allowedDateSet]);
 
-    const modifiers = useMemo(() => ({ clear: allowedDates }), [allowedDates]);
+    // 晴れの日のうち、予報モデルどうしが一致している日とばらついている日を見分けられるようにする
+    const modifiers = useMemo(() => {
+        const clearDaysWithConfidence = weatherWindow.filter((day) => day.isClearSky && day.confidence !== null);
+        return {
+            climatology: climatologyDays.map((day) => parseIsoDate(day.date)),
+            clear: clearDates,
+            clearConfident: clearDaysWithConfidence
+                .filter((day) => day.confidence !== 'low')
+                .map((day) => parseIsoDate(day.date)),
+            clearUncertain: clearDaysWithConfidence
+                .filter((day) => day.confidence === 'low')
+                .map((day) => parseIsoDate(day.date)),
+        };
+    }, [clearDates, weatherWindow, climatologyDays]);
+    const DayButton = useCallback((props: ComponentProps<typeof MoonDayButton>) => {
+        const rate = props.day?.date instanceof Date ? climatologyRateByDate.get(formatIsoDate(props.day.date)) : undefined;
+        return <MoonDayButton {...props} caption={rate === undefined ? undefined : `${rate}%`} />;
+    }, [climatologyRateByDate]);
+    const selectedClimatologyRate = selectedDate ? climatologyRateByDate.get(selectedDate) ?? null : null;
 
     const calendarStatusMessage = useMemo(() => {
-        if (!selectedPrefecture) {
-            return '都道府県を選択すると晴れの日を確認できます。';
+        if (!hasLocation) {
+            return locationMode === 'prefecture'
+                ? '都道府県を選択すると晴れの日を確認できます。'
+                : '地図をクリックして地点を選ぶと晴れの日を確認できます。';
         }
         if (isFetchingWeather) {
             return '晴れ予報を取得中です…';
@@ -235,8 +480,11 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         if (!hasSelectableDays) {
             return '15日以内に晴れの予報が見つかりませんでした。';
         }
-        return '晴れの日だけ選択できます。';
-    }, [selectedPrefecture, isFetchingWeather, weatherError, weatherNotice, hasSelectableDays]);
+        if (!strictClearSky) {
+            return '晴れの日は青く表示されます。晴れでない日も選択できます。';
+        }
+        return selectedNights > 1 ? '宿泊中に晴れの夜がある日だけ選択できます。' : '晴れの日だけ選択できます。';
+    }, [hasLocation, locationMode, isFetchingWeather, weatherError, weatherNotice, hasSelectableDays, selectedNights, strictClearSky]);
 
     const calendarStatusClass = useMemo(() => {
         if (weatherError) {
@@ -245,31 +493,57 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         if (weatherNotice) {
             return 'text-amber-600';
         }
-        if (!selectedPrefecture || isFetchingWeather) {
+        if (!hasLocation || isFetchingWeather) {
             return 'text-slate-500';
         }
         if (!hasSelectableDays) {
             return 'text-amber-600';
         }
         return 'text-slate-500';
-    }, [weatherError, weatherNotice, selectedPrefecture, isFetchingWeather, hasSelectableDays]);
+    }, [weatherError, weatherNotice, hasLocation, isFetchingWeather, hasSelectableDays]);
 
-    const handlePrefectureChange = (event: ChangeEvent<HTMLSelectElement>) => {
-        const value = event.target.value;
-        setSelectedPrefecture(value);
+    const resetDateSelection = () => {
         setSelectedDate('');
         setAnnotation(null);
         setValidationMessage(null);
         setIsCalendarOpen(false);
     };
 
+    const handlePrefectureChange = (event: ChangeEvent<HTMLSelectElement>) => {
+        const value = event.target.value;
+        setSelectedPrefecture(value);
+        resetDateSelection();
+    };
+
+    const handleLocationModeChange = (mode: LocationMode) => {
+        setLocationMode(mode);
+        resetDateSelection();
+    };
+
+    const handleMapPin = (point: MapPoint) => {
+        setPinnedLocation(point);
+        resetDateSelection();
+    };
+
+    const handleNightsChange = (event: ChangeEvent<HTMLSelectElement>) => {
+        setSelectedNights(Number.parseInt(event.target.value, 10));
+    };
+
+    const handleGuestsChange = (event: ChangeEvent<HTMLInputElement>) => {
+        const parsed = Number.parseInt(event.target.value, 10);
+        const nextGuests = Number.isNaN(parsed) ? 1 : Math.min(MAX_GUESTS, Math.max(1, parsed));
+        setGuests(nextGuests);
+        // 1 室に 1 人以上、MAX_GUESTS_PER_ROOM 人以下になるよう部屋数を合わせる
+        setRooms((current) => Math.min(nextGuests, MAX_ROOMS, Math.max(current, Math.ceil(nextGuests / MAX_GUESTS_PER_ROOM))));
+    };
+
     const handleDaySelect = (day: Date | undefined) => {
         if (!day) {
             return;
         }
         const iso = formatIsoDate(day);
         if (!allowedDateSet.has(iso)) {
-            setAnnotation(CLEAR_DAY_MESSAGE);
+            setAnnotation(unavailableDateMessage);
             return;
         }
         setSelectedDate(iso);
@@ -281,8 +555,8 @@ export function SearchForm({ onSearch }: SearchFormProps) {
     const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
         event.preventDefault();
 
-        if (!selectedPrefecture) {
-            setValidationMessage('都道府県を選択してください。');
+        if (!hasLocation) {
+            setValidationMessage(locationMode === 'prefecture' ? '都道府県を選択してください。' : '地図で地点を選択してください。');
             return;
         }
 
@@ -294,7 +568,7 @@ export function SearchForm({ onSearch }: SearchFormProps) {
 
         if (!allowedDateSet.has(selectedDate)) {
             setValidationMessage(null);
-            setAnnotation(CLEAR_DAY_MESSAGE);
+            setAnnotation(unavailableDateMessage);
             setIsCalendarOpen(true);
             return;
         }
@@ -304,7 +578,10 @@ export function SearchForm({ onSearch }: SearchFormProps) {
 
         const [year, month, day] = selectedDate.split('-');
         if (year && month && day) {
-            onSearch(year, String(Number(month)), String(Number(day)), selectedPrefecture);
+            const location: SearchLocation = locationMode === 'map' && pinnedLocation
+                ? { type: 'coordinates', ...pinnedLocation, radiusKm, label: pinnedAddress ?? formatCoordinates(pinnedLocation) }
+                : { type: 'prefecture', prefecture: selectedPrefecture };
+            onSearch(year, String(Number(month)), String(Number(day)), location, selectedNights, { guests, rooms, maxResults, strictClearSky });
         }
     };
 
@@ -314,25 +591,69 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                 <h2 className="text-center text-lg font-semibold">星空観察 宿泊施設検索</h2>
                 <form className="mt-6 grid gap-6" onSubmit={handleSubmit}>
 
-                    <label className="grid gap-2 text-sm font-medium text-slate-700">
-                        <span>都道府県</span>
-                        <select
-                            name="prefecture"
-                            required
-                            value={selectedPrefecture}
-                            onChange={handlePrefectureChange}
-                            className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
-                        >
-                            <option value="" disabled>
-                                都道府県を選択
-                            </option>
-                            {prefectures.map((prefecture) => (
-                                <option key={prefecture} value={prefecture}>
-                                    {prefecture}
+                    <div className="flex gap-2 text-xs font-semibold">
+                        {([
+                            ['prefecture', '都道府県で探す'],
+                            ['map', '地図で地点を指定'],
+                        ] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                type="button"
+                                aria-pressed={locationMode === mode}
+                                onClick={() => handleLocationModeChange(mode)}
+                                className={`rounded-full px-3 py-1.5 transition-colors ${locationMode === mode ? 'bg-sky-100 text-sky-800' : 'text-slate-500 hover:bg-slate-50'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {locationMode === 'map' ? (
+                        <div className="grid gap-2 text-sm font-medium text-slate-700">
+                            <span>検索地点</span>
+                            <MapPicker value={pinnedLocation} radiusKm={radiusKm} onChange={handleMapPin} />
+                            <p className="text-xs font-normal text-slate-500">
+                                {pinnedLocation
+                                    ? `${pinnedAddress ?? formatCoordinates(pinnedLocation)} (${formatCoordinates(pinnedLocation)})`
+                                    : '地図をクリックして星を見たい地点を選んでください。'}
+                            </p>
+                            <label className="grid gap-2">
+                                <span>宿の検索半径</span>
+                                <select
+                                    name="radius"
+                                    value={radiusKm}
+                                    onChange={(event) => setRadiusKm(Number(event.target.value))}
+                                    className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                                >
+                                    {RADIUS_OPTIONS_KM.map((option) => (
+                                        <option key={option} value={option}>
+                                            {option}km{option > 3 ? ' (範囲を分けて検索)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    ) : (
+                        <label className="grid gap-2 text-sm font-medium text-slate-700">
+                            <span>都道府県</span>
+                            <select
+                                name="prefecture"
+                                required
+                                value={selectedPrefecture}
+                                onChange={handlePrefectureChange}
+                                className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                            >
+                                <option value="" disabled>
+                                    都道府県を選択
                                 </option>
-                            ))}
-                        </select>
-                    </label>
+                                {PREFECTURES.map((prefecture) => (
+                                    <option key={prefecture} value={prefecture}>
+                                        {prefecture}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
 
                     <label className="grid gap-2 text-sm font-medium text-slate-700">
                         <span>日付</span>
@@ -342,19 +663,19 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                                 name="date-display"
                                 readOnly
                                 value={selectedDate ? formatJapaneseDate(selectedDate) : ''}
-                                placeholder={selectedPrefecture ? '晴れの日を選択してください' : '先に都道府県を選択してください'}
+                                placeholder={hasLocation ? '晴れの日を選択してください' : '先に検索地点を選択してください'}
                                 onFocus={() => {
-                                    if (selectedPrefecture) {
+                                    if (hasLocation) {
                                         setIsCalendarOpen(true);
                                     }
                                 }}
                                 onClick={() => {
-                                    if (selectedPrefecture) {
+                                    if (hasLocation) {
                                         setIsCalendarOpen(true);
                                     }
                                 }}
                                 className="w-full cursor-pointer rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100 disabled:cursor-not-allowed disabled:bg-slate-100"
-                                disabled={!selectedPrefecture}
+                                disabled={!hasLocation}
                                 aria-haspopup="dialog"
                                 aria-expanded={isCalendarOpen}
                                 aria-controls="date-picker-popover"
@@ -374,15 +695,70 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                                         disabled={disabledMatchers}
                                         modifiers={modifiers}
                                         modifiersStyles={{
+                                            climatology: { color: '#64748b' },
                                             clear: { backgroundColor: '#eff6ff', color: '#0369a1' },
+                                            clearConfident: { backgroundColor: '#bae6fd', color: '#075985', fontWeight: 700 },
+                                            clearUncertain: { backgroundColor: '#f8fafc', color: '#0369a1', outline: '1px dashed #7dd3fc', outlineOffset: '-3px' },
                                             selected: { backgroundColor: '#0284c7', color: '#fff' },
                                         }}
-                                        components={{ DayButton: MoonDayButton }}
+                                        components={{ DayButton }}
                                         showOutsideDays={false}
                                     />
+                                    <ul className="mt-2 flex flex-wrap gap-3 px-2 text-[11px] font-normal text-slate-500">
+                                        <li className="flex items-center gap-1">
+                                            <span className="inline-block h-3 w-3 rounded-sm bg-sky-200" />
+                                            晴れ (予報が一致)
+                                        </li>
+                                        <li className="flex items-center gap-1">
+                                            <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-sky-300 bg-slate-50" />
+                                            晴れ (予報にばらつき)
+                                        </li>
+                                        {climatologyDays.length > 0 ? (
+                                            <li>%: 予報期間より先の日の、過去に晴れた夜の割合</li>
+                                        ) : null}
+                                    </ul>
                                 </div>
                             ) : null}
                         </div>
+                        {isSelectedDateSunny && selectedWeatherDay && Number.isFinite(selectedWeatherDay.darkHours) ? (
+                            <p className="text-xs text-slate-500">
+                                月明かりのない暗夜: {selectedWeatherDay.darkHours.toFixed(1)}時間
+                                {selectedWeatherDay.stargazingScore !== null ? ` / 星空指数: ${selectedWeatherDay.stargazingScore}` : ''}
+                                {selectedWeatherDay.confidence !== null ? ` / 晴れ予報の${CLEAR_SKY_CONFIDENCE_LABELS[selectedWeatherDay.confidence]}` : ''}
+                            </p>
+                        ) : null}
+                        {selectedClimatologyRate !== null ? (
+                            <p className="text-xs text-slate-500">
+                                予報期間より先の日付です。
+                                {climatologyPeriod ? `${climatologyPeriod.startYear}〜${climatologyPeriod.endYear}年の` : '過去の'}
+                                この時期に晴れた夜の割合: {selectedClimatologyRate}%
+                            </p>
+                        ) : null}
+                        {neighborSuggestions.length > 0 ? (
+                            <div className="grid gap-2 rounded-2xl border border-sky-100 bg-sky-50 px-4 py-3 text-xs font-normal text-sky-900">
+                                <p>近くの晴れる都道府県:</p>
+                                <ul className="grid gap-1">
+                                    {neighborSuggestions.map((suggestion) => (
+                                        <li key={suggestion.prefecture}>
+                                            <button
+                                                type="button"
+                                                onClick={() => {
+                                                    setSelectedPrefecture(suggestion.prefecture);
+                                                    resetDateSelection();
+                                                }}
+                                                className="text-left underline decoration-sky-300 underline-offset-2 hover:text-sky-700"
+                                            >
+                                                {suggestion.prefecture} (車で約{formatDriveDuration(suggestion.driveMinutes)}・約{suggestion.driveDistanceKm}km)
+                                                {suggestion.clearDates.length > 0 ? ` 晴れ: ${suggestion.clearDates.map(formatMonthDay).join('、')}` : ''}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ) : null}
+                        {isSelectedDateSelectable && !isSelectedDateSunny && selectedWeatherDay ? (
+                            <p className="text-xs text-amber-600">{CLOUDY_DATE_NOTICE}</p>
+                        ) : null}
                         {annotation ? (
                             <p className="text-xs text-rose-500">{annotation}</p>
                         ) : null}
@@ -394,10 +770,87 @@ export function SearchForm({ onSearch }: SearchFormProps) {
                         ) : null}
                     </label>
 
+                    <label className="grid gap-2 text-sm font-medium text-slate-700">
+                        <span>泊数</span>
+                        <select
+                            name="nights"
+                            value={selectedNights}
+                            onChange={handleNightsChange}
+                            className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                        >
+                            {nightOptions.map((nights) => (
+                                <option key={nights} value={nights}>
+                                    {nights}泊
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                        <label className="grid gap-2 text-sm font-medium text-slate-700">
+                            <span>人数 (大人)</span>
+                            <input
+                                type="number"
+                                name="guests"
+                                min={1}
+                                max={MAX_GUESTS}
+                                value={guests}
+                                onChange={handleGuestsChange}
+                                className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                            />
+                        </label>
+                        <label className="grid gap-2 text-sm font-medium text-slate-700">
+                            <span>部屋数</span>
+                            <select
+                                name="rooms"
+                                value={rooms}
+                                onChange={(event) => setRooms(Number.parseInt(event.target.value, 10))}
+                                className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                            >
+                                {roomOptions
+                                    .filter((option) => option <= guests && guests <= option * MAX_GUESTS_PER_ROOM)
+                                    .map((option) => (
+                                        <option key={option} value={option}>
+                                            {option}室 (1室{Math.ceil(guests / option)}名まで)
+                                        </option>
+                                    ))}
+                            </select>
+                        </label>
+                        <label className="grid gap-2 text-sm font-medium text-slate-700">
+                            <span>表示件数</span>
+                            <select
+                                name="maxResults"
+                                value={maxResults}
+                                onChange={(event) => setMaxResults(Number.parseInt(event.target.value, 10))}
+                                className="rounded-full border border-slate-200 px-4 py-2 text-sm outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                            >
+                                {MAX_RESULTS_OPTIONS.map((option) => (
+                                    <option key={option} value={option}>
+                                        最大{option}件
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            name="strictClearSky"
+                            checked={strictClearSky}
+                            onChange={(event) => {
+                                setStrictClearSky(event.target.checked);
+                                resetDateSelection();
+                            }}
+                            className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                        />
+                        <span>晴れの夜がある日程だけで探す</span>
+                    </label>
+
                     <button
                         type="submit"
                         className="w-full rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
-                        disabled={!selectedPrefecture || isFetchingWeather || (!isSelectedDateSunny && !!selectedDate)}
+                        disabled={!hasLocation || isFetchingWeather || (!isSelectedDateSelectable && !!selectedDate)}
                     >
                         星空観察に適した宿を検索
                     </button>
@@ -406,3 +859,7 @@ export function SearchForm({ onSearch }: SearchFormProps) {
         </section>
     );
 }
+
+function isNeighborSuggestionPayload(item: unknown): item is Record<string, unknown> & { prefecture: string } {
+    return typeof item === 'object' && item !== null && typeof (item as { prefecture?: unknown }).prefecture === 'string';
+}
@@ -1,11 +1,53 @@
+'use client';
+
 import { Search } from "lucide-react";
+import { AccommodationSortOrder, DEFAULT_LIGHT_POLLUTION_VIEW, LIGHT_POLLUTION_LEVELS, LightPollutionLevel, LightPollutionView } from "@/lib/light_pollution";
+import { listSectionWarnings, SearchSectionStatuses } from "@/lib/search_sections";
 import { Accommodation, AccommodationCard } from "./AccommodationCard";
+import { NightTimelineHour, NightTimelineStrip } from "./NightTimelineStrip";
 
 interface SearchParams {
     year: string;
     month: string;
     day: string;
+    /** 検索地点の表示名 (都道府県名または住所) */
+    locationLabel: string;
+    nights: number;
+    guests: number;
+    rooms: number;
+}
+
+export interface NightWeather {
+    date: string;
+    isClearSky: boolean;
+    temperatureMax: number;
+    temperatureMin: number;
+    timezone: string;
+    darkHours: number;
+    stargazingScore: number | null;
+    /** 月の輝面比 (0〜1) */
+    moonIlluminatedFraction: number;
+    moonrise: string | null;
+    moonset: string | null;
+    /** 日の入りから日の出までの時間ごとの予報 */
+    timeline: NightTimelineHour[];
+}
+
+/** 宿泊中に晴れの夜がない場合に提案する、近い日付の晴れの夜 */
+export interface ClearNightSuggestion {
+    date: string;
+    /** 指定日から何日ずれているか (前なら負) */
+    daysFromDate: number;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+}
+
+/** 宿泊中に晴れの夜がない場合に提案する、同じ夜に晴れる近くの都道府県 */
+export interface ClearPrefectureSuggestion {
     prefecture: string;
+    distanceKm: number;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
 }
 
 interface SearchResultsProps {
@@ -14,15 +56,29 @@ interface SearchResultsProps {
     searchParams: SearchParams | null;
     errorMessage?: string | null;
     resolvedAddress?: string | null;
-    weather?: {
-        date: string;
-        isClearSky: boolean;
-        temperatureMax: number;
-        temperatureMin: number;
-        timezone: string;
-    } | null;
+    weather?: NightWeather | null;
+    /** 宿泊する各夜の天気 (連泊時) */
+    nights?: NightWeather[];
+    bestNight?: string | null;
+    /** 宿を探した星空観察地の名前 */
+    siteNames?: string[];
+    /** 検索結果の総件数 (ページ分割で未表示の分も含む) */
+    totalCount?: number;
+    /** 住所・天気・宿それぞれの取得状況。取得できなかった部分は注意書きを出す */
+    sections?: Partial<SearchSectionStatuses>;
+    nearestClearNights?: ClearNightSuggestion[];
+    nearbyClearPrefectures?: ClearPrefectureSuggestion[];
+    /** 続きの検索結果があるか */
+    hasMore?: boolean;
+    isLoadingMore?: boolean;
+    onLoadMore?: () => void;
+    /** 光害の絞り込みと並び順。検索結果の全件に対して API 側で適用する */
+    lightPollutionView?: LightPollutionView;
+    onChangeLightPollutionView?: (view: LightPollutionView) => void;
 }
 
+const timeFormatter = new Intl.DateTimeFormat('ja-JP', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Tokyo' });
+
 export function SearchResults({
     accommodations,
     isLoading,
@@ -30,8 +86,62 @@ export function SearchResults({
     errorMessage,
     resolvedAddress,
     weather,
+    nights = [],
+    bestNight = null,
+    siteNames = [],
+    totalCount,
+    sections,
+    nearestClearNights = [],
+    nearbyClearPrefectures = [],
+    hasMore = false,
+    isLoadingMore = false,
+    onLoadMore,
+    lightPollutionView = DEFAULT_LIGHT_POLLUTION_VIEW,
+    onChangeLightPollutionView,
 }: SearchResultsProps) {
+    const { maxLightPollution, sortOrder } = lightPollutionView;
+
     const formatTemperature = (value: number) => (Number.isFinite(value) ? `${Math.round(value)}℃` : '---');
+    const formatDarkHours = (value: number) => (Number.isFinite(value) ? `${value.toFixed(1)}時間` : '---');
+    const formatIllumination = (value: number) => (Number.isFinite(value) ? `${Math.round(value * 100)}%` : '---');
+    const formatTime = (value: string | null) => (value ? timeFormatter.format(new Date(value)) : '---');
+    const formatNightDate = (value: string) => {
+        const [, month, day] = value.split('-');
+        return month && day ? `${Number(month)}月${Number(day)}日` : value;
+    };
+    // 連泊なら各夜、1 泊ならチェックイン日の夜の時間ごとの予報を表示する
+    const timelineNights = (nights.length > 1 ? nights : weather ? [weather] : []).filter((night) => night.timeline.length > 0);
+    const sectionWarnings = listSectionWarnings(sections);
+    const warningList = sectionWarnings.length > 0 ? (
+        <ul className="space-y-1 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-left text-xs text-amber-800">
+            {sectionWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+            ))}
+        </ul>
+    ) : null;
+    const isCloudyStay = weather !== null && weather !== undefined && !bestNight && !weather.isClearSky;
+    const formatShift = (days: number) => (days > 0 ? `${days}日後` : `${-days}日前`);
+    const clearAlternatives = nearestClearNights.length > 0 || nearbyClearPrefectures.length > 0 ? (
+        <div className="space-y-1 rounded-2xl border border-sky-100 bg-sky-50 px-4 py-3 text-left text-xs text-sky-900">
+            {nearestClearNights.length > 0 ? (
+                <p>
+                    近くの晴れの夜: {nearestClearNights
+                        .map((night) => `${formatNightDate(night.date)} (${formatShift(night.daysFromDate)}${night.stargazingScore !== null ? `・星空指数 ${night.stargazingScore}` : ''})`)
+                        .join(' / ')}
+                </p>
+            ) : null}
+            {nearbyClearPrefectures.length > 0 ? (
+                <p>
+                    同じ夜に晴れる近くの都道府県: {nearbyClearPrefectures
+                        .map((suggestion) => `${suggestion.prefecture} (約${suggestion.distanceKm}km)`)
+                        .join(' / ')}
+                </p>
+            ) : null}
+        </div>
+    ) : null;
+    const stayLabel = searchParams
+        ? `${searchParams.year}年${searchParams.month}月${searchParams.day}日${searchParams.nights > 1 ? `から${searchParams.nights}泊` : ''}(${searchParams.guests}名・${searchParams.rooms}室)`
+        : '';
     if (!searchParams) {
         return (
             <section className="mx-auto mt-10 w-full max-w-4xl">
@@ -77,20 +187,29 @@ export function SearchResults({
         );
     }
 
-    if (accommodations.length === 0) {
+    // 光害で絞り込んだ結果が 0 件の場合は、条件を緩められるよう絞り込みの欄を残す
+    if (accommodations.length === 0 && maxLightPollution === null) {
         return (
             <section className="mx-auto mt-10 w-full max-w-4xl">
                 <div className="rounded-3xl border bg-white px-6 py-12 text-center shadow-sm">
                     <Search className="mx-auto h-12 w-12 text-slate-400" />
-                    <h3 className="mt-4 text-lg font-semibold">該当する宿泊施設が見つかりませんでした</h3>
-                    <p className="mt-2 text-sm text-slate-500">
-                        {searchParams.year}年{searchParams.month}月{searchParams.day}日の{searchParams.prefecture}で、星空観察に適した宿泊施設は見つかりませんでした。
-                    </p>
-                    {weather && !weather.isClearSky ? (
+                    <h3 className="mt-4 text-lg font-semibold">
+                        {sections?.accommodations === 'unavailable' ? '宿泊施設を検索できませんでした' : '該当する宿泊施設が見つかりませんでした'}
+                    </h3>
+                    {sections?.accommodations === 'unavailable' ? null : (
+                        <p className="mt-2 text-sm text-slate-500">
+                            {stayLabel}の{searchParams.locationLabel}で、星空観察に適した宿泊施設は見つかりませんでした。
+                        </p>
+                    )}
+                    {warningList ? <div className="mx-auto mt-4 max-w-xl">{warningList}</div> : null}
+                    {weather && !bestNight && !weather.isClearSky ? (
                         <p className="mt-4 text-sm text-slate-500">
-                            指定日の天気が晴れではないため、表示できる宿泊施設がありません。
+                            {searchParams.nights > 1
+                                ? '宿泊期間中に晴れの夜がないため、表示できる宿泊施設がありません。'
+                                : '指定日の天気が晴れではないため、表示できる宿泊施設がありません。'}
                         </p>
                     ) : null}
+                    {clearAlternatives ? <div className="mx-auto mt-4 max-w-xl">{clearAlternatives}</div> : null}
                     {resolvedAddress ? (
                         <p className="mt-2 text-xs text-slate-400">検索地点: {resolvedAddress}</p>
                     ) : null}
@@ -103,24 +222,112 @@ export function SearchResults({
         <section className="mx-auto mt-10 w-full max-w-6xl">
             <header className="mb-6 space-y-2">
                 <h2 className="text-xl font-semibold">検索結果</h2>
+                {warningList}
+                {isCloudyStay ? (
+                    <p className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+                        {searchParams.nights > 1 ? '宿泊期間中に晴れの予報の夜がありません。' : '指定日の夜は晴れの予報ではありません。'}
+                        宿の一覧は表示していますが、予約前に最新の予報をご確認ください。
+                    </p>
+                ) : null}
+                {clearAlternatives}
                 <p className="mt-1 text-sm text-slate-500">
-                    {searchParams.year}年{searchParams.month}月{searchParams.day}日の{searchParams.prefecture}で見つかった星空観察に適した宿泊施設 ({accommodations.length}件)
+                    {stayLabel}の{searchParams.locationLabel}で見つかった星空観察に適した宿泊施設 ({totalCount ?? accommodations.length}件)
                 </p>
                 {resolvedAddress ? (
                     <p className="text-xs text-slate-400">検索地点: {resolvedAddress}</p>
                 ) : null}
+                {siteNames.length > 0 ? (
+                    <p className="text-xs text-slate-400">周辺を探した星空スポット: {siteNames.join(' / ')}</p>
+                ) : null}
                 {weather ? (
                     <p className="text-xs text-slate-400">
-                        天気: {weather.isClearSky ? '晴れの予報' : '晴れではない予報'} / 最高{formatTemperature(weather.temperatureMax)}・最低{formatTemperature(weather.temperatureMin)}
+                        天気: {weather.isClearSky ? '晴れの予報' : '晴れではない予報'} / 最高{formatTemperature(weather.temperatureMax)}・最低{formatTemperature(weather.temperatureMin)} / 月明かりのない暗夜: {formatDarkHours(weather.darkHours)} / 星空指数: {weather.stargazingScore ?? '---'}
                     </p>
                 ) : null}
+                {nights.length > 1 ? (
+                    <ul className="mt-3 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                        {nights.map((night) => (
+                            <li
+                                key={night.date}
+                                className={`rounded-2xl border px-4 py-3 text-xs ${night.date === bestNight ? 'border-sky-300 bg-sky-50 text-sky-900' : 'bg-white text-slate-600'}`}
+                            >
+                                <div className="flex items-center justify-between font-semibold">
+                                    <span>{formatNightDate(night.date)}の夜</span>
+                                    {night.date === bestNight ? (
+                                        <span className="rounded-full bg-sky-600 px-2 py-0.5 text-[10px] text-white">ベストナイト</span>
+                                    ) : null}
+                                </div>
+                                <p className="mt-1">
+                                    {night.isClearSky ? '晴れ' : '晴れではない'} / 星空指数: {night.stargazingScore ?? '---'} / 暗夜: {formatDarkHours(night.darkHours)}
+                                </p>
+                                <p className="mt-1 text-slate-400">
+                                    月の輝面: {formatIllumination(night.moonIlluminatedFraction)} / 月の出 {formatTime(night.moonrise)}・月の入り {formatTime(night.moonset)}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                ) : null}
+                {timelineNights.length > 0 ? (
+                    <div className="mt-3 space-y-3 rounded-2xl border border-slate-100 bg-white px-4 py-3">
+                        {timelineNights.map((night) => (
+                            <NightTimelineStrip key={night.date} timeline={night.timeline} label={`${formatNightDate(night.date)}の夜`} />
+                        ))}
+                    </div>
+                ) : null}
+                <div className="flex flex-wrap gap-3 pt-2 text-xs text-slate-600">
+                    <label className="flex items-center gap-2">
+                        <span>光害</span>
+                        <select
+                            value={maxLightPollution ?? ''}
+                            onChange={(event) => onChangeLightPollutionView?.({ ...lightPollutionView, maxLightPollution: (event.target.value || null) as LightPollutionLevel | null })}
+                            className="rounded-full border border-slate-200 px-3 py-1 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                        >
+                            <option value="">すべて</option>
+                            {LIGHT_POLLUTION_LEVELS.slice(0, -1).map((level) => (
+                                <option key={level} value={level}>
+                                    {level === LIGHT_POLLUTION_LEVELS[0] ? `${level}のみ` : `${level}以下`}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <span>並び順</span>
+                        <select
+                            value={sortOrder}
+                            onChange={(event) => onChangeLightPollutionView?.({ ...lightPollutionView, sortOrder: event.target.value as AccommodationSortOrder })}
+                            className="rounded-full border border-slate-200 px-3 py-1 outline-none focus:border-sky-500 focus:ring-2 focus:ring-sky-100"
+                        >
+                            <option value="recommended">おすすめ順</option>
+                            <option value="light-pollution">光害の少ない順</option>
+                        </select>
+                    </label>
+                </div>
             </header>
 
-            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-                {accommodations.map((accommodation) => (
-                    <AccommodationCard key={accommodation.id} accommodation={accommodation} />
-                ))}
-            </div>
+            {accommodations.length > 0 ? (
+                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                    {accommodations.map((accommodation) => (
+                        <AccommodationCard key={accommodation.id} accommodation={accommodation} />
+                    ))}
+                </div>
+            ) : (
+                <p className="rounded-3xl border bg-white px-6 py-12 text-center text-sm text-slate-500 shadow-sm">
+                    光害の条件に合う宿泊施設がありません。条件を緩めてください。
+                </p>
+            )}
+
+            {hasMore && onLoadMore ? (
+                <div className="mt-8 flex justify-center">
+                    <button
+                        type="button"
+                        onClick={onLoadMore}
+                        disabled={isLoadingMore}
+                        className="rounded-full border border-sky-200 bg-white px-6 py-2 text-sm font-semibold text-sky-700 transition-colors hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                        {isLoadingMore ? '読み込み中…' : `もっと見る (残り${Math.max((totalCount ?? 0) - accommodations.length, 0)}件)`}
+                    </button>
+                </div>
+            ) : null}
         </section>
     );
 }
@@ -0,0 +1,61 @@
+/// <reference types="jest" />
+
+const findBestNightsMock = jest.fn();
+
+jest.mock('@/lib/server/best_nights_service', () => ({
+    findBestNights: (...args: unknown[]) => findBestNightsMock(...args),
+}));
+
+describe('GET /api/best-nights', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+        process.env = { ...originalEnv };
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        process.env = originalEnv;
+    });
+
+    it('都道府県をカンマ区切りで受け取り、予報期間の上位の夜を返す', async () => {
+        jest.setSystemTime(new Date('2025-02-01T00:00:00.000Z'));
+        findBestNightsMock.mockResolvedValue([{ prefecture: '長野県', date: '2025-02-03', rankingScore: 92 }]);
+
+        const { GET } = await import('../route');
+
+        const request = new Request(`http://localhost/api/best-nights?prefectures=${encodeURIComponent('長野県,山梨県')}&limit=3`);
+        const response = await GET(request);
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toEqual({
+            prefectures: ['長野県', '山梨県'],
+            startDate: '2025-02-01',
+            endDate: '2025-02-15',
+            nights: [{ prefecture: '長野県', date: '2025-02-03', rankingScore: 92 }],
+        });
+        expect(findBestNightsMock).toHaveBeenCalledWith({
+            prefectures: ['長野県', '山梨県'],
+            startDate: '2025-02-01',
+            endDate: '2025-02-15',
+            limit: 3,
+        });
+    });
+
+    it('都道府県が指定されていない場合は 400 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/best-nights'));
+
+        expect(response.status).toBe(400);
+        expect(findBestNightsMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { findBestNights } from '@/lib/server/best_nights_service';
+import { computeForecastWindowBounds } from '@/lib/server/forecast_window';
+
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    // ?prefectures=長野県,山梨県 と ?prefecture=長野県&prefecture=山梨県 のどちらも受け付ける
+    const prefectures = [...url.searchParams.getAll('prefectures'), ...url.searchParams.getAll('prefecture')]
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter(Boolean);
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? undefined : Number(limitParam);
+
+    if (prefectures.length === 0) {
+        return toErrorResponse(new ValidationError('prefectures is required', 'prefectures'));
+    }
+
+    try {
+        const { start, end, isOutOfSupportedRange } = computeForecastWindowBounds();
+        if (isOutOfSupportedRange || !start || !end) {
+            return NextResponse.json({
+                prefectures,
+                startDate: null,
+                endDate: null,
+                nights: [],
+                availability: 'out_of_supported_range',
+                message: '現在の提供期間外のため晴れ予報を表示できません。',
+            });
+        }
+
+        const nights = await findBestNights({ prefectures, startDate: start, endDate: end, limit });
+
+        return NextResponse.json({
+            prefectures,
+            startDate: start,
+            endDate: end,
+            nights,
+        });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
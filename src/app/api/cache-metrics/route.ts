@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getResponseCache } from '@/lib/server/response_cache';
+
+/** 外部 API の応答キャッシュの種類ごとのヒット数・ミス数 (プロセスの起動から) */
+export async function GET() {
+    const metrics = getResponseCache().getMetrics();
+    const hitRates = Object.fromEntries(
+        Object.entries(metrics).map(([source, { hits, misses }]) => [source, hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : null]),
+    );
+    return NextResponse.json({ metrics, hitRates });
+}
@@ -0,0 +1,85 @@
+/// <reference types="jest" />
+
+const getNationalNightConditionsMock = jest.fn();
+
+jest.mock('@/lib/server/national_clear_sky_service', () => ({
+    getNationalNightConditions: (...args: unknown[]) => getNationalNightConditionsMock(...args),
+}));
+
+describe('GET /api/clear-sky/national', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2025-02-01T00:00:00.000Z'));
+        process.env = { ...originalEnv };
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        process.env = originalEnv;
+    });
+
+    it('指定した夜の全都道府県の星空の条件を返す', async () => {
+        const prefectures = [
+            { prefecture: '北海道', isClearSky: false, clearSkyProbability: 20, stargazingScore: 30, darkHours: 9, moonIlluminatedFraction: 0.1 },
+            { prefecture: '長野県', isClearSky: true, clearSkyProbability: 90, stargazingScore: 88, darkHours: 8, moonIlluminatedFraction: 0.1 },
+        ];
+        getNationalNightConditionsMock.mockResolvedValue(prefectures);
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/clear-sky/national?date=2025-02-03'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toEqual({ date: '2025-02-03', startDate: '2025-02-01', endDate: '2025-02-15', prefectures });
+        expect(getNationalNightConditionsMock).toHaveBeenCalledWith('2025-02-03');
+    });
+
+    it('date を省略すると予報期間の最初の夜を返す', async () => {
+        getNationalNightConditionsMock.mockResolvedValue([]);
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/clear-sky/national'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload.date).toBe('2025-02-01');
+        expect(getNationalNightConditionsMock).toHaveBeenCalledWith('2025-02-01');
+    });
+
+    it.each([
+        ['2025/02/03', 'date must be in YYYY-MM-DD format'],
+        ['2025-03-01', 'date must be between 2025-02-01 and 2025-02-15'],
+    ])('date=%s なら 400 を返す', async (date, message) => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request(`http://localhost/api/clear-sky/national?date=${encodeURIComponent(date)}`));
+        const payload = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(payload.error).toEqual({ code: 'VALIDATION_FAILED', message, details: { field: 'date' } });
+        expect(getNationalNightConditionsMock).not.toHaveBeenCalled();
+    });
+
+    it('予報の取得に失敗したら外部 API のエラーとして返す', async () => {
+        const { UpstreamTimeoutError } = await import('@/lib/server/upstream_errors');
+        getNationalNightConditionsMock.mockRejectedValue(new UpstreamTimeoutError('api.open-meteo.com', 5000));
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/clear-sky/national?date=2025-02-03'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(503);
+        expect(payload.error.code).toBe('UPSTREAM_TIMEOUT');
+    });
+});
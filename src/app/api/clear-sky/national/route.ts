@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { computeForecastWindowBounds } from '@/lib/server/forecast_window';
+import { getNationalNightConditions } from '@/lib/server/national_clear_sky_service';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 指定した夜の、全都道府県の星空の条件を返す (全国の晴れ予報の地図用)
+ * date を省略した場合は予報期間の最初の夜を返す。
+ */
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const dateParam = url.searchParams.get('date')?.trim() || null;
+
+    if (dateParam !== null && (!ISO_DATE_PATTERN.test(dateParam) || Number.isNaN(Date.parse(`${dateParam}T00:00:00Z`)))) {
+        return toErrorResponse(new ValidationError('date must be in YYYY-MM-DD format', 'date'));
+    }
+
+    try {
+        const { start, end, isOutOfSupportedRange } = computeForecastWindowBounds();
+        if (isOutOfSupportedRange || !start || !end) {
+            return NextResponse.json({
+                date: dateParam,
+                startDate: null,
+                endDate: null,
+                prefectures: [],
+                availability: 'out_of_supported_range',
+                message: '現在の提供期間外のため晴れ予報を表示できません。',
+            });
+        }
+        const date = dateParam ?? start;
+        if (date < start || date > end) {
+            throw new ValidationError(`date must be between ${start} and ${end}`, 'date');
+        }
+
+        const prefectures = await getNationalNightConditions(date);
+
+        return NextResponse.json({
+            date,
+            startDate: start,
+            endDate: end,
+            prefectures,
+        });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
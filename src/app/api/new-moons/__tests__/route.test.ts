@@ -0,0 +1,61 @@
+/// <reference types="jest" />
+
+const planNewMoonWindowsMock = jest.fn();
+
+jest.mock('@/lib/server/new_moon_planner', () => ({
+    planNewMoonWindows: (...args: unknown[]) => planNewMoonWindowsMock(...args),
+}));
+
+jest.mock('@/lib/server/clear_night_climatology_data', () => ({
+    CLEAR_NIGHT_CLIMATOLOGY: { period: { startYear: 2015, endYear: 2024 }, rates: {} },
+}));
+
+describe('GET /api/new-moons', () => {
+    beforeEach(() => {
+        jest.resetModules();
+        jest.clearAllMocks();
+        planNewMoonWindowsMock.mockReturnValue([]);
+    });
+
+    it('都道府県の代表点で新月ごとの候補を求め、気候値の期間を付ける', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/new-moons?prefecture=%E9%95%B7%E9%87%8E%E7%9C%8C'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toMatchObject({ prefecture: '長野県', climatologyPeriod: { startYear: 2015, endYear: 2024 }, newMoons: [] });
+        expect(planNewMoonWindowsMock).toHaveBeenCalledWith(expect.objectContaining({ prefecture: '長野県' }));
+    });
+
+    it('緯度経度で指定した場合は気候値の期間を返さない', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/new-moons?latitude=35.5&longitude=137.75'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toMatchObject({ prefecture: null, latitude: 35.5, longitude: 137.75, climatologyPeriod: null });
+    });
+
+    it('地点がなければ 400 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/new-moons'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(payload.error.code).toBe('VALIDATION_FAILED');
+        expect(planNewMoonWindowsMock).not.toHaveBeenCalled();
+    });
+
+    it('対応していない都道府県は 404 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/new-moons?prefecture=foo'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(404);
+        expect(payload.error.code).toBe('PREFECTURE_NOT_SUPPORTED');
+    });
+});
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { getClimatologyPeriod } from '@/lib/server/clear_night_climatology';
+import { planNewMoonWindows } from '@/lib/server/new_moon_planner';
+import { resolveSearchLocation } from '@/lib/server/search_location';
+
+/**
+ * 今後 12 か月の新月ごとに、前後の夜の暗さ・天の川・流星群・晴れやすさを返す (旅行の計画用)
+ */
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const prefecture = url.searchParams.get('prefecture') ?? '';
+    const latitudeParam = url.searchParams.get('latitude');
+    const longitudeParam = url.searchParams.get('longitude');
+
+    if (!prefecture && latitudeParam === null && longitudeParam === null) {
+        return toErrorResponse(new ValidationError('prefecture or latitude/longitude is required', 'prefecture'));
+    }
+
+    try {
+        const location = resolveSearchLocation({
+            prefecture,
+            latitude: latitudeParam === null ? null : Number(latitudeParam),
+            longitude: longitudeParam === null ? null : Number(longitudeParam),
+        });
+
+        return NextResponse.json({
+            prefecture: location.prefecture,
+            latitude: location.latitude,
+            longitude: location.longitude,
+            climatologyPeriod: location.prefecture ? getClimatologyPeriod() : null,
+            newMoons: planNewMoonWindows(location),
+        });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
@@ -2,11 +2,20 @@
 
 const getDailyWeatherSummariesRangeMock = jest.fn();
 const getPrefectureCoordinatesMock = jest.fn();
+const getNightForecastAgreementMock = jest.fn();
 
 jest.mock('@/lib/server/open_metro_api_client', () => ({
     getDailyWeatherSummariesRange: (...args: unknown[]) => getDailyWeatherSummariesRangeMock(...args),
 }));
 
+jest.mock('@/lib/server/forecast_agreement', () => ({
+    getNightForecastAgreement: (...args: unknown[]) => getNightForecastAgreementMock(...args),
+}));
+
+jest.mock('@/lib/server/dark_sky_sites', () => ({
+    getTopDarkSkySites: () => [],
+}));
+
 jest.mock('@/lib/server/prefecture_geocode', () => ({
     getPrefectureCoordinates: (...args: unknown[]) => getPrefectureCoordinatesMock(...args),
 }));
@@ -19,6 +28,7 @@ describe('GET /api/prefecture/clear-days', () => {
         jest.clearAllMocks();
         jest.useFakeTimers();
         process.env = { ...originalEnv };
+        getNightForecastAgreementMock.mockResolvedValue([]);
     });
 
     afterEach(() => {
@@ -43,6 +53,8 @@ describe('GET /api/prefecture/clear-days', () => {
         expect(response.status).toBe(200);
         expect(payload).toEqual({
             prefecture: '兵庫県',
+            latitude: 34.6913,
+            longitude: 135.1830,
             startDate: null,
             endDate: null,
             days: [],
@@ -51,4 +63,92 @@ describe('GET /api/prefecture/clear-days', () => {
         });
         expect(getDailyWeatherSummariesRangeMock).not.toHaveBeenCalled();
     });
+
+    it('緯度経度を指定した場合はその地点の予報を返す', async () => {
+        jest.setSystemTime(new Date('2025-08-01T00:00:00.000Z'));
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+        getDailyWeatherSummariesRangeMock.mockResolvedValue([]);
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-days?latitude=35.5&longitude=137.75'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toMatchObject({ prefecture: null, latitude: 35.5, longitude: 137.75, startDate: '2025-08-01', endDate: '2025-08-15' });
+        expect(getPrefectureCoordinatesMock).not.toHaveBeenCalled();
+        expect(getDailyWeatherSummariesRangeMock).toHaveBeenCalledWith(35.5, 137.75, '2025-08-01', '2025-08-15');
+    });
+
+    it('緯度経度が不正な場合は 400 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-days?latitude=abc&longitude=137.75'));
+
+        expect(response.status).toBe(400);
+        expect(getDailyWeatherSummariesRangeMock).not.toHaveBeenCalled();
+    });
+
+    it('複数モデルの晴れ確率と確度を夜ごとに返し、取れなかった夜は null にする', async () => {
+        jest.setSystemTime(new Date('2025-08-01T00:00:00.000Z'));
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+        const summary = (date: string) => ({
+            date,
+            isClearSky: true,
+            weatherCode: 0,
+            temperatureMax: 30,
+            temperatureMin: 22,
+            darkWindow: { darkHours: 6, moonrise: null, moonset: null },
+            stargazingScore: 80,
+        });
+        getDailyWeatherSummariesRangeMock.mockResolvedValue([summary('2025-08-01'), summary('2025-08-02')]);
+        getNightForecastAgreementMock.mockResolvedValue([
+            { date: '2025-08-01', clearSkyProbability: 90, spread: 10, modelCount: 3, confidence: 'high' },
+        ]);
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-days?latitude=35.5&longitude=137.75'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(getNightForecastAgreementMock).toHaveBeenCalledWith(35.5, 137.75, '2025-08-01', '2025-08-15');
+        expect(payload.days[0].forecastAgreement).toEqual({ clearSkyProbability: 90, confidence: 'high', modelCount: 3 });
+        expect(payload.days[1].forecastAgreement).toBeNull();
+    });
+
+    it('モデル比較の取得に失敗しても晴れ予報は返す', async () => {
+        jest.setSystemTime(new Date('2025-08-01T00:00:00.000Z'));
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+        getDailyWeatherSummariesRangeMock.mockResolvedValue([{
+            date: '2025-08-01',
+            isClearSky: false,
+            weatherCode: 3,
+            temperatureMax: 30,
+            temperatureMin: 22,
+            darkWindow: { darkHours: 6, moonrise: null, moonset: null },
+            stargazingScore: 20,
+        }]);
+        getNightForecastAgreementMock.mockRejectedValue(new Error('upstream down'));
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-days?latitude=35.5&longitude=137.75'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload.days).toHaveLength(1);
+        expect(payload.days[0].forecastAgreement).toBeNull();
+        warnSpy.mockRestore();
+    });
 });
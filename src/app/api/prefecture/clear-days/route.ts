@@ -1,13 +1,11 @@
 import { NextResponse } from 'next/server';
+import { ClearSkyConfidence } from '@/lib/clear_sky_confidence';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { getNightForecastAgreement, NightForecastAgreement } from '@/lib/server/forecast_agreement';
+import { computeForecastWindowBounds } from '@/lib/server/forecast_window';
 import { getDailyWeatherSummariesRange } from '@/lib/server/open_metro_api_client';
-import { getPrefectureCoordinates } from '@/lib/server/prefecture_geocode';
-
-// TODO: WINDOWS_DAYSだけで実現する。
-const WINDOW_DAYS = 15;
-const PUBLIC_ALLOWED_MIN = process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
-const PUBLIC_ALLOWED_MAX = process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
-const SERVER_ALLOWED_MIN = process.env.OPEN_METEO_ALLOWED_START_DATE_MIN ?? PUBLIC_ALLOWED_MIN;
-const SERVER_ALLOWED_MAX = process.env.OPEN_METEO_ALLOWED_START_DATE_MAX ?? PUBLIC_ALLOWED_MAX;
+import { resolveSearchLocation } from '@/lib/server/search_location';
 
 interface ClearDaysResponseDay {
     date: string;
@@ -15,64 +13,43 @@ interface ClearDaysResponseDay {
     weatherCode: number;
     temperatureMax: number;
     temperatureMin: number;
-}
-
-function toUtcIsoDate(date: Date): string {
-    return date.toISOString().slice(0, 10);
-}
-
-function addDaysUtcIso(isoDate: string, days: number): string {
-    const date = new Date(`${isoDate}T00:00:00Z`);
-    date.setUTCDate(date.getUTCDate() + days);
-    return toUtcIsoDate(date);
-}
-
-function maxIso(a: string, b: string): string {
-    return a > b ? a : b;
-}
-
-function minIso(a: string, b: string): string {
-    return a < b ? a : b;
-}
-
-function computeWindowBounds(): { start: string | null; end: string | null; isOutOfSupportedRange: boolean } {
-    const todayIso = toUtcIsoDate(new Date());
-
-    if (SERVER_ALLOWED_MAX && todayIso > SERVER_ALLOWED_MAX) {
-        return { start: null, end: null, isOutOfSupportedRange: true };
-    }
-
-    const start = SERVER_ALLOWED_MIN ? maxIso(todayIso, SERVER_ALLOWED_MIN) : todayIso;
-    const tentativeEnd = addDaysUtcIso(start, WINDOW_DAYS - 1);
-    const end = SERVER_ALLOWED_MAX ? minIso(tentativeEnd, SERVER_ALLOWED_MAX) : tentativeEnd;
-
-    if (end < start) {
-        return { start: null, end: null, isOutOfSupportedRange: true };
-    }
-
-    return { start, end, isOutOfSupportedRange: false };
+    darkHours: number;
+    stargazingScore: number | null;
+    moonrise: string | null;
+    moonset: string | null;
+    /** 複数の予報モデルによる晴れ確率と確度。モデルの予報が取れなかった夜は null */
+    forecastAgreement: {
+        clearSkyProbability: number;
+        confidence: ClearSkyConfidence;
+        modelCount: number;
+    } | null;
 }
 
 export async function GET(request: Request) {
     const url = new URL(request.url);
     const prefecture = url.searchParams.get('prefecture') ?? '';
+    const latitudeParam = url.searchParams.get('latitude');
+    const longitudeParam = url.searchParams.get('longitude');
 
-    if (!prefecture) {
-        return NextResponse.json({ message: 'prefecture is required' }, { status: 400 });
+    if (!prefecture && latitudeParam === null && longitudeParam === null) {
+        return toErrorResponse(new ValidationError('prefecture or latitude/longitude is required', 'prefecture'));
     }
 
     try {
-        const coords = getPrefectureCoordinates(prefecture);
-        if (!coords) {
-            return NextResponse.json({ message: `Unsupported prefecture: ${prefecture}` }, { status: 400 });
-        }
+        const coords = resolveSearchLocation({
+            prefecture,
+            latitude: latitudeParam === null ? null : Number(latitudeParam),
+            longitude: longitudeParam === null ? null : Number(longitudeParam),
+        });
 
-        const windowBounds = computeWindowBounds();
+        const windowBounds = computeForecastWindowBounds();
         const { start, end, isOutOfSupportedRange } = windowBounds;
 
         if (isOutOfSupportedRange || !start || !end) {
             return NextResponse.json({
-                prefecture,
+                prefecture: coords.prefecture,
+                latitude: coords.latitude,
+                longitude: coords.longitude,
                 startDate: null,
                 endDate: null,
                 days: [] as ClearDaysResponseDay[],
@@ -81,26 +58,48 @@ export async function GET(request: Request) {
             });
         }
 
-        const summaries = await getDailyWeatherSummariesRange(coords.latitude, coords.longitude, start, end);
+        // モデル比較は補助の情報なので、取れなくても晴れ予報は返す
+        const [summaries, agreements] = await Promise.all([
+            getDailyWeatherSummariesRange(coords.latitude, coords.longitude, start, end),
+            getNightForecastAgreement(coords.latitude, coords.longitude, start, end).catch((error): NightForecastAgreement[] => {
+                console.warn('Failed to compare forecast models:', error);
+                return [];
+            }),
+        ]);
+        const agreementByDate = new Map(agreements.map((agreement) => [agreement.date, agreement]));
         const days: ClearDaysResponseDay[] = summaries.map((summary) => ({
             date: summary.date,
             isClearSky: summary.isClearSky,
             weatherCode: summary.weatherCode,
             temperatureMax: summary.temperatureMax,
             temperatureMin: summary.temperatureMin,
+            darkHours: summary.darkWindow.darkHours,
+            stargazingScore: summary.stargazingScore,
+            moonrise: summary.darkWindow.moonrise,
+            moonset: summary.darkWindow.moonset,
+            forecastAgreement: toResponseAgreement(agreementByDate.get(summary.date)),
         }));
 
         return NextResponse.json({
-            prefecture,
+            prefecture: coords.prefecture,
+            latitude: coords.latitude,
+            longitude: coords.longitude,
             startDate: start,
             endDate: end,
             days,
         });
     } catch (error) {
-        if (error instanceof RangeError) {
-            return NextResponse.json({ message: error.message }, { status: 400 });
-        }
-        const message = error instanceof Error ? error.message : 'Unknown error occurred';
-        return NextResponse.json({ message }, { status: 500 });
+        return toErrorResponse(error);
+    }
+}
+
+function toResponseAgreement(agreement: NightForecastAgreement | undefined): ClearDaysResponseDay['forecastAgreement'] {
+    if (!agreement) {
+        return null;
     }
+    return {
+        clearSkyProbability: agreement.clearSkyProbability,
+        confidence: agreement.confidence,
+        modelCount: agreement.modelCount,
+    };
 }
@@ -0,0 +1,70 @@
+/// <reference types="jest" />
+
+jest.mock('@/lib/server/clear_night_climatology_data', () => ({
+    CLEAR_NIGHT_CLIMATOLOGY: {
+        period: { startYear: 2015, endYear: 2024 },
+        rates: { 長野県: Array.from({ length: 52 }, (_, week) => week) },
+    },
+}));
+
+describe('GET /api/prefecture/clear-night-climatology', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2025-02-01T00:00:00.000Z'));
+        process.env = { ...originalEnv };
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        process.env = originalEnv;
+    });
+
+    it('予報期間の翌日から 3 か月先までの晴れの夜の割合を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-night-climatology?prefecture=%E9%95%B7%E9%87%8E%E7%9C%8C'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toMatchObject({ prefecture: '長野県', startDate: '2025-02-16', endDate: '2025-05-03', period: { startYear: 2015, endYear: 2024 } });
+        expect(payload.days[0]).toEqual({ date: '2025-02-16', clearNightRate: 6 });
+        expect(payload.days).toHaveLength(77);
+    });
+
+    it('予報の提供期間外なら今日から返す', async () => {
+        process.env.OPEN_METEO_ALLOWED_START_DATE_MAX = '2025-01-15';
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-night-climatology?prefecture=%E9%95%B7%E9%87%8E%E7%9C%8C'));
+        const payload = await response.json();
+
+        expect(payload.startDate).toBe('2025-02-01');
+    });
+
+    it('気候値のない都道府県は空の days を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-night-climatology?prefecture=%E6%B2%96%E7%B8%84%E7%9C%8C'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload.days).toEqual([]);
+    });
+
+    it('都道府県がなければ 400 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/clear-night-climatology'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(payload.error.code).toBe('VALIDATION_FAILED');
+    });
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { getClimatologyPeriod, listClearNightOdds } from '@/lib/server/clear_night_climatology';
+import { computeClimatologyWindowBounds } from '@/lib/server/forecast_window';
+import { resolveSearchLocation } from '@/lib/server/search_location';
+
+/**
+ * 予報期間より先の夜について、過去の同じ時期に晴れの夜だった割合を返す (カレンダー用)
+ */
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const prefecture = url.searchParams.get('prefecture') ?? '';
+
+    try {
+        const location = resolveSearchLocation({ prefecture });
+        const { start, end } = computeClimatologyWindowBounds();
+
+        return NextResponse.json({
+            prefecture: location.prefecture,
+            startDate: start,
+            endDate: end,
+            period: getClimatologyPeriod(),
+            days: listClearNightOdds(prefecture, start, end),
+        });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
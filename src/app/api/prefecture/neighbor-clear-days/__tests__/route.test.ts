@@ -0,0 +1,73 @@
+/// <reference types="jest" />
+
+const findNeighborPrefectureClearDaysMock = jest.fn();
+
+jest.mock('@/lib/server/clear_night_suggestions', () => ({
+    findNeighborPrefectureClearDays: (...args: unknown[]) => findNeighborPrefectureClearDaysMock(...args),
+}));
+
+describe('GET /api/prefecture/neighbor-clear-days', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        jest.resetModules();
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+        process.env = { ...originalEnv };
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+        delete process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        process.env = originalEnv;
+    });
+
+    it('予報期間内に晴れの夜がある周辺の都道府県を返す', async () => {
+        jest.setSystemTime(new Date('2025-02-01T00:00:00.000Z'));
+        const suggestions = [{
+            prefecture: '長野県',
+            hops: 1,
+            driveDistanceKm: 98,
+            driveMinutes: 118,
+            clearDays: [{ date: '2025-02-03', clearSkyProbability: 80, stargazingScore: 88 }],
+        }];
+        findNeighborPrefectureClearDaysMock.mockResolvedValue(suggestions);
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request(`http://localhost/api/prefecture/neighbor-clear-days?prefecture=${encodeURIComponent('山梨県')}`));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toEqual({ prefecture: '山梨県', startDate: '2025-02-01', endDate: '2025-02-15', suggestions });
+        expect(findNeighborPrefectureClearDaysMock).toHaveBeenCalledWith('山梨県', '2025-02-01', '2025-02-15');
+    });
+
+    it('prefecture がなければ 400 を返す', async () => {
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request('http://localhost/api/prefecture/neighbor-clear-days'));
+        const payload = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(payload.error).toEqual({ code: 'VALIDATION_FAILED', message: 'prefecture is required', details: { field: 'prefecture' } });
+        expect(findNeighborPrefectureClearDaysMock).not.toHaveBeenCalled();
+    });
+
+    it('未対応の都道府県なら 404 を返す', async () => {
+        jest.setSystemTime(new Date('2025-02-01T00:00:00.000Z'));
+        const { NotFoundError } = await import('@/lib/server/app_errors');
+        findNeighborPrefectureClearDaysMock.mockRejectedValue(new NotFoundError('Unsupported prefecture: 架空県', 'PREFECTURE_NOT_SUPPORTED'));
+
+        const { GET } = await import('../route');
+
+        const response = await GET(new Request(`http://localhost/api/prefecture/neighbor-clear-days?prefecture=${encodeURIComponent('架空県')}`));
+        const payload = await response.json();
+
+        expect(response.status).toBe(404);
+        expect(payload.error.code).toBe('PREFECTURE_NOT_SUPPORTED');
+    });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { findNeighborPrefectureClearDays } from '@/lib/server/clear_night_suggestions';
+import { computeForecastWindowBounds } from '@/lib/server/forecast_window';
+
+/** 選んだ都道府県の周辺で、予報期間内に晴れの夜がある都道府県を車での移動の目安つきで返す */
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const prefecture = url.searchParams.get('prefecture')?.trim() ?? '';
+
+    if (!prefecture) {
+        return toErrorResponse(new ValidationError('prefecture is required', 'prefecture'));
+    }
+
+    try {
+        const { start, end, isOutOfSupportedRange } = computeForecastWindowBounds();
+        if (isOutOfSupportedRange || !start || !end) {
+            return NextResponse.json({
+                prefecture,
+                startDate: null,
+                endDate: null,
+                suggestions: [],
+                availability: 'out_of_supported_range',
+                message: '現在の提供期間外のため晴れ予報を表示できません。',
+            });
+        }
+
+        const suggestions = await findNeighborPrefectureClearDays(prefecture, start, end);
+
+        return NextResponse.json({
+            prefecture,
+            startDate: start,
+            endDate: end,
+            suggestions,
+        });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
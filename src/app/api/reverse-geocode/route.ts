@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { resolveSearchLocation } from '@/lib/server/search_location';
+import { getYahooReverseGeocodedAddress } from '@/lib/server/yahoo_reverse_geocoder_api_client';
+
+export async function GET(request: Request) {
+    const url = new URL(request.url);
+    const latitudeParam = url.searchParams.get('latitude');
+    const longitudeParam = url.searchParams.get('longitude');
+
+    if (latitudeParam === null || longitudeParam === null) {
+        return toErrorResponse(new ValidationError('latitude and longitude are required', latitudeParam === null ? 'latitude' : 'longitude'));
+    }
+
+    try {
+        const { latitude, longitude } = resolveSearchLocation({ latitude: Number(latitudeParam), longitude: Number(longitudeParam) });
+        const address = await getYahooReverseGeocodedAddress(latitude, longitude);
+        return NextResponse.json({ latitude, longitude, address });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
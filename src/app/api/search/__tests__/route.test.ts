@@ -0,0 +1,182 @@
+/// <reference types="jest" />
+
+const searchStargazingAccommodationsMock = jest.fn();
+
+jest.mock('@/lib/server/accommodation_search_service', () => ({
+    searchStargazingAccommodations: (...args: unknown[]) => searchStargazingAccommodationsMock(...args),
+}));
+
+function postSearch(body: unknown): Request {
+    return new Request('http://localhost/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+describe('POST /api/search', () => {
+    const accommodations = Array.from({ length: 5 }, (_, index) => ({ id: String(index + 1) }));
+
+    beforeEach(() => {
+        jest.resetModules();
+        jest.clearAllMocks();
+        searchStargazingAccommodationsMock.mockResolvedValue({
+            accommodations,
+            resolvedAddress: '長野県南佐久郡南牧村',
+            latitude: 35.95,
+            longitude: 138.47,
+        });
+    });
+
+    it('先頭のページと続きを取得するカーソルを返す', async () => {
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', pageSize: 2 }));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload.accommodations).toEqual([{ id: '1' }, { id: '2' }]);
+        expect(payload.totalCount).toBe(5);
+        expect(payload.resolvedAddress).toBe('長野県南佐久郡南牧村');
+        expect(payload.nextCursor).toEqual(expect.any(String));
+        expect(searchStargazingAccommodationsMock).toHaveBeenCalledWith(expect.objectContaining({ date: '2025-02-01', prefecture: '長野県' }));
+    });
+
+    it('カーソルを指定すると再検索せずに続きのページを返す', async () => {
+        const { POST } = await import('../route');
+
+        const first = await (await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', pageSize: 2 }))).json();
+        const response = await POST(postSearch({ cursor: first.nextCursor, pageSize: 2 }));
+        const payload = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(payload).toEqual({ accommodations: [{ id: '3' }, { id: '4' }], nextCursor: expect.any(String), totalCount: 5, firstCursor: first.firstCursor });
+        expect(searchStargazingAccommodationsMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('不正なカーソルの場合は 400 を返す', async () => {
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ cursor: 'broken' }));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: { code: 'VALIDATION_FAILED', message: 'cursor is invalid', details: { field: 'cursor' } },
+        });
+    });
+
+    it('数値の項目に数値以外が渡された場合は 400 を返す', async () => {
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', pageSize: '10' }));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: { code: 'VALIDATION_FAILED', message: 'pageSize must be a number', details: { field: 'pageSize' } },
+        });
+        expect(searchStargazingAccommodationsMock).not.toHaveBeenCalled();
+    });
+
+    it('strictClearSky を検索条件に渡し、真偽値以外は 400 を返す', async () => {
+        const { POST } = await import('../route');
+
+        await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', strictClearSky: true }));
+        const invalid = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', strictClearSky: 'yes' }));
+
+        expect(searchStargazingAccommodationsMock).toHaveBeenCalledWith(expect.objectContaining({ strictClearSky: true }));
+        expect(invalid.status).toBe(400);
+        expect((await invalid.json()).error.details).toEqual({ field: 'strictClearSky' });
+    });
+
+    it('光害の絞り込みと並び替えは全件に適用してからページに分ける', async () => {
+        searchStargazingAccommodationsMock.mockResolvedValue({
+            accommodations: [
+                { id: '1', lightPollution: '高', bortleClass: 7 },
+                { id: '2', lightPollution: '中', bortleClass: 5 },
+                { id: '3', lightPollution: '高', bortleClass: 6 },
+                { id: '4', lightPollution: '低', bortleClass: 2 },
+                { id: '5', lightPollution: '中', bortleClass: 4 },
+            ],
+        });
+        const { POST } = await import('../route');
+
+        const view = { maxLightPollution: '中', sortOrder: 'light-pollution' };
+        const first = await (await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', pageSize: 2, ...view }))).json();
+        const rest = await (await POST(postSearch({ cursor: first.nextCursor, pageSize: 2, ...view }))).json();
+        const invalid = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', sortOrder: 'cheapest' }));
+
+        expect(first.accommodations.map((hotel: { id: string }) => hotel.id)).toEqual(['4', '5']);
+        expect(first.totalCount).toBe(3);
+        expect(rest.accommodations.map((hotel: { id: string }) => hotel.id)).toEqual(['2']);
+        expect(invalid.status).toBe(400);
+        expect((await invalid.json()).error.details).toEqual({ field: 'sortOrder' });
+    });
+
+    it('先頭のカーソルで表示条件を変えた場合は再検索せずに全件から読み直す', async () => {
+        searchStargazingAccommodationsMock.mockResolvedValue({
+            accommodations: [
+                { id: '1', lightPollution: '高', bortleClass: 7 },
+                { id: '2', lightPollution: '低', bortleClass: 2 },
+            ],
+        });
+        const { POST } = await import('../route');
+
+        const first = await (await POST(postSearch({ date: '2025-02-01', prefecture: '長野県', maxLightPollution: '低' }))).json();
+        const widened = await (await POST(postSearch({ cursor: first.firstCursor, maxLightPollution: null }))).json();
+
+        expect(first.accommodations.map((hotel: { id: string }) => hotel.id)).toEqual(['2']);
+        expect(widened.accommodations.map((hotel: { id: string }) => hotel.id)).toEqual(['1', '2']);
+        expect(searchStargazingAccommodationsMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('対応していない都道府県の場合は 404 を返す', async () => {
+        const { NotFoundError } = await import('@/lib/server/app_errors');
+        searchStargazingAccommodationsMock.mockRejectedValue(new NotFoundError('Unsupported prefecture: 架空県', 'PREFECTURE_NOT_SUPPORTED'));
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ date: '2025-02-01', prefecture: '架空県' }));
+
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: { code: 'PREFECTURE_NOT_SUPPORTED', message: 'Unsupported prefecture: 架空県' } });
+    });
+
+    it('外部 API の失敗は種類に応じて 429 / 502 / 503 を返す', async () => {
+        const { UpstreamHttpError, UpstreamRateLimitedError, UpstreamTimeoutError } = await import('@/lib/server/upstream_errors');
+        const { ConfigurationError } = await import('@/lib/server/app_errors');
+        const { POST } = await import('../route');
+
+        const cases = [
+            { error: new UpstreamRateLimitedError('app.rakuten.co.jp', '', 3_000), status: 429, code: 'UPSTREAM_RATE_LIMITED' },
+            { error: new UpstreamHttpError('app.rakuten.co.jp', 500, ''), status: 502, code: 'UPSTREAM_BAD_RESPONSE' },
+            { error: new UpstreamTimeoutError('api.open-meteo.com', 10_000), status: 503, code: 'UPSTREAM_TIMEOUT' },
+            { error: new ConfigurationError('RAKUTEN_APP_ID'), status: 503, code: 'CONFIGURATION_MISSING' },
+        ];
+        for (const { error, status, code } of cases) {
+            searchStargazingAccommodationsMock.mockRejectedValueOnce(error);
+            const response = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県' }));
+            expect(response.status).toBe(status);
+            expect((await response.json()).error.code).toBe(code);
+        }
+    });
+
+    it('429 の場合は Retry-After ヘッダーを付ける', async () => {
+        const { UpstreamRateLimitedError } = await import('@/lib/server/upstream_errors');
+        searchStargazingAccommodationsMock.mockRejectedValue(new UpstreamRateLimitedError('app.rakuten.co.jp', '', 2_500));
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県' }));
+
+        expect(response.headers.get('Retry-After')).toBe('3');
+    });
+
+    it('想定外の例外は 500 を返す', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        searchStargazingAccommodationsMock.mockRejectedValue(new Error('boom'));
+        const { POST } = await import('../route');
+
+        const response = await POST(postSearch({ date: '2025-02-01', prefecture: '長野県' }));
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({ error: { code: 'INTERNAL_ERROR', message: 'boom' } });
+    });
+});
@@ -1,32 +1,104 @@
 import { NextResponse } from 'next/server';
+import type { Accommodation } from '@/app/_components/AccommodationCard';
+import {
+    AccommodationSortOrder,
+    applyLightPollutionView,
+    DEFAULT_LIGHT_POLLUTION_VIEW,
+    isAccommodationSortOrder,
+    isLightPollutionLevel,
+    LightPollutionLevel,
+    LightPollutionView,
+} from '@/lib/light_pollution';
 import { searchStargazingAccommodations } from '@/lib/server/accommodation_search_service';
+import { toErrorResponse } from '@/lib/server/api_error_response';
+import { ValidationError } from '@/lib/server/app_errors';
+import { DEFAULT_PAGE_SIZE, paginateResults, readResultPage } from '@/lib/server/search_result_cursor';
 
 interface SearchRequestBody {
     date: string;
-    prefecture: string;
+    prefecture?: string;
+    latitude?: number;
+    longitude?: number;
+    radiusKm?: number;
+    nights?: number;
+    guests?: number;
+    rooms?: number;
+    maxResults?: number;
+    /** true なら晴れの夜がない場合に宿を返さない */
+    strictClearSky?: boolean;
+    /** 許容する最も明るい光害レベル (省略時は絞り込まない) */
+    maxLightPollution?: LightPollutionLevel | null;
+    /** 宿の並び順 (省略時はおすすめ順) */
+    sortOrder?: AccommodationSortOrder;
+    /** 1 ページの件数 (省略時は 12) */
+    pageSize?: number;
+    /**
+     * 前回のレスポンスの nextCursor か firstCursor。指定すると再検索せずに保持した結果からページを返す
+     * maxLightPollution と sortOrder は保持した全件に適用するので、firstCursor と一緒に変えれば表示条件だけを変えられる。
+     */
+    cursor?: string;
 }
 
+const NUMERIC_FIELDS = ['radiusKm', 'nights', 'guests', 'rooms', 'maxResults', 'pageSize'] as const;
+
 export async function POST(request: Request) {
     try {
-        const body = (await request.json()) as Partial<SearchRequestBody>;
+        const body = (await request.json().catch(() => {
+            throw new ValidationError('request body must be valid JSON');
+        })) as Partial<SearchRequestBody>;
+        const invalidField = NUMERIC_FIELDS.find((field) => body?.[field] !== undefined && typeof body[field] !== 'number');
+        if (invalidField) {
+            return toErrorResponse(new ValidationError(`${invalidField} must be a number`, invalidField));
+        }
+        if (body?.strictClearSky !== undefined && typeof body.strictClearSky !== 'boolean') {
+            return toErrorResponse(new ValidationError('strictClearSky must be a boolean', 'strictClearSky'));
+        }
+        if (body?.maxLightPollution !== undefined && body.maxLightPollution !== null && !isLightPollutionLevel(body.maxLightPollution)) {
+            return toErrorResponse(new ValidationError('maxLightPollution must be one of 低, 中, 高', 'maxLightPollution'));
+        }
+        if (body?.sortOrder !== undefined && !isAccommodationSortOrder(body.sortOrder)) {
+            return toErrorResponse(new ValidationError('sortOrder must be recommended or light-pollution', 'sortOrder'));
+        }
+        const pageSize = body?.pageSize ?? DEFAULT_PAGE_SIZE;
+        // 絞り込みと並び替えは保持した全件に対して行ってからページに分ける
+        const view: LightPollutionView = {
+            maxLightPollution: body?.maxLightPollution ?? DEFAULT_LIGHT_POLLUTION_VIEW.maxLightPollution,
+            sortOrder: body?.sortOrder ?? DEFAULT_LIGHT_POLLUTION_VIEW.sortOrder,
+        };
+        const applyView = (accommodations: Accommodation[]) => applyLightPollutionView(accommodations, view);
+
+        if (body?.cursor !== undefined) {
+            if (typeof body.cursor !== 'string') {
+                return toErrorResponse(new ValidationError('cursor must be a string', 'cursor'));
+            }
+            const { items, nextCursor, totalCount, firstCursor } = readResultPage(body.cursor, pageSize, applyView);
+            return NextResponse.json({ accommodations: items, nextCursor, totalCount, firstCursor }, { status: 200 });
+        }
+
         const date = body?.date;
         const prefecture = body?.prefecture;
+        const hasCoordinates = body?.latitude !== undefined || body?.longitude !== undefined;
 
-        if (!date || !prefecture) {
-            return NextResponse.json({ message: 'date and prefecture are required' }, { status: 400 });
+        if (!date || (!prefecture && !hasCoordinates)) {
+            return toErrorResponse(new ValidationError('date and either prefecture or latitude/longitude are required', date ? 'prefecture' : 'date'));
         }
 
-        const result = await searchStargazingAccommodations({ date, prefecture });
+        const result = await searchStargazingAccommodations({
+            date,
+            prefecture,
+            latitude: body?.latitude,
+            longitude: body?.longitude,
+            radiusKm: body?.radiusKm,
+            nights: body?.nights,
+            guests: body?.guests,
+            rooms: body?.rooms,
+            maxResults: body?.maxResults,
+            strictClearSky: body?.strictClearSky,
+        });
 
-        return NextResponse.json(result, { status: 200 });
+        const { items, nextCursor, totalCount, firstCursor } = paginateResults(result.accommodations, pageSize, applyView);
+        return NextResponse.json({ ...result, accommodations: items, nextCursor, totalCount, firstCursor }, { status: 200 });
     } catch (error) {
-        if (error instanceof TypeError) {
-            return NextResponse.json({ message: error.message }, { status: 400 });
-        }
-        if (error instanceof Error) {
-            const status = error.message.startsWith('Unsupported prefecture') ? 400 : 500;
-            return NextResponse.json({ message: error.message }, { status });
-        }
-        return NextResponse.json({ message: 'Unknown error occurred' }, { status: 500 });
+        return toErrorResponse(error);
     }
 }
@@ -0,0 +1,24 @@
+import { Star } from "lucide-react";
+import { NationalClearSkyMap } from "../_components/NationalClearSkyMap";
+
+export default function ClearSkyPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-100 px-4 py-10 sm:px-6 lg:px-8">
+      <header className="mx-auto max-w-3xl text-center">
+        <div className="flex items-center justify-center gap-3 text-sky-500">
+          <Star className="h-8 w-8 fill-sky-400" />
+          <h1 className="text-3xl font-bold text-slate-800 sm:text-4xl">全国の晴れ予報</h1>
+          <Star className="h-8 w-8 fill-sky-400" />
+        </div>
+        <p className="mt-4 text-sm text-slate-600 sm:text-base">
+          夜ごとに星が見やすい都道府県を地図で比べて、行き先を決めてから宿を探せます。
+        </p>
+        <a href="/" className="mt-3 inline-block text-sm text-sky-600 underline hover:text-sky-700">宿の検索に戻る</a>
+      </header>
+
+      <main className="mx-auto mt-10 flex w-full max-w-6xl flex-col gap-10">
+        <NationalClearSkyMap />
+      </main>
+    </div>
+  );
+}
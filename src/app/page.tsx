@@ -1,27 +1,51 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
 import { Star } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { describeApiError } from "@/lib/api_errors";
+import { DEFAULT_GUESTS, DEFAULT_MAX_RESULTS, DEFAULT_ROOMS } from "@/lib/hotel_search_options";
+import { DEFAULT_LIGHT_POLLUTION_VIEW, LightPollutionView } from "@/lib/light_pollution";
+import { PREFECTURES } from "@/lib/prefectures";
+import { SearchSectionStatuses } from "@/lib/search_sections";
 import { Accommodation } from "./_components/AccommodationCard";
-import { SearchForm } from "./_components/SearchForm";
-import { SearchResults } from "./_components/SearchResults";
+import { BestNightsFinder } from "./_components/BestNightsFinder";
+import { NightTimelineHour } from "./_components/NightTimelineStrip";
+import { PartyOptions, SearchForm, SearchLocation } from "./_components/SearchForm";
+import { ClearNightSuggestion, ClearPrefectureSuggestion, NightWeather, SearchResults } from "./_components/SearchResults";
 
 type SearchParams = {
   year: string;
   month: string;
   day: string;
-  prefecture: string;
+  locationLabel: string;
+  nights: number;
+  guests: number;
+  rooms: number;
 } | null;
 
+type SearchMode = 'date' | 'best-nights';
+
+const DEFAULT_PARTY: PartyOptions = { guests: DEFAULT_GUESTS, rooms: DEFAULT_ROOMS, maxResults: DEFAULT_MAX_RESULTS, strictClearSky: false };
+
+// 全国の晴れ予報の地図から来た場合に、検索フォームへ入れておく都道府県と日付
+type SearchPrefill = {
+  prefecture: string;
+  date: string;
+};
+
+// 保持した検索結果の期限が切れたあとに光害の条件を変えた場合に、同じ条件で検索し直すため、直前の検索条件を覚えておく
+type SearchRequest = [year: string, month: string, day: string, location: SearchLocation, nights: number, party: PartyOptions];
+
 type SearchMetadata = {
   resolvedAddress: string | null;
-  weather: {
-    date: string;
-    isClearSky: boolean;
-    temperatureMax: number;
-    temperatureMin: number;
-    timezone: string;
-  } | null;
+  weather: NightWeather | null;
+  nights: NightWeather[];
+  bestNight: string | null;
+  siteNames: string[];
+  totalCount: number;
+  sections: Partial<SearchSectionStatuses>;
+  nearestClearNights: ClearNightSuggestion[];
+  nearbyClearPrefectures: ClearPrefectureSuggestion[];
 };
 
 export default function Home() {
@@ -30,7 +54,25 @@ export default function Home() {
   const [searchParams, setSearchParams] = useState<SearchParams>(null);
   const [searchMetadata, setSearchMetadata] = useState<SearchMetadata | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>('date');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [prefill, setPrefill] = useState<SearchPrefill | null>(null);
+  const [lightPollutionView, setLightPollutionView] = useState<LightPollutionView>(DEFAULT_LIGHT_POLLUTION_VIEW);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const lastSearchRef = useRef<SearchRequest | null>(null);
+  // API 側で保持した検索結果の先頭ページを指すカーソル。光害の条件を変えたときはここから読み直す
+  const firstCursorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const prefecture = query.get('prefecture') ?? '';
+    const date = query.get('date') ?? '';
+    if (PREFECTURES.includes(prefecture)) {
+      setPrefill({ prefecture, date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : '' });
+      setSearchMode('date');
+    }
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -40,7 +82,17 @@ export default function Home() {
     };
   }, []);
 
-  const handleSearch = async (year: string, month: string, day: string, prefecture: string) => {
+  const handleSearch = async (
+    year: string,
+    month: string,
+    day: string,
+    location: SearchLocation,
+    nights: number,
+    party: PartyOptions,
+    view: LightPollutionView = lightPollutionView,
+  ) => {
+    lastSearchRef.current = [year, month, day, location, nights, party];
+    firstCursorRef.current = null;
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
@@ -49,7 +101,10 @@ export default function Home() {
     setErrorMessage(null);
     setAccommodations([]);
     setSearchMetadata(null);
-    setSearchParams({ year, month, day, prefecture });
+    setNextCursor(null);
+    setIsLoadingMore(false);
+    const locationLabel = location.type === 'prefecture' ? location.prefecture : location.label;
+    setSearchParams({ year, month, day, locationLabel, nights, guests: party.guests, rooms: party.rooms });
 
     let dateIso: string;
     try {
@@ -70,28 +125,47 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ date: dateIso, prefecture }),
+        body: JSON.stringify({
+          date: dateIso,
+          nights,
+          guests: party.guests,
+          rooms: party.rooms,
+          maxResults: party.maxResults,
+          strictClearSky: party.strictClearSky,
+          maxLightPollution: view.maxLightPollution,
+          sortOrder: view.sortOrder,
+          ...(location.type === 'prefecture'
+            ? { prefecture: location.prefecture }
+            : { latitude: location.latitude, longitude: location.longitude, radiusKm: location.radiusKm }),
+        }),
         signal: controller.signal,
       });
 
       if (!response.ok) {
         const payload = await response.json().catch(() => ({}));
-        const message = typeof payload?.message === 'string' ? payload.message : '検索に失敗しました';
+        const message = describeApiError(payload, '検索に失敗しました');
         throw new Error(message);
       }
 
       const data = await response.json();
       const hotels = Array.isArray(data?.accommodations) ? data.accommodations : [];
       const resolvedAddress = typeof data?.resolvedAddress === 'string' ? data.resolvedAddress : null;
-      const weather = data?.weather && typeof data.weather === 'object' ? {
-        date: typeof data.weather.date === 'string' ? data.weather.date : '',
-        isClearSky: Boolean(data.weather.isClearSky),
-        temperatureMax: Number(data.weather.temperatureMax ?? Number.NaN),
-        temperatureMin: Number(data.weather.temperatureMin ?? Number.NaN),
-        timezone: typeof data.weather.timezone === 'string' ? data.weather.timezone : '',
-      } : null;
+      const weather = isRecord(data?.weather) ? parseNightWeather(data.weather) : null;
+      const stayNights = Array.isArray(data?.nights)
+        ? data.nights.filter(isRecord).map(parseNightWeather)
+        : [];
+      const bestNight = typeof data?.bestNight === 'string' ? data.bestNight : null;
+      const siteNames: string[] = Array.isArray(data?.sites)
+        ? data.sites.map((site: { name?: unknown }) => site?.name).filter((name: unknown): name is string => typeof name === 'string')
+        : [];
+      const totalCount = typeof data?.totalCount === 'number' ? data.totalCount : hotels.length;
+      const sections: Partial<SearchSectionStatuses> = data?.sections && typeof data.sections === 'object' ? data.sections : {};
+      const nearestClearNights: ClearNightSuggestion[] = Array.isArray(data?.nearestClearNights) ? data.nearestClearNights : [];
+      const nearbyClearPrefectures: ClearPrefectureSuggestion[] = Array.isArray(data?.nearbyClearPrefectures) ? data.nearbyClearPrefectures : [];
       setAccommodations(hotels);
-      setSearchMetadata({ resolvedAddress, weather });
+      setSearchMetadata({ resolvedAddress, weather, nights: stayNights, bestNight, siteNames, totalCount, sections, nearestClearNights, nearbyClearPrefectures });
+      setNextCursor(typeof data?.nextCursor === 'string' ? data.nextCursor : null);
+      firstCursorRef.current = typeof data?.firstCursor === 'string' ? data.firstCursor : null;
     } catch (error) {
       if (controller.signal.aborted) {
         return;
@@ -107,6 +181,113 @@ export default function Home() {
     }
   };
 
+  // 光害の絞り込みと並び替えは API 側で保持した全件に対して行うので、条件を変えたら先頭のカーソルから読み直す。
+  // 保持期間が過ぎていた場合だけ検索し直す
+  const handleChangeLightPollutionView = async (view: LightPollutionView) => {
+    setLightPollutionView(view);
+    const firstCursor = firstCursorRef.current;
+    if (!firstCursor) {
+      if (lastSearchRef.current) {
+        handleSearch(...lastSearchRef.current, view);
+      }
+      return;
+    }
+
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+    }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setErrorMessage(null);
+    setNextCursor(null);
+    setIsLoadingMore(false);
+
+    try {
+      const response = await fetch('/api/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ cursor: firstCursor, maxLightPollution: view.maxLightPollution, sortOrder: view.sortOrder }),
+        signal: controller.signal,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        if (data?.error?.code === 'CURSOR_EXPIRED' && lastSearchRef.current) {
+          handleSearch(...lastSearchRef.current, view);
+          return;
+        }
+        const message = describeApiError(data, '検索結果の絞り込みに失敗しました');
+        throw new Error(message);
+      }
+
+      const hotels: Accommodation[] = Array.isArray(data?.accommodations) ? data.accommodations : [];
+      const totalCount = typeof data?.totalCount === 'number' ? data.totalCount : hotels.length;
+      setAccommodations(hotels);
+      setSearchMetadata((current) => (current ? { ...current, totalCount } : current));
+      setNextCursor(typeof data?.nextCursor === 'string' ? data.nextCursor : null);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : '予期しないエラーが発生しました';
+      setErrorMessage(message);
+    } finally {
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // 検索結果の続きのページを取得して末尾に足す
+  const handleLoadMore = async () => {
+    if (!nextCursor || isLoadingMore) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoadingMore(true);
+
+    try {
+      const response = await fetch('/api/search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          cursor: nextCursor,
+          maxLightPollution: lightPollutionView.maxLightPollution,
+          sortOrder: lightPollutionView.sortOrder,
+        }),
+        signal: controller.signal,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const message = describeApiError(data, '続きの検索結果の取得に失敗しました');
+        throw new Error(message);
+      }
+
+      const hotels: Accommodation[] = Array.isArray(data?.accommodations) ? data.accommodations : [];
+      setAccommodations((current) => [...current, ...hotels]);
+      setNextCursor(typeof data?.nextCursor === 'string' ? data.nextCursor : null);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : '予期しないエラーが発生しました';
+      setErrorMessage(message);
+      setNextCursor(null);
+    } finally {
+      if (!controller.signal.aborted) {
+        setIsLoadingMore(false);
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 via-white to-slate-100 px-4 py-10 sm:px-6 lg:px-8">
       <header className="mx-auto max-w-3xl text-center">
@@ -118,10 +299,40 @@ export default function Home() {
         <p className="mt-4 text-sm text-slate-600 sm:text-base">
           選択した地域で星が見やすい日に宿泊できる施設を検索します。星を見る会を開きましょう！
         </p>
+        <div className="mt-3 flex flex-wrap justify-center gap-4">
+          <a href="/clear-sky" className="inline-block text-sm text-sky-600 underline hover:text-sky-700">全国の晴れ予報を地図で見る</a>
+          <a href="/new-moons" className="inline-block text-sm text-sky-600 underline hover:text-sky-700">新月の日から旅行を計画する</a>
+        </div>
       </header>
 
       <main className="mx-auto mt-10 flex w-full max-w-6xl flex-col gap-10">
-        <SearchForm onSearch={handleSearch} />
+        <div className="mx-auto flex w-full max-w-3xl justify-center gap-2" role="tablist">
+          {([
+            ['date', '日付から探す'],
+            ['best-nights', 'ベストな夜を探す'],
+          ] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              role="tab"
+              aria-selected={searchMode === mode}
+              onClick={() => setSearchMode(mode)}
+              className={`rounded-full px-4 py-2 text-sm font-semibold transition-colors ${searchMode === mode ? 'bg-sky-600 text-white' : 'border border-slate-200 bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {searchMode === 'date' ? (
+          <SearchForm
+            key={prefill ? `${prefill.prefecture}:${prefill.date}` : 'empty'}
+            onSearch={handleSearch}
+            initialPrefecture={prefill?.prefecture}
+            initialDate={prefill?.date}
+          />
+        ) : (
+          <BestNightsFinder onSelectNight={(year, month, day, prefecture) => handleSearch(year, month, day, { type: 'prefecture', prefecture }, 1, DEFAULT_PARTY)} />
+        )}
         <SearchResults
           accommodations={accommodations}
           isLoading={isLoading}
@@ -129,12 +340,60 @@ export default function Home() {
           errorMessage={errorMessage}
           resolvedAddress={searchMetadata?.resolvedAddress ?? null}
           weather={searchMetadata?.weather ?? null}
+          nights={searchMetadata?.nights ?? []}
+          bestNight={searchMetadata?.bestNight ?? null}
+          siteNames={searchMetadata?.siteNames ?? []}
+          totalCount={searchMetadata?.totalCount}
+          sections={searchMetadata?.sections}
+          nearestClearNights={searchMetadata?.nearestClearNights ?? []}
+          nearbyClearPrefectures={searchMetadata?.nearbyClearPrefectures ?? []}
+          hasMore={nextCursor !== null}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={handleLoadMore}
+          lightPollutionView={lightPollutionView}
+          onChangeLightPollutionView={handleChangeLightPollutionView}
         />
       </main>
     </div>
   );
 }
 
+function parseNightWeather(raw: Record<string, unknown>): NightWeather {
+  const darkWindow: Record<string, unknown> = isRecord(raw.darkWindow) ? raw.darkWindow : {};
+  return {
+    date: typeof raw.date === 'string' ? raw.date : '',
+    isClearSky: Boolean(raw.isClearSky),
+    temperatureMax: Number(raw.temperatureMax ?? Number.NaN),
+    temperatureMin: Number(raw.temperatureMin ?? Number.NaN),
+    timezone: typeof raw.timezone === 'string' ? raw.timezone : '',
+    darkHours: Number(raw.darkHours ?? Number.NaN),
+    stargazingScore: typeof raw.stargazingScore === 'number' ? raw.stargazingScore : null,
+    moonIlluminatedFraction: Number(raw.moonIlluminatedFraction ?? Number.NaN),
+    moonrise: typeof darkWindow.moonrise === 'string' ? darkWindow.moonrise : null,
+    moonset: typeof darkWindow.moonset === 'string' ? darkWindow.moonset : null,
+    timeline: Array.isArray(raw.timeline) ? raw.timeline.filter(isRecord).map(parseTimelineHour) : [],
+  };
+}
+
+function parseTimelineHour(raw: Record<string, unknown>): NightTimelineHour {
+  const numberOrNull = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  return {
+    time: typeof raw.time === 'string' ? raw.time : '',
+    cloudCover: numberOrNull(raw.cloudCover),
+    cloudCoverLow: numberOrNull(raw.cloudCoverLow),
+    cloudCoverMid: numberOrNull(raw.cloudCoverMid),
+    cloudCoverHigh: numberOrNull(raw.cloudCoverHigh),
+    temperature: numberOrNull(raw.temperature),
+    windSpeed: numberOrNull(raw.windSpeed),
+    relativeHumidity: numberOrNull(raw.relativeHumidity),
+    moonAltitude: Number(raw.moonAltitude ?? Number.NaN),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
 function buildIsoDate(year: string, month: string, day: string): string {
   const yearNum = Number.parseInt(year, 10);
   const monthNum = Number.parseInt(month, 10);
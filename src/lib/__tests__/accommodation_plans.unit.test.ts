@@ -0,0 +1,28 @@
+import { AccommodationPlan, selectCheapestPlans, toMealPlan } from '../accommodation_plans';
+
+const buildPlan = (planName: string, totalPrice: number): AccommodationPlan => ({
+    planName,
+    roomName: '和室',
+    meals: 'none',
+    pricePerNight: totalPrice,
+    totalPrice,
+    bookingUrl: null,
+});
+
+describe('toMealPlan', () => {
+    it('朝食・夕食の有無から食事の区分を求める', () => {
+        expect(toMealPlan(false, false)).toBe('none');
+        expect(toMealPlan(true, false)).toBe('breakfast');
+        expect(toMealPlan(false, true)).toBe('dinner');
+        expect(toMealPlan(true, true)).toBe('breakfast-dinner');
+    });
+});
+
+describe('selectCheapestPlans', () => {
+    it('料金の分からないプランを除き、安い順に上位を選ぶ', () => {
+        const plans = [buildPlan('C', 30000), buildPlan('無料?', 0), buildPlan('A', 10000), buildPlan('D', 40000), buildPlan('B', 20000)];
+
+        expect(selectCheapestPlans(plans).map((plan) => plan.planName)).toEqual(['A', 'B', 'C']);
+        expect(selectCheapestPlans(plans, 2).map((plan) => plan.planName)).toEqual(['A', 'B']);
+    });
+});
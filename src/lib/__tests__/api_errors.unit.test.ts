@@ -0,0 +1,19 @@
+import { API_ERROR_MESSAGES, describeApiError } from '../api_errors';
+
+describe('describeApiError', () => {
+    it('エラーコードに対応する文言を返す', () => {
+        expect(describeApiError({ error: { code: 'UPSTREAM_RATE_LIMITED', message: 'Unexpected status code: 429' } }, '失敗しました'))
+            .toBe(API_ERROR_MESSAGES.UPSTREAM_RATE_LIMITED);
+    });
+
+    it('入力エラーは項目名を含めた文言を返す', () => {
+        expect(describeApiError({ error: { code: 'VALIDATION_FAILED', message: 'nights must be...', details: { field: 'nights' } } }, '失敗しました'))
+            .toBe('泊数の指定に誤りがあります。');
+        expect(describeApiError({ error: { code: 'VALIDATION_FAILED', message: 'x', details: { field: 'unknown' } } }, '失敗しました'))
+            .toBe(API_ERROR_MESSAGES.VALIDATION_FAILED);
+    });
+
+    it.each([null, 'text', { message: 'old format' }, { error: { code: 'SOMETHING_ELSE' } }])('エラー応答の形でなければ fallback を返す (%p)', (payload) => {
+        expect(describeApiError(payload, '失敗しました')).toBe('失敗しました');
+    });
+});
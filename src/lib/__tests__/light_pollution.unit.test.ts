@@ -0,0 +1,45 @@
+import {
+    applyLightPollutionView,
+    compareLightPollutionLevel,
+    isWithinLightPollutionLevel,
+    LightPollutionLevel,
+    toLightPollutionLevel,
+} from '../light_pollution';
+
+describe('light_pollution (unit)', () => {
+    it.each([
+        [1, '低'],
+        [3, '低'],
+        [4, '中'],
+        [5, '中'],
+        [6, '高'],
+        [9, '高'],
+    ])('ボートル等級 %i は光害レベル %s になる', (bortleClass, expected) => {
+        expect(toLightPollutionLevel(bortleClass)).toBe(expected);
+    });
+
+    it('光害の少ない順に並べ、不明なものは末尾に回す', () => {
+        const levels: Array<LightPollutionLevel | null> = ['高', null, '低', '中'];
+
+        expect(levels.sort(compareLightPollutionLevel)).toEqual(['低', '中', '高', null]);
+    });
+
+    it('上限以下のレベルだけを残し、上限がなければ絞り込まない', () => {
+        expect(isWithinLightPollutionLevel('低', '中')).toBe(true);
+        expect(isWithinLightPollutionLevel('高', '中')).toBe(false);
+        expect(isWithinLightPollutionLevel(null, '高')).toBe(false);
+        expect(isWithinLightPollutionLevel(null, null)).toBe(true);
+    });
+
+    it('上限で絞り込んでから、光害の少ない順 (同じレベルは暗い順) に並べる', () => {
+        const items = [
+            { id: 'a', lightPollution: '中' as const, bortleClass: 5 },
+            { id: 'b', lightPollution: '高' as const, bortleClass: 7 },
+            { id: 'c', lightPollution: '低' as const, bortleClass: 3 },
+            { id: 'd', lightPollution: '中' as const, bortleClass: 4 },
+        ];
+
+        expect(applyLightPollutionView(items, { maxLightPollution: '中', sortOrder: 'recommended' }).map((item) => item.id)).toEqual(['a', 'c', 'd']);
+        expect(applyLightPollutionView(items, { maxLightPollution: null, sortOrder: 'light-pollution' }).map((item) => item.id)).toEqual(['c', 'd', 'a', 'b']);
+    });
+});
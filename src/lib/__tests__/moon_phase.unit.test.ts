@@ -0,0 +1,96 @@
+import {
+    findNextFullMoon,
+    findNextNewMoon,
+    findPreviousNewMoon,
+    formatNextNewMoonDate,
+    getMoonAgeImageIndex,
+    getMoonPhaseInfo,
+    toJstIsoDate,
+} from '../moon_phase';
+
+const TOLERANCE_MS = 2 * 60 * 1000;
+
+describe('moon_phase (unit)', () => {
+    it.each([
+        ['2024-01-01T00:00:00Z', '2024-01-11T11:57:00Z'],
+        ['2024-01-12T00:00:00Z', '2024-02-09T22:59:00Z'],
+        ['2025-01-15T00:00:00Z', '2025-01-29T12:36:00Z'],
+        ['2025-09-01T00:00:00Z', '2025-09-21T19:54:00Z'],
+    ])('%s 以降の新月は既知の朔 %s と一致する', (from, expected) => {
+        const newMoon = findNextNewMoon(new Date(from));
+
+        expect(Math.abs(newMoon.getTime() - Date.parse(expected))).toBeLessThan(TOLERANCE_MS);
+    });
+
+    it.each([
+        ['2024-01-20T00:00:00Z', '2024-01-11T11:57:00Z'],
+        ['2025-10-01T00:00:00Z', '2025-09-21T19:54:00Z'],
+    ])('%s 以前の直近の新月は既知の朔 %s と一致する', (from, expected) => {
+        const newMoon = findPreviousNewMoon(new Date(from));
+
+        expect(Math.abs(newMoon.getTime() - Date.parse(expected))).toBeLessThan(TOLERANCE_MS);
+    });
+
+    it.each([
+        ['2024-01-12T00:00:00Z', '2024-01-25T17:54:00Z'],
+        ['2024-09-01T00:00:00Z', '2024-09-18T02:34:00Z'],
+        ['2025-10-01T00:00:00Z', '2025-10-07T03:48:00Z'],
+    ])('%s 以降の満月は既知の望 %s と一致する', (from, expected) => {
+        const fullMoon = findNextFullMoon(new Date(from));
+
+        expect(Math.abs(fullMoon.getTime() - Date.parse(expected))).toBeLessThan(TOLERANCE_MS);
+    });
+
+    it.each([
+        // 朔 (2025-09-22 04:54 JST) 当日の正午は月齢 1 未満で、ほぼ照らされていない
+        { date: '2025-09-22', minAge: 0, maxAge: 1, minFraction: 0, maxFraction: 0.05 },
+        // 満月当日は月齢 15 前後で、ほぼ全面が照らされている
+        { date: '2025-10-07', minAge: 14.5, maxAge: 16, minFraction: 0.97, maxFraction: 1 },
+        // 上弦付近は半分程度照らされている
+        { date: '2025-09-29', minAge: 7, maxAge: 8.5, minFraction: 0.4, maxFraction: 0.6 },
+    ])('$date の月齢と輝面比を JST 正午基準で返す', ({ date, minAge, maxAge, minFraction, maxFraction }) => {
+        const info = getMoonPhaseInfo(date);
+
+        expect(info.date).toBe(date);
+        expect(info.moonAge).toBeGreaterThanOrEqual(minAge);
+        expect(info.moonAge).toBeLessThanOrEqual(maxAge);
+        expect(info.illuminatedFraction).toBeGreaterThanOrEqual(minFraction);
+        expect(info.illuminatedFraction).toBeLessThanOrEqual(maxFraction);
+    });
+
+    it('前後の新月・満月を ISO 8601 で返す', () => {
+        const info = getMoonPhaseInfo('2025-09-30');
+
+        expect(Math.abs(Date.parse(info.previousNewMoon) - Date.parse('2025-09-21T19:54:00Z'))).toBeLessThan(TOLERANCE_MS);
+        expect(Math.abs(Date.parse(info.nextFullMoon) - Date.parse('2025-10-07T03:48:00Z'))).toBeLessThan(TOLERANCE_MS);
+        expect(Date.parse(info.nextNewMoon)).toBeGreaterThan(Date.parse(info.nextFullMoon));
+    });
+
+    it.each([
+        ['2025-09-21', 28],
+        ['2025-09-22', 0],
+        ['2025-09-23', 1],
+        ['2025-10-07', 15],
+    ])('%s の月齢画像インデックスは %i', (date, expected) => {
+        expect(getMoonAgeImageIndex(date)).toBe(expected);
+    });
+
+    it.each([
+        ['2025-02-01', '2025-02-01'],
+        [new Date('2025-01-31T15:00:00Z'), '2025-02-01'],
+        [new Date('2025-01-31T14:59:59Z'), '2025-01-31'],
+        ['2025-01-31T20:00:00Z', '2025-02-01'],
+    ])('%p を JST の暦日 %s に正規化する', (input, expected) => {
+        expect(toJstIsoDate(input)).toBe(expected);
+    });
+
+    it('宿泊日以降で最初の新月の日付を JST の暦日で書式化する', () => {
+        expect(formatNextNewMoonDate('2025-01-15')).toBe('2025年1月29日');
+        // 朔は 2025-09-21T19:54Z で、JST では翌日になる
+        expect(formatNextNewMoonDate('2025-09-01')).toBe('2025年9月22日');
+    });
+
+    it('不正な日付は TypeError を投げる', () => {
+        expect(() => getMoonPhaseInfo('invalid-date')).toThrow(TypeError);
+    });
+});
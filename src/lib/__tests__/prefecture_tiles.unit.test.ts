@@ -0,0 +1,20 @@
+import { PREFECTURES } from '@/lib/prefectures';
+import { formatTileLabel, PREFECTURE_TILE_GRID_SIZE, PREFECTURE_TILES } from '../prefecture_tiles';
+
+describe('PREFECTURE_TILES', () => {
+    it('47 都道府県すべてに重ならない位置がある', () => {
+        expect(Object.keys(PREFECTURE_TILES).sort()).toEqual([...PREFECTURES].sort());
+        const positions = Object.values(PREFECTURE_TILES).map(({ column, row }) => `${column},${row}`);
+        expect(new Set(positions).size).toBe(PREFECTURES.length);
+        expect(PREFECTURE_TILE_GRID_SIZE).toEqual({ columns: 14, rows: 9 });
+    });
+});
+
+describe('formatTileLabel', () => {
+    it('末尾の都府県を除く', () => {
+        expect(formatTileLabel('長野県')).toBe('長野');
+        expect(formatTileLabel('東京都')).toBe('東京');
+        expect(formatTileLabel('京都府')).toBe('京都');
+        expect(formatTileLabel('北海道')).toBe('北海道');
+    });
+});
@@ -0,0 +1,15 @@
+import { listSectionWarnings, SEARCH_SECTION_WARNINGS } from '../search_sections';
+
+describe('listSectionWarnings', () => {
+    it('取得できなかった部分と古い部分の注意書きを住所・天気・宿の順に返す', () => {
+        expect(listSectionWarnings({ accommodations: 'stale', address: 'unavailable', weather: 'ok' })).toEqual([
+            SEARCH_SECTION_WARNINGS.address.unavailable,
+            SEARCH_SECTION_WARNINGS.accommodations.stale,
+        ]);
+    });
+
+    it('取得状況がない場合は空配列を返す', () => {
+        expect(listSectionWarnings(undefined)).toEqual([]);
+        expect(listSectionWarnings({ address: 'ok', weather: 'ok', accommodations: 'ok' })).toEqual([]);
+    });
+});
@@ -0,0 +1,51 @@
+/** 宿泊プランの食事 */
+export type MealPlan = 'none' | 'breakfast' | 'dinner' | 'breakfast-dinner';
+
+export const MEAL_PLAN_LABELS: Record<MealPlan, string> = {
+    none: '食事なし',
+    breakfast: '朝食付き',
+    dinner: '夕食付き',
+    'breakfast-dinner': '朝夕食付き',
+};
+
+/** 宿ごとに返す (カードに並べる) プランの数 */
+export const MAX_LISTED_PLANS = 3;
+
+/** 指定した日程・人数・部屋数で空きのある宿泊プラン */
+export interface AccommodationPlan {
+    planName: string;
+    /** 部屋タイプ (部屋名) */
+    roomName: string;
+    meals: MealPlan;
+    /** 1 泊あたりの料金 (グループ全員・全室の合計, 円) */
+    pricePerNight: number;
+    /** 宿泊全体の料金 (グループ全員・全室・全泊の合計, 円) */
+    totalPrice: number;
+    /** プランの予約ページ。なければ null */
+    bookingUrl: string | null;
+}
+
+/**
+ * 朝食・夕食の有無から食事の区分を求める
+ */
+export function toMealPlan(withBreakfast: boolean, withDinner: boolean): MealPlan {
+    if (withBreakfast && withDinner) {
+        return 'breakfast-dinner';
+    }
+    if (withBreakfast) {
+        return 'breakfast';
+    }
+    return withDinner ? 'dinner' : 'none';
+}
+
+/**
+ * 料金の安い順に上位のプランを選ぶ。料金が分からない (0 以下の) プランは除く
+ * @param plans 宿泊プラン
+ * @param limit 選ぶ数 (省略時は MAX_LISTED_PLANS)
+ */
+export function selectCheapestPlans(plans: AccommodationPlan[], limit = MAX_LISTED_PLANS): AccommodationPlan[] {
+    return plans
+        .filter((plan) => plan.totalPrice > 0)
+        .sort((a, b) => a.totalPrice - b.totalPrice)
+        .slice(0, limit);
+}
@@ -0,0 +1,13 @@
+/** 宿の情報を取得する予約サイト */
+export type AccommodationProviderId = 'rakuten' | 'jalan';
+
+export const ACCOMMODATION_PROVIDER_LABELS: Record<AccommodationProviderId, string> = {
+    rakuten: '楽天トラベル',
+    jalan: 'じゃらん',
+};
+
+/** 宿が掲載されていた予約サイトと、そのサイトでの予約ページ */
+export interface AccommodationSource {
+    provider: AccommodationProviderId;
+    bookingUrl: string;
+}
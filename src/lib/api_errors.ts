@@ -0,0 +1,77 @@
+/**
+ * API のエラー応答のコード
+ * 画面ではこのコードから表示する文言を選ぶ。値は変えないこと。
+ */
+export type ApiErrorCode =
+    | 'VALIDATION_FAILED'
+    | 'NOT_FOUND'
+    | 'PREFECTURE_NOT_SUPPORTED'
+    | 'CURSOR_EXPIRED'
+    | 'UPSTREAM_BAD_RESPONSE'
+    | 'UPSTREAM_TIMEOUT'
+    | 'UPSTREAM_UNAVAILABLE'
+    | 'UPSTREAM_RATE_LIMITED'
+    | 'CONFIGURATION_MISSING'
+    | 'INTERNAL_ERROR';
+
+/** API のエラー応答の本文 */
+export interface ApiErrorEnvelope {
+    error: {
+        code: ApiErrorCode;
+        /** 開発者向けの説明 (英語)。画面にはそのまま出さない */
+        message: string;
+        /** 入力エラーの場合の項目名など */
+        details?: Record<string, unknown>;
+    };
+}
+
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+    VALIDATION_FAILED: '入力内容に誤りがあります。',
+    NOT_FOUND: '対象が見つかりませんでした。',
+    PREFECTURE_NOT_SUPPORTED: 'この都道府県には対応していません。',
+    CURSOR_EXPIRED: '検索結果の有効期限が切れました。もう一度検索してください。',
+    UPSTREAM_BAD_RESPONSE: '外部サービスから正しい応答が得られませんでした。',
+    UPSTREAM_TIMEOUT: '外部サービスの応答がありませんでした。時間をおいて再度お試しください。',
+    UPSTREAM_UNAVAILABLE: '外部サービスに接続できません。時間をおいて再度お試しください。',
+    UPSTREAM_RATE_LIMITED: 'アクセスが集中しています。しばらく待ってから再度お試しください。',
+    CONFIGURATION_MISSING: 'サーバーの設定が不足しているため利用できません。',
+    INTERNAL_ERROR: '予期しないエラーが発生しました。',
+};
+
+// 入力エラーの場合に項目名とあわせて表示する名前
+const FIELD_LABELS: Record<string, string> = {
+    date: '日付',
+    prefecture: '都道府県',
+    prefectures: '都道府県',
+    latitude: '緯度',
+    longitude: '経度',
+    radiusKm: '検索半径',
+    nights: '泊数',
+    guests: '人数',
+    rooms: '部屋数',
+    maxResults: '表示件数',
+    limit: '表示件数',
+    pageSize: '表示件数',
+    strictClearSky: '晴れの夜だけの条件',
+    cursor: '続きの検索結果',
+};
+
+/**
+ * API のエラー応答から画面に表示する文言を作る
+ * @param payload エラー応答の本文 (解釈できなくてもよい)
+ * @param fallback エラー応答の形をしていない場合の文言
+ */
+export function describeApiError(payload: unknown, fallback: string): string {
+    const error = (payload as Partial<ApiErrorEnvelope> | null)?.error;
+    const code = error?.code;
+    if (!code || !(code in API_ERROR_MESSAGES)) {
+        return fallback;
+    }
+
+    const message = API_ERROR_MESSAGES[code];
+    const field = error.details?.field;
+    if (code === 'VALIDATION_FAILED' && typeof field === 'string' && field in FIELD_LABELS) {
+        return `${FIELD_LABELS[field]}の指定に誤りがあります。`;
+    }
+    return message;
+}
@@ -0,0 +1,12 @@
+/** 晴れ予報の確からしさ。複数の予報モデルの一致度と、何日先の予報かで決める */
+export type ClearSkyConfidence = 'high' | 'medium' | 'low';
+
+export const CLEAR_SKY_CONFIDENCE_LABELS: Record<ClearSkyConfidence, string> = {
+    high: '確度高',
+    medium: '確度中',
+    low: '確度低',
+};
+
+export function isClearSkyConfidence(value: unknown): value is ClearSkyConfidence {
+    return value === 'high' || value === 'medium' || value === 'low';
+}
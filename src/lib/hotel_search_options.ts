@@ -0,0 +1,70 @@
+/** 一度に検索できる最大人数 */
+export const MAX_GUESTS = 40;
+/** 一度に予約できる最大部屋数 (楽天トラベル API の上限) */
+export const MAX_ROOMS = 10;
+/** 1 室あたりの大人の人数の上限 (じゃらんの空室検索の上限に合わせる) */
+export const MAX_GUESTS_PER_ROOM = 9;
+export const DEFAULT_GUESTS = 2;
+export const DEFAULT_ROOMS = 1;
+
+/**
+ * 宿の検索半径 (km) の範囲。予約サイトの上限 (3km) を超える半径は複数の地点に分けて検索する
+ * 5km なら中心と周りの 6 地点で覆えるので、予約サイトへのリクエストを 7 回までに抑えられる。
+ */
+export const MIN_HOTEL_SEARCH_RADIUS_KM = 0.1;
+export const MAX_HOTEL_SEARCH_RADIUS_KM = 5;
+
+/** 返す宿の件数 */
+export const DEFAULT_MAX_RESULTS = 30;
+export const MAX_RESULTS_LIMIT = 100;
+
+/**
+ * 人数が検索可能な範囲 (1〜MAX_GUESTS の整数) かどうか
+ * @param guests 大人の人数
+ */
+export function isValidGuestCount(guests: unknown): guests is number {
+    return typeof guests === 'number' && Number.isInteger(guests) && guests >= 1 && guests <= MAX_GUESTS;
+}
+
+/**
+ * 部屋数が人数に対して妥当かどうか
+ * 1 室に 1 人以上、MAX_GUESTS_PER_ROOM 人以下で泊まれる部屋数 (1〜MAX_ROOMS の整数) を妥当とする。
+ * @param rooms 部屋数
+ * @param guests 大人の人数
+ */
+export function isValidRoomCount(rooms: unknown, guests: number): rooms is number {
+    return typeof rooms === 'number'
+        && Number.isInteger(rooms)
+        && rooms >= 1
+        && rooms <= MAX_ROOMS
+        && rooms <= guests
+        && guests <= rooms * MAX_GUESTS_PER_ROOM;
+}
+
+/**
+ * 人数を部屋に割り振ったときの 1 室あたりの最大人数
+ * @param guests 大人の人数
+ * @param rooms 部屋数
+ */
+export function guestsPerRoom(guests: number, rooms: number): number {
+    return Math.ceil(guests / rooms);
+}
+
+/**
+ * 宿の検索半径が MIN_HOTEL_SEARCH_RADIUS_KM〜MAX_HOTEL_SEARCH_RADIUS_KM の範囲かどうか
+ * @param radiusKm 検索半径 (km)
+ */
+export function isValidHotelSearchRadius(radiusKm: unknown): radiusKm is number {
+    return typeof radiusKm === 'number'
+        && Number.isFinite(radiusKm)
+        && radiusKm >= MIN_HOTEL_SEARCH_RADIUS_KM
+        && radiusKm <= MAX_HOTEL_SEARCH_RADIUS_KM;
+}
+
+/**
+ * 返す宿の件数が 1〜MAX_RESULTS_LIMIT の整数かどうか
+ * @param maxResults 件数
+ */
+export function isValidMaxResults(maxResults: unknown): maxResults is number {
+    return typeof maxResults === 'number' && Number.isInteger(maxResults) && maxResults >= 1 && maxResults <= MAX_RESULTS_LIMIT;
+}
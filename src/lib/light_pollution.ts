@@ -0,0 +1,83 @@
+/** 宿の周辺の光害の程度。ボートル・スケールを 3 段階にまとめたもの */
+export type LightPollutionLevel = '低' | '中' | '高';
+
+/** 光害の少ない順 */
+export const LIGHT_POLLUTION_LEVELS: readonly LightPollutionLevel[] = ['低', '中', '高'];
+
+/** 宿の並び順。recommended は検索結果のおすすめ順のまま */
+export type AccommodationSortOrder = 'recommended' | 'light-pollution';
+
+export const ACCOMMODATION_SORT_ORDERS: readonly AccommodationSortOrder[] = ['recommended', 'light-pollution'];
+
+/** 光害で宿を絞り込み・並び替える条件 */
+export interface LightPollutionView {
+    /** 許容する最も明るいレベル。null なら絞り込まない */
+    maxLightPollution: LightPollutionLevel | null;
+    sortOrder: AccommodationSortOrder;
+}
+
+export const DEFAULT_LIGHT_POLLUTION_VIEW: LightPollutionView = { maxLightPollution: null, sortOrder: 'recommended' };
+
+/**
+ * ボートル・スケールの等級を光害レベルに変換する
+ * 1〜3 (天の川がはっきり見える郊外・山間部) を低、4〜5 (郊外) を中、6 以上 (市街地) を高とする。
+ * @param bortleClass ボートル・スケールの等級 (1〜9)
+ */
+export function toLightPollutionLevel(bortleClass: number): LightPollutionLevel {
+    if (bortleClass <= 3) {
+        return '低';
+    }
+    if (bortleClass <= 5) {
+        return '中';
+    }
+    return '高';
+}
+
+/**
+ * 光害レベルの少ない順に並べるための比較関数。レベルが不明なものは末尾に回す
+ */
+export function compareLightPollutionLevel(a: LightPollutionLevel | null, b: LightPollutionLevel | null): number {
+    return rankOf(a) - rankOf(b);
+}
+
+/**
+ * 光害レベルが上限以下かどうか。レベルが不明なものは上限を指定したときだけ除外する
+ * @param level 判定するレベル
+ * @param maxLevel 許容する最も明るいレベル。null なら絞り込まない
+ */
+export function isWithinLightPollutionLevel(level: LightPollutionLevel | null, maxLevel: LightPollutionLevel | null): boolean {
+    if (maxLevel === null) {
+        return true;
+    }
+    return level !== null && rankOf(level) <= rankOf(maxLevel);
+}
+
+export function isLightPollutionLevel(value: unknown): value is LightPollutionLevel {
+    return LIGHT_POLLUTION_LEVELS.some((level) => level === value);
+}
+
+export function isAccommodationSortOrder(value: unknown): value is AccommodationSortOrder {
+    return ACCOMMODATION_SORT_ORDERS.some((order) => order === value);
+}
+
+/**
+ * 光害の上限で絞り込み、必要なら光害の少ない順に並べ替える
+ * 光害順では同じレベルの中でボートル等級の小さい (暗い) 順に並べ、それも同じならもとの順を保つ。
+ * @param items おすすめ順に並んだ宿
+ * @param view 絞り込み・並び替えの条件
+ */
+export function applyLightPollutionView<T extends { lightPollution: LightPollutionLevel | null; bortleClass: number | null }>(
+    items: T[],
+    { maxLightPollution, sortOrder }: LightPollutionView,
+): T[] {
+    const filtered = items.filter((item) => isWithinLightPollutionLevel(item.lightPollution, maxLightPollution));
+    if (sortOrder === 'recommended') {
+        return filtered;
+    }
+    return filtered.sort((a, b) => compareLightPollutionLevel(a.lightPollution, b.lightPollution)
+        || (a.bortleClass ?? Number.POSITIVE_INFINITY) - (b.bortleClass ?? Number.POSITIVE_INFINITY));
+}
+
+function rankOf(level: LightPollutionLevel | null): number {
+    return level === null ? LIGHT_POLLUTION_LEVELS.length : LIGHT_POLLUTION_LEVELS.indexOf(level);
+}
@@ -0,0 +1,136 @@
+import { Body, Illumination, MoonPhase, SearchMoonPhase } from 'astronomy-engine';
+
+// サーバーとクライアント (カレンダー) の両方から使う月齢計算。
+// 固定の基準新月と平均朔望月からの外挿では最大半日ずれるため、astronomy-engine の暦計算で求める。
+
+const NEW_MOON_LONGITUDE = 0;
+const FULL_MOON_LONGITUDE = 180;
+const MOON_PHASE_SEARCH_LIMIT_DAYS = 40;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+// 日本の暦と同じく、その日の月齢は JST 正午時点の値とする
+const JST_NOON_UTC_HOURS = 3;
+const MS_PER_DAY = 86_400_000;
+const MOON_AGE_IMAGE_COUNT = 30;
+
+export interface MoonPhaseInfo {
+    /** 対象日 (Asia/Tokyo, YYYY-MM-DD) */
+    date: string;
+    /** 対象日 JST 正午時点の月齢 (日) */
+    moonAge: number;
+    /** 輝面比 (0: 新月 〜 1: 満月) */
+    illuminatedFraction: number;
+    /** 月と太陽の黄経差 (度, 0: 新月, 180: 満月) */
+    phaseAngle: number;
+    /** 直前の新月の瞬間 (ISO 8601) */
+    previousNewMoon: string;
+    /** 次の新月の瞬間 (ISO 8601) */
+    nextNewMoon: string;
+    /** 次の満月の瞬間 (ISO 8601) */
+    nextFullMoon: string;
+}
+
+/**
+ * 指定時刻以降で最初の新月の瞬間を返す
+ * @param from 検索開始時刻
+ * @returns 新月の瞬間
+ */
+export function findNextNewMoon(from: Date): Date {
+    return searchMoonPhase(NEW_MOON_LONGITUDE, from, MOON_PHASE_SEARCH_LIMIT_DAYS);
+}
+
+/**
+ * 指定時刻以前で直近の新月の瞬間を返す
+ * @param from 検索開始時刻
+ * @returns 新月の瞬間
+ */
+export function findPreviousNewMoon(from: Date): Date {
+    return searchMoonPhase(NEW_MOON_LONGITUDE, from, -MOON_PHASE_SEARCH_LIMIT_DAYS);
+}
+
+/**
+ * 指定時刻以降で最初の満月の瞬間を返す
+ * @param from 検索開始時刻
+ * @returns 満月の瞬間
+ */
+export function findNextFullMoon(from: Date): Date {
+    return searchMoonPhase(FULL_MOON_LONGITUDE, from, MOON_PHASE_SEARCH_LIMIT_DAYS);
+}
+
+/**
+ * 宿泊日 (JST) の 0 時以降で最初の新月の日付を「2025年2月28日」の形式で返す
+ * @param stayDate 宿泊日 (YYYY-MM-DD)
+ */
+export function formatNextNewMoonDate(stayDate: string): string {
+    const nextNewMoon = findNextNewMoon(new Date(`${stayDate}T00:00:00+09:00`));
+    const formatter = new Intl.DateTimeFormat('ja-JP', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'Asia/Tokyo' });
+    return formatter.format(nextNewMoon);
+}
+
+/**
+ * Asia/Tokyo の暦日における月の状態を返す
+ * @param date 対象日 (YYYY-MM-DD 文字列は JST の暦日、Date はその瞬間の JST 暦日として扱う)
+ * @returns 月齢・輝面比と前後の新月/満月
+ */
+export function getMoonPhaseInfo(date: string | Date): MoonPhaseInfo {
+    const isoDate = toJstIsoDate(date);
+    const noon = jstNoonOf(isoDate);
+    const previousNewMoon = findPreviousNewMoon(noon);
+
+    return {
+        date: isoDate,
+        moonAge: roundTo((noon.getTime() - previousNewMoon.getTime()) / MS_PER_DAY, 1),
+        illuminatedFraction: roundTo(Illumination(Body.Moon, noon).phase_fraction, 3),
+        phaseAngle: roundTo(MoonPhase(noon), 1),
+        previousNewMoon: previousNewMoon.toISOString(),
+        nextNewMoon: findNextNewMoon(noon).toISOString(),
+        nextFullMoon: findNextFullMoon(noon).toISOString(),
+    };
+}
+
+/**
+ * カレンダー用の月齢画像 (public/moon/moon_00.jpg 〜 moon_29.jpg) のインデックスを返す
+ * @param date 対象日
+ * @returns 0..29 の月齢インデックス
+ */
+export function getMoonAgeImageIndex(date: string | Date): number {
+    const { moonAge } = getMoonPhaseInfo(date);
+    return Math.min(MOON_AGE_IMAGE_COUNT - 1, Math.max(0, Math.floor(moonAge)));
+}
+
+/**
+ * 日付を Asia/Tokyo の暦日 (YYYY-MM-DD) に正規化する
+ * @param date YYYY-MM-DD 文字列、ISO 8601 日時文字列、または Date
+ * @returns JST の暦日
+ */
+export function toJstIsoDate(date: string | Date): string {
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date.trim())) {
+        return date.trim();
+    }
+
+    const parsed = date instanceof Date ? date : new Date(date);
+    if (Number.isNaN(parsed.getTime())) {
+        throw new TypeError('date must be a valid ISO 8601 string (YYYY-MM-DD) or Date');
+    }
+    return new Date(parsed.getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function jstNoonOf(isoDate: string): Date {
+    const [year, month, day] = isoDate.split('-').map(part => Number.parseInt(part, 10));
+    const noon = new Date(Date.UTC(year, month - 1, day, JST_NOON_UTC_HOURS));
+    if (Number.isNaN(noon.getTime())) {
+        throw new TypeError('date must be a valid ISO 8601 string (YYYY-MM-DD) or Date');
+    }
+    return noon;
+}
+
+function searchMoonPhase(targetLongitude: number, from: Date, limitDays: number): Date {
+    const found = SearchMoonPhase(targetLongitude, from, limitDays);
+    if (!found) {
+        throw new Error(`Moon phase ${targetLongitude} was not found within ${limitDays} days of ${from.toISOString()}`);
+    }
+    return found.date;
+}
+
+function roundTo(value: number, digits: number): number {
+    return Number(value.toFixed(digits));
+}
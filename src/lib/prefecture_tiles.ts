@@ -0,0 +1,72 @@
+/** タイル地図での都道府県の位置 (列は西から東、行は北から南) */
+export interface PrefectureTile {
+    column: number;
+    row: number;
+}
+
+/**
+ * 都道府県を同じ大きさのマスで並べた日本地図 (タイルグリッド地図) の配置
+ * 面積によらず同じ大きさで見比べられるよう、おおよその位置関係だけを保つ。
+ */
+export const PREFECTURE_TILES: Record<string, PrefectureTile> = {
+    北海道: { column: 13, row: 0 },
+    青森県: { column: 12, row: 1 },
+    秋田県: { column: 11, row: 2 },
+    岩手県: { column: 12, row: 2 },
+    石川県: { column: 8, row: 3 },
+    富山県: { column: 9, row: 3 },
+    新潟県: { column: 10, row: 3 },
+    山形県: { column: 11, row: 3 },
+    宮城県: { column: 12, row: 3 },
+    島根県: { column: 3, row: 4 },
+    鳥取県: { column: 4, row: 4 },
+    兵庫県: { column: 5, row: 4 },
+    京都府: { column: 6, row: 4 },
+    福井県: { column: 7, row: 4 },
+    岐阜県: { column: 8, row: 4 },
+    長野県: { column: 9, row: 4 },
+    群馬県: { column: 10, row: 4 },
+    栃木県: { column: 11, row: 4 },
+    福島県: { column: 12, row: 4 },
+    長崎県: { column: 0, row: 5 },
+    佐賀県: { column: 1, row: 5 },
+    福岡県: { column: 2, row: 5 },
+    山口県: { column: 3, row: 5 },
+    広島県: { column: 4, row: 5 },
+    岡山県: { column: 5, row: 5 },
+    大阪府: { column: 6, row: 5 },
+    滋賀県: { column: 7, row: 5 },
+    愛知県: { column: 8, row: 5 },
+    山梨県: { column: 9, row: 5 },
+    埼玉県: { column: 10, row: 5 },
+    東京都: { column: 11, row: 5 },
+    茨城県: { column: 12, row: 5 },
+    熊本県: { column: 1, row: 6 },
+    大分県: { column: 2, row: 6 },
+    愛媛県: { column: 4, row: 6 },
+    香川県: { column: 5, row: 6 },
+    和歌山県: { column: 6, row: 6 },
+    奈良県: { column: 7, row: 6 },
+    三重県: { column: 8, row: 6 },
+    静岡県: { column: 9, row: 6 },
+    神奈川県: { column: 10, row: 6 },
+    千葉県: { column: 11, row: 6 },
+    鹿児島県: { column: 1, row: 7 },
+    宮崎県: { column: 2, row: 7 },
+    高知県: { column: 4, row: 7 },
+    徳島県: { column: 5, row: 7 },
+    沖縄県: { column: 0, row: 8 },
+};
+
+/** タイル地図の列数と行数 */
+export const PREFECTURE_TILE_GRID_SIZE = {
+    columns: Math.max(...Object.values(PREFECTURE_TILES).map((tile) => tile.column)) + 1,
+    rows: Math.max(...Object.values(PREFECTURE_TILES).map((tile) => tile.row)) + 1,
+};
+
+/**
+ * タイルに表示する短い名前 (「県」「府」「都」を除く。北海道はそのまま)
+ */
+export function formatTileLabel(prefecture: string): string {
+    return prefecture === '北海道' ? prefecture : prefecture.replace(/[都府県]$/, '');
+}
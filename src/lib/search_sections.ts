@@ -0,0 +1,39 @@
+/**
+ * 検索結果の各部分の取得状況
+ * - ok: 取得できた
+ * - unavailable: 外部 API の失敗で取得できなかった
+ * - stale: 外部 API の失敗で、以前に取得した古いデータを使った
+ */
+export type SearchSectionStatus = 'ok' | 'unavailable' | 'stale';
+
+/** 検索結果の部分 (住所・天気・宿) */
+export type SearchSection = 'address' | 'weather' | 'accommodations';
+
+export type SearchSectionStatuses = Record<SearchSection, SearchSectionStatus>;
+
+/** 取得できなかった部分について画面に出す注意書き */
+export const SEARCH_SECTION_WARNINGS: Record<SearchSection, Record<Exclude<SearchSectionStatus, 'ok'>, string>> = {
+    address: {
+        unavailable: '検索地点の住所を取得できませんでした。',
+        stale: '検索地点の住所は以前に取得したものです。',
+    },
+    weather: {
+        unavailable: '天気予報を取得できなかったため、晴れの夜かどうかを確認せずに宿泊施設を表示しています。',
+        stale: '天気予報を更新できなかったため、少し前の予報を表示しています。',
+    },
+    accommodations: {
+        unavailable: '宿泊施設の空室情報を取得できませんでした。時間をおいて再度お試しください。',
+        stale: '空室情報を更新できなかったため、少し前の情報を表示しています。予約サイトで最新の空室をご確認ください。',
+    },
+};
+
+/**
+ * 取得できなかった部分の注意書きを住所・天気・宿の順に返す
+ */
+export function listSectionWarnings(statuses: Partial<SearchSectionStatuses> | null | undefined): string[] {
+    const sections: SearchSection[] = ['address', 'weather', 'accommodations'];
+    return sections.flatMap((section) => {
+        const status = statuses?.[section];
+        return status === 'unavailable' || status === 'stale' ? [SEARCH_SECTION_WARNINGS[section][status]] : [];
+    });
+}
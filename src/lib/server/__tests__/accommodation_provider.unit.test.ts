@@ -0,0 +1,135 @@
+import {
+    AccommodationProvider,
+    HotelAccommodation,
+    isSameAccommodation,
+    searchAccommodationProviders,
+} from '../accommodation_provider';
+
+const buildHotel = (overrides: Partial<HotelAccommodation>): HotelAccommodation => ({
+    id: '1',
+    name: 'ホテル星見',
+    location: '南牧村',
+    prefecture: '長野県',
+    newMoonDate: '2025年2月28日',
+    price: 15000,
+    rating: 4.2,
+    availableRooms: 1,
+    imageUrl: 'https://example.com/a.jpg',
+    latitude: 35.95,
+    longitude: 138.47,
+    lightPollution: '低',
+    bortleClass: 3,
+    bookingUrl: 'https://example.com/booking',
+    plans: [],
+    ...overrides,
+});
+
+const query = { latitude: 35.95, longitude: 138.47, checkinDate: '2025-02-01', nights: 1, guests: 2, rooms: 1, maxResults: 30 };
+
+describe('searchAccommodationProviders (unit)', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('予約サイトをまたいで同じ施設をまとめ、掲載サイトと最安の料金を持たせる', async () => {
+        const rakuten: AccommodationProvider = {
+            id: 'rakuten',
+            maxSearchRadiusKm: 3,
+            search: jest.fn().mockResolvedValue([
+                buildHotel({ id: '100', bookingUrl: 'https://travel.rakuten.co.jp/100' }),
+                buildHotel({ id: '101', name: '別の宿', latitude: 35.9, longitude: 138.4 }),
+            ]),
+        };
+        const jalan: AccommodationProvider = {
+            id: 'jalan',
+            maxSearchRadiusKm: 3,
+            search: jest.fn().mockResolvedValue([
+                buildHotel({ id: 'jalan-9', name: 'ホテル 星見', price: 12000, rating: 4.5, latitude: 35.9505, bookingUrl: 'https://www.jalan.net/yad9' }),
+            ]),
+        };
+
+        const hotels = await searchAccommodationProviders([rakuten, jalan], query);
+
+        expect(rakuten.search).toHaveBeenCalledWith(query);
+        expect(hotels).toHaveLength(2);
+        expect(hotels[0]).toMatchObject({
+            id: '100',
+            price: 12000,
+            rating: 4.5,
+            sources: [
+                { provider: 'rakuten', bookingUrl: 'https://travel.rakuten.co.jp/100' },
+                { provider: 'jalan', bookingUrl: 'https://www.jalan.net/yad9' },
+            ],
+        });
+        expect(hotels[1].sources).toEqual([{ provider: 'rakuten', bookingUrl: 'https://example.com/booking' }]);
+    });
+
+    it('同じ施設のプランは予約サイトをまたいで安い順に選び直す', async () => {
+        const plan = (planName: string, totalPrice: number) => ({
+            planName,
+            roomName: '洋室',
+            meals: 'none' as const,
+            pricePerNight: totalPrice,
+            totalPrice,
+            bookingUrl: null,
+        });
+        const first: AccommodationProvider = {
+            id: 'rakuten',
+            maxSearchRadiusKm: 3,
+            search: jest.fn().mockResolvedValue([buildHotel({ plans: [plan('A', 20000), plan('B', 30000), plan('C', 40000)] })]),
+        };
+        const second: AccommodationProvider = {
+            id: 'jalan',
+            maxSearchRadiusKm: 3,
+            search: jest.fn().mockResolvedValue([buildHotel({ id: 'jalan-1', plans: [plan('D', 25000)] })]),
+        };
+
+        const [hotel] = await searchAccommodationProviders([first, second], query);
+
+        expect(hotel.plans.map((item) => item.planName)).toEqual(['A', 'D', 'B']);
+    });
+
+    it('一部の予約サイトで失敗しても残りの結果を返し、すべて失敗した場合は例外を投げる', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const failing: AccommodationProvider = { id: 'jalan', maxSearchRadiusKm: 3, search: jest.fn().mockRejectedValue(new Error('Invalid key')) };
+        const working: AccommodationProvider = { id: 'rakuten', maxSearchRadiusKm: 3, search: jest.fn().mockResolvedValue([buildHotel({})]) };
+
+        await expect(searchAccommodationProviders([working, failing], query)).resolves.toHaveLength(1);
+        await expect(searchAccommodationProviders([failing], query)).rejects.toThrow('Invalid key');
+    });
+
+    it('検索半径を分割する場合は地点数と地点ごとの件数を抑え、maxResults 件集まったら残りの地点は検索しない', async () => {
+        let calls = 0;
+        const provider: AccommodationProvider = {
+            id: 'rakuten',
+            maxSearchRadiusKm: 3,
+            search: jest.fn().mockImplementation(async () => {
+                calls += 1;
+                return [buildHotel({ id: String(calls), name: `宿${calls}` })];
+            }),
+        };
+
+        await searchAccommodationProviders([provider], { ...query, searchRadiusKm: 10, maxResults: 100 });
+        expect(provider.search).toHaveBeenCalledTimes(7);
+        expect(provider.search).toHaveBeenCalledWith(expect.objectContaining({ searchRadiusKm: 3, maxResults: 30 }));
+
+        calls = 0;
+        jest.mocked(provider.search).mockClear();
+        const hotels = await searchAccommodationProviders([provider], { ...query, searchRadiusKm: 5, maxResults: 3 });
+        expect(provider.search).toHaveBeenCalledTimes(3);
+        expect(hotels).toHaveLength(3);
+    });
+});
+
+describe('isSameAccommodation (unit)', () => {
+    it('表記ゆれのある同名の施設は近ければ同じとみなし、離れていれば別とみなす', () => {
+        expect(isSameAccommodation(buildHotel({}), buildHotel({ name: 'ホテル　星見' }))).toBe(true);
+        expect(isSameAccommodation(buildHotel({}), buildHotel({ latitude: 36.1 }))).toBe(false);
+    });
+
+    it('名前の一部が一致する施設はごく近い場合だけ同じとみなす', () => {
+        expect(isSameAccommodation(buildHotel({}), buildHotel({ name: 'ホテル星見 本館', latitude: 35.9502 }))).toBe(true);
+        expect(isSameAccommodation(buildHotel({}), buildHotel({ name: 'ホテル星見 本館', latitude: 35.953 }))).toBe(false);
+        expect(isSameAccommodation(buildHotel({}), buildHotel({ name: '山の宿' }))).toBe(false);
+    });
+});
@@ -4,50 +4,74 @@ jest.mock('../prefecture_geocode', () => ({
     getPrefectureCoordinates: jest.fn(),
 }));
 
+jest.mock('../dark_sky_sites', () => ({
+    getTopDarkSkySites: jest.fn(),
+}));
+
 jest.mock('../yahoo_reverse_geocoder_api_client', () => ({
     getYahooReverseGeocodedAddress: jest.fn(),
 }));
 
 jest.mock('../open_metro_api_client', () => ({
-    getDailyWeatherSummary: jest.fn(),
+    getDailyWeatherSummariesRange: jest.fn(),
+    getDailyWeatherSummariesForLocations: jest.fn(),
+    getElevations: jest.fn(),
+}));
+
+jest.mock('../clear_night_suggestions', () => ({
+    findNearestClearNights: jest.fn(),
+    findNearbyClearPrefectures: jest.fn(),
 }));
 
 jest.mock('../rakuten_travel_hotel_search_api_client', () => ({
-    searchHotelsWithAvailability: jest.fn(),
+    MAX_HITS: 30,
+    MAX_PAGES: 10,
+    MAX_SEARCH_RADIUS_KM: 3,
+    searchHotelsForStay: jest.fn(),
 }));
 
+const buildNightWeather = (date: string, overrides: Record<string, unknown> = {}) => ({
+    date,
+    isClearSky: true,
+    weatherCode: 0,
+    temperatureMax: 10,
+    temperatureMin: 2,
+    timezone: 'Asia/Tokyo',
+    darkWindow: { date, darkHours: 9.2, darkIntervals: [] },
+    moonIlluminatedFraction: 0.02,
+    stargazingScore: 80,
+    nightHours: [],
+    ...overrides,
+});
+
 describe('searchStargazingAccommodations', () => {
     const { getPrefectureCoordinates } = jest.requireMock('../prefecture_geocode');
+    const { getTopDarkSkySites } = jest.requireMock('../dark_sky_sites');
     const { getYahooReverseGeocodedAddress } = jest.requireMock('../yahoo_reverse_geocoder_api_client');
-    const { getDailyWeatherSummary } = jest.requireMock('../open_metro_api_client');
-    const { searchHotelsWithAvailability } = jest.requireMock('../rakuten_travel_hotel_search_api_client');
+    const { getDailyWeatherSummariesRange, getDailyWeatherSummariesForLocations, getElevations } = jest.requireMock('../open_metro_api_client');
+    const { searchHotelsForStay } = jest.requireMock('../rakuten_travel_hotel_search_api_client');
+    const { findNearestClearNights, findNearbyClearPrefectures } = jest.requireMock('../clear_night_suggestions');
 
     beforeEach(() => {
         jest.resetAllMocks();
         getPrefectureCoordinates.mockReturnValue({ latitude: 35.68944, longitude: 139.69167 });
+        getTopDarkSkySites.mockReturnValue([]);
         getYahooReverseGeocodedAddress.mockResolvedValue('東京都千代田区千代田1-1');
-        getDailyWeatherSummary.mockResolvedValue({
-            date: '2025-02-01',
-            isClearSky: true,
-            weatherCode: 0,
-            temperatureMax: 10,
-            temperatureMin: 2,
-            timezone: 'Asia/Tokyo',
-        });
-        searchHotelsWithAvailability.mockResolvedValue([
+        getDailyWeatherSummariesRange.mockResolvedValue([buildNightWeather('2025-02-01')]);
+        searchHotelsForStay.mockResolvedValue([
             {
                 id: '1',
                 name: 'ホテルA',
                 location: '千代田区',
                 prefecture: '東京都',
                 newMoonDate: '2025年2月1日',
-                clearSkyProbability: 85,
                 price: 18000,
                 rating: 4.5,
                 availableRooms: 2,
                 imageUrl: 'https://example.com/a.jpg',
                 lightPollution: '低',
-                altitude: 50,
+                latitude: 35.95,
+                longitude: 138.47,
             },
             {
                 id: '2',
@@ -55,42 +79,272 @@ describe('searchStargazingAccommodations', () => {
                 location: '中央区',
                 prefecture: '東京都',
                 newMoonDate: '2025年2月1日',
-                clearSkyProbability: 60,
                 price: 15000,
                 rating: 4.2,
-                availableRooms: 0,
+                availableRooms: 1,
                 imageUrl: 'https://example.com/b.jpg',
                 lightPollution: '中',
-                altitude: 40,
+                latitude: 35.67,
+                longitude: 139.77,
             },
         ]);
+        getDailyWeatherSummariesForLocations.mockResolvedValue([[{ date: '2025-02-01', clearSkyProbability: 75 }]]);
+        getElevations.mockResolvedValue([1342]);
+        findNearestClearNights.mockResolvedValue([]);
+        findNearbyClearPrefectures.mockResolvedValue([]);
     });
 
-    it('天気が晴れの場合に、空き室があるホテルを返す', async () => {
+    it('天気が晴れの場合に、空き室があるホテルを評価の高い順に返す', async () => {
         const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
 
-        expect(result.accommodations).toHaveLength(1);
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1', '2']);
         expect(result.accommodations[0]).toMatchObject({ id: '1', name: 'ホテルA' });
         expect(result.resolvedAddress).toBe('東京都千代田区千代田1-1');
+        expect(result.weather?.darkHours).toBe(9.2);
+        expect(result.sections).toEqual({ address: 'ok', weather: 'ok', accommodations: 'ok' });
         expect(getPrefectureCoordinates).toHaveBeenCalledWith('東京都');
         expect(getYahooReverseGeocodedAddress).toHaveBeenCalledWith(35.68944, 139.69167);
-        expect(getDailyWeatherSummary).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01');
-        expect(searchHotelsWithAvailability).toHaveBeenCalledWith(35.68944, 139.69167, ['2025-02-01']);
+        expect(result.bestNight).toBe('2025-02-01');
+        expect(getDailyWeatherSummariesRange).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', '2025-02-01');
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', 1, { searchRadiusKm: undefined, adultNum: 2, roomNum: 1, guests: 2, hits: 30, maxPages: 1 });
     });
 
-    it('天気が晴れでない場合は空配列を返す', async () => {
-        getDailyWeatherSummary.mockResolvedValueOnce({
-            date: '2025-02-01',
-            isClearSky: false,
-            weatherCode: 3,
-            temperatureMax: 8,
-            temperatureMin: 1,
-            timezone: 'Asia/Tokyo',
-        });
+    it('施設の座標の予報と標高から晴天確率と標高を付ける', async () => {
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.accommodations[0]).toMatchObject({ clearSkyProbability: 75, altitude: 1342 });
+        expect(getDailyWeatherSummariesForLocations).toHaveBeenCalledWith(
+            [{ latitude: 35.95, longitude: 138.47 }, { latitude: 35.67, longitude: 139.77 }],
+            '2025-02-01',
+            '2025-02-01',
+        );
+        expect(getElevations).toHaveBeenCalledWith([{ latitude: 35.95, longitude: 138.47 }, { latitude: 35.67, longitude: 139.77 }]);
+    });
+
+    it('標高 API や予報に失敗した場合は、標高と晴天確率を推測せずに null にする', async () => {
+        getDailyWeatherSummariesForLocations.mockRejectedValueOnce(new Error('timeout'));
+        getElevations.mockRejectedValueOnce(new Error('timeout'));
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
 
         const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
 
+        expect(result.accommodations[0]).toMatchObject({ clearSkyProbability: null, altitude: null });
+    });
+
+    it('天気が晴れでない場合も、予報と晴れの夜・都道府県の提案をつけて宿を返す', async () => {
+        getDailyWeatherSummariesRange.mockResolvedValueOnce([
+            buildNightWeather('2025-02-01', { isClearSky: false, weatherCode: 3 }),
+        ]);
+        findNearestClearNights.mockResolvedValueOnce([{ date: '2025-02-03', daysFromDate: 2, clearSkyProbability: 80, stargazingScore: 75 }]);
+        findNearbyClearPrefectures.mockResolvedValueOnce([{ prefecture: '山梨県', distanceKm: 95, clearSkyProbability: 70, stargazingScore: 68 }]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1', '2']);
+        expect(result.weather).toMatchObject({ date: '2025-02-01', isClearSky: false });
+        expect(result.bestNight).toBeNull();
+        expect(result.nearestClearNights.map((night) => night.date)).toEqual(['2025-02-03']);
+        expect(result.nearbyClearPrefectures.map((suggestion) => suggestion.prefecture)).toEqual(['山梨県']);
+        expect(findNearestClearNights).toHaveBeenCalledWith(expect.objectContaining({ latitude: 35.68944 }), '2025-02-01', ['2025-02-01']);
+        expect(findNearbyClearPrefectures).toHaveBeenCalledWith(expect.objectContaining({ latitude: 35.68944 }), '2025-02-01', '東京都');
+    });
+
+    it('strictClearSky を指定した場合は、晴れの夜がなければ宿を返さない', async () => {
+        getDailyWeatherSummariesRange.mockResolvedValueOnce([
+            buildNightWeather('2025-02-01', { isClearSky: false, weatherCode: 3 }),
+        ]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', strictClearSky: true });
+
         expect(result.accommodations).toHaveLength(0);
+        expect(result.bestNight).toBeNull();
+    });
+
+    it('晴れの夜がある場合は提案を探さない', async () => {
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.nearestClearNights).toEqual([]);
+        expect(result.nearbyClearPrefectures).toEqual([]);
+        expect(findNearestClearNights).not.toHaveBeenCalled();
+    });
+
+    it('連泊では各夜の天気と、晴れの夜のうち星空指数が最も高い夜を返す', async () => {
+        getDailyWeatherSummariesRange.mockResolvedValueOnce([
+            buildNightWeather('2025-02-01', { isClearSky: false, weatherCode: 3, stargazingScore: 20 }),
+            buildNightWeather('2025-02-02', { stargazingScore: 72 }),
+            buildNightWeather('2025-02-03', { stargazingScore: 88 }),
+        ]);
+        getDailyWeatherSummariesForLocations.mockResolvedValueOnce([[
+            { date: '2025-02-01', clearSkyProbability: 10 },
+            { date: '2025-02-02', clearSkyProbability: 60 },
+            { date: '2025-02-03', clearSkyProbability: 90 },
+        ]]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', nights: 3 });
+
+        expect(result.nights.map((night) => night.date)).toEqual(['2025-02-01', '2025-02-02', '2025-02-03']);
+        expect(result.weather?.date).toBe('2025-02-01');
+        expect(result.bestNight).toBe('2025-02-03');
+        // チェックイン日が曇りでも、晴れる夜があれば宿を返す
+        expect(result.accommodations[0]).toMatchObject({ id: '1', clearSkyProbability: 90 });
+        expect(getDailyWeatherSummariesRange).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', '2025-02-03');
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', 3, { searchRadiusKm: undefined, adultNum: 2, roomNum: 1, guests: 2, hits: 30, maxPages: 1 });
+    });
+
+    it('各夜に日の入りから日の出までの時間ごとの予報を付ける', async () => {
+        const hour = Date.parse('2025-02-01T13:00:00Z');
+        getDailyWeatherSummariesRange.mockResolvedValue([buildNightWeather('2025-02-01', {
+            nightHours: [{
+                time: hour,
+                cloudCover: 35,
+                cloudCoverLow: 30,
+                cloudCoverMid: 0,
+                cloudCoverHigh: 10,
+                relativeHumidity: 65,
+                temperature: 1.5,
+                dewPoint: -4,
+                visibility: 24_000,
+                windSpeed: 8,
+            }],
+        })]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.weather?.timeline).toEqual([{
+            time: '2025-02-01T13:00:00.000Z',
+            cloudCover: 35,
+            cloudCoverLow: 30,
+            cloudCoverMid: 0,
+            cloudCoverHigh: 10,
+            temperature: 1.5,
+            windSpeed: 8,
+            relativeHumidity: 65,
+            moonAltitude: expect.any(Number),
+        }]);
+    });
+
+    it('泊数が範囲外の場合は例外を投げる', async () => {
+        await expect(
+            searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', nights: 0 }),
+        ).rejects.toThrow('nights must be an integer between 1 and 7');
+    });
+
+    it('星空観察地のある都道府県では、上位の観察地それぞれの周辺で宿を探してまとめる', async () => {
+        getTopDarkSkySites.mockReturnValue([
+            { name: '奥多摩湖', prefecture: '東京都', latitude: 35.79, longitude: 139.04, elevation: 530, bortleClass: 4, notes: '' },
+            { name: '檜原 都民の森', prefecture: '東京都', latitude: 35.73, longitude: 139.05, elevation: 1000, bortleClass: 4, notes: '' },
+        ]);
+        searchHotelsForStay
+            .mockResolvedValueOnce([{ id: '1', name: 'ホテルA', availableRooms: 1, rating: 4.5, latitude: 35.8, longitude: 139.0, plans: [] }])
+            .mockResolvedValueOnce([
+                { id: '1', name: 'ホテルA', availableRooms: 1, rating: 4.5, latitude: 35.8, longitude: 139.0, plans: [] },
+                { id: '3', name: 'ホテルC', availableRooms: 1, rating: 4.0, latitude: 35.7, longitude: 139.1 },
+            ]);
+        getDailyWeatherSummariesForLocations.mockResolvedValueOnce([[], []]);
+        getElevations.mockResolvedValueOnce([500, 900]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        // 天気と住所は最もおすすめの観察地で調べる
+        expect(result).toMatchObject({ latitude: 35.79, longitude: 139.04 });
+        expect(getDailyWeatherSummariesRange).toHaveBeenCalledWith(35.79, 139.04, '2025-02-01', '2025-02-01');
+        expect(searchHotelsForStay).toHaveBeenCalledTimes(2);
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.73, 139.05, '2025-02-01', 1, { searchRadiusKm: undefined, adultNum: 2, roomNum: 1, guests: 2, hits: 30, maxPages: 1 });
+        expect(result.accommodations.map((hotel) => [hotel.id, hotel.darkSkySite])).toEqual([
+            ['1', '奥多摩湖'],
+            ['3', '檜原 都民の森'],
+        ]);
+        expect(result.sites.map((site) => site.name)).toEqual(['奥多摩湖', '檜原 都民の森']);
+    });
+
+    it('一部の観察地で宿の検索に失敗しても残りの結果を返す', async () => {
+        getTopDarkSkySites.mockReturnValue([
+            { name: '奥多摩湖', prefecture: '東京都', latitude: 35.79, longitude: 139.04, elevation: 530, bortleClass: 4, notes: '' },
+            { name: '檜原 都民の森', prefecture: '東京都', latitude: 35.73, longitude: 139.05, elevation: 1000, bortleClass: 4, notes: '' },
+        ]);
+        searchHotelsForStay
+            .mockRejectedValueOnce(new Error('Unexpected status code: 500'))
+            .mockResolvedValueOnce([{ id: '3', name: 'ホテルC', availableRooms: 1, rating: 4.0, latitude: 35.7, longitude: 139.1 }]);
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['3']);
+    });
+
+    it('緯度経度と検索半径を指定した場合は都道府県の代表点を使わずにその地点で検索する', async () => {
+        const result = await searchStargazingAccommodations({
+            date: '2025-02-01',
+            latitude: 35.5,
+            longitude: 137.75,
+            radiusKm: 1.5,
+        });
+
+        expect(result).toMatchObject({ latitude: 35.5, longitude: 137.75 });
+        expect(getPrefectureCoordinates).not.toHaveBeenCalled();
+        expect(getYahooReverseGeocodedAddress).toHaveBeenCalledWith(35.5, 137.75);
+        expect(getDailyWeatherSummariesRange).toHaveBeenCalledWith(35.5, 137.75, '2025-02-01', '2025-02-01');
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.5, 137.75, '2025-02-01', 1, { searchRadiusKm: 1.5, adultNum: 2, roomNum: 1, guests: 2, hits: 30, maxPages: 1 });
+    });
+
+    it('大人数では部屋数で人数を割り振って、必要な部屋数が空いている宿を検索する', async () => {
+        searchHotelsForStay.mockResolvedValueOnce([
+            { id: '1', name: 'ロッジA', availableRooms: 3, rating: 4.0, latitude: 35.95, longitude: 138.47 },
+        ]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', guests: 7, rooms: 3 });
+
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', 1, {
+            searchRadiusKm: undefined,
+            adultNum: 3,
+            roomNum: 3,
+            guests: 7,
+            hits: 30,
+            maxPages: 1,
+        });
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1']);
+    });
+
+    it('3km を超える検索半径は範囲を分割して検索し、範囲外の宿を除く', async () => {
+        searchHotelsForStay.mockImplementation(async () => [
+            { id: '1', name: '近くの宿', availableRooms: 1, rating: 4.0, latitude: 35.52, longitude: 137.76 },
+            { id: '2', name: '遠くの宿', availableRooms: 1, rating: 4.5, latitude: 35.62, longitude: 137.75 },
+        ]);
+        getDailyWeatherSummariesForLocations.mockResolvedValueOnce([[]]);
+        getElevations.mockResolvedValueOnce([800]);
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', latitude: 35.5, longitude: 137.75, radiusKm: 5 });
+
+        expect(searchHotelsForStay.mock.calls.length).toBeGreaterThan(1);
+        for (const call of searchHotelsForStay.mock.calls) {
+            expect(call[4]).toMatchObject({ searchRadiusKm: 3 });
+        }
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1']);
+    });
+
+    it('返す宿の件数を maxResults までに絞る', async () => {
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', maxResults: 1 });
+
+        expect(result.accommodations).toHaveLength(1);
+        expect(searchHotelsForStay).toHaveBeenCalledWith(35.68944, 139.69167, '2025-02-01', 1, expect.objectContaining({ hits: 1 }));
+    });
+
+    it.each([
+        [{ guests: 0 }, 'guests must be an integer between 1 and 40'],
+        [{ guests: 2, rooms: 3 }, 'rooms must be an integer between 1 and 10'],
+        [{ guests: 20, rooms: 2 }, 'with at most 9 guests per room'],
+        [{ radiusKm: 10 }, 'radiusKm must be between 0.1 and 5'],
+        [{ maxResults: 0 }, 'maxResults must be an integer between 1 and 100'],
+    ])('人数・部屋数・検索半径・件数が範囲外の場合は例外を投げる (%p)', async (overrides, message) => {
+        await expect(
+            searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都', ...overrides }),
+        ).rejects.toThrow(message);
+    });
+
+    it('緯度経度が範囲外の場合は例外を投げる', async () => {
+        await expect(
+            searchStargazingAccommodations({ date: '2025-02-01', latitude: 95, longitude: 137.75 }),
+        ).rejects.toThrow('latitude must be between -90 and 90');
     });
 
     it('都道府県がサポート対象外の場合は例外を投げる', async () => {
@@ -101,6 +355,55 @@ describe('searchStargazingAccommodations', () => {
         ).rejects.toThrow('Unsupported prefecture: 架空県');
     });
 
+    it('住所の取得に失敗しても、住所なしで検索結果を返す', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        getYahooReverseGeocodedAddress.mockRejectedValueOnce(new Error('Request timeout after 5000ms (map.yahooapis.jp)'));
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.resolvedAddress).toBeNull();
+        expect(result.sections).toEqual({ address: 'unavailable', weather: 'ok', accommodations: 'ok' });
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1', '2']);
+        warnSpy.mockRestore();
+    });
+
+    it('天気の取得に失敗した場合は、晴れで絞り込まずに宿を返す', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        getDailyWeatherSummariesRange.mockRejectedValueOnce(new Error('Unexpected status code: 503'));
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.weather).toBeNull();
+        expect(result.nights).toEqual([]);
+        expect(result.bestNight).toBeNull();
+        expect(result.sections.weather).toBe('unavailable');
+        expect(result.accommodations.map((hotel) => hotel.id)).toEqual(['1', '2']);
+        warnSpy.mockRestore();
+    });
+
+    it('宿の検索に失敗した場合は、天気だけを返す', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        searchHotelsForStay.mockRejectedValue(new Error('RAKUTEN_APP_ID is not set'));
+
+        const result = await searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' });
+
+        expect(result.accommodations).toEqual([]);
+        expect(result.weather?.date).toBe('2025-02-01');
+        expect(result.sections).toEqual({ address: 'ok', weather: 'ok', accommodations: 'unavailable' });
+        warnSpy.mockRestore();
+    });
+
+    it('天気と宿の両方に失敗した場合は例外を投げる', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        getDailyWeatherSummariesRange.mockRejectedValueOnce(new Error('Unexpected status code: 503'));
+        searchHotelsForStay.mockRejectedValue(new Error('Unexpected status code: 500'));
+
+        await expect(
+            searchStargazingAccommodations({ date: '2025-02-01', prefecture: '東京都' }),
+        ).rejects.toThrow('Unexpected status code: 503');
+        warnSpy.mockRestore();
+    });
+
     it('日付が不正な場合は例外を投げる', async () => {
         await expect(
             searchStargazingAccommodations({ date: 'invalid-date', prefecture: '東京都' }),
@@ -0,0 +1,133 @@
+import { calculateNightRankingScore, findBestNights } from '../best_nights_service';
+import { NightDarkWindow } from '../dark_window_service';
+import { DailyWeatherSummary } from '../open_metro_api_client';
+
+jest.mock('../open_metro_api_client', () => ({
+    getDailyWeatherSummariesForLocations: jest.fn(),
+}));
+
+const searchProvider = jest.fn();
+
+jest.mock('../accommodation_provider_registry', () => ({
+    getAccommodationProviders: () => [{ id: 'rakuten', maxSearchRadiusKm: 3, search: searchProvider }],
+}));
+
+const buildDarkWindow = (date: string, darkHours: number): NightDarkWindow => ({
+    date,
+    sunset: null,
+    astronomicalDusk: null,
+    astronomicalDawn: null,
+    sunrise: null,
+    moonrise: null,
+    moonset: null,
+    darkIntervals: [],
+    darkHours,
+});
+
+const buildSummary = (date: string, overrides: Partial<DailyWeatherSummary> = {}): DailyWeatherSummary => ({
+    date,
+    isClearSky: true,
+    weatherCode: 0,
+    temperatureMax: 10,
+    temperatureMin: 2,
+    timezone: 'Asia/Tokyo',
+    darkWindow: buildDarkWindow(date, 9),
+    moonIlluminatedFraction: 0,
+    stargazingScore: 80,
+    clearSkyProbability: 100,
+    nightHours: [],
+    ...overrides,
+});
+
+describe('calculateNightRankingScore (unit)', () => {
+    it('晴れ・新月・長い暗夜の夜は満点になる', () => {
+        expect(calculateNightRankingScore(buildSummary('2025-02-01'))).toBe(100);
+    });
+
+    it('満月で暗夜がない夜は晴れていても晴れの分しか得点しない', () => {
+        const summary = buildSummary('2025-02-01', {
+            moonIlluminatedFraction: 1,
+            darkWindow: buildDarkWindow('2025-02-01', 0),
+        });
+        expect(calculateNightRankingScore(summary)).toBe(50);
+    });
+
+    it('夜間の晴天率がない場合は日次の晴れ判定を使う', () => {
+        const cloudy = buildSummary('2025-02-01', { isClearSky: false, clearSkyProbability: null });
+        expect(calculateNightRankingScore(cloudy)).toBe(50);
+    });
+});
+
+describe('findBestNights (unit)', () => {
+    const { getDailyWeatherSummariesForLocations } = jest.requireMock('../open_metro_api_client');
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        getDailyWeatherSummariesForLocations.mockResolvedValue([
+            [
+                buildSummary('2025-02-01', { clearSkyProbability: 20 }),
+                buildSummary('2025-02-02', { clearSkyProbability: 90 }),
+            ],
+            [
+                buildSummary('2025-02-01', { clearSkyProbability: 100 }),
+                buildSummary('2025-02-02', { clearSkyProbability: 0, isClearSky: false }),
+            ],
+        ]);
+        searchProvider.mockResolvedValue([
+            { id: '1', name: '星見の宿', latitude: 35.92, longitude: 138.43, availableRooms: 1, plans: [] },
+        ]);
+    });
+
+    it('全都道府県の夜を得点順に並べ、上位の夜に空室数を付ける', async () => {
+        const nights = await findBestNights({
+            prefectures: ['長野県', '山梨県'],
+            startDate: '2025-02-01',
+            endDate: '2025-02-02',
+            limit: 2,
+        });
+
+        expect(nights.map(({ prefecture, date }) => ({ prefecture, date }))).toEqual([
+            { prefecture: '山梨県', date: '2025-02-01' },
+            { prefecture: '長野県', date: '2025-02-02' },
+        ]);
+        expect(nights[0]).toMatchObject({ rankingScore: 100, sampledHotelCount: 1 });
+        expect(getDailyWeatherSummariesForLocations).toHaveBeenCalledWith(
+            [
+                // 県庁所在地ではなく、最もおすすめの星空観察地で比較する
+                expect.objectContaining({ prefecture: '長野県', latitude: 35.47, longitude: 137.67 }),
+                expect.objectContaining({ prefecture: '山梨県', latitude: 35.925, longitude: 138.43 }),
+            ],
+            '2025-02-01',
+            '2025-02-02',
+        );
+        // 空室数は宿の検索と同じく、登録されている予約サイトで数える
+        expect(searchProvider).toHaveBeenCalledTimes(2);
+        expect(searchProvider).toHaveBeenCalledWith(expect.objectContaining({
+            latitude: 35.925,
+            longitude: 138.43,
+            checkinDate: '2025-02-01',
+            nights: 1,
+        }));
+    });
+
+    it('空室検索に失敗した夜は空室数を null にする', async () => {
+        searchProvider.mockRejectedValue(new Error('Unexpected status code: 429'));
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const nights = await findBestNights({ prefectures: ['長野県'], startDate: '2025-02-01', endDate: '2025-02-02', limit: 1 });
+
+        expect(nights[0].sampledHotelCount).toBeNull();
+    });
+
+    it('サポート対象外の都道府県が含まれる場合は例外を投げる', async () => {
+        await expect(
+            findBestNights({ prefectures: ['長野県', '架空県'], startDate: '2025-02-01', endDate: '2025-02-02' }),
+        ).rejects.toThrow('Unsupported prefecture: 架空県');
+    });
+
+    it('件数が範囲外の場合は例外を投げる', async () => {
+        await expect(
+            findBestNights({ prefectures: ['長野県'], startDate: '2025-02-01', endDate: '2025-02-02', limit: 11 }),
+        ).rejects.toThrow('limit must be an integer between 1 and 10');
+    });
+});
@@ -0,0 +1,42 @@
+import { listClearNightOdds, toClimatologyWeek } from '../clear_night_climatology';
+
+jest.mock('../clear_night_climatology_data', () => ({
+    CLEAR_NIGHT_CLIMATOLOGY: {
+        period: { startYear: 2015, endYear: 2024 },
+        rates: {
+            長野県: Array.from({ length: 52 }, (_, week) => week * 2),
+            北海道: Array.from({ length: 52 }, (_, week) => (week === 0 ? null : 50)),
+        },
+    },
+}));
+
+describe('toClimatologyWeek', () => {
+    it.each([
+        ['2025-01-01', 0],
+        ['2025-01-07', 0],
+        ['2025-01-08', 1],
+        ['2025-12-23', 50],
+        ['2025-12-24', 51],
+        ['2024-12-31', 51],
+    ])('%s は %i 週目', (date, week) => {
+        expect(toClimatologyWeek(date)).toBe(week);
+    });
+});
+
+describe('listClearNightOdds', () => {
+    it('期間内の各夜に、その週の晴れの夜の割合を付ける', () => {
+        expect(listClearNightOdds('長野県', '2025-01-06', '2025-01-08')).toEqual([
+            { date: '2025-01-06', clearNightRate: 0 },
+            { date: '2025-01-07', clearNightRate: 0 },
+            { date: '2025-01-08', clearNightRate: 2 },
+        ]);
+    });
+
+    it('夜のデータがなかった週の夜には割合を付けない', () => {
+        expect(listClearNightOdds('北海道', '2025-01-07', '2025-01-08')).toEqual([{ date: '2025-01-08', clearNightRate: 50 }]);
+    });
+
+    it('気候値のない都道府県は空配列を返す', () => {
+        expect(listClearNightOdds('沖縄県', '2025-01-06', '2025-01-08')).toEqual([]);
+    });
+});
@@ -0,0 +1,22 @@
+import { CLIMATOLOGY_WEEKS, getClimatologyPeriod, listClearNightOdds } from '../clear_night_climatology';
+import { CLEAR_NIGHT_CLIMATOLOGY } from '../clear_night_climatology_data';
+import { listSupportedPrefectures } from '../prefecture_geocode';
+
+// 同梱した気候値そのものを確かめる。tools/clear_night_climatology で生成し直していなければ失敗する
+describe('同梱した晴れの夜の気候値', () => {
+    it('集計した期間がある', () => {
+        expect(getClimatologyPeriod()).toEqual({ startYear: expect.any(Number), endYear: expect.any(Number) });
+    });
+
+    it.each(listSupportedPrefectures())('%s の 52 週ぶんの割合がある', (prefecture) => {
+        const rates = CLEAR_NIGHT_CLIMATOLOGY.rates[prefecture];
+
+        expect(rates).toHaveLength(CLIMATOLOGY_WEEKS);
+        expect(rates.every((rate) => rate === null || (Number.isInteger(rate) && rate >= 0 && rate <= 100))).toBe(true);
+        expect(rates.some((rate) => rate !== null)).toBe(true);
+    });
+
+    it('新月の計画で使う期間の夜に割合を付けられる', () => {
+        expect(listClearNightOdds('長野県', '2025-07-22', '2025-07-28')).toHaveLength(7);
+    });
+});
@@ -0,0 +1,96 @@
+import { findNearbyClearPrefectures, findNearestClearNights, findNeighborPrefectureClearDays } from '../clear_night_suggestions';
+
+jest.mock('../open_metro_api_client', () => ({
+    getDailyWeatherSummariesRange: jest.fn(),
+    getDailyWeatherSummariesForLocations: jest.fn(),
+}));
+
+jest.mock('../forecast_window', () => ({
+    computeForecastWindowBounds: jest.fn(),
+}));
+
+const buildSummary = (date: string, isClearSky: boolean, stargazingScore: number | null = 70) => ({
+    date,
+    isClearSky,
+    clearSkyProbability: isClearSky ? 80 : 10,
+    stargazingScore,
+});
+
+describe('clear_night_suggestions', () => {
+    const { getDailyWeatherSummariesRange, getDailyWeatherSummariesForLocations } = jest.requireMock('../open_metro_api_client');
+    const { computeForecastWindowBounds } = jest.requireMock('../forecast_window');
+    const origin = { latitude: 35.68944, longitude: 139.69167 };
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        computeForecastWindowBounds.mockReturnValue({ start: '2025-02-01', end: '2025-02-10', isOutOfSupportedRange: false });
+    });
+
+    it('予報期間の晴れの夜を指定日に近い順に返す', async () => {
+        getDailyWeatherSummariesRange.mockResolvedValue([
+            buildSummary('2025-02-01', true),
+            buildSummary('2025-02-03', false),
+            buildSummary('2025-02-04', true, 60),
+            buildSummary('2025-02-06', true, 90),
+            buildSummary('2025-02-08', true),
+            buildSummary('2025-02-09', true),
+        ]);
+
+        const nights = await findNearestClearNights(origin, '2025-02-05', ['2025-02-05']);
+
+        expect(nights.map((night) => [night.date, night.daysFromDate])).toEqual([
+            ['2025-02-06', 1],
+            ['2025-02-04', -1],
+            ['2025-02-08', 3],
+        ]);
+        expect(getDailyWeatherSummariesRange).toHaveBeenCalledWith(origin.latitude, origin.longitude, '2025-02-01', '2025-02-10');
+    });
+
+    it('予報の提供期間外では空配列を返す', async () => {
+        computeForecastWindowBounds.mockReturnValue({ start: null, end: null, isOutOfSupportedRange: true });
+
+        await expect(findNearestClearNights(origin, '2025-02-05')).resolves.toEqual([]);
+        expect(getDailyWeatherSummariesRange).not.toHaveBeenCalled();
+    });
+
+    it('近くの都道府県のうち同じ夜に晴れるものを近い順に返す', async () => {
+        getDailyWeatherSummariesForLocations.mockImplementation(async (locations: unknown[]) =>
+            locations.map((_, index) => [buildSummary('2025-02-05', index % 2 === 1)]));
+
+        const suggestions = await findNearbyClearPrefectures(origin, '2025-02-05', '東京都');
+
+        const [locations, startDate, endDate] = getDailyWeatherSummariesForLocations.mock.calls[0];
+        expect(locations.map((location: { prefecture: string }) => location.prefecture)).not.toContain('東京都');
+        expect([startDate, endDate]).toEqual(['2025-02-05', '2025-02-05']);
+        expect(suggestions).toHaveLength(3);
+        expect(suggestions.map((suggestion) => suggestion.prefecture)).toEqual(
+            [locations[1], locations[3], locations[5]].map((location: { prefecture: string }) => location.prefecture),
+        );
+        for (const [index, suggestion] of suggestions.entries()) {
+            expect(suggestion.distanceKm).toBeLessThanOrEqual(300);
+            if (index > 0) {
+                expect(suggestion.distanceKm).toBeGreaterThanOrEqual(suggestions[index - 1].distanceKm);
+            }
+        }
+    });
+
+    it('周辺の都道府県の晴れの日を 1 回の複数地点リクエストで取得し、近い順に返す', async () => {
+        getDailyWeatherSummariesForLocations.mockImplementation(async (locations: { prefecture: string }[]) =>
+            locations.map((location) => ['長野県', '静岡県', '岐阜県'].includes(location.prefecture)
+                ? [buildSummary('2025-02-03', true), buildSummary('2025-02-04', false)]
+                : [buildSummary('2025-02-03', false)]));
+
+        const suggestions = await findNeighborPrefectureClearDays('山梨県', '2025-02-01', '2025-02-10');
+
+        expect(getDailyWeatherSummariesForLocations).toHaveBeenCalledTimes(1);
+        expect(getDailyWeatherSummariesForLocations.mock.calls[0].slice(1)).toEqual(['2025-02-01', '2025-02-10']);
+        expect(suggestions.map((suggestion) => [suggestion.prefecture, suggestion.hops])).toEqual([
+            [expect.stringMatching(/長野県|静岡県/), 1],
+            [expect.stringMatching(/長野県|静岡県/), 1],
+            ['岐阜県', 2],
+        ]);
+        expect(suggestions[0].driveDistanceKm).toBeLessThanOrEqual(suggestions[1].driveDistanceKm);
+        expect(suggestions[0].driveMinutes).toBeGreaterThan(0);
+        expect(suggestions[0].clearDays.map((day) => day.date)).toEqual(['2025-02-03']);
+    });
+});
@@ -0,0 +1,63 @@
+import { PREFECTURES } from '@/lib/prefectures';
+import { getAllDarkSkySites, getDarkSkySites, getTopDarkSkySites } from '../dark_sky_sites';
+import { haversineDistanceKm } from '../geo_distance';
+import { getPrefectureCoordinates } from '../prefecture_geocode';
+
+// 北は宗谷岬、南は波照間島、西は与那国島、東は納沙布岬を少し広げた範囲
+const JAPAN_BOUNDS = { minLatitude: 24, maxLatitude: 45.6, minLongitude: 122.9, maxLongitude: 146 };
+// 県庁所在地からこれより離れた観察地は、都道府県の取り違えとみなす (沖縄の八重山諸島を含められる距離)
+const MAX_DISTANCE_FROM_CAPITAL_KM = 450;
+
+describe('dark sky site catalog (schema)', () => {
+    const sites = getAllDarkSkySites();
+
+    it('すべての都道府県に観察地が 1 件以上ある', () => {
+        for (const prefecture of PREFECTURES) {
+            expect(getDarkSkySites(prefecture).length).toBeGreaterThan(0);
+        }
+    });
+
+    it('カタログの都道府県はすべて検索対象の都道府県である', () => {
+        const prefectures = new Set(sites.map((site) => site.prefecture));
+        expect([...prefectures].filter((prefecture) => !PREFECTURES.includes(prefecture))).toEqual([]);
+    });
+
+    it.each(getAllDarkSkySites().map((site) => [`${site.prefecture} ${site.name}`, site]))('%s の項目が妥当である', (_, site) => {
+        expect(site.name.trim()).not.toBe('');
+        expect(site.notes.trim()).not.toBe('');
+        expect(site.latitude).toBeGreaterThanOrEqual(JAPAN_BOUNDS.minLatitude);
+        expect(site.latitude).toBeLessThanOrEqual(JAPAN_BOUNDS.maxLatitude);
+        expect(site.longitude).toBeGreaterThanOrEqual(JAPAN_BOUNDS.minLongitude);
+        expect(site.longitude).toBeLessThanOrEqual(JAPAN_BOUNDS.maxLongitude);
+        expect(Number.isInteger(site.elevation)).toBe(true);
+        expect(site.elevation).toBeGreaterThanOrEqual(0);
+        expect(site.elevation).toBeLessThan(3800);
+        expect(Number.isInteger(site.bortleClass)).toBe(true);
+        expect(site.bortleClass).toBeGreaterThanOrEqual(1);
+        expect(site.bortleClass).toBeLessThanOrEqual(9);
+
+        const capital = getPrefectureCoordinates(site.prefecture);
+        if (capital === null) {
+            throw new Error(`${site.prefecture} の県庁所在地が見つからない`);
+        }
+        expect(haversineDistanceKm(site, capital)).toBeLessThan(MAX_DISTANCE_FROM_CAPITAL_KM);
+    });
+
+    it('同じ都道府県に同名の観察地がない', () => {
+        const keys = sites.map((site) => `${site.prefecture}/${site.name}`);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+});
+
+describe('getTopDarkSkySites (unit)', () => {
+    it('推奨順に指定件数まで返す', () => {
+        const sites = getTopDarkSkySites('長野県', 2);
+
+        expect(sites.map((site) => site.name)).toEqual(['阿智村 ヘブンスそのはら', '野辺山高原']);
+        expect(sites[0].prefecture).toBe('長野県');
+    });
+
+    it('カタログにない都道府県は空配列を返す', () => {
+        expect(getTopDarkSkySites('架空県', 3)).toEqual([]);
+    });
+});
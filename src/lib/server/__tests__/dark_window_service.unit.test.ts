@@ -0,0 +1,81 @@
+import { getMoonAltitude, getNightDarkWindow } from '../dark_window_service';
+
+const TOKYO_LATITUDE = 35.68944;
+const TOKYO_LONGITUDE = 139.69167;
+
+const hoursBetween = (start: string, end: string) => (Date.parse(end) - Date.parse(start)) / 3_600_000;
+
+describe('getNightDarkWindow (unit)', () => {
+    it('新月の夜は天文薄明の間すべてが暗夜になる', () => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, '2025-09-21');
+
+        expect(window.date).toBe('2025-09-21');
+        const { astronomicalDusk, astronomicalDawn } = window;
+        if (astronomicalDusk === null || astronomicalDawn === null) {
+            throw new Error('天文薄明が求まらなかった');
+        }
+        expect(window.darkIntervals).toEqual([
+            { start: astronomicalDusk, end: astronomicalDawn },
+        ]);
+        expect(window.darkHours).toBeCloseTo(hoursBetween(astronomicalDusk, astronomicalDawn), 1);
+    });
+
+    it('満月の夜は月が一晩中出ているため暗夜がない', () => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, '2025-10-07');
+
+        expect(window.darkIntervals).toEqual([]);
+        expect(window.darkHours).toBe(0);
+    });
+
+    it.each([
+        // 下弦前: 月の出 (22 時過ぎ) までが暗夜
+        { date: '2025-10-13', edge: 'moonrise' as const, boundary: 'start' as const },
+        // 上弦後: 月の入り (20 時台) 以降が暗夜
+        { date: '2025-09-28', edge: 'moonset' as const, boundary: 'end' as const },
+    ])('$date は $edge で暗夜区間が区切られる', ({ date, edge, boundary }) => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, date);
+
+        expect(window.darkIntervals).toHaveLength(1);
+        const [interval] = window.darkIntervals;
+        if (boundary === 'start') {
+            expect(interval.start).toBe(window.astronomicalDusk);
+            expect(interval.end).toBe(window[edge]);
+        } else {
+            expect(interval.start).toBe(window[edge]);
+            expect(interval.end).toBe(window.astronomicalDawn);
+        }
+        expect(window.darkHours).toBeGreaterThan(0);
+    });
+
+    it('日の入り・薄明・日の出が時系列順に並ぶ', () => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, new Date('2025-02-01T03:00:00Z'));
+
+        expect(window.date).toBe('2025-02-01');
+        const times = [window.sunset, window.astronomicalDusk, window.astronomicalDawn, window.sunrise]
+            .filter((value): value is string => value !== null)
+            .map(value => Date.parse(value));
+        expect(times).toHaveLength(4);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+    });
+
+    it.each([
+        [Number.NaN, TOKYO_LONGITUDE, 'latitude must be a finite number'],
+        [TOKYO_LATITUDE, Number.POSITIVE_INFINITY, 'longitude must be a finite number'],
+    ])('座標が不正な場合は例外を投げる (%p, %p)', (latitude, longitude, message) => {
+        expect(() => getNightDarkWindow(latitude, longitude, '2025-02-01')).toThrow(message);
+    });
+});
+
+describe('getMoonAltitude (unit)', () => {
+    it('月の出の前は地平線下、月の出の後は地平線上になる', () => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, '2025-10-13');
+        if (window.moonrise === null) {
+            throw new Error('月の出が求まらなかった');
+        }
+        const moonrise = Date.parse(window.moonrise);
+
+        expect(getMoonAltitude(TOKYO_LATITUDE, TOKYO_LONGITUDE, new Date(moonrise - 3_600_000))).toBeLessThan(0);
+        expect(Math.abs(getMoonAltitude(TOKYO_LATITUDE, TOKYO_LONGITUDE, new Date(moonrise)))).toBeLessThan(1);
+        expect(getMoonAltitude(TOKYO_LATITUDE, TOKYO_LONGITUDE, new Date(moonrise + 3_600_000))).toBeGreaterThan(0);
+    });
+});
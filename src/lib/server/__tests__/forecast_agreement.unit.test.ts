@@ -0,0 +1,66 @@
+import { evaluateForecastAgreement, getNightForecastAgreement } from '../forecast_agreement';
+
+jest.mock('../open_metro_api_client', () => ({
+    getCloudCoverByModel: jest.fn(),
+}));
+
+const HOUR_MS = 3_600_000;
+
+// 2025-02-01 0 時 (日本時間) から 2 日分 (2 月 2 日の夜の途中まで)、同じ雲量が続くモデルの予報
+const buildSeries = (model: string, cloudCover: number) => {
+    const start = Date.parse('2025-02-01T00:00:00+09:00');
+    const times = Array.from({ length: 48 }, (_, index) => start + index * HOUR_MS);
+    return { model, times, values: times.map(() => cloudCover) };
+};
+
+describe('evaluateForecastAgreement', () => {
+    it('モデルの晴れ確率が近く、予報が近い日なら確度を高にする', () => {
+        expect(evaluateForecastAgreement([90, 80, 100], 2)).toEqual({ clearSkyProbability: 90, spread: 20, modelCount: 3, confidence: 'high' });
+    });
+
+    it('予報が先の日ほど確度を下げる', () => {
+        expect(evaluateForecastAgreement([90, 80, 100], 9)?.confidence).toBe('medium');
+        expect(evaluateForecastAgreement([90, 80, 100], 13)?.confidence).toBe('low');
+    });
+
+    it('モデルの晴れ確率が離れていれば確度を下げる', () => {
+        expect(evaluateForecastAgreement([100, 60], 1)?.confidence).toBe('medium');
+        expect(evaluateForecastAgreement([100, 0], 1)?.confidence).toBe('low');
+    });
+
+    it('1 モデルしかなければ確度を低にし、モデルがなければ null を返す', () => {
+        expect(evaluateForecastAgreement([100], 0)?.confidence).toBe('low');
+        expect(evaluateForecastAgreement([], 0)).toBeNull();
+    });
+});
+
+describe('getNightForecastAgreement (unit)', () => {
+    const { getCloudCoverByModel } = jest.requireMock('../open_metro_api_client');
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('モデルごとの夜の晴れ確率を比べて、夜ごとの確度を返す', async () => {
+        getCloudCoverByModel.mockResolvedValue([
+            buildSeries('jma_seamless', 10),
+            buildSeries('ecmwf_ifs025', 20),
+            buildSeries('gfs_seamless', 90),
+        ]);
+
+        const agreements = await getNightForecastAgreement(35.68, 139.76, '2025-02-01', '2025-02-01', '2025-02-01');
+
+        expect(getCloudCoverByModel).toHaveBeenCalledWith(35.68, 139.76, '2025-02-01', '2025-02-01');
+        expect(agreements).toEqual([
+            { date: '2025-02-01', clearSkyProbability: 67, spread: 100, modelCount: 3, confidence: 'low' },
+        ]);
+    });
+
+    it('どのモデルの雲量もない夜は含めない', async () => {
+        getCloudCoverByModel.mockResolvedValue([buildSeries('jma_seamless', 10)]);
+
+        const agreements = await getNightForecastAgreement(35.68, 139.76, '2025-02-01', '2025-02-03', '2025-02-01');
+
+        expect(agreements.map((agreement) => agreement.date)).toEqual(['2025-02-01', '2025-02-02']);
+    });
+});
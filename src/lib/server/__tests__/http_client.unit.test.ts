@@ -0,0 +1,176 @@
+import { createCircuitBreakerRegistry, createHttpClient, HttpTransport, parseRetryAfter } from '../http_client';
+import {
+    UpstreamCircuitOpenError,
+    UpstreamHttpError,
+    UpstreamNetworkError,
+    UpstreamRateLimitedError,
+    UpstreamTimeoutError,
+} from '../upstream_errors';
+
+const URL_A = 'https://api.example.com/v1/search';
+
+describe('createHttpClient (unit)', () => {
+    let sleep: jest.Mock<Promise<void>, [number]>;
+
+    beforeEach(() => {
+        sleep = jest.fn().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const buildClient = (transport: HttpTransport, options: Parameters<typeof createHttpClient>[0] = {}) => createHttpClient({
+        transport,
+        sleep,
+        random: () => 0.5,
+        circuitBreaker: createCircuitBreakerRegistry(),
+        ...options,
+    });
+
+    it('5xx とネットワークエラーは指数バックオフで再試行する', async () => {
+        const transport = jest.fn<ReturnType<HttpTransport>, Parameters<HttpTransport>>()
+            .mockResolvedValueOnce(new Response('', { status: 503 }))
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+        const response = await buildClient(transport, { maxAttempts: 4, baseDelayMs: 100 })(URL_A);
+
+        expect(await response.text()).toBe('ok');
+        expect(transport).toHaveBeenCalledTimes(3);
+        // ジッターは乱数 0.5 なので、基準 100ms・200ms の半分ずつ待つ
+        expect(sleep.mock.calls).toEqual([[50], [100]]);
+    });
+
+    it('4xx は再試行せずに UpstreamHttpError を投げる', async () => {
+        const transport = jest.fn().mockResolvedValue(new Response('{"error":"wrong_parameter"}', { status: 400 }));
+
+        const error = await buildClient(transport)(URL_A).catch((reason) => reason);
+
+        expect(error).toBeInstanceOf(UpstreamHttpError);
+        expect(error).toMatchObject({ upstreamStatus: 400, status: 502, host: 'api.example.com', body: '{"error":"wrong_parameter"}', message: 'Unexpected status code: 400' });
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('429 の Retry-After だけ待って再試行し、制限が解けなければ UpstreamRateLimitedError を投げる', async () => {
+        const transport = jest.fn().mockImplementation(async () => new Response('', { status: 429, headers: { 'Retry-After': '3' } }));
+
+        const error = await buildClient(transport, { maxAttempts: 2 })(URL_A).catch((reason) => reason);
+
+        expect(sleep).toHaveBeenCalledWith(3000);
+        expect(transport).toHaveBeenCalledTimes(2);
+        expect(error).toBeInstanceOf(UpstreamRateLimitedError);
+        expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it('Retry-After が長すぎる場合は待たずに失敗させる', async () => {
+        const transport = jest.fn().mockImplementation(async () => new Response('', { status: 429, headers: { 'Retry-After': '120' } }));
+
+        await expect(buildClient(transport, { maxRetryAfterMs: 10_000 })(URL_A)).rejects.toBeInstanceOf(UpstreamRateLimitedError);
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('制限時間を過ぎたリクエストは中断して UpstreamTimeoutError を投げる', async () => {
+        jest.useFakeTimers();
+        const transport: HttpTransport = (_input, init) => new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => reject(init.signal.reason));
+        });
+
+        const promise = buildClient(transport, { timeoutMs: 1_000, maxAttempts: 1 })(URL_A);
+        const rejection = expect(promise).rejects.toBeInstanceOf(UpstreamTimeoutError);
+        await jest.advanceTimersByTimeAsync(1_000);
+        await rejection;
+        jest.useRealTimers();
+    });
+
+    it('ネットワークエラーが続いた場合は UpstreamNetworkError を投げる', async () => {
+        const transport = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+        await expect(buildClient(transport)(URL_A)).rejects.toThrow(UpstreamNetworkError);
+        expect(transport).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('createCircuitBreakerRegistry (unit)', () => {
+    it('失敗が続いたホストは遮断し、一定時間後に 1 回だけ試して成功すれば元に戻す', async () => {
+        let now = 0;
+        const circuitBreaker = createCircuitBreakerRegistry({ failureThreshold: 2, openDurationMs: 30_000, now: () => now });
+        const transport = jest.fn<ReturnType<HttpTransport>, Parameters<HttpTransport>>()
+            .mockImplementation(async () => new Response('', { status: 500 }));
+        const client = createHttpClient({ transport, circuitBreaker, maxAttempts: 1, sleep: async () => {} });
+
+        await expect(client(URL_A)).rejects.toThrow('Unexpected status code: 500');
+        await expect(client(URL_A)).rejects.toThrow('Unexpected status code: 500');
+        await expect(client(URL_A)).rejects.toBeInstanceOf(UpstreamCircuitOpenError);
+        expect(transport).toHaveBeenCalledTimes(2);
+
+        // 別のホストは遮断しない
+        await expect(client('https://other.example.com/')).rejects.toThrow('Unexpected status code: 500');
+        expect(transport).toHaveBeenCalledTimes(3);
+
+        now += 30_000;
+        transport.mockImplementation(async () => new Response('ok', { status: 200 }));
+        await expect(client(URL_A)).resolves.toBeInstanceOf(Response);
+        await expect(client(URL_A)).resolves.toBeInstanceOf(Response);
+        jest.restoreAllMocks();
+    });
+
+    it('試しの呼び出しに失敗したらまた遮断する', () => {
+        let now = 0;
+        const circuitBreaker = createCircuitBreakerRegistry({ failureThreshold: 1, openDurationMs: 1_000, now: () => now });
+
+        circuitBreaker.recordFailure('api.example.com');
+        expect(() => circuitBreaker.assertClosed('api.example.com')).toThrow(UpstreamCircuitOpenError);
+
+        now += 1_000;
+        expect(() => circuitBreaker.assertClosed('api.example.com')).not.toThrow();
+        // 試しの呼び出しの結果が出るまでは他の呼び出しを通さない
+        expect(() => circuitBreaker.assertClosed('api.example.com')).toThrow(UpstreamCircuitOpenError);
+        circuitBreaker.recordFailure('api.example.com');
+        expect(() => circuitBreaker.assertClosed('api.example.com')).toThrow(UpstreamCircuitOpenError);
+    });
+
+    it('再試行の途中で遮断された場合は、遮断の原因になったエラーを投げる', async () => {
+        const circuitBreaker = createCircuitBreakerRegistry({ failureThreshold: 1 });
+        const transport = jest.fn<ReturnType<HttpTransport>, Parameters<HttpTransport>>()
+            .mockImplementation(async () => new Response('', { status: 503 }));
+        const client = createHttpClient({ transport, circuitBreaker, maxAttempts: 3, sleep: async () => {} });
+
+        await expect(client(URL_A)).rejects.toBeInstanceOf(UpstreamHttpError);
+        expect(transport).toHaveBeenCalledTimes(1);
+        await expect(client(URL_A)).rejects.toBeInstanceOf(UpstreamCircuitOpenError);
+        jest.restoreAllMocks();
+    });
+
+    it('試しの呼び出しが中断された場合は、次の呼び出しを試しに通す', async () => {
+        let now = 0;
+        const circuitBreaker = createCircuitBreakerRegistry({ failureThreshold: 1, openDurationMs: 1_000, now: () => now });
+        circuitBreaker.recordFailure('api.example.com');
+        now += 1_000;
+
+        const controller = new AbortController();
+        const transport = jest.fn<ReturnType<HttpTransport>, Parameters<HttpTransport>>()
+            .mockImplementationOnce(async () => {
+                controller.abort();
+                throw new Error('aborted');
+            })
+            .mockImplementation(async () => new Response('ok', { status: 200 }));
+        const client = createHttpClient({ transport, circuitBreaker, maxAttempts: 1 });
+
+        await expect(client(URL_A, { signal: controller.signal })).rejects.toThrow('aborted');
+        await expect(client(URL_A)).resolves.toBeInstanceOf(Response);
+        expect(transport).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('parseRetryAfter (unit)', () => {
+    it('秒数と HTTP 日付を待ち時間 (ミリ秒) にする', () => {
+        const now = Date.parse('2025-02-01T00:00:00Z');
+        expect(parseRetryAfter('5', now)).toBe(5000);
+        expect(parseRetryAfter('Sat, 01 Feb 2025 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('soon', now)).toBeNull();
+        expect(parseRetryAfter(null, now)).toBeNull();
+    });
+});
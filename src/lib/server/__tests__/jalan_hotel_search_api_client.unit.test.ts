@@ -0,0 +1,106 @@
+import { searchJalanHotelsForStay } from '../jalan_hotel_search_api_client';
+
+const buildStockXml = (plans: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Results xmlns="jws">
+    <NumberOfResults>2</NumberOfResults>
+    ${plans}
+</Results>`;
+
+const buildPlan = (hotelId: number, rate: number) => `
+    <Plan>
+        <PlanName>素泊まりプラン</PlanName>
+        <PlanDetailURL>https://www.jalan.net/yad${hotelId}/plan/?planCd=${rate}</PlanDetailURL>
+        <PlanSampleRateFrom>${rate}</PlanSampleRateFrom>
+        <Hotel>
+            <HotelID>${hotelId}</HotelID>
+            <HotelName>星見の宿</HotelName>
+            <HotelAddress>長野県南佐久郡南牧村野辺山</HotelAddress>
+            <Area><Prefecture>長野県</Prefecture><SmallArea>野辺山・清里</SmallArea></Area>
+            <PictureURL>https://www.jalan.net/jalan/img/${hotelId}.jpg</PictureURL>
+            <X>498503211</X>
+            <Y>129408568</Y>
+        </Hotel>
+    </Plan>`;
+
+describe('searchJalanHotelsForStay (unit)', () => {
+    const originalFetch = global.fetch;
+    const originalApiKey = process.env.JALAN_API_KEY;
+    const latitude = 35.95;
+    const longitude = 138.47;
+
+    beforeEach(() => {
+        process.env.JALAN_API_KEY = 'test-api-key';
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+        process.env.JALAN_API_KEY = originalApiKey;
+    });
+
+    it('空室のあるプランを施設ごとにまとめ、最安のプランの料金を返す', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(buildStockXml(buildPlan(321, 15000) + buildPlan(321, 12000)), { status: 200 }),
+        );
+
+        const accommodations = await searchJalanHotelsForStay(latitude, longitude, '2025-02-01', 2, { adultNum: 3 });
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const url = new URL(String(fetchMock.mock.calls[0]?.[0]));
+        expect(url.searchParams.get('stay_date')).toBe('20250201');
+        expect(url.searchParams.get('stay_count')).toBe('2');
+        expect(url.searchParams.get('adult_num')).toBe('3');
+        // 日本測地系のミリ秒に変換して渡す
+        expect(Number(url.searchParams.get('y')) / 3_600_000).toBeCloseTo(35.947, 2);
+        expect(Number(url.searchParams.get('x')) / 3_600_000).toBeCloseTo(138.473, 2);
+
+        expect(accommodations).toHaveLength(1);
+        const [hotel] = accommodations;
+        expect(hotel).toMatchObject({
+            id: 'jalan-321',
+            name: '星見の宿',
+            prefecture: '長野県',
+            location: '野辺山・清里',
+            // 1 名あたりのサンプル料金を 3 名ぶんにする
+            price: 36000,
+            lightPollution: expect.any(String),
+        });
+        expect(hotel.latitude).toBeCloseTo(35.95, 2);
+        expect(hotel.longitude).toBeCloseTo(138.47, 2);
+        expect(hotel.bookingUrl).toContain('planCd=12000');
+        expect(hotel.bookingUrl).toContain('stayCount=2');
+    });
+
+    it('人数が部屋数で割り切れない場合は、1 室あたりの人数で検索し、実際の人数で料金を求める', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(buildStockXml(buildPlan(321, 10000)), { status: 200 }),
+        );
+
+        const [hotel] = await searchJalanHotelsForStay(latitude, longitude, '2025-02-01', 1, { adultNum: 3, roomCount: 3, guests: 7 });
+
+        const url = new URL(String(fetchMock.mock.calls[0]?.[0]));
+        expect(url.searchParams.get('adult_num')).toBe('3');
+        expect(url.searchParams.get('room_count')).toBe('3');
+        expect(hotel.price).toBe(70000);
+        await expect(searchJalanHotelsForStay(latitude, longitude, '2025-02-01', 1, { adultNum: 3, roomCount: 3, guests: 10 })).rejects.toMatchObject({
+            details: { field: 'guests' },
+        });
+    });
+
+    it('APIがエラーを返した場合は例外を投げる', async () => {
+        jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response('<Results><Error><Message>Invalid key</Message></Error></Results>', { status: 200 }),
+        );
+
+        await expect(searchJalanHotelsForStay(latitude, longitude, '2025-02-01', 1)).rejects.toThrow('Invalid key');
+    });
+
+    it('環境変数が設定されていない場合は例外を投げる', async () => {
+        process.env.JALAN_API_KEY = '';
+
+        await expect(searchJalanHotelsForStay(latitude, longitude, '2025-02-01', 1)).rejects.toThrow('JALAN_API_KEY is not set');
+    });
+});
@@ -0,0 +1,26 @@
+import { lookupLightPollution } from '../light_pollution_lookup';
+
+describe('lookupLightPollution (unit)', () => {
+    it.each([
+        ['東京都心', 35.68, 139.70, '高'],
+        ['大阪市中心部', 34.69, 135.50, '高'],
+        ['野辺山高原', 35.95, 138.47, '低'],
+        ['西表島', 24.33, 123.81, '低'],
+    ])('%s の光害レベルを推定する', (_, latitude, longitude, expected) => {
+        expect(lookupLightPollution(latitude, longitude)?.level).toBe(expected);
+    });
+
+    it('都市部ほどボートル等級が大きい', () => {
+        const tokyo = lookupLightPollution(35.68, 139.70);
+        const okutama = lookupLightPollution(35.79, 139.04);
+
+        expect(tokyo?.bortleClass).toBeGreaterThan(okutama?.bortleClass ?? Number.POSITIVE_INFINITY);
+    });
+
+    it('陸地から遠い海上や格子の範囲外は null を返す', () => {
+        // 太平洋上
+        expect(lookupLightPollution(30.0, 145.0)).toBeNull();
+        expect(lookupLightPollution(10.0, 135.0)).toBeNull();
+        expect(lookupLightPollution(Number.NaN, 135.0)).toBeNull();
+    });
+});
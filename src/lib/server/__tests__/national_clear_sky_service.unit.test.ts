@@ -0,0 +1,59 @@
+import { PREFECTURES } from '@/lib/prefectures';
+import { getNationalNightConditions } from '../national_clear_sky_service';
+
+jest.mock('../open_metro_api_client', () => ({
+    getDailyWeatherSummariesForLocations: jest.fn(),
+}));
+
+const buildSummary = (date: string, overrides: Record<string, unknown> = {}) => ({
+    date,
+    isClearSky: true,
+    weatherCode: 0,
+    temperatureMax: 10,
+    temperatureMin: 2,
+    timezone: 'Asia/Tokyo',
+    darkWindow: { date, darkHours: 9, darkIntervals: [] },
+    moonIlluminatedFraction: 0.2,
+    stargazingScore: 80,
+    clearSkyProbability: 90,
+    ...overrides,
+});
+
+describe('getNationalNightConditions (unit)', () => {
+    const { getDailyWeatherSummariesForLocations } = jest.requireMock('../open_metro_api_client');
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    it('47 都道府県の代表点の予報を 1 回の複数地点リクエストで取得する', async () => {
+        getDailyWeatherSummariesForLocations.mockImplementation(async (locations: { prefecture: string }[]) =>
+            locations.map((location) => [buildSummary('2025-02-03', location.prefecture === '長野県' ? {} : { isClearSky: false, stargazingScore: 20 })]));
+
+        const conditions = await getNationalNightConditions('2025-02-03');
+
+        expect(getDailyWeatherSummariesForLocations).toHaveBeenCalledTimes(1);
+        const [locations, startDate, endDate] = getDailyWeatherSummariesForLocations.mock.calls[0];
+        expect(locations).toHaveLength(PREFECTURES.length);
+        expect([startDate, endDate]).toEqual(['2025-02-03', '2025-02-03']);
+        expect(conditions.map((condition) => condition.prefecture)).toEqual(PREFECTURES);
+        expect(conditions.find((condition) => condition.prefecture === '長野県')).toEqual({
+            prefecture: '長野県',
+            isClearSky: true,
+            clearSkyProbability: 90,
+            stargazingScore: 80,
+            darkHours: 9,
+            moonIlluminatedFraction: 0.2,
+        });
+    });
+
+    it('予報が返らなかった都道府県は含めない', async () => {
+        getDailyWeatherSummariesForLocations.mockImplementation(async (locations: unknown[]) =>
+            locations.map((_, index) => (index === 0 ? [] : [buildSummary('2025-02-03')])));
+
+        const conditions = await getNationalNightConditions('2025-02-03');
+
+        expect(conditions).toHaveLength(PREFECTURES.length - 1);
+        expect(conditions[0].prefecture).toBe(PREFECTURES[1]);
+    });
+});
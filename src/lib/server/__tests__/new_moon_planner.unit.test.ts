@@ -0,0 +1,65 @@
+import { NEW_MOON_WINDOW_NIGHTS, NewMoonNight, planNewMoonWindows, selectBestNewMoonNight } from '../new_moon_planner';
+
+jest.mock('../clear_night_climatology_data', () => ({
+    CLEAR_NIGHT_CLIMATOLOGY: {
+        period: { startYear: 2015, endYear: 2024 },
+        rates: { 長野県: Array.from({ length: 52 }, () => 40) },
+    },
+}));
+
+const buildNight = (overrides: Partial<NewMoonNight>): NewMoonNight => ({
+    date: '2025-07-24',
+    daysFromNewMoon: 0,
+    darkHours: 6,
+    milkyWayCoreHours: 3,
+    clearNightRate: null,
+    ...overrides,
+});
+
+describe('selectBestNewMoonNight', () => {
+    it('暗夜の時間と晴れの割合の積が最も大きい夜を選ぶ', () => {
+        const best = selectBestNewMoonNight([
+            buildNight({ date: '2025-07-23', daysFromNewMoon: -1, darkHours: 6, clearNightRate: 30 }),
+            buildNight({ date: '2025-07-26', daysFromNewMoon: 2, darkHours: 5, clearNightRate: 60 }),
+        ]);
+
+        expect(best?.date).toBe('2025-07-26');
+    });
+
+    it('同じなら新月に近い夜を選ぶ', () => {
+        const best = selectBestNewMoonNight([
+            buildNight({ date: '2025-07-22', daysFromNewMoon: -2 }),
+            buildNight({ date: '2025-07-24', daysFromNewMoon: 0 }),
+        ]);
+
+        expect(best?.date).toBe('2025-07-24');
+    });
+});
+
+describe('planNewMoonWindows', () => {
+    const location = { latitude: 35.94, longitude: 138.47, prefecture: '長野県', sites: [] };
+    // 新月ごとに 7 晩の暗夜を求めるので時間がかかる
+    const windows = planNewMoonWindows(location, new Date('2025-07-01T00:00:00Z'));
+
+    it('12 か月分の新月を、新月の日を中心とした前後の夜とともに返す', () => {
+        expect(windows.length).toBeGreaterThanOrEqual(12);
+        expect(windows.length).toBeLessThanOrEqual(13);
+        expect(windows[0].date).toBe('2025-07-25');
+        expect(windows[0].nights).toHaveLength(NEW_MOON_WINDOW_NIGHTS * 2 + 1);
+        expect(windows[0].nights.every((night) => night.clearNightRate === 40)).toBe(true);
+    });
+
+    it('流星群の極大が含まれる新月には流星群を付ける', () => {
+        const october = windows.find((window) => window.date === '2025-10-21');
+
+        expect(october?.meteorShowers).toEqual([{ name: 'オリオン座流星群', date: '2025-10-21', zenithalHourlyRate: 20 }]);
+        expect(windows[0].meteorShowers).toEqual([]);
+    });
+
+    it('過ぎた夜は候補に含めない', () => {
+        const started = planNewMoonWindows(location, new Date('2025-07-26T00:00:00Z'))[0];
+
+        expect(started.nights[0].date).toBe('2025-07-26');
+        expect(started.startDate).toBe('2025-07-26');
+    });
+});
@@ -0,0 +1,77 @@
+import { getNightDarkWindow } from '../dark_window_service';
+import { buildNightTimeline, selectNightHours } from '../night_timeline';
+import type { NightHourConditions } from '../stargazing_score';
+
+const TOKYO_LATITUDE = 35.68944;
+const TOKYO_LONGITUDE = 139.69167;
+const MS_PER_HOUR = 3_600_000;
+
+const buildHour = (time: number, overrides: Partial<NightHourConditions> = {}): NightHourConditions => ({
+    time,
+    cloudCover: 20,
+    cloudCoverLow: 10,
+    cloudCoverMid: 5,
+    cloudCoverHigh: 40,
+    relativeHumidity: 70,
+    temperature: 8,
+    dewPoint: 2,
+    visibility: 24_000,
+    windSpeed: 6,
+    ...overrides,
+});
+
+describe('selectNightHours (unit)', () => {
+    it('日の入りを含む 1 時間から日の出の前までを時刻順に取り出す', () => {
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, '2025-10-13');
+        if (window.sunset === null || window.sunrise === null) {
+            throw new Error('日の入り・日の出が求まらなかった');
+        }
+        const sunset = Date.parse(window.sunset);
+        const sunrise = Date.parse(window.sunrise);
+        const firstHour = Math.floor(sunset / MS_PER_HOUR) * MS_PER_HOUR;
+        const hours = Array.from({ length: 36 }, (_, index) => buildHour(firstHour - 6 * MS_PER_HOUR + index * MS_PER_HOUR)).reverse();
+
+        const nightHours = selectNightHours(hours, window);
+
+        expect(nightHours[0].time).toBe(firstHour);
+        expect(nightHours[nightHours.length - 1].time).toBeLessThan(sunrise);
+        expect(nightHours[nightHours.length - 1].time + MS_PER_HOUR).toBeGreaterThanOrEqual(sunrise);
+        expect(nightHours.map((hour) => hour.time)).toEqual([...nightHours.map((hour) => hour.time)].sort((a, b) => a - b));
+    });
+});
+
+describe('buildNightTimeline (unit)', () => {
+    it('時間ごとの条件に月の高度を加え、欠けている値は null にする', () => {
+        // 2025-10-13 は 22 時過ぎに月が出る
+        const window = getNightDarkWindow(TOKYO_LATITUDE, TOKYO_LONGITUDE, '2025-10-13');
+        if (window.moonrise === null) {
+            throw new Error('月の出が求まらなかった');
+        }
+        const moonrise = Date.parse(window.moonrise);
+        const beforeMoonrise = moonrise - 2 * MS_PER_HOUR;
+        const afterMoonrise = moonrise + 2 * MS_PER_HOUR;
+
+        const timeline = buildNightTimeline(
+            [buildHour(beforeMoonrise, { windSpeed: Number.NaN }), buildHour(afterMoonrise)],
+            TOKYO_LATITUDE,
+            TOKYO_LONGITUDE,
+        );
+
+        expect(timeline).toEqual([
+            {
+                time: new Date(beforeMoonrise).toISOString(),
+                cloudCover: 20,
+                cloudCoverLow: 10,
+                cloudCoverMid: 5,
+                cloudCoverHigh: 40,
+                temperature: 8,
+                windSpeed: null,
+                relativeHumidity: 70,
+                moonAltitude: expect.any(Number),
+            },
+            expect.objectContaining({ time: new Date(afterMoonrise).toISOString(), windSpeed: 6 }),
+        ]);
+        expect(timeline[0].moonAltitude).toBeLessThan(0);
+        expect(timeline[1].moonAltitude).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,80 @@
+import { DAILY_VARIABLES, HOURLY_VARIABLES, parseForecastResponses, parseMultiModelHourly, toVariableQuery } from '../open_meteo_variables';
+
+const buildResponse = (overrides: Record<string, unknown> = {}) => ({
+    utc_offset_seconds: 32400,
+    timezone: 'Asia/Tokyo',
+    daily: {
+        time: ['2025-02-01', '2025-02-02'],
+        weather_code: [0, 61],
+        temperature_2m_max: [8.5, 6],
+        temperature_2m_min: [-1, null],
+    },
+    hourly: {
+        time: ['2025-02-01T21:00', '2025-02-01T22:00'],
+        is_day: [0, 0],
+        cloud_cover: [10, 80],
+        wind_speed_10m: [4],
+    },
+    ...overrides,
+});
+
+describe('toVariableQuery', () => {
+    it('登録した変数のパラメータ名をカンマ区切りにする', () => {
+        expect(toVariableQuery(DAILY_VARIABLES)).toBe('weather_code,temperature_2m_max,temperature_2m_min');
+        expect(toVariableQuery(HOURLY_VARIABLES).split(',')).toEqual(expect.arrayContaining(['cloud_cover_low', 'dew_point_2m', 'visibility']));
+    });
+});
+
+describe('parseForecastResponses', () => {
+    it('日次・時間別の値をパラメータ名で取り出し、欠けた値は NaN にする', () => {
+        const [forecast] = parseForecastResponses(buildResponse());
+
+        expect(forecast.timezone).toBe('Asia/Tokyo');
+        expect(forecast.daily.dates).toEqual(['2025-02-01', '2025-02-02']);
+        expect(forecast.daily.values.weatherCode).toEqual([0, 61]);
+        expect(forecast.daily.values.temperatureMin).toEqual([-1, Number.NaN]);
+        // オフセットなしの現地時刻を UTC に直す
+        expect(forecast.hourly.times).toEqual([Date.parse('2025-02-01T12:00:00Z'), Date.parse('2025-02-01T13:00:00Z')]);
+        expect(forecast.hourly.localDates).toEqual(['2025-02-01', '2025-02-01']);
+        expect(forecast.hourly.values.cloudCover).toEqual([10, 80]);
+        expect(forecast.hourly.values.windSpeed).toEqual([4, Number.NaN]);
+        expect(forecast.hourly.values.visibility).toEqual([Number.NaN, Number.NaN]);
+    });
+
+    it('複数地点の応答は地点ごとに返す', () => {
+        const forecasts = parseForecastResponses([buildResponse(), buildResponse({ timezone: 'UTC', utc_offset_seconds: 0 })]);
+
+        expect(forecasts.map((forecast) => forecast.timezone)).toEqual(['Asia/Tokyo', 'UTC']);
+    });
+
+    it.each([
+        [{ daily: undefined }, 'Open-Meteo API の応答に日次データが含まれていません'],
+        [{ daily: { time: ['2025-02-01'], weather_code: [0], temperature_2m_max: [1] } }, 'Open-Meteo API 応答に temperature_2m_min が含まれていません'],
+        [{ daily: { time: ['2025-02-01'], weather_code: [], temperature_2m_max: [1], temperature_2m_min: [0] } }, 'Open-Meteo API の weather_code データが空です'],
+        [{ daily: { weather_code: [0], temperature_2m_max: [1], temperature_2m_min: [0] } }, 'Open-Meteo API の時間情報を解釈できませんでした'],
+    ])('必須のデータが欠けていれば応答の誤りとする (%#)', (overrides, message) => {
+        expect(() => parseForecastResponses(buildResponse(overrides))).toThrow(message);
+    });
+});
+
+describe('parseMultiModelHourly', () => {
+    it('モデル名の付いたキーからモデルごとの値を取り出し、値のないモデルは除く', () => {
+        const series = parseMultiModelHourly({
+            utc_offset_seconds: 32400,
+            hourly: {
+                time: ['2025-02-01T21:00', '2025-02-01T22:00'],
+                cloud_cover_jma_seamless: [10, null],
+                cloud_cover_ecmwf_ifs025: [20, 30],
+                cloud_cover_gfs_seamless: [null, null],
+            },
+        }, 'cloudCover', ['jma_seamless', 'ecmwf_ifs025', 'gfs_seamless']);
+
+        expect(series.map((item) => item.model)).toEqual(['jma_seamless', 'ecmwf_ifs025']);
+        expect(series[0].values).toEqual([10, Number.NaN]);
+        expect(series[0].times[0]).toBe(Date.parse('2025-02-01T21:00:00+09:00'));
+    });
+
+    it('時刻がなければ応答の誤りとする', () => {
+        expect(() => parseMultiModelHourly({ hourly: {} }, 'cloudCover', ['jma_seamless'])).toThrow('Open-Meteo API の時間情報を解釈できませんでした');
+    });
+});
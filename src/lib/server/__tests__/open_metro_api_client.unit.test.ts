@@ -83,6 +83,12 @@ describe('getDailyWeatherSummary (unit) - mocked https/dns', () => {
             temperatureMin: 12,
             timezone: 'UTC',
             isClearSky: false,
+            darkWindow: expect.objectContaining({ date: targetDate, darkHours: expect.any(Number) }),
+            moonIlluminatedFraction: expect.any(Number),
+            // 夜間 (日没〜日の出) の時間別データが含まれないため算出できない
+            stargazingScore: null,
+            clearSkyProbability: null,
+            nightHours: [],
         });
     });
 
@@ -95,7 +101,7 @@ describe('getDailyWeatherSummary (unit) - mocked https/dns', () => {
         };
         const { getDailyWeatherSummary } = await import('../open_metro_api_client');
         await expect(getDailyWeatherSummary(35.0, 139.0, '2025-08-01')).rejects.toThrow(
-            'Open-Meteo API 応答に weather code が含まれていません',
+            'Open-Meteo API 応答に weather_code が含まれていません',
         );
     });
 
@@ -137,3 +143,61 @@ describe('getDailyWeatherSummary (unit) - mocked https/dns', () => {
         expect(summary.isClearSky).toBe(true);
     });
 });
+
+describe('getDailyWeatherSummariesForLocations / getElevations (unit) - mocked https/dns', () => {
+    beforeEach(() => {
+        jest.resetModules();
+        mockedHttpsState.response = undefined;
+        mockedHttpsState.failTimes = 0;
+        mockedHttpsState.callCount = 0;
+    });
+
+    it('複数地点の予報を 1 回の呼び出しで取得し、地点ごとに返す', async () => {
+        const targetDate = '2025-08-01';
+        const buildLocationResponse = (weatherCode: number) => ({
+            daily: {
+                time: [`${targetDate}T00:00:00Z`, '2025-08-02T00:00:00Z'],
+                weather_code: [weatherCode],
+                temperature_2m_max: [25],
+                temperature_2m_min: [12],
+            },
+            hourly: { time: [] },
+            utc_offset_seconds: 0,
+            timezone: 'UTC',
+        });
+        mockedHttpsState.response = [buildLocationResponse(0), buildLocationResponse(61)];
+
+        const { getDailyWeatherSummariesForLocations } = await import('../open_metro_api_client');
+
+        const summaries = await getDailyWeatherSummariesForLocations(
+            [{ latitude: 35.0, longitude: 139.0 }, { latitude: 36.0, longitude: 138.0 }],
+            targetDate,
+            targetDate,
+        );
+
+        expect(mockedHttpsState.callCount).toBe(1);
+        expect(summaries).toHaveLength(2);
+        expect(summaries[0][0]).toMatchObject({ date: targetDate, isClearSky: true });
+        expect(summaries[1][0]).toMatchObject({ date: targetDate, isClearSky: false });
+    });
+
+    it('複数地点の標高を取得できる', async () => {
+        mockedHttpsState.response = { elevation: [1349.6, 38] };
+
+        const { getElevations } = await import('../open_metro_api_client');
+
+        await expect(
+            getElevations([{ latitude: 35.95, longitude: 138.47 }, { latitude: 35.69, longitude: 139.69 }]),
+        ).resolves.toEqual([1350, 38]);
+    });
+
+    it('標高データの件数が地点数と合わない場合にエラーを投げる', async () => {
+        mockedHttpsState.response = { elevation: [38] };
+
+        const { getElevations } = await import('../open_metro_api_client');
+
+        await expect(
+            getElevations([{ latitude: 35.95, longitude: 138.47 }, { latitude: 35.69, longitude: 139.69 }]),
+        ).rejects.toThrow('Open-Meteo API の標高データを解釈できませんでした');
+    });
+});
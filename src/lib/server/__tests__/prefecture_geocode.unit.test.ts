@@ -0,0 +1,28 @@
+import { PREFECTURES } from '@/lib/prefectures';
+import { getNeighborPrefectures, listSupportedPrefectures } from '../prefecture_geocode';
+
+describe('getNeighborPrefectures', () => {
+    it('47 都道府県すべてについて、隣接の関係が双方向になっている', () => {
+        expect(listSupportedPrefectures().sort()).toEqual([...PREFECTURES].sort());
+        for (const prefecture of PREFECTURES) {
+            for (const { prefecture: neighbor } of getNeighborPrefectures(prefecture)) {
+                expect(getNeighborPrefectures(neighbor).map((entry) => entry.prefecture)).toContain(prefecture);
+            }
+        }
+    });
+
+    it('県境をまたぐ回数の少ない順に、指定した回数までたどる', () => {
+        const neighbors = getNeighborPrefectures('山梨県', 2);
+
+        expect(neighbors.filter((entry) => entry.hops === 1).map((entry) => entry.prefecture))
+            .toEqual(['埼玉県', '東京都', '神奈川県', '静岡県', '長野県']);
+        expect(neighbors).toContainEqual({ prefecture: '岐阜県', hops: 2 });
+        expect(neighbors.map((entry) => entry.prefecture)).not.toContain('山梨県');
+        expect(neighbors.every((entry, index) => index === 0 || neighbors[index - 1].hops <= entry.hops)).toBe(true);
+    });
+
+    it('沖縄県や未対応の都道府県は空配列を返す', () => {
+        expect(getNeighborPrefectures('沖縄県', 2)).toEqual([]);
+        expect(getNeighborPrefectures('架空県')).toEqual([]);
+    });
+});
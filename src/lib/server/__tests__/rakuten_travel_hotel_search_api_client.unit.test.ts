@@ -1,4 +1,5 @@
-import { searchHotelsWithAvailability } from '../rakuten_travel_hotel_search_api_client';
+import { searchHotelsForStay, searchHotelsWithAvailability } from '../rakuten_travel_hotel_search_api_client';
+import { CACHE_TTL_MS, getResponseCache, resetResponseCache } from '../response_cache';
 
 describe('searchHotelsWithAvailability (unit)', () => {
     const originalFetch = global.fetch;
@@ -81,6 +82,7 @@ describe('searchHotelsWithAvailability (unit)', () => {
             expect.objectContaining({ method: 'GET' }),
         );
         expect(fetchMock.mock.calls[0]?.[0]).toContain('checkoutDate=2025-02-02');
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('Travel/VacantHotelSearch/');
         expect(fetchMock.mock.calls[0]?.[0]).toContain('adultNum=2');
         expect(fetchMock.mock.calls[0]?.[0]).toContain('roomNum=1');
         expect(fetchMock).toHaveBeenNthCalledWith(
@@ -96,13 +98,18 @@ describe('searchHotelsWithAvailability (unit)', () => {
             name: 'テスト宿泊施設',
             prefecture: '長野県',
             location: expect.stringContaining('松本市'),
-            price: 18000,
+            // プランがなければ 1 名あたりの最低料金を 2 名ぶんにする
+            price: 36000,
         });
         expect(hotel.newMoonDate).toMatch(/\d{4}年\d+月\d+日/);
-        expect(hotel.clearSkyProbability).toBeGreaterThanOrEqual(40);
-        expect(hotel.clearSkyProbability).toBeLessThanOrEqual(95);
+        expect(hotel.latitude).toBe(36.2);
+        expect(hotel.longitude).toBe(137.6);
+        expect(hotel.lightPollution).toEqual(expect.any(String));
+        expect(hotel.bortleClass).toEqual(expect.any(Number));
         expect(hotel.imageUrl).toBe('https://example.com/hotel.jpg');
-        expect(hotel.availableRooms).toBe(8);
+        // roomCount は施設の総室数なので使わず、空室検索で指定した部屋数を空室とみなす
+        expect(hotel.availableRooms).toBe(1);
+        expect(hotel.plans).toEqual([]);
     });
 
     it('APIが非200を返し続ける場合は再試行し最終的に例外を投げる', async () => {
@@ -116,6 +123,15 @@ describe('searchHotelsWithAvailability (unit)', () => {
         expect(fetchMock).toHaveBeenCalledTimes(3);
     });
 
+    it('条件に合う施設がなく 404 が返った場合は空の結果を返す', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify({ error: 'not_found', error_description: 'データが見つかりませんでした' }), { status: 404 }),
+        );
+
+        await expect(searchHotelsWithAvailability(latitude, longitude, ['2025-02-01'])).resolves.toEqual([]);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
     it('APIレスポンスにエラーが含まれる場合は例外を投げる', async () => {
         const apiResponse = {
             error: 'invalid_request',
@@ -145,4 +161,266 @@ describe('searchHotelsWithAvailability (unit)', () => {
             'stayDates must contain at least one date',
         );
     });
+
+    it('検索条件が不正な場合は 400 になる ValidationError を投げる', async () => {
+        await expect(searchHotelsWithAvailability(Number.NaN, longitude, ['2025-02-01'])).rejects.toMatchObject({
+            name: 'ValidationError',
+            status: 400,
+            details: { field: 'latitude' },
+        });
+        await expect(searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { roomNum: 0 })).rejects.toMatchObject({
+            name: 'ValidationError',
+            details: { field: 'roomNum' },
+        });
+    });
+});
+
+describe('searchHotelsForStay (unit)', () => {
+    const originalFetch = global.fetch;
+    const originalAppId = process.env.RAKUTEN_APP_ID;
+    const latitude = 35.68;
+    const longitude = 139.76;
+
+    beforeEach(() => {
+        process.env.RAKUTEN_APP_ID = 'test-app-id';
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+        process.env.RAKUTEN_APP_ID = originalAppId;
+    });
+
+    it('チェックイン〜チェックアウトをまとめて指定して 1 回で検索する', async () => {
+        const apiResponse = {
+            hotels: [
+                {
+                    hotel: [
+                        {
+                            hotelBasicInfo: {
+                                hotelNo: 200,
+                                hotelName: '連泊テスト宿',
+                                address1: '長野県南牧村',
+                                planListUrl: 'https://hotel.travel.rakuten.co.jp/hotelinfo/plan/200',
+                            },
+                        },
+                    ],
+                },
+            ],
+        };
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify(apiResponse), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        );
+
+        const accommodations = await searchHotelsForStay(latitude, longitude, '2025-02-01', 3);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('checkinDate=2025-02-01');
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('checkoutDate=2025-02-04');
+        expect(accommodations).toHaveLength(1);
+        expect(accommodations[0].bookingUrl).toContain('checkoutDate=2025-02-04');
+    });
+
+    it('大人の人数を指定して検索する', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify({ hotels: [] }), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        );
+
+        await searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { adultNum: 4 });
+
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('adultNum=4');
+    });
+
+    it('空きのあるプランを安い順に 3 件まで返し、最安のプランの 1 泊あたりの料金を料金とする', async () => {
+        const roomInfo = (planName: string, total: number, flags: { withBreakfastFlag?: number; withDinnerFlag?: number } = {}) => ({
+            roomInfo: [
+                { roomBasicInfo: { roomName: '和室 10畳', planName, reserveUrl: `https://example.com/${planName}`, ...flags } },
+                { dailyCharge: { stayDate: '2025-02-01', rakutenCharge: total / 4, total, chargeFlag: 0 } },
+            ],
+        });
+        const apiResponse = {
+            hotels: [
+                {
+                    hotel: [
+                        { hotelBasicInfo: { hotelNo: 500, hotelName: 'プランの宿', address1: '長野県', hotelMinCharge: 5000 } },
+                        roomInfo('2食付きプラン', 64000, { withBreakfastFlag: 1, withDinnerFlag: 1 }),
+                        roomInfo('素泊まりプラン', 32000),
+                        roomInfo('朝食付きプラン', 40000, { withBreakfastFlag: 1 }),
+                        roomInfo('夕食付きプラン', 52000, { withDinnerFlag: 1 }),
+                    ],
+                },
+            ],
+        };
+        jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify(apiResponse), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        );
+
+        const [hotel] = await searchHotelsForStay(latitude, longitude, '2025-02-01', 2);
+
+        expect(hotel.price).toBe(16000);
+        expect(hotel.plans).toEqual([
+            { planName: '素泊まりプラン', roomName: '和室 10畳', meals: 'none', pricePerNight: 16000, totalPrice: 32000, bookingUrl: 'https://example.com/素泊まりプラン' },
+            { planName: '朝食付きプラン', roomName: '和室 10畳', meals: 'breakfast', pricePerNight: 20000, totalPrice: 40000, bookingUrl: 'https://example.com/朝食付きプラン' },
+            { planName: '夕食付きプラン', roomName: '和室 10畳', meals: 'dinner', pricePerNight: 26000, totalPrice: 52000, bookingUrl: 'https://example.com/夕食付きプラン' },
+        ]);
+    });
+
+    it('合計料金が返らない場合は 1 室あたりの料金と部屋数・泊数から合計を求める', async () => {
+        const apiResponse = {
+            hotels: [
+                {
+                    hotel: [
+                        { hotelBasicInfo: { hotelNo: 501, hotelName: '室料の宿', address1: '長野県' } },
+                        {
+                            roomInfo: [
+                                { roomBasicInfo: { roomName: 'ツイン', planName: '室料プラン' } },
+                                { dailyCharge: { stayDate: '2025-02-01', rakutenCharge: 12000, chargeFlag: 1 } },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        };
+        jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify(apiResponse), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        );
+
+        const [hotel] = await searchHotelsForStay(latitude, longitude, '2025-02-01', 3, { roomNum: 2, adultNum: 2 });
+
+        expect(hotel.plans[0]).toMatchObject({ planName: '室料プラン', pricePerNight: 24000, totalPrice: 72000, bookingUrl: null });
+        expect(hotel.availableRooms).toBe(2);
+    });
+
+    it('人数が部屋数で割り切れない場合は、1 室あたりの人数で検索し、実際の人数で料金を求める', async () => {
+        const apiResponse = {
+            hotels: [
+                {
+                    hotel: [
+                        { hotelBasicInfo: { hotelNo: 502, hotelName: '大人数の宿', address1: '長野県', hotelMinCharge: 8000 } },
+                        {
+                            roomInfo: [
+                                { roomBasicInfo: { roomName: '和室', planName: '1 人あたりのプラン' } },
+                                // 1 室 3 名 × 3 室 = 9 名ぶんの合計
+                                { dailyCharge: { stayDate: '2025-02-01', rakutenCharge: 10000, total: 90000, chargeFlag: 0 } },
+                            ],
+                        },
+                    ],
+                },
+                {
+                    hotel: [
+                        { hotelBasicInfo: { hotelNo: 503, hotelName: 'プランのない宿', address1: '長野県', hotelMinCharge: 8000 } },
+                    ],
+                },
+            ],
+        };
+        const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+            new Response(JSON.stringify(apiResponse), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        );
+
+        const [planned, unplanned] = await searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { adultNum: 3, roomNum: 3, guests: 7 });
+
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('adultNum=3');
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('roomNum=3');
+        expect(planned.plans[0]).toMatchObject({ pricePerNight: 70000, totalPrice: 70000 });
+        expect(planned.price).toBe(70000);
+        // 最低料金は 1 名あたりなので 7 名ぶん
+        expect(unplanned.price).toBe(56000);
+        await expect(searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { adultNum: 3, roomNum: 3, guests: 2 })).rejects.toMatchObject({
+            details: { field: 'guests' },
+        });
+    });
+
+    it('pagingInfo の総ページ数を見て maxPages までのページを続けて取得する', async () => {
+        const pageResponse = (hotelNo: number) => new Response(
+            JSON.stringify({
+                pagingInfo: { recordCount: 90, pageCount: 3, page: 1, first: 1, last: 30 },
+                hotels: [{ hotel: [{ hotelBasicInfo: { hotelNo, hotelName: `宿${hotelNo}`, address1: '長野県' } }] }],
+            }),
+            { status: 200, headers: { 'Content-Type': 'application/json' } },
+        );
+        const fetchMock = jest
+            .spyOn(global, 'fetch')
+            .mockResolvedValueOnce(pageResponse(301))
+            .mockResolvedValueOnce(pageResponse(302));
+
+        const accommodations = await searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { maxPages: 2 });
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(fetchMock.mock.calls[0]?.[0]).toContain('page=1');
+        expect(fetchMock.mock.calls[1]?.[0]).toContain('page=2');
+        expect(accommodations.map((accommodation) => accommodation.id)).toEqual(['301', '302']);
+    });
+
+    it('2 ページ目以降の取得に失敗しても取得できたページの結果を返す', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(global, 'fetch').mockImplementation(async (input) => String(input).includes('page=1')
+            ? new Response(
+                JSON.stringify({
+                    pagingInfo: { pageCount: 2 },
+                    hotels: [{ hotel: [{ hotelBasicInfo: { hotelNo: 401, hotelName: '宿401', address1: '長野県' } }] }],
+                }),
+                { status: 200, headers: { 'Content-Type': 'application/json' } },
+            )
+            : new Response(JSON.stringify({ error: 'wrong_parameter', error_description: 'page is invalid' }), { status: 400 }));
+
+        const accommodations = await searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { maxPages: 2 });
+
+        expect(accommodations.map((accommodation) => accommodation.id)).toEqual(['401']);
+        expect(warnSpy).toHaveBeenCalled();
+    });
+
+    it.each([0, 11])('maxPages が範囲外の場合は例外を投げる (%p)', async (maxPages) => {
+        await expect(searchHotelsForStay(latitude, longitude, '2025-02-01', 1, { maxPages })).rejects.toThrow('maxPages');
+    });
+
+    it.each([0, 1.5, 8])('泊数が範囲外の場合は例外を投げる (%p)', async (nights) => {
+        await expect(searchHotelsForStay(latitude, longitude, '2025-02-01', nights)).rejects.toThrow(
+            'nights must be an integer between 1 and 7',
+        );
+    });
+});
+
+describe('空室検索のキャッシュ (unit)', () => {
+    const originalAppId = process.env.RAKUTEN_APP_ID;
+    const originalBackend = process.env.RESPONSE_CACHE_BACKEND;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(new Date('2025-01-15T00:00:00Z'));
+        process.env.RAKUTEN_APP_ID = 'test-app-id';
+        process.env.RESPONSE_CACHE_BACKEND = 'memory';
+        resetResponseCache();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+        process.env.RAKUTEN_APP_ID = originalAppId;
+        process.env.RESPONSE_CACHE_BACKEND = originalBackend;
+        resetResponseCache();
+    });
+
+    it('同じ条件の検索は数分間 API を呼ばずにキャッシュを返す', async () => {
+        const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(
+            JSON.stringify({ hotels: [{ hotel: [{ hotelBasicInfo: { hotelNo: 600, hotelName: 'キャッシュの宿', address1: '長野県' } }] }] }),
+            { status: 200, headers: { 'Content-Type': 'application/json' } },
+        ));
+
+        await searchHotelsForStay(35.68, 139.76, '2025-02-01', 1);
+        const cached = await searchHotelsForStay(35.68, 139.76, '2025-02-01', 1);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(cached[0].id).toBe('600');
+
+        // 条件が違えば別に検索する
+        await searchHotelsForStay(35.68, 139.76, '2025-02-01', 2);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        jest.setSystemTime(Date.now() + CACHE_TTL_MS.availability);
+        await searchHotelsForStay(35.68, 139.76, '2025-02-01', 1);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(getResponseCache().getMetrics().availability).toEqual({ hits: 1, misses: 3, errors: 0, stale: 0 });
+    });
 });
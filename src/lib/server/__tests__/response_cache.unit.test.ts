@@ -0,0 +1,167 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import {
+    buildCacheKey,
+    CACHE_TTL_MS,
+    createFileCacheBackend,
+    createMemoryCacheBackend,
+    createResponseCache,
+    getResponseCache,
+    resetResponseCache,
+    STALE_IF_ERROR_MS,
+    trackStaleness,
+} from '../response_cache';
+
+describe('createResponseCache (unit)', () => {
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(() => {
+        now = Date.UTC(2025, 1, 1, 0, 0, 0);
+    });
+
+    it('保持期間内は読み込み結果を使い回し、期限が過ぎたら読み込み直す', async () => {
+        const cache = createResponseCache({ backend: createMemoryCacheBackend(100, clock), now: clock });
+        const load = jest.fn().mockResolvedValueOnce('1 回目').mockResolvedValueOnce('2 回目');
+
+        await expect(cache.getOrLoad('forecast', 'tokyo', load)).resolves.toBe('1 回目');
+        now += CACHE_TTL_MS.forecast - 1;
+        await expect(cache.getOrLoad('forecast', 'tokyo', load)).resolves.toBe('1 回目');
+        now += 1;
+        await expect(cache.getOrLoad('forecast', 'tokyo', load)).resolves.toBe('2 回目');
+
+        expect(load).toHaveBeenCalledTimes(2);
+        expect(cache.getMetrics().forecast).toEqual({ hits: 1, misses: 2, errors: 0, stale: 0 });
+    });
+
+    it('種類ごとの保持期間で期限を決める', async () => {
+        const cache = createResponseCache({ backend: createMemoryCacheBackend(100, clock), now: clock });
+        const load = jest.fn().mockResolvedValue('value');
+
+        await cache.getOrLoad('availability', 'key', load);
+        await cache.getOrLoad('geocode', 'key', load);
+        now += CACHE_TTL_MS.availability;
+        await cache.getOrLoad('availability', 'key', load);
+        await cache.getOrLoad('geocode', 'key', load);
+
+        expect(load).toHaveBeenCalledTimes(3);
+        expect(cache.getMetrics().availability).toMatchObject({ hits: 0, misses: 2 });
+        expect(cache.getMetrics().geocode).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('同じキーの読み込み中は結果を共有し、失敗した結果は保存しない', async () => {
+        const cache = createResponseCache({ backend: createMemoryCacheBackend(100, clock), now: clock });
+        const failing = jest.fn().mockRejectedValue(new Error('Unexpected status code: 500'));
+
+        await expect(Promise.all([
+            cache.getOrLoad('forecast', 'key', failing),
+            cache.getOrLoad('forecast', 'key', failing),
+        ])).rejects.toThrow('Unexpected status code: 500');
+        expect(failing).toHaveBeenCalledTimes(1);
+
+        await expect(cache.getOrLoad('forecast', 'key', async () => 'ok')).resolves.toBe('ok');
+    });
+
+    it('保存先の読み書きに失敗しても読み込み結果を返す', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const cache = createResponseCache({
+            backend: {
+                get: jest.fn().mockRejectedValue(new Error('EACCES')),
+                set: jest.fn().mockRejectedValue(new Error('EACCES')),
+                delete: jest.fn(),
+                clear: jest.fn(),
+            },
+            now: clock,
+        });
+
+        await expect(cache.getOrLoad('geocode', 'key', async () => '東京都千代田区')).resolves.toBe('東京都千代田区');
+        expect(cache.getMetrics().geocode).toEqual({ hits: 0, misses: 1, errors: 2, stale: 0 });
+        warnSpy.mockRestore();
+    });
+
+    it('読み込みに失敗したら期限切れのキャッシュを返し、trackStaleness で検知できる', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const cache = createResponseCache({ backend: createMemoryCacheBackend(100, clock), now: clock });
+        await cache.getOrLoad('forecast', 'key', async () => '古い予報');
+        const failing = jest.fn().mockRejectedValue(new Error('Unexpected status code: 503'));
+
+        now += CACHE_TTL_MS.forecast;
+        await expect(trackStaleness(() => cache.getOrLoad('forecast', 'key', failing))).resolves.toEqual({ value: '古い予報', stale: true });
+        await expect(trackStaleness(() => cache.getOrLoad('forecast', 'key', async () => '新しい予報'))).resolves.toEqual({ value: '新しい予報', stale: false });
+
+        now += CACHE_TTL_MS.forecast + STALE_IF_ERROR_MS.forecast;
+        await expect(cache.getOrLoad('forecast', 'key', failing)).rejects.toThrow('Unexpected status code: 503');
+        expect(cache.getMetrics().forecast.stale).toBe(1);
+        warnSpy.mockRestore();
+    });
+});
+
+describe('createMemoryCacheBackend (unit)', () => {
+    it('上限を超えたら期限切れのものと古いものから捨てる', async () => {
+        let now = 0;
+        const backend = createMemoryCacheBackend(2, () => now);
+
+        await backend.set('a', { value: 'a', expiresAt: 10 });
+        await backend.set('b', { value: 'b', expiresAt: 100 });
+        await backend.set('c', { value: 'c', expiresAt: 100 });
+        expect(await backend.get('a')).toBeUndefined();
+
+        now = 50;
+        await backend.set('d', { value: 'd', expiresAt: 100 });
+        expect(await backend.get('b')).toBeUndefined();
+        expect(await backend.get('c')).toEqual({ value: 'c', expiresAt: 100 });
+        expect(await backend.get('d')).toEqual({ value: 'd', expiresAt: 100 });
+    });
+});
+
+describe('createFileCacheBackend (unit)', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'response-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('ファイルに保存した値を別のインスタンスから読める', async () => {
+        await createFileCacheBackend(directory).set('forecast:key', { value: { daily: [1, 2] }, expiresAt: 123 });
+
+        const backend = createFileCacheBackend(directory);
+        expect(await backend.get('forecast:key')).toEqual({ value: { daily: [1, 2] }, expiresAt: 123 });
+        expect(await backend.get('forecast:other')).toBeUndefined();
+
+        await backend.delete('forecast:key');
+        expect(await backend.get('forecast:key')).toBeUndefined();
+    });
+});
+
+describe('getResponseCache (unit)', () => {
+    const originalBackend = process.env.RESPONSE_CACHE_BACKEND;
+
+    afterEach(() => {
+        process.env.RESPONSE_CACHE_BACKEND = originalBackend;
+        resetResponseCache();
+    });
+
+    it('環境変数で保存先を選び、未対応の値は例外を投げる', async () => {
+        process.env.RESPONSE_CACHE_BACKEND = 'memory';
+        resetResponseCache();
+        const load = jest.fn().mockResolvedValue('value');
+        await getResponseCache().getOrLoad('geocode', 'key', load);
+        await getResponseCache().getOrLoad('geocode', 'key', load);
+        expect(load).toHaveBeenCalledTimes(1);
+
+        process.env.RESPONSE_CACHE_BACKEND = 'redis';
+        resetResponseCache();
+        expect(() => getResponseCache()).toThrow('Unsupported RESPONSE_CACHE_BACKEND: redis');
+    });
+});
+
+describe('buildCacheKey (unit)', () => {
+    it('オブジェクトのキーの順序によらず同じ文字列にする', () => {
+        expect(buildCacheKey({ b: 1, a: { d: 2, c: [3] } })).toBe(buildCacheKey({ a: { c: [3], d: 2 }, b: 1 }));
+    });
+});
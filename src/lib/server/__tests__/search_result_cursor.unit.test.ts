@@ -0,0 +1,68 @@
+import { NotFoundError, ValidationError } from '../app_errors';
+import { paginateResults, readResultPage } from '../search_result_cursor';
+
+describe('search_result_cursor', () => {
+    const now = Date.UTC(2025, 1, 1, 12, 0, 0);
+    const items = Array.from({ length: 5 }, (_, index) => ({ id: String(index + 1) }));
+    const keepAll = <T>(values: T[]) => values;
+
+    it('件数がページに収まる場合は続きのカーソルを発行しない', () => {
+        const page = paginateResults(items, 5, keepAll, now);
+
+        expect(page).toEqual({ items, nextCursor: null, totalCount: 5, firstCursor: expect.any(String) });
+    });
+
+    it('カーソルをたどって最後のページまで取得できる', () => {
+        const first = paginateResults(items, 2, keepAll, now);
+        expect(first.items.map((item) => item.id)).toEqual(['1', '2']);
+        expect(first.totalCount).toBe(5);
+        expect(first.nextCursor).toEqual(expect.any(String));
+
+        const second = readResultPage<{ id: string }>(first.nextCursor as string, 2, keepAll, now + 1000);
+        expect(second.items.map((item) => item.id)).toEqual(['3', '4']);
+
+        const last = readResultPage<{ id: string }>(second.nextCursor as string, 2, keepAll, now + 2000);
+        expect(last.items.map((item) => item.id)).toEqual(['5']);
+        expect(last.nextCursor).toBeNull();
+    });
+
+    it('先頭のカーソルから表示条件を変えて全件を読み直せる', () => {
+        const { firstCursor } = paginateResults(items, 2, (values) => values.filter((item) => item.id !== '1'), now);
+
+        const reversed = readResultPage<{ id: string }>(firstCursor, 2, (values) => [...values].reverse(), now + 1000);
+
+        expect(reversed.items.map((item) => item.id)).toEqual(['5', '4']);
+        expect(reversed.totalCount).toBe(5);
+    });
+
+    it('ページを読むだけでは保持している他の検索結果を捨てない', () => {
+        // ほかのテストで保持した結果が期限切れになる時刻にして、保持件数を数えやすくする
+        const later = now + 60 * 60 * 1000;
+        const { firstCursor } = paginateResults(items, 2, keepAll, later);
+        for (let index = 0; index < 99; index += 1) {
+            paginateResults(items, 2, keepAll, later);
+        }
+
+        for (let index = 0; index < 3; index += 1) {
+            expect(readResultPage(firstCursor, 2, keepAll, later).items).toHaveLength(2);
+        }
+        // 新しく保持するときは古いものから捨てる
+        paginateResults(items, 2, keepAll, later);
+        expect(() => readResultPage(firstCursor, 2, keepAll, later)).toThrow(NotFoundError);
+    });
+
+    it('保持期間を過ぎたカーソルは NotFoundError を投げる', () => {
+        const { nextCursor } = paginateResults(items, 2, keepAll, now);
+
+        expect(() => readResultPage(nextCursor as string, 2, keepAll, now + 10 * 60 * 1000)).toThrow(NotFoundError);
+    });
+
+    it('形式が不正なカーソルは ValidationError を投げる', () => {
+        expect(() => readResultPage('not-a-cursor', 2, keepAll, now)).toThrow(ValidationError);
+        expect(() => readResultPage(Buffer.from(JSON.stringify({ id: 'x', offset: -1 })).toString('base64url'), 2, keepAll, now)).toThrow(ValidationError);
+    });
+
+    it.each([0, 51, 1.5])('pageSize が範囲外の場合は ValidationError を投げる (%p)', (pageSize) => {
+        expect(() => paginateResults(items, pageSize, keepAll, now)).toThrow('pageSize must be an integer between 1 and 50');
+    });
+});
@@ -0,0 +1,31 @@
+import { haversineDistanceKm } from '../geo_distance';
+import { buildSearchTiles } from '../search_tiles';
+
+describe('buildSearchTiles (unit)', () => {
+    const center = { latitude: 35.95, longitude: 138.47 };
+
+    it('検索半径が 1 回で探せる半径以下なら中心だけを返す', () => {
+        expect(buildSearchTiles(center, 3, 3)).toEqual([center]);
+    });
+
+    it('検索範囲内のどの地点もいずれかの検索地点から探せる半径に入る', () => {
+        const radiusKm = 10;
+        const tiles = buildSearchTiles(center, radiusKm, 3);
+
+        expect(tiles[0]).toEqual(center);
+        expect(tiles.length).toBeLessThan(30);
+        // 検索範囲内に円周と半径方向に並べた点で確かめる
+        for (let step = 0; step < 72; step += 1) {
+            const angle = (step / 72) * 2 * Math.PI;
+            for (const fraction of [0.25, 0.5, 0.75, 1]) {
+                const distanceKm = radiusKm * fraction;
+                const point = {
+                    latitude: center.latitude + (distanceKm * Math.sin(angle)) / 111.32,
+                    longitude: center.longitude + (distanceKm * Math.cos(angle)) / (111.32 * Math.cos((center.latitude * Math.PI) / 180)),
+                };
+                const nearest = Math.min(...tiles.map((tile) => haversineDistanceKm(tile, point)));
+                expect(nearest).toBeLessThanOrEqual(3);
+            }
+        }
+    });
+});
@@ -0,0 +1,38 @@
+import { getNightDarkWindow } from '../dark_window_service';
+import { findMeteorShowerPeaks, getMilkyWayCoreHours } from '../sky_events';
+
+describe('findMeteorShowerPeaks', () => {
+    it('期間内に極大を迎える流星群を日付順に返す', () => {
+        expect(findMeteorShowerPeaks('2025-08-09', '2025-08-15')).toEqual([
+            { name: 'ペルセウス座流星群', date: '2025-08-12', zenithalHourlyRate: 100 },
+        ]);
+    });
+
+    it('年をまたぐ期間も扱う', () => {
+        expect(findMeteorShowerPeaks('2025-12-10', '2026-01-05').map((peak) => peak.date)).toEqual(['2025-12-14', '2026-01-03']);
+    });
+});
+
+describe('getMilkyWayCoreHours', () => {
+    // 長野県 野辺山
+    const latitude = 35.94;
+    const longitude = 138.47;
+
+    it('夏の新月の夜は天の川の中心部が見える', () => {
+        const darkWindow = getNightDarkWindow(latitude, longitude, '2025-07-24');
+
+        expect(getMilkyWayCoreHours(latitude, longitude, darkWindow)).toBeGreaterThan(2);
+    });
+
+    it('冬の夜は銀河中心が昇らないので 0 時間', () => {
+        const darkWindow = getNightDarkWindow(latitude, longitude, '2025-12-20');
+
+        expect(getMilkyWayCoreHours(latitude, longitude, darkWindow)).toBe(0);
+    });
+
+    it('暗夜区間がなければ 0 時間', () => {
+        const darkWindow = { ...getNightDarkWindow(latitude, longitude, '2025-07-24'), darkIntervals: [] };
+
+        expect(getMilkyWayCoreHours(latitude, longitude, darkWindow)).toBe(0);
+    });
+});
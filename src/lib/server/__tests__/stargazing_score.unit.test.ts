@@ -0,0 +1,128 @@
+import type { NightDarkWindow } from '../dark_window_service';
+import {
+    calculateClearSkyProbability,
+    calculateStargazingScore,
+    NightHourConditions,
+    STARGAZING_SCORE_CONFIG,
+} from '../stargazing_score';
+
+const DUSK = '2025-02-01T09:30:00.000Z';
+const DAWN = '2025-02-01T20:30:00.000Z';
+
+const moonlessNight: NightDarkWindow = {
+    date: '2025-02-01',
+    sunset: '2025-02-01T08:00:00.000Z',
+    astronomicalDusk: DUSK,
+    astronomicalDawn: DAWN,
+    sunrise: '2025-02-01T22:00:00.000Z',
+    moonrise: null,
+    moonset: null,
+    darkIntervals: [{ start: DUSK, end: DAWN }],
+    darkHours: 11,
+};
+
+const moonlitNight: NightDarkWindow = {
+    ...moonlessNight,
+    darkIntervals: [],
+    darkHours: 0,
+};
+
+const idealHour = (time: string, overrides: Partial<NightHourConditions> = {}): NightHourConditions => ({
+    time: Date.parse(time),
+    cloudCover: 0,
+    cloudCoverLow: 0,
+    cloudCoverMid: 0,
+    cloudCoverHigh: 0,
+    relativeHumidity: 50,
+    temperature: 5,
+    dewPoint: -5,
+    visibility: 30_000,
+    windSpeed: 5,
+    ...overrides,
+});
+
+const nightHours = (overrides: Partial<NightHourConditions> = {}) =>
+    ['2025-02-01T10:00:00Z', '2025-02-01T13:00:00Z', '2025-02-01T16:00:00Z', '2025-02-01T19:00:00Z'].map(time => idealHour(time, overrides));
+
+describe('calculateStargazingScore (unit)', () => {
+    it('快晴・新月・乾燥・無風の夜は満点になる', () => {
+        expect(calculateStargazingScore(nightHours(), moonlessNight, 0)).toBe(100);
+    });
+
+    it.each([
+        ['下層雲 100%', { cloudCoverLow: 100 }],
+        ['湿度 100%', { relativeHumidity: 100, dewPoint: 5 }],
+        ['視程 5km', { visibility: 5_000 }],
+        ['強風', { windSpeed: 40 }],
+    ])('%s の夜は満点より低くなる', (_label, overrides) => {
+        const score = calculateStargazingScore(nightHours(overrides), moonlessNight, 0);
+
+        expect(score).not.toBeNull();
+        expect(score as number).toBeLessThan(100);
+    });
+
+    it('下層雲は同じ雲量の上層雲より大きく減点される', () => {
+        const low = calculateStargazingScore(nightHours({ cloudCoverLow: 80 }), moonlessNight, 0) as number;
+        const high = calculateStargazingScore(nightHours({ cloudCoverHigh: 80 }), moonlessNight, 0) as number;
+
+        expect(low).toBeLessThan(high);
+    });
+
+    it.each([
+        [0, 100],
+        [0.5, 90],
+        [1, 80],
+    ])('月が一晩中出ている夜は輝面比 %p に応じて %p 点になる', (fraction, expected) => {
+        expect(calculateStargazingScore(nightHours(), moonlitNight, fraction)).toBe(expected);
+    });
+
+    it('暗夜区間外の時間帯の曇りは評価に含めない', () => {
+        const window: NightDarkWindow = {
+            ...moonlessNight,
+            darkIntervals: [{ start: '2025-02-01T14:00:00.000Z', end: DAWN }],
+            darkHours: 6.5,
+        };
+        const hours = [
+            idealHour('2025-02-01T10:00:00Z', { cloudCoverLow: 100 }),
+            idealHour('2025-02-01T16:00:00Z'),
+            idealHour('2025-02-01T19:00:00Z'),
+        ];
+
+        const score = calculateStargazingScore(hours, window, 0) as number;
+        const clearOnly = calculateStargazingScore(hours.slice(1), window, 0) as number;
+
+        expect(score).toBe(clearOnly);
+    });
+
+    it('夜間の時間別データがない場合は null を返す', () => {
+        expect(calculateStargazingScore([idealHour('2025-02-01T03:00:00Z')], moonlessNight, 0)).toBeNull();
+    });
+
+    it('重みの表を差し替えて評価できる', () => {
+        const cloudOnly = {
+            ...STARGAZING_SCORE_CONFIG,
+            weights: { cloudCover: 1, moon: 0, humidity: 0, visibility: 0, wind: 0 },
+        };
+
+        expect(calculateStargazingScore(nightHours({ windSpeed: 60 }), moonlessNight, 1, cloudOnly)).toBe(100);
+    });
+});
+
+describe('calculateClearSkyProbability (unit)', () => {
+    it.each([
+        [[0, 0, 0, 0], 100],
+        [[0, 10, 50, 90], 50],
+        [[29, 30, 80, 100], 25],
+        [[100, 100, 100, 100], 0],
+    ])('夜間の雲量 %p のとき晴れの時間の割合は %p%%', (cloudCovers, expected) => {
+        const hours = nightHours().map((hour, index) => ({ ...hour, cloudCover: cloudCovers[index] }));
+
+        expect(calculateClearSkyProbability(hours, moonlessNight)).toBe(expected);
+    });
+
+    it('夜間の雲量データがない場合は null を返す', () => {
+        const hours = nightHours({ cloudCover: Number.NaN });
+
+        expect(calculateClearSkyProbability(hours, moonlessNight)).toBeNull();
+    });
+});
@@ -2,13 +2,13 @@ import { getYahooReverseGeocodedAddress } from '../yahoo_reverse_geocoder_api_cl
 
 describe('getYahooReverseGeocodedAddress (unit)', () => {
   const originalFetch = global.fetch;
-  const originalAppId = process.env.YAHOO_APP_ID;
+  const originalAppId = process.env.YAHOO_APP_CLIENT_ID;
   const latitude = 35.0;
   const longitude = 139.0;
 
   beforeEach(() => {
     jest.useRealTimers();
-    process.env.YAHOO_APP_ID = 'test-app-id';
+    process.env.YAHOO_APP_CLIENT_ID = 'test-app-id';
   });
 
   afterEach(() => {
@@ -18,7 +18,7 @@ describe('getYahooReverseGeocodedAddress (unit)', () => {
 
   afterAll(() => {
     global.fetch = originalFetch;
-    process.env.YAHOO_APP_ID = originalAppId;
+    process.env.YAHOO_APP_CLIENT_ID = originalAppId;
   });
 
   it('APIが200を返した場合に住所を返す', async () => {
@@ -71,8 +71,8 @@ describe('getYahooReverseGeocodedAddress (unit)', () => {
 
     const promise = getYahooReverseGeocodedAddress(latitude, longitude);
     const rejection = expect(promise).rejects.toThrow('Request timeout');
-    // timeoutのabortが発生するようにする
-    for (let i = 0; i < 3; i += 1) {
+    // timeoutのabortが発生するようにする (再試行前のバックオフの分も進める)
+    for (let i = 0; i < 4; i += 1) {
       await jest.advanceTimersByTimeAsync(5000);
     }
     // 実行して、アサーション
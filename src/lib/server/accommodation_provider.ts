@@ -0,0 +1,247 @@
+import { AccommodationPlan, selectCheapestPlans } from '@/lib/accommodation_plans';
+import { AccommodationProviderId, AccommodationSource } from '@/lib/accommodation_sources';
+import { LightPollutionLevel } from '@/lib/light_pollution';
+import { haversineDistanceKm } from './geo_distance';
+import { buildSearchTiles } from './search_tiles';
+
+// 名前が一致し、座標がこの距離以内なら同じ施設とみなす
+const SAME_NAME_MAX_DISTANCE_KM = 0.3;
+// 片方の名前がもう片方を含む場合 (「ホテル○○」と「ホテル○○ 本館」など) は、より近いときだけ同じ施設とみなす
+const PARTIAL_NAME_MAX_DISTANCE_KM = 0.1;
+// 検索半径を分割したときに、1 つの予約サイトへ同時に送る検索の上限
+const TILE_SEARCH_CONCURRENCY = 3;
+// 検索半径を分割したときに、1 つの予約サイトで検索する地点の上限 (中心と周りの 6 地点)
+const MAX_TILE_SEARCHES = 7;
+// 分割した各地点で受け取る施設数。予約サイトの 1 ページぶんに収め、地点ごとのリクエストを 1 回にする
+const TILE_MAX_RESULTS = 30;
+
+export interface AccommodationSearchQuery {
+    latitude: number;
+    longitude: number;
+    /** チェックイン日 (YYYY-MM-DD) */
+    checkinDate: string;
+    /** 泊数 */
+    nights: number;
+    /** 大人の人数 (全員の合計) */
+    guests: number;
+    /** 部屋数。人数はできるだけ均等に割り振る */
+    rooms: number;
+    /** 検索半径 (km)。省略時は各予約サイトの既定値。予約サイトの上限を超える場合は範囲を分割して検索する */
+    searchRadiusKm?: number;
+    /** 1 回の検索で予約サイトから受け取る施設数の目安 */
+    maxResults: number;
+}
+
+/** 予約サイトから取得した宿の情報 (予約サイトに依らない形) */
+export interface HotelAccommodation {
+    id: string;
+    name: string;
+    location: string;
+    prefecture: string;
+    newMoonDate: string;
+    /** 料金の目安 (グループ全員・全室の 1 泊あたり, 円)。予約サイトが返さない場合は 0 */
+    price: number;
+    rating: number;
+    /**
+     * 空いていることが確かめられた部屋数
+     * 予約サイトは空室数を返さず、指定した部屋数が空いている宿だけを返すので、検索で指定した部屋数になる。
+     */
+    availableRooms: number;
+    imageUrl: string;
+    /** 施設の緯度 (世界測地系)。応答に含まれない場合は null */
+    latitude: number | null;
+    /** 施設の経度 (世界測地系)。応答に含まれない場合は null */
+    longitude: number | null;
+    /** 施設周辺の光害の程度。座標がないか推定できない場合は null */
+    lightPollution: LightPollutionLevel | null;
+    /** 施設周辺のボートル・スケールの推定等級 (1〜9)。座標がないか推定できない場合は null */
+    bortleClass: number | null;
+    bookingUrl: string;
+    /** 空きのある宿泊プラン (安い順)。プランの情報が取れない予約サイトでは空配列 */
+    plans: AccommodationPlan[];
+}
+
+/** 予約サイトをまたいでまとめた宿の情報 */
+export interface ProviderAccommodation extends HotelAccommodation {
+    /** 宿が掲載されていた予約サイト (検索した順) */
+    sources: AccommodationSource[];
+}
+
+/** 宿の予約サイト。座標・日程・人数で空室のある宿を検索する */
+export interface AccommodationProvider {
+    id: AccommodationProviderId;
+    /** 1 回の検索で指定できる検索半径の上限 (km) */
+    maxSearchRadiusKm: number;
+    /** searchRadiusKm が maxSearchRadiusKm 以下の検索条件で、空室のある宿を検索する */
+    search(query: AccommodationSearchQuery): Promise<HotelAccommodation[]>;
+}
+
+/**
+ * 複数の予約サイトで宿を検索し、同じ施設をまとめて返す
+ * 一部の予約サイトで失敗しても残りの結果を返し、すべて失敗した場合だけ最初のエラーを投げる。
+ * @param providers 検索する予約サイト (優先する順)
+ * @param query 検索条件
+ */
+export async function searchAccommodationProviders(
+    providers: AccommodationProvider[],
+    query: AccommodationSearchQuery,
+): Promise<ProviderAccommodation[]> {
+    const results = await Promise.allSettled(providers.map((provider) => searchProviderArea(provider, query)));
+
+    const failures = results.flatMap((result, index) => (result.status === 'rejected' ? [{ provider: providers[index].id, reason: result.reason }] : []));
+    if (providers.length > 0 && failures.length === providers.length) {
+        throw failures[0].reason;
+    }
+    for (const { provider, reason } of failures) {
+        console.warn(`Failed to search accommodations on ${provider}:`, reason instanceof Error ? reason.message : reason);
+    }
+
+    return mergeProviderAccommodations(
+        results.map((result, index) => result.status === 'fulfilled'
+            ? result.value.map((hotel) => ({ ...hotel, sources: [{ provider: providers[index].id, bookingUrl: hotel.bookingUrl }] }))
+            : []),
+    );
+}
+
+/**
+ * 1 つの予約サイトで検索半径全体を検索する
+ * 予約サイトの上限を超える半径は六角格子に並べた複数の地点に分けて検索し、範囲外の宿を除く。
+ * レート制限に触れないよう、地点は MAX_TILE_SEARCHES 件・各 1 ページまでとし、中心に近い地点から順に検索して
+ * maxResults 件集まったら残りの地点は検索しない。
+ */
+async function searchProviderArea(provider: AccommodationProvider, query: AccommodationSearchQuery): Promise<HotelAccommodation[]> {
+    const { searchRadiusKm } = query;
+    if (searchRadiusKm === undefined || searchRadiusKm <= provider.maxSearchRadiusKm) {
+        return provider.search(query);
+    }
+
+    const tiles = buildSearchTiles(query, searchRadiusKm, provider.maxSearchRadiusKm).slice(0, MAX_TILE_SEARCHES);
+    const hotels = new Map<string, HotelAccommodation>();
+    const failures: unknown[] = [];
+    let searchedCount = 0;
+
+    while (searchedCount < tiles.length && hotels.size < query.maxResults) {
+        const batch = tiles.slice(searchedCount, searchedCount + TILE_SEARCH_CONCURRENCY);
+        const results = await Promise.allSettled(batch.map((tile) => provider.search({
+            ...query,
+            latitude: tile.latitude,
+            longitude: tile.longitude,
+            searchRadiusKm: provider.maxSearchRadiusKm,
+            maxResults: Math.min(query.maxResults, TILE_MAX_RESULTS),
+        })));
+        searchedCount += batch.length;
+
+        for (const result of results) {
+            if (result.status !== 'fulfilled') {
+                failures.push(result.reason);
+                continue;
+            }
+            for (const hotel of result.value) {
+                if (!hotels.has(hotel.id) && isWithinRadius(hotel, query, searchRadiusKm)) {
+                    hotels.set(hotel.id, hotel);
+                }
+            }
+        }
+    }
+
+    if (failures.length === searchedCount) {
+        throw failures[0];
+    }
+    if (failures.length > 0) {
+        console.warn(`Failed to search ${failures.length} of ${searchedCount} areas on ${provider.id}:`, failures[0] instanceof Error ? failures[0].message : failures[0]);
+    }
+    return Array.from(hotels.values());
+}
+
+function isWithinRadius(hotel: HotelAccommodation, center: AccommodationSearchQuery, radiusKm: number): boolean {
+    // 座標のない宿は、いずれかの検索地点の範囲にあったものとして残す
+    if (hotel.latitude === null || hotel.longitude === null) {
+        return true;
+    }
+    return haversineDistanceKm(center, { latitude: hotel.latitude, longitude: hotel.longitude }) <= radiusKm;
+}
+
+/**
+ * 予約サイトごとの検索結果から、名前と座標で同じ施設をまとめる
+ * 先に並んでいる結果の情報を優先し、料金は最安値、評価は高い方を採る。プランは全体で安いものから選び直す。
+ * @param resultsByProvider 予約サイトごと (または検索地点ごと) の検索結果 (優先する順)
+ */
+export function mergeProviderAccommodations<T extends ProviderAccommodation>(resultsByProvider: T[][]): T[] {
+    const merged: T[] = [];
+
+    for (const hotel of resultsByProvider.flat()) {
+        const index = merged.findIndex((existing) => isSameAccommodation(existing, hotel));
+        if (index < 0) {
+            merged.push(hotel);
+            continue;
+        }
+
+        const existing = merged[index];
+        const newSources = hotel.sources.filter((source) => !existing.sources.some((known) => known.provider === source.provider));
+        merged[index] = {
+            ...existing,
+            price: lowestPrice(existing.price, hotel.price),
+            rating: Math.max(existing.rating, hotel.rating),
+            availableRooms: Math.max(existing.availableRooms, hotel.availableRooms),
+            latitude: existing.latitude ?? hotel.latitude,
+            longitude: existing.longitude ?? hotel.longitude,
+            lightPollution: existing.lightPollution ?? hotel.lightPollution,
+            bortleClass: existing.bortleClass ?? hotel.bortleClass,
+            plans: selectCheapestPlans([...existing.plans, ...hotel.plans]),
+            sources: [...existing.sources, ...newSources],
+        };
+    }
+
+    return merged;
+}
+
+/**
+ * 名前と座標から同じ施設かどうかを判定する
+ */
+export function isSameAccommodation(a: HotelAccommodation, b: HotelAccommodation): boolean {
+    const nameA = normaliseHotelName(a.name);
+    const nameB = normaliseHotelName(b.name);
+    if (!nameA || !nameB) {
+        return false;
+    }
+
+    const distanceKm = a.latitude !== null && a.longitude !== null && b.latitude !== null && b.longitude !== null
+        ? haversineDistanceKm({ latitude: a.latitude, longitude: a.longitude }, { latitude: b.latitude, longitude: b.longitude })
+        : null;
+
+    if (nameA === nameB) {
+        // 座標がない場合は名前だけで判定する
+        return distanceKm === null || distanceKm <= SAME_NAME_MAX_DISTANCE_KM;
+    }
+    return distanceKm !== null && distanceKm <= PARTIAL_NAME_MAX_DISTANCE_KM && (nameA.includes(nameB) || nameB.includes(nameA));
+}
+
+/**
+ * 予約サイトの応答の数値 (文字列で返ることもある) を指定した桁数に丸める
+ * @param value 数値または数値の文字列
+ * @param digits 小数点以下の桁数
+ * @returns 数値として読めない場合は 0
+ */
+export function normaliseNumber(value: number | string, digits: number): number {
+    const parsed = typeof value === 'string' ? Number.parseFloat(value) : value;
+    if (!Number.isFinite(parsed)) {
+        return 0;
+    }
+    return Number(parsed.toFixed(digits));
+}
+
+function normaliseHotelName(name: string): string {
+    // 全角・半角や大文字・小文字、空白や記号の違いを無視する
+    return name.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+function lowestPrice(a: number, b: number): number {
+    // 料金が 0 の場合は予約サイトが料金を返さなかったものとして扱う
+    if (a <= 0) {
+        return b;
+    }
+    if (b <= 0) {
+        return a;
+    }
+    return Math.min(a, b);
+}
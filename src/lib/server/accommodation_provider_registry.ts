@@ -0,0 +1,43 @@
+import { guestsPerRoom } from '@/lib/hotel_search_options';
+import { AccommodationProvider } from './accommodation_provider';
+import { MAX_JALAN_COUNT, MAX_JALAN_SEARCH_RADIUS_KM, searchJalanHotelsForStay } from './jalan_hotel_search_api_client';
+import { MAX_HITS, MAX_PAGES, MAX_SEARCH_RADIUS_KM, searchHotelsForStay } from './rakuten_travel_hotel_search_api_client';
+
+export const rakutenAccommodationProvider: AccommodationProvider = {
+    id: 'rakuten',
+    maxSearchRadiusKm: MAX_SEARCH_RADIUS_KM,
+    search: ({ latitude, longitude, checkinDate, nights, guests, rooms, searchRadiusKm, maxResults }) =>
+        searchHotelsForStay(latitude, longitude, checkinDate, nights, {
+            searchRadiusKm,
+            adultNum: guestsPerRoom(guests, rooms),
+            roomNum: rooms,
+            guests,
+            hits: Math.min(maxResults, MAX_HITS),
+            maxPages: Math.min(Math.ceil(maxResults / MAX_HITS), MAX_PAGES),
+        }),
+};
+
+export const jalanAccommodationProvider: AccommodationProvider = {
+    id: 'jalan',
+    maxSearchRadiusKm: MAX_JALAN_SEARCH_RADIUS_KM,
+    search: ({ latitude, longitude, checkinDate, nights, guests, rooms, searchRadiusKm, maxResults }) =>
+        searchJalanHotelsForStay(latitude, longitude, checkinDate, nights, {
+            searchRadiusKm,
+            adultNum: guestsPerRoom(guests, rooms),
+            roomCount: rooms,
+            guests,
+            count: Math.min(maxResults, MAX_JALAN_COUNT),
+        }),
+};
+
+/**
+ * 宿の検索に使う予約サイトを優先する順に返す
+ * じゃらんは API キー (JALAN_API_KEY) が設定されている場合だけ使う。
+ */
+export function getAccommodationProviders(): AccommodationProvider[] {
+    const providers = [rakutenAccommodationProvider];
+    if (process.env.JALAN_API_KEY) {
+        providers.push(jalanAccommodationProvider);
+    }
+    return providers;
+}
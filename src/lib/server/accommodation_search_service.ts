@@ -1,80 +1,308 @@
-import { getDailyWeatherSummary } from './open_metro_api_client';
-import { getPrefectureCoordinates } from './prefecture_geocode';
-import { getYahooReverseGeocodedAddress } from './yahoo_reverse_geocoder_api_client';
-import { searchHotelsWithAvailability, RakutenHotelAccommodation } from './rakuten_travel_hotel_search_api_client';
 import type { Accommodation } from '@/app/_components/AccommodationCard';
+import {
+    DEFAULT_GUESTS,
+    DEFAULT_MAX_RESULTS,
+    DEFAULT_ROOMS,
+    isValidGuestCount,
+    isValidHotelSearchRadius,
+    isValidMaxResults,
+    isValidRoomCount,
+    MAX_GUESTS,
+    MAX_GUESTS_PER_ROOM,
+    MAX_HOTEL_SEARCH_RADIUS_KM,
+    MAX_RESULTS_LIMIT,
+    MAX_ROOMS,
+    MIN_HOTEL_SEARCH_RADIUS_KM,
+} from '@/lib/hotel_search_options';
+import type { SearchSectionStatus, SearchSectionStatuses } from '@/lib/search_sections';
+import { isValidStayNights, listStayNights, MAX_STAY_NIGHTS } from '@/lib/stay_dates';
+import {
+    AccommodationSearchQuery,
+    mergeProviderAccommodations,
+    ProviderAccommodation,
+    searchAccommodationProviders,
+} from './accommodation_provider';
+import { getAccommodationProviders } from './accommodation_provider_registry';
+import { ValidationError } from './app_errors';
+import {
+    ClearNightSuggestion,
+    ClearPrefectureSuggestion,
+    findNearbyClearPrefectures,
+    findNearestClearNights,
+} from './clear_night_suggestions';
+import type { DarkSkySite } from './dark_sky_sites';
+import type { NightDarkWindow } from './dark_window_service';
+import type { GeoPoint } from './geo_distance';
+import { buildNightTimeline, NightTimelineHour } from './night_timeline';
+import {
+    DailyWeatherSummary,
+    getDailyWeatherSummariesForLocations,
+    getDailyWeatherSummariesRange,
+    getElevations,
+    WeatherLocation,
+} from './open_metro_api_client';
+import { trackStaleness } from './response_cache';
+import { ResolvedSearchLocation, resolveSearchLocation } from './search_location';
+import { UpstreamResponseError } from './upstream_errors';
+import { getYahooReverseGeocodedAddress } from './yahoo_reverse_geocoder_api_client';
 
 export interface StargazingSearchParams {
+    /** チェックイン日 */
     date: string | Date;
-    prefecture: string;
+    /** 都道府県。latitude/longitude を指定した場合は無視する */
+    prefecture?: string;
+    /** 検索地点の緯度 (longitude と組で指定する) */
+    latitude?: number;
+    /** 検索地点の経度 (latitude と組で指定する) */
+    longitude?: number;
+    /** 宿の検索半径 (km, 最大 MAX_HOTEL_SEARCH_RADIUS_KM)。省略時は 3km。3km を超える場合は範囲を分割して検索する */
+    radiusKm?: number;
+    /** 泊数 (省略時は 1 泊) */
+    nights?: number;
+    /** 大人の人数 (省略時は 2 人) */
+    guests?: number;
+    /** 部屋数 (省略時は 1 室) */
+    rooms?: number;
+    /** 返す宿の最大件数 (省略時は 30 件) */
+    maxResults?: number;
+    /** true なら晴れの夜がない場合に宿を返さない (省略時は false で、曇りでも予報つきで宿を返す) */
+    strictClearSky?: boolean;
+}
+
+export interface NightWeatherSummary {
+    date: string;
+    isClearSky: boolean;
+    weatherCode: number;
+    temperatureMax: number;
+    temperatureMin: number;
+    timezone: string;
+    darkHours: number;
+    darkWindow: NightDarkWindow;
+    moonIlluminatedFraction: number;
+    stargazingScore: number | null;
+    /** 日の入りから日の出までの時間ごとの雲量・気温・風・湿度・月の高度 */
+    timeline: NightTimelineHour[];
 }
 
 export interface StargazingSearchResult {
     accommodations: Accommodation[];
-    resolvedAddress: string;
+    /** 検索地点の住所。取得できなかった場合は null */
+    resolvedAddress: string | null;
     latitude: number;
     longitude: number;
-    weather: {
-        date: string;
-        isClearSky: boolean;
-        weatherCode: number;
-        temperatureMax: number;
-        temperatureMin: number;
-        timezone: string;
-    };
+    /** チェックイン日の夜の天気。取得できなかった場合は null */
+    weather: NightWeatherSummary | null;
+    /** 宿泊する各夜の天気と月の条件 (チェックイン日から順) */
+    nights: NightWeatherSummary[];
+    /** 宿泊中で最も星空観察に適した夜 (YYYY-MM-DD)。晴れの夜がなければ null */
+    bestNight: string | null;
+    /** 宿を探した星空観察地 (都道府県で検索した場合) */
+    sites: DarkSkySite[];
+    /** 住所・天気・宿それぞれの取得状況 */
+    sections: SearchSectionStatuses;
+    /** 宿泊中に晴れの夜がない場合の、予報期間内で指定日に近い晴れの夜 */
+    nearestClearNights: ClearNightSuggestion[];
+    /** 宿泊中に晴れの夜がない場合の、チェックイン日の夜に晴れる近くの都道府県 */
+    nearbyClearPrefectures: ClearPrefectureSuggestion[];
 }
 
-export async function searchStargazingAccommodations({ date, prefecture }: StargazingSearchParams): Promise<StargazingSearchResult> {
+type SectionResult<T> =
+    | { status: Exclude<SearchSectionStatus, 'unavailable'>; value: T }
+    | { status: 'unavailable'; value: null; error: unknown };
+
+export async function searchStargazingAccommodations({
+    date,
+    prefecture,
+    latitude,
+    longitude,
+    radiusKm,
+    nights = 1,
+    guests = DEFAULT_GUESTS,
+    rooms = DEFAULT_ROOMS,
+    maxResults = DEFAULT_MAX_RESULTS,
+    strictClearSky = false,
+}: StargazingSearchParams): Promise<StargazingSearchResult> {
     const isoDate = normaliseDate(date);
-    const coords = getPrefectureCoordinates(prefecture);
-    if (!coords) {
-        throw new Error(`Unsupported prefecture: ${prefecture}`);
+    if (!isValidStayNights(nights)) {
+        throw new ValidationError(`nights must be an integer between 1 and ${MAX_STAY_NIGHTS}`, 'nights');
+    }
+    if (!isValidGuestCount(guests)) {
+        throw new ValidationError(`guests must be an integer between 1 and ${MAX_GUESTS}`, 'guests');
     }
+    if (!isValidRoomCount(rooms, guests)) {
+        throw new ValidationError(`rooms must be an integer between 1 and ${MAX_ROOMS}, not more than guests, with at most ${MAX_GUESTS_PER_ROOM} guests per room`, 'rooms');
+    }
+    if (radiusKm !== undefined && !isValidHotelSearchRadius(radiusKm)) {
+        throw new ValidationError(`radiusKm must be between ${MIN_HOTEL_SEARCH_RADIUS_KM} and ${MAX_HOTEL_SEARCH_RADIUS_KM}`, 'radiusKm');
+    }
+    if (!isValidMaxResults(maxResults)) {
+        throw new ValidationError(`maxResults must be an integer between 1 and ${MAX_RESULTS_LIMIT}`, 'maxResults');
+    }
+    const coords = resolveSearchLocation({ prefecture, latitude, longitude });
+
+    const stayNights = listStayNights(isoDate, nights);
+    const lastNight = stayNights[stayNights.length - 1];
 
+    // 住所・天気・宿は別々の API から取るので、一部が失敗しても取れたものだけで結果を返す
     const [address, weather, hotels] = await Promise.all([
-        getYahooReverseGeocodedAddress(coords.latitude, coords.longitude),
-        getDailyWeatherSummary(coords.latitude, coords.longitude, isoDate),
-        searchHotelsWithAvailability(coords.latitude, coords.longitude, [isoDate]),
+        loadSection('address', () => getYahooReverseGeocodedAddress(coords.latitude, coords.longitude)),
+        loadSection('weather', async () => {
+            const nightSummaries = (await getDailyWeatherSummariesRange(coords.latitude, coords.longitude, isoDate, lastNight))
+                .map((summary) => toNightWeatherSummary(summary, coords));
+            const checkinNight = nightSummaries.find((night) => night.date === isoDate);
+            if (!checkinNight) {
+                throw new UpstreamResponseError('Open-Meteo API から対象日のデータを取得できませんでした', 'api.open-meteo.com');
+            }
+            return { checkinNight, nightSummaries };
+        }),
+        loadSection('accommodations', () => searchHotelsAroundLocation(coords, { checkinDate: isoDate, nights, guests, rooms, searchRadiusKm: radiusKm, maxResults })),
     ]);
+    // 天気も宿も取れなければ表示できるものがない
+    if (weather.status === 'unavailable' && hotels.status === 'unavailable') {
+        throw weather.error;
+    }
 
-    const weatherSummary = {
-        date: weather.date,
-        isClearSky: weather.isClearSky,
-        weatherCode: weather.weatherCode,
-        temperatureMax: weather.temperatureMax,
-        temperatureMin: weather.temperatureMin,
-        timezone: weather.timezone,
+    const sections: SearchSectionStatuses = { address: address.status, weather: weather.status, accommodations: hotels.status };
+    const nightSummaries = weather.value?.nightSummaries ?? [];
+    const bestNight = selectBestNight(nightSummaries);
+    const isCloudyStay = weather.value !== null && bestNight === null;
+    const suggestions = isCloudyStay
+        ? await suggestClearAlternatives(coords, isoDate, stayNights)
+        : { nearestClearNights: [], nearbyClearPrefectures: [] };
+    const baseResult = {
+        resolvedAddress: address.value,
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        weather: weather.value?.checkinNight ?? null,
+        nights: nightSummaries,
+        bestNight,
+        sites: coords.sites,
+        sections,
+        ...suggestions,
+    };
+
+    // strictClearSky のときは、連泊中に 1 晩でも晴れる夜がある場合だけ宿を返す (天気が取れなかった場合は絞り込まない)
+    if (!hotels.value || (strictClearSky && isCloudyStay)) {
+        return { ...baseResult, accommodations: [] };
+    }
+
+    // 予約サイトの空室検索で部屋数を指定しているので、返ってきた宿はすべてグループ全員が泊まれる
+    const siteConditions = await fetchHotelSiteConditions(hotels.value, isoDate, lastNight);
+    const filtered = hotels.value.map((hotel) => enrichHotelWithLocation(hotel, address.value, siteConditions.get(hotel.id)));
+
+    const sorted = filtered
+        .sort((a, b) => b.rating - a.rating || (b.clearSkyProbability ?? -1) - (a.clearSkyProbability ?? -1))
+        .slice(0, maxResults);
+
+    return { ...baseResult, accommodations: sorted };
+}
+
+/**
+ * 宿泊中に晴れの夜がない場合に、近い日付の晴れの夜と、同じ夜に晴れる近くの都道府県を探す
+ * 提案は付加情報なので、取得に失敗しても空配列にして検索自体は続ける。
+ */
+async function suggestClearAlternatives(
+    location: ResolvedSearchLocation,
+    date: string,
+    stayNights: string[],
+): Promise<Pick<StargazingSearchResult, 'nearestClearNights' | 'nearbyClearPrefectures'>> {
+    const warnAndSkip = (error: unknown) => {
+        console.warn('Failed to suggest clear alternatives:', error instanceof Error ? error.message : error);
+        return [];
     };
+    const [nearestClearNights, nearbyClearPrefectures] = await Promise.all([
+        findNearestClearNights(location, date, stayNights).catch(warnAndSkip),
+        findNearbyClearPrefectures(location, date, location.prefecture).catch(warnAndSkip),
+    ]);
+    return { nearestClearNights, nearbyClearPrefectures };
+}
 
-    if (!weather.isClearSky) {
-        return {
-            accommodations: [],
-            resolvedAddress: address,
-            latitude: coords.latitude,
-            longitude: coords.longitude,
-            weather: weatherSummary,
-        };
+/**
+ * 検索結果の 1 部分を取得し、取得状況をあわせて返す
+ * 入力の誤りはそのまま投げ、それ以外の失敗は unavailable とする。
+ */
+async function loadSection<T>(section: keyof SearchSectionStatuses, load: () => Promise<T>): Promise<SectionResult<T>> {
+    try {
+        const { value, stale } = await trackStaleness(load);
+        return { status: stale ? 'stale' : 'ok', value };
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            throw error;
+        }
+        console.warn(`Failed to load ${section} for the search result:`, error instanceof Error ? error.message : error);
+        return { status: 'unavailable', value: null, error };
     }
+}
 
-    const filtered = hotels
-        .filter((hotel) => hotel.availableRooms > 0)
-        .map((hotel) => enrichHotelWithLocation(hotel, address));
+type SiteHotel = ProviderAccommodation & { darkSkySite: string | null };
+
+/**
+ * 検索地点の周辺で連泊できる宿を、利用できるすべての予約サイトで探す
+ * 都道府県で検索した場合は上位の星空観察地それぞれの周辺を検索してまとめる。
+ */
+async function searchHotelsAroundLocation(
+    location: ResolvedSearchLocation,
+    conditions: Omit<AccommodationSearchQuery, 'latitude' | 'longitude'>,
+): Promise<SiteHotel[]> {
+    const searchPoints = location.sites.length > 0
+        ? location.sites.map((site) => ({ latitude: site.latitude, longitude: site.longitude, siteName: site.name }))
+        : [{ latitude: location.latitude, longitude: location.longitude, siteName: null }];
+
+    const providers = getAccommodationProviders();
+    const results = await Promise.allSettled(
+        searchPoints.map((point) => searchAccommodationProviders(providers, {
+            ...conditions,
+            latitude: point.latitude,
+            longitude: point.longitude,
+        })),
+    );
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === results.length) {
+        throw failures[0].reason;
+    }
+    for (const failure of failures) {
+        console.warn('Failed to search hotels around a dark-sky site:', failure.reason instanceof Error ? failure.reason.message : failure.reason);
+    }
 
-    const sorted = filtered.sort((a, b) => b.rating - a.rating || b.clearSkyProbability - a.clearSkyProbability);
+    // 複数の観察地の検索範囲に入る宿は、推奨順で先の観察地のものとして扱う
+    return mergeProviderAccommodations<SiteHotel>(
+        results.map((result, index) => result.status === 'fulfilled'
+            ? result.value.map((hotel) => ({ ...hotel, darkSkySite: searchPoints[index].siteName }))
+            : []),
+    );
+}
 
+function toNightWeatherSummary(weather: DailyWeatherSummary, location: GeoPoint): NightWeatherSummary {
     return {
-        accommodations: sorted,
-        resolvedAddress: address,
-        latitude: coords.latitude,
-        longitude: coords.longitude,
-        weather: weatherSummary,
+        date: weather.date,
+        isClearSky: weather.isClearSky,
+        weatherCode: weather.weatherCode,
+        temperatureMax: weather.temperatureMax,
+        temperatureMin: weather.temperatureMin,
+        timezone: weather.timezone,
+        darkHours: weather.darkWindow.darkHours,
+        darkWindow: weather.darkWindow,
+        moonIlluminatedFraction: weather.moonIlluminatedFraction,
+        stargazingScore: weather.stargazingScore,
+        timeline: buildNightTimeline(weather.nightHours, location.latitude, location.longitude),
     };
 }
 
+/**
+ * 晴れの夜のうち星空指数が最も高い夜を選ぶ (同点なら暗夜の長い夜)
+ * @returns 選んだ夜の日付。晴れの夜がなければ null
+ */
+function selectBestNight(nights: NightWeatherSummary[]): string | null {
+    const [best] = nights
+        .filter((night) => night.isClearSky)
+        .sort((a, b) => (b.stargazingScore ?? -1) - (a.stargazingScore ?? -1) || b.darkHours - a.darkHours);
+    return best?.date ?? null;
+}
+
 function normaliseDate(date: string | Date): string {
     if (date instanceof Date) {
         if (Number.isNaN(date.getTime())) {
-            throw new TypeError('Invalid Date object provided');
+            throw new ValidationError('Invalid Date object provided', 'date');
         }
         return toIsoDate(date);
     }
@@ -82,27 +310,79 @@ function normaliseDate(date: string | Date): string {
     if (typeof date === 'string') {
         const trimmed = date.trim();
         if (!trimmed) {
-            throw new TypeError('date must not be empty');
+            throw new ValidationError('date must not be empty', 'date');
         }
         const parsed = new Date(trimmed);
         if (Number.isNaN(parsed.getTime())) {
-            throw new TypeError('date must be a valid ISO 8601 string (YYYY-MM-DD)');
+            throw new ValidationError('date must be a valid ISO 8601 string (YYYY-MM-DD)', 'date');
         }
         return toIsoDate(parsed);
     }
 
-    throw new TypeError('date must be a string or Date instance');
+    throw new ValidationError('date must be a string or Date instance', 'date');
 }
 
 function toIsoDate(date: Date): string {
     return date.toISOString().slice(0, 10);
 }
 
-function enrichHotelWithLocation(hotel: RakutenHotelAccommodation, resolvedAddress: string): Accommodation {
+interface HotelSiteConditions {
+    clearSkyProbability: number | null;
+    altitude: number | null;
+}
+
+async function fetchHotelSiteConditions(
+    hotels: ProviderAccommodation[],
+    startDate: string,
+    endDate: string,
+): Promise<Map<string, HotelSiteConditions>> {
+    const located = hotels.filter(
+        (hotel): hotel is ProviderAccommodation & WeatherLocation => hotel.latitude !== null && hotel.longitude !== null,
+    );
+    const locations = located.map(({ latitude, longitude }) => ({ latitude, longitude }));
+
+    // 施設ごとの晴天確率と標高は付加情報なので、取得に失敗しても検索自体は続ける。
+    // 標高は推測で埋めずに null (表示は「---」) にする
+    const [forecasts, elevations] = await Promise.all([
+        getDailyWeatherSummariesForLocations(locations, startDate, endDate).catch((error) => {
+            console.warn('Failed to fetch hotel forecasts from Open-Meteo:', error instanceof Error ? error.message : error);
+            return null;
+        }),
+        getElevations(locations).catch((error) => {
+            console.warn('Failed to fetch elevations from Open-Meteo:', error instanceof Error ? error.message : error);
+            return null;
+        }),
+    ]);
+
+    const conditions = new Map<string, HotelSiteConditions>();
+    located.forEach((hotel, index) => {
+        conditions.set(hotel.id, {
+            clearSkyProbability: selectBestClearSkyProbability(forecasts?.[index] ?? []),
+            altitude: elevations?.[index] ?? null,
+        });
+    });
+    return conditions;
+}
+
+// 連泊では施設の座標で最も晴れる見込みの高い夜の値を使う
+function selectBestClearSkyProbability(forecasts: DailyWeatherSummary[]): number | null {
+    const probabilities = forecasts
+        .map((forecast) => forecast.clearSkyProbability)
+        .filter((value): value is number => value !== null);
+    return probabilities.length > 0 ? Math.max(...probabilities) : null;
+}
+
+function enrichHotelWithLocation(
+    hotel: SiteHotel,
+    resolvedAddress: string | null,
+    conditions: HotelSiteConditions | undefined,
+): Accommodation {
     return {
         ...hotel,
-        location: hotel.location || resolvedAddress,
-        prefecture: hotel.prefecture || extractPrefectureFromAddress(resolvedAddress) || '不明',
+        clearSkyProbability: conditions?.clearSkyProbability ?? null,
+        altitude: conditions?.altitude ?? null,
+        location: hotel.location || resolvedAddress || '',
+        prefecture: hotel.prefecture || (resolvedAddress && extractPrefectureFromAddress(resolvedAddress)) || '不明',
     };
 }
 
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { ApiErrorEnvelope } from '@/lib/api_errors';
+import { AppError } from './app_errors';
+
+/**
+ * 例外を API のエラー応答にする
+ * AppError はそのコードと状態コードで返し、それ以外は 500 (INTERNAL_ERROR) とする。
+ * 待ち時間がわかる場合 (429 や遮断中) は Retry-After ヘッダーを付ける。
+ */
+export function toErrorResponse(error: unknown): NextResponse<ApiErrorEnvelope> {
+    if (error instanceof AppError) {
+        const envelope: ApiErrorEnvelope = {
+            error: {
+                code: error.code,
+                message: error.message,
+                ...(error.details ? { details: error.details } : {}),
+            },
+        };
+        const retryAfterMs = (error as { retryAfterMs?: unknown }).retryAfterMs;
+        const headers = typeof retryAfterMs === 'number'
+            ? { 'Retry-After': Math.max(1, Math.ceil(retryAfterMs / 1000)).toString() }
+            : undefined;
+        return NextResponse.json(envelope, { status: error.status, headers });
+    }
+
+    console.error('Unhandled error in API route:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return NextResponse.json({ error: { code: 'INTERNAL_ERROR', message } }, { status: 500 });
+}
@@ -0,0 +1,46 @@
+import { ApiErrorCode } from '@/lib/api_errors';
+
+/**
+ * API の利用者に伝えるエラーの基底クラス
+ * code は画面が文言を選ぶための値、status は API が返す HTTP の状態コード。
+ */
+export class AppError extends Error {
+    readonly code: ApiErrorCode;
+    readonly status: number;
+    readonly details?: Record<string, unknown>;
+
+    constructor(message: string, code: ApiErrorCode, status: number, options?: { cause?: unknown; details?: Record<string, unknown> }) {
+        super(message, options?.cause === undefined ? undefined : { cause: options.cause });
+        this.name = 'AppError';
+        this.code = code;
+        this.status = status;
+        this.details = options?.details;
+    }
+}
+
+/** 入力の誤り (400) */
+export class ValidationError extends AppError {
+    constructor(message: string, field?: string) {
+        super(message, 'VALIDATION_FAILED', 400, field ? { details: { field } } : undefined);
+        this.name = 'ValidationError';
+    }
+}
+
+/** 指定された対象がない (404) */
+export class NotFoundError extends AppError {
+    constructor(message: string, code: Extract<ApiErrorCode, 'NOT_FOUND' | 'PREFECTURE_NOT_SUPPORTED' | 'CURSOR_EXPIRED'> = 'NOT_FOUND') {
+        super(message, code, 404);
+        this.name = 'NotFoundError';
+    }
+}
+
+/** API キーなどの環境変数が設定されていない (503) */
+export class ConfigurationError extends AppError {
+    readonly variable: string;
+
+    constructor(variable: string) {
+        super(`${variable} is not set`, 'CONFIGURATION_MISSING', 503);
+        this.name = 'ConfigurationError';
+        this.variable = variable;
+    }
+}
@@ -0,0 +1,140 @@
+import { DEFAULT_GUESTS, DEFAULT_MAX_RESULTS, DEFAULT_ROOMS } from '@/lib/hotel_search_options';
+import { searchAccommodationProviders } from './accommodation_provider';
+import { getAccommodationProviders } from './accommodation_provider_registry';
+import { ValidationError } from './app_errors';
+import { DailyWeatherSummary, getDailyWeatherSummariesForLocations } from './open_metro_api_client';
+import { resolveSearchLocation } from './search_location';
+
+/** 一度に比較できる都道府県の上限 */
+export const MAX_BEST_NIGHT_PREFECTURES = 10;
+/** 返す夜の件数の上限 (件数ぶん宿の空室検索を行うため絞る) */
+export const MAX_BEST_NIGHTS_LIMIT = 10;
+const DEFAULT_BEST_NIGHTS_LIMIT = 5;
+
+/**
+ * ランキングの重み。重みの合計で正規化する。
+ * darkHoursReference 時間以上の暗夜で満点とする。
+ */
+export const BEST_NIGHT_RANKING_CONFIG = {
+    weights: {
+        clearSky: 0.5,
+        moon: 0.2,
+        darkHours: 0.3,
+    },
+    darkHoursReference: 9,
+};
+
+export interface BestNightsParams {
+    prefectures: string[];
+    /** 対象期間の開始日 (YYYY-MM-DD) */
+    startDate: string;
+    /** 対象期間の終了日 (YYYY-MM-DD) */
+    endDate: string;
+    /** 返す夜の件数 (省略時は 5) */
+    limit?: number;
+}
+
+export interface RankedNight {
+    prefecture: string;
+    date: string;
+    /** ランキングの得点 (0〜100) */
+    rankingScore: number;
+    isClearSky: boolean;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+    darkHours: number;
+    moonIlluminatedFraction: number;
+    /**
+     * 空室検索で見つかった施設数 (予約サイトをまたいで同じ施設は 1 件と数える)。空室検索に失敗した場合は null
+     * 予約サイトごとに DEFAULT_MAX_RESULTS 件までしか取得しないので、空室のある施設の総数ではない。
+     */
+    sampledHotelCount: number | null;
+}
+
+/**
+ * 複数の都道府県について予報期間のすべての夜を採点し、上位の夜を空室数つきで返す
+ * 晴れ・月明かり・暗夜の長さを組み合わせて採点する。
+ * @returns 得点の高い順に並べた夜
+ */
+export async function findBestNights({ prefectures, startDate, endDate, limit = DEFAULT_BEST_NIGHTS_LIMIT }: BestNightsParams): Promise<RankedNight[]> {
+    const uniquePrefectures = Array.from(new Set(prefectures.map((prefecture) => prefecture.trim()).filter(Boolean)));
+    if (uniquePrefectures.length === 0) {
+        throw new ValidationError('prefectures must contain at least one prefecture', 'prefectures');
+    }
+    if (uniquePrefectures.length > MAX_BEST_NIGHT_PREFECTURES) {
+        throw new ValidationError(`prefectures must not contain more than ${MAX_BEST_NIGHT_PREFECTURES} prefectures`, 'prefectures');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BEST_NIGHTS_LIMIT) {
+        throw new ValidationError(`limit must be an integer between 1 and ${MAX_BEST_NIGHTS_LIMIT}`, 'limit');
+    }
+
+    // 各都道府県の代表点 (最もおすすめの星空観察地) で比較する
+    const locations = uniquePrefectures.map((prefecture) => {
+        const { latitude, longitude } = resolveSearchLocation({ prefecture });
+        return { prefecture, latitude, longitude };
+    });
+
+    const forecasts = await getDailyWeatherSummariesForLocations(locations, startDate, endDate);
+
+    const ranked = locations
+        .flatMap((location, index) => (forecasts[index] ?? []).map((summary) => ({ location, summary })))
+        .map(({ location, summary }) => ({ location, summary, rankingScore: calculateNightRankingScore(summary) }))
+        .sort((a, b) => b.rankingScore - a.rankingScore || a.summary.date.localeCompare(b.summary.date))
+        .slice(0, limit);
+
+    return Promise.all(
+        ranked.map(async ({ location, summary, rankingScore }) => ({
+            prefecture: location.prefecture,
+            date: summary.date,
+            rankingScore,
+            isClearSky: summary.isClearSky,
+            clearSkyProbability: summary.clearSkyProbability,
+            stargazingScore: summary.stargazingScore,
+            darkHours: summary.darkWindow.darkHours,
+            moonIlluminatedFraction: summary.moonIlluminatedFraction,
+            sampledHotelCount: await countSampledHotels(location.latitude, location.longitude, summary.date),
+        })),
+    );
+}
+
+/**
+ * 1 晩の得点 (0〜100) を求める
+ * 晴れは夜間の晴天率 (なければ日次の晴れ判定)、月は輝面比、暗夜は darkHoursReference に対する割合で評価する。
+ */
+export function calculateNightRankingScore(summary: DailyWeatherSummary, config = BEST_NIGHT_RANKING_CONFIG): number {
+    const clearSky = summary.clearSkyProbability !== null
+        ? summary.clearSkyProbability / 100
+        : summary.isClearSky ? 1 : 0;
+    const moon = Number.isFinite(summary.moonIlluminatedFraction) ? 1 - clamp(summary.moonIlluminatedFraction, 0, 1) : 0;
+    const darkHours = clamp(summary.darkWindow.darkHours / config.darkHoursReference, 0, 1);
+
+    const { weights } = config;
+    const totalWeight = weights.clearSky + weights.moon + weights.darkHours;
+    const weighted = clearSky * weights.clearSky + moon * weights.moon + darkHours * weights.darkHours;
+    return Math.round((weighted / totalWeight) * 100);
+}
+
+/**
+ * 既定の人数・部屋数で 1 泊したときに空室のある宿を、利用できるすべての予約サイトで検索の上限まで取得して数える
+ */
+async function countSampledHotels(latitude: number, longitude: number, date: string): Promise<number | null> {
+    try {
+        const hotels = await searchAccommodationProviders(getAccommodationProviders(), {
+            latitude,
+            longitude,
+            checkinDate: date,
+            nights: 1,
+            guests: DEFAULT_GUESTS,
+            rooms: DEFAULT_ROOMS,
+            maxResults: DEFAULT_MAX_RESULTS,
+        });
+        return hotels.length;
+    } catch (error) {
+        console.warn('Failed to count sampled hotels:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,55 @@
+import { CLEAR_NIGHT_CLIMATOLOGY } from './clear_night_climatology_data';
+
+/** 気候値を集計する 1 年の週の数。52 週目は 12 月 24 日 (うるう年は 23 日) から年末まで */
+export const CLIMATOLOGY_WEEKS = 52;
+
+export interface ClearNightOdds {
+    date: string;
+    /** 過去の同じ週に晴れの夜だった割合 (%) */
+    clearNightRate: number;
+}
+
+/**
+ * 日付が 1 年の何週目にあたるかを求める (0 始まり)
+ * 1 月 1 日から 7 日ごとに区切り、年末の端数は最後の週に含める。
+ * @param date 日付 (YYYY-MM-DD)
+ */
+export function toClimatologyWeek(date: string): number {
+    const parsed = new Date(`${date}T00:00:00Z`);
+    const dayOfYear = Math.floor((parsed.getTime() - Date.UTC(parsed.getUTCFullYear(), 0, 1)) / 86_400_000);
+    return Math.min(Math.floor(dayOfYear / 7), CLIMATOLOGY_WEEKS - 1);
+}
+
+/**
+ * 集計した期間を返す。気候値をまだ生成していなければ null
+ */
+export function getClimatologyPeriod(): { startYear: number; endYear: number } | null {
+    return CLEAR_NIGHT_CLIMATOLOGY.period;
+}
+
+/**
+ * 期間内の各夜について、過去の同じ週に晴れの夜だった割合を返す
+ * 予報の届かない先の夜の晴れやすさの目安で、その夜の予報ではない。
+ * @param prefecture 都道府県名
+ * @param startDate 開始日 (YYYY-MM-DD)
+ * @param endDate 終了日 (YYYY-MM-DD)
+ * @returns 日付順。気候値のない都道府県では空配列
+ */
+export function listClearNightOdds(prefecture: string, startDate: string, endDate: string): ClearNightOdds[] {
+    const rates = CLEAR_NIGHT_CLIMATOLOGY.rates[prefecture.trim()];
+    if (!rates) {
+        return [];
+    }
+
+    const odds: ClearNightOdds[] = [];
+    const cursor = new Date(`${startDate}T00:00:00Z`);
+    for (let date = startDate; date <= endDate; date = cursor.toISOString().slice(0, 10)) {
+        const rate = rates[toClimatologyWeek(date)];
+        // 夜のデータがなかった週 (null) は割合を付けない
+        if (typeof rate === 'number' && Number.isFinite(rate)) {
+            odds.push({ date, clearNightRate: rate });
+        }
+        cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return odds;
+}
@@ -0,0 +1,14 @@
+// tools/clear_night_climatology で生成するファイル。手で編集しない。
+// Open-Meteo の過去の気象データから、都道府県の代表点で晴れの夜だった割合 (%) を 1 年 52 週に分けて集計したもの。
+
+export interface ClearNightClimatologyDataset {
+    /** 集計した期間 (年)。まだ生成していなければ null */
+    period: { startYear: number; endYear: number } | null;
+    /** 都道府県ごとの、週 (1 月 1 日から 7 日ごと。52 週目は年末まで) の晴れの夜の割合 (%)。夜のデータがない週は null */
+    rates: Record<string, (number | null)[]>;
+}
+
+export const CLEAR_NIGHT_CLIMATOLOGY: ClearNightClimatologyDataset = {
+    period: null,
+    rates: {},
+};
@@ -0,0 +1,160 @@
+import { computeForecastWindowBounds } from './forecast_window';
+import { estimateDrive, GeoPoint, haversineDistanceKm } from './geo_distance';
+import { DailyWeatherSummary, getDailyWeatherSummariesForLocations, getDailyWeatherSummariesRange } from './open_metro_api_client';
+import { getNeighborPrefectures, listSupportedPrefectures } from './prefecture_geocode';
+import { resolveSearchLocation } from './search_location';
+
+/** 提案する晴れの夜の件数 */
+export const MAX_SUGGESTED_NIGHTS = 3;
+/** 提案する近くの都道府県の件数 */
+export const MAX_SUGGESTED_PREFECTURES = 3;
+// 晴れているか調べる近くの都道府県の数と距離の上限 (代表点どうしの直線距離)
+const NEARBY_PREFECTURE_CANDIDATES = 8;
+const MAX_NEARBY_PREFECTURE_DISTANCE_KM = 300;
+/** 隣の都道府県の晴れの日を提案する件数 */
+export const MAX_NEIGHBOR_SUGGESTIONS = 5;
+// 隣の都道府県を何県先までたどるか
+const NEIGHBOR_MAX_HOPS = 2;
+
+export interface ClearNightSuggestion {
+    date: string;
+    /** 指定日から何日ずれているか (前なら負) */
+    daysFromDate: number;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+}
+
+export interface ClearPrefectureSuggestion {
+    prefecture: string;
+    /** 検索地点から都道府県の代表点までの直線距離 (km) */
+    distanceKm: number;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+}
+
+/**
+ * 予報期間の中で、指定日に近い晴れの夜を探す
+ * @param location 検索地点
+ * @param date 指定日 (YYYY-MM-DD)
+ * @param excludeDates 候補から除く夜 (宿泊する夜など)
+ * @returns 指定日に近い順 (同じ近さなら星空指数の高い順)
+ */
+export async function findNearestClearNights(
+    location: GeoPoint,
+    date: string,
+    excludeDates: string[] = [],
+    limit = MAX_SUGGESTED_NIGHTS,
+): Promise<ClearNightSuggestion[]> {
+    const { start, end, isOutOfSupportedRange } = computeForecastWindowBounds();
+    if (isOutOfSupportedRange || !start || !end) {
+        return [];
+    }
+
+    const excluded = new Set(excludeDates);
+    const summaries = await getDailyWeatherSummariesRange(location.latitude, location.longitude, start, end);
+    return summaries
+        .filter((summary) => summary.isClearSky && !excluded.has(summary.date))
+        .map((summary) => ({ summary, daysFromDate: diffDays(date, summary.date) }))
+        .sort((a, b) => Math.abs(a.daysFromDate) - Math.abs(b.daysFromDate)
+            || (b.summary.stargazingScore ?? -1) - (a.summary.stargazingScore ?? -1))
+        .slice(0, limit)
+        .map(({ summary, daysFromDate }) => ({ date: summary.date, daysFromDate, ...toConditions(summary) }));
+}
+
+/**
+ * 検索地点の近くで、同じ夜に晴れる都道府県を探す
+ * 各都道府県の代表点 (最もおすすめの星空観察地) の予報で判定する。
+ * @param origin 検索地点
+ * @param date 夜の日付 (YYYY-MM-DD)
+ * @param excludePrefecture 検索した都道府県 (候補から除く)
+ * @returns 近い順
+ */
+export async function findNearbyClearPrefectures(
+    origin: GeoPoint,
+    date: string,
+    excludePrefecture: string | null = null,
+    limit = MAX_SUGGESTED_PREFECTURES,
+): Promise<ClearPrefectureSuggestion[]> {
+    const candidates = listSupportedPrefectures()
+        .filter((prefecture) => prefecture !== excludePrefecture)
+        .map((prefecture) => {
+            const { latitude, longitude } = resolveSearchLocation({ prefecture });
+            return { prefecture, latitude, longitude, distanceKm: haversineDistanceKm(origin, { latitude, longitude }) };
+        })
+        .filter((candidate) => candidate.distanceKm <= MAX_NEARBY_PREFECTURE_DISTANCE_KM)
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+        .slice(0, NEARBY_PREFECTURE_CANDIDATES);
+    if (candidates.length === 0) {
+        return [];
+    }
+
+    const forecasts = await getDailyWeatherSummariesForLocations(candidates, date, date);
+    return candidates
+        .map((candidate, index) => ({ candidate, summary: forecasts[index]?.find((summary) => summary.date === date) }))
+        .filter((entry): entry is { candidate: typeof entry.candidate; summary: DailyWeatherSummary } => entry.summary?.isClearSky === true)
+        .slice(0, limit)
+        .map(({ candidate, summary }) => ({
+            prefecture: candidate.prefecture,
+            distanceKm: Math.round(candidate.distanceKm),
+            ...toConditions(summary),
+        }));
+}
+
+export interface NeighborClearDaysSuggestion {
+    prefecture: string;
+    /** 県境をまたぐ回数 (1 なら隣接) */
+    hops: number;
+    /** 選んだ都道府県の代表点からの車での移動距離 (km) の目安 */
+    driveDistanceKm: number;
+    /** 車での所要時間 (分) の目安 */
+    driveMinutes: number;
+    /** 期間内の晴れの夜 */
+    clearDays: { date: string; clearSkyProbability: number | null; stargazingScore: number | null }[];
+}
+
+/**
+ * 選んだ都道府県の周辺 (2 県先まで) で、期間内に晴れの夜がある都道府県を探す
+ * 周辺の代表点の予報は Open-Meteo の複数地点指定でまとめて取得する。
+ * @param prefecture 選んだ都道府県
+ * @param startDate 期間の開始日 (YYYY-MM-DD)
+ * @param endDate 期間の終了日 (YYYY-MM-DD)
+ * @returns 近い順 (県境をまたぐ回数、移動距離の順)
+ */
+export async function findNeighborPrefectureClearDays(
+    prefecture: string,
+    startDate: string,
+    endDate: string,
+    limit = MAX_NEIGHBOR_SUGGESTIONS,
+): Promise<NeighborClearDaysSuggestion[]> {
+    const origin = resolveSearchLocation({ prefecture });
+    const neighbors = getNeighborPrefectures(prefecture, NEIGHBOR_MAX_HOPS).map((neighbor) => {
+        const { latitude, longitude } = resolveSearchLocation({ prefecture: neighbor.prefecture });
+        return { ...neighbor, latitude, longitude, drive: estimateDrive(origin, { latitude, longitude }) };
+    });
+    if (neighbors.length === 0) {
+        return [];
+    }
+
+    const forecasts = await getDailyWeatherSummariesForLocations(neighbors, startDate, endDate);
+    return neighbors
+        .map((neighbor, index) => ({
+            prefecture: neighbor.prefecture,
+            hops: neighbor.hops,
+            driveDistanceKm: neighbor.drive.distanceKm,
+            driveMinutes: neighbor.drive.durationMinutes,
+            clearDays: (forecasts[index] ?? [])
+                .filter((summary) => summary.isClearSky)
+                .map((summary) => ({ date: summary.date, ...toConditions(summary) })),
+        }))
+        .filter((suggestion) => suggestion.clearDays.length > 0)
+        .sort((a, b) => a.hops - b.hops || a.driveDistanceKm - b.driveDistanceKm)
+        .slice(0, limit);
+}
+
+function toConditions(summary: DailyWeatherSummary): Pick<ClearNightSuggestion, 'clearSkyProbability' | 'stargazingScore'> {
+    return { clearSkyProbability: summary.clearSkyProbability, stargazingScore: summary.stargazingScore };
+}
+
+function diffDays(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
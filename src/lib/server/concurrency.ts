@@ -0,0 +1,33 @@
+/**
+ * 同時実行数を制限しながら非同期処理を実行し、Promise.allSettled と同じ形で結果を返す
+ * @param items 処理する値
+ * @param concurrency 同時に実行する処理の上限
+ * @param task 値ごとの処理
+ * @returns items と同じ順の結果
+ */
+export async function settleWithConcurrency<T, R>(
+    items: readonly T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new RangeError('concurrency must be a positive integer');
+    }
+
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex;
+            nextIndex += 1;
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
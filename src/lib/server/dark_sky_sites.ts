@@ -0,0 +1,244 @@
+// 都道府県ごとの星空観察地のカタログ。
+// 県庁所在地は県内で最も明るいことが多いので、検索はこの観察地を中心に行う。
+// 各都道府県の配列は推奨順 (アクセスと空の暗さを踏まえて先頭ほどおすすめ) に並べる。
+// 座標・標高は観察地の代表点の概算値、ボートルスケールは現地の一般的な空の暗さの目安。
+
+export interface DarkSkySite {
+    name: string;
+    prefecture: string;
+    latitude: number;
+    longitude: number;
+    /** 標高 (m) */
+    elevation: number;
+    /** ボートルスケール (1: 最も暗い〜9: 都心) */
+    bortleClass: number;
+    notes: string;
+}
+
+type DarkSkySiteEntry = Omit<DarkSkySite, 'prefecture'>;
+
+const DARK_SKY_SITES: Record<string, DarkSkySiteEntry[]> = {
+    北海道: [
+        { name: '陸別町 銀河の森', latitude: 43.47, longitude: 143.74, elevation: 240, bortleClass: 2, notes: '冬は氷点下30℃近くまで冷え込む。公開天文台あり' },
+        { name: '美瑛 白金温泉', latitude: 43.50, longitude: 142.62, elevation: 550, bortleClass: 2, notes: '十勝岳の麓。温泉宿が多い' },
+        { name: '摩周湖 第一展望台', latitude: 43.56, longitude: 144.51, elevation: 550, bortleClass: 2, notes: '夜間も駐車場に入れる。霧が出やすい' },
+    ],
+    青森県: [
+        { name: '八甲田 酸ヶ湯', latitude: 40.65, longitude: 140.85, elevation: 925, bortleClass: 2, notes: '冬季は豪雪。夏から秋が観望向き' },
+        { name: '十和田湖 宇樽部', latitude: 40.47, longitude: 140.88, elevation: 400, bortleClass: 3, notes: '湖畔の東側は街明かりが少ない' },
+    ],
+    岩手県: [
+        { name: '種山高原 星座の森', latitude: 39.22, longitude: 141.30, elevation: 850, bortleClass: 2, notes: '宮沢賢治ゆかりの高原。キャンプ場あり' },
+        { name: '安比高原', latitude: 40.00, longitude: 140.96, elevation: 550, bortleClass: 3, notes: 'リゾートホテルが多く宿を取りやすい' },
+    ],
+    宮城県: [
+        { name: '栗駒高原', latitude: 38.93, longitude: 140.80, elevation: 900, bortleClass: 2, notes: 'いこいの村周辺が開けている' },
+        { name: '蔵王エコーライン', latitude: 38.12, longitude: 140.50, elevation: 1200, bortleClass: 2, notes: '冬季は通行止め' },
+    ],
+    秋田県: [
+        { name: '仁賀保高原', latitude: 39.24, longitude: 140.03, elevation: 500, bortleClass: 2, notes: '風車群の並ぶ草原。鳥海山を望む' },
+        { name: '八幡平', latitude: 39.96, longitude: 140.85, elevation: 1500, bortleClass: 2, notes: 'アスピーテラインは冬季通行止め' },
+    ],
+    山形県: [
+        { name: '月山 姥沢', latitude: 38.53, longitude: 140.00, elevation: 1150, bortleClass: 2, notes: '夏スキーの拠点。夏から秋が観望向き' },
+        { name: '蔵王温泉', latitude: 38.17, longitude: 140.40, elevation: 880, bortleClass: 3, notes: '温泉街の外れまで出ると暗い' },
+    ],
+    福島県: [
+        { name: '浄土平', latitude: 37.72, longitude: 140.26, elevation: 1580, bortleClass: 2, notes: '天文台あり。磐梯吾妻スカイラインは夜間通行止めの期間がある' },
+        { name: '裏磐梯', latitude: 37.65, longitude: 140.08, elevation: 820, bortleClass: 2, notes: '湖沼群の周辺にペンションが多い' },
+    ],
+    茨城県: [
+        { name: '大子町 花立自然公園', latitude: 36.77, longitude: 140.37, elevation: 500, bortleClass: 3, notes: '県北の山間部で関東では暗い' },
+        { name: '筑波山', latitude: 36.23, longitude: 140.10, elevation: 800, bortleClass: 4, notes: '南側は首都圏の光害が大きい' },
+    ],
+    栃木県: [
+        { name: '戦場ヶ原', latitude: 36.78, longitude: 139.43, elevation: 1390, bortleClass: 2, notes: '三本松駐車場が広い。奥日光の温泉宿が近い' },
+        { name: '那須高原', latitude: 37.08, longitude: 140.00, elevation: 700, bortleClass: 3, notes: '別荘地の上部が暗い' },
+    ],
+    群馬県: [
+        { name: '野反湖', latitude: 36.71, longitude: 138.63, elevation: 1510, bortleClass: 2, notes: '冬季は道路閉鎖' },
+        { name: '尾瀬 鳩待峠', latitude: 36.88, longitude: 139.20, elevation: 1590, bortleClass: 1, notes: 'マイカー規制期間に注意' },
+        { name: '草津温泉', latitude: 36.62, longitude: 138.60, elevation: 1200, bortleClass: 3, notes: '温泉街から少し離れると暗い' },
+    ],
+    埼玉県: [
+        { name: '三峯', latitude: 35.93, longitude: 138.93, elevation: 1100, bortleClass: 3, notes: '三峯神社の宿坊に泊まれる' },
+        { name: '堂平山', latitude: 36.02, longitude: 139.19, elevation: 876, bortleClass: 4, notes: '旧東京大学の観測所跡。東側は都心の光害あり' },
+    ],
+    千葉県: [
+        { name: '大山千枚田', latitude: 35.10, longitude: 140.08, elevation: 150, bortleClass: 4, notes: '房総の山間部。南の空が比較的暗い' },
+        { name: '清澄山', latitude: 35.16, longitude: 140.15, elevation: 380, bortleClass: 4, notes: '県内で最も暗い地域のひとつ' },
+    ],
+    東京都: [
+        { name: '奥多摩湖', latitude: 35.79, longitude: 139.04, elevation: 530, bortleClass: 4, notes: '都内の本土では最も暗い地域' },
+        { name: '檜原 都民の森', latitude: 35.73, longitude: 139.05, elevation: 1000, bortleClass: 4, notes: '駐車場は夜間閉鎖されることがある' },
+    ],
+    神奈川県: [
+        { name: '丹沢 ヤビツ峠', latitude: 35.43, longitude: 139.21, elevation: 760, bortleClass: 4, notes: '南東側は都市の光害が大きい' },
+        { name: '箱根 大観山', latitude: 35.20, longitude: 139.05, elevation: 1000, bortleClass: 4, notes: '芦ノ湖越しに富士山を望む' },
+    ],
+    新潟県: [
+        { name: '奥只見', latitude: 37.15, longitude: 139.25, elevation: 750, bortleClass: 2, notes: 'シルバーラインは冬季通行止め' },
+        { name: '妙高高原', latitude: 36.88, longitude: 138.18, elevation: 700, bortleClass: 3, notes: '温泉宿が多い' },
+        { name: '佐渡 大佐渡', latitude: 38.00, longitude: 138.35, elevation: 50, bortleClass: 2, notes: '島の北側は特に暗い' },
+    ],
+    富山県: [
+        { name: '立山 室堂', latitude: 36.58, longitude: 137.60, elevation: 2450, bortleClass: 1, notes: '山小屋泊が前提。4月〜11月のみ' },
+        { name: '有峰湖', latitude: 36.49, longitude: 137.45, elevation: 1100, bortleClass: 2, notes: '林道は夜間通行止め。開通期間に注意' },
+    ],
+    石川県: [
+        { name: '白山 市ノ瀬', latitude: 36.17, longitude: 136.62, elevation: 830, bortleClass: 2, notes: '白山登山口。夏季はマイカー規制あり' },
+        { name: '能登 珠洲', latitude: 37.45, longitude: 137.25, elevation: 50, bortleClass: 2, notes: '半島先端で海側の空が暗い' },
+    ],
+    福井県: [
+        { name: '南六呂師高原', latitude: 35.98, longitude: 136.58, elevation: 560, bortleClass: 2, notes: '星空保護区の認定を受けた地域' },
+        { name: '若狭 三方五湖', latitude: 35.58, longitude: 135.90, elevation: 100, bortleClass: 3, notes: 'レインボーラインの山頂公園は夜間閉鎖' },
+    ],
+    山梨県: [
+        { name: '清里高原', latitude: 35.925, longitude: 138.43, elevation: 1200, bortleClass: 2, notes: 'ペンションが多い' },
+        { name: '本栖湖', latitude: 35.46, longitude: 138.58, elevation: 900, bortleClass: 2, notes: '富士五湖で最も暗い' },
+        { name: '乙女高原', latitude: 35.80, longitude: 138.63, elevation: 1700, bortleClass: 2, notes: '林道は冬季通行止め' },
+    ],
+    長野県: [
+        { name: '阿智村 ヘブンスそのはら', latitude: 35.47, longitude: 137.67, elevation: 1400, bortleClass: 2, notes: '星空ナイトツアーを実施。麓に昼神温泉' },
+        { name: '野辺山高原', latitude: 35.95, longitude: 138.47, elevation: 1350, bortleClass: 2, notes: '国立天文台の電波観測所がある' },
+        { name: '美ヶ原高原', latitude: 36.22, longitude: 138.11, elevation: 1900, bortleClass: 1, notes: '高原ホテルあり。夜は冷え込む' },
+        { name: '乗鞍高原', latitude: 36.12, longitude: 137.63, elevation: 1500, bortleClass: 1, notes: '一の瀬園地が開けている' },
+    ],
+    岐阜県: [
+        { name: '奥飛騨温泉郷', latitude: 36.26, longitude: 137.56, elevation: 1000, bortleClass: 2, notes: '温泉宿が多い山間部' },
+        { name: '乗鞍 畳平', latitude: 36.11, longitude: 137.55, elevation: 2700, bortleClass: 1, notes: 'マイカー規制あり。シャトルバス利用' },
+        { name: '白川郷', latitude: 36.26, longitude: 136.91, elevation: 500, bortleClass: 3, notes: '合掌造りの民宿に泊まれる' },
+    ],
+    静岡県: [
+        { name: '朝霧高原', latitude: 35.40, longitude: 138.58, elevation: 900, bortleClass: 3, notes: 'キャンプ場が多い' },
+        { name: '井川', latitude: 35.22, longitude: 138.22, elevation: 700, bortleClass: 2, notes: '南アルプスの玄関口' },
+        { name: '天城高原', latitude: 34.85, longitude: 138.95, elevation: 800, bortleClass: 3, notes: '伊豆半島の中央部' },
+    ],
+    愛知県: [
+        { name: '茶臼山高原', latitude: 35.23, longitude: 137.65, elevation: 1200, bortleClass: 2, notes: '県内最高地点の近く' },
+        { name: '設楽町', latitude: 35.09, longitude: 137.57, elevation: 400, bortleClass: 3, notes: '奥三河の山間部' },
+    ],
+    三重県: [
+        { name: '熊野', latitude: 33.89, longitude: 136.10, elevation: 50, bortleClass: 3, notes: '熊野灘側の空が暗い' },
+        { name: '青山高原', latitude: 34.69, longitude: 136.26, elevation: 750, bortleClass: 4, notes: '北西側は都市の光害あり' },
+    ],
+    滋賀県: [
+        { name: '伊吹山', latitude: 35.42, longitude: 136.41, elevation: 1200, bortleClass: 3, notes: 'ドライブウェイは夜間通行止め' },
+        { name: '比良山系', latitude: 35.25, longitude: 135.98, elevation: 1000, bortleClass: 4, notes: '琵琶湖側は光害あり' },
+    ],
+    京都府: [
+        { name: '美山', latitude: 35.28, longitude: 135.56, elevation: 350, bortleClass: 3, notes: 'かやぶきの里に民宿が多い' },
+        { name: '花背', latitude: 35.18, longitude: 135.78, elevation: 600, bortleClass: 3, notes: '京都市北部の山間部' },
+    ],
+    大阪府: [
+        { name: '能勢 妙見山', latitude: 34.93, longitude: 135.46, elevation: 600, bortleClass: 5, notes: '府内では暗い方だが南側は光害が大きい' },
+        { name: '金剛山', latitude: 34.42, longitude: 135.67, elevation: 1100, bortleClass: 5, notes: 'ロープウェイは夜間運休' },
+    ],
+    兵庫県: [
+        { name: '佐用 西はりま天文台', latitude: 35.03, longitude: 134.34, elevation: 436, bortleClass: 3, notes: '大型望遠鏡の観望会あり。宿泊施設併設' },
+        { name: '香美町 兎和野高原', latitude: 35.38, longitude: 134.53, elevation: 800, bortleClass: 3, notes: '但馬の山間部' },
+    ],
+    奈良県: [
+        { name: '大台ヶ原', latitude: 34.18, longitude: 136.11, elevation: 1570, bortleClass: 1, notes: '冬季はドライブウェイ閉鎖' },
+        { name: '曽爾高原', latitude: 34.52, longitude: 136.14, elevation: 700, bortleClass: 3, notes: 'ススキの草原。温泉あり' },
+    ],
+    和歌山県: [
+        { name: '護摩壇山', latitude: 34.05, longitude: 135.56, elevation: 1300, bortleClass: 2, notes: '高野龍神スカイライン沿い' },
+        { name: '高野山', latitude: 34.21, longitude: 135.59, elevation: 820, bortleClass: 3, notes: '宿坊に泊まれる' },
+    ],
+    鳥取県: [
+        { name: '佐治 さじアストロパーク', latitude: 35.31, longitude: 134.20, elevation: 400, bortleClass: 2, notes: '公開天文台とコテージあり' },
+        { name: '大山', latitude: 35.37, longitude: 133.54, elevation: 750, bortleClass: 2, notes: '大山寺周辺に宿が多い' },
+    ],
+    島根県: [
+        { name: '三瓶山', latitude: 35.14, longitude: 132.62, elevation: 600, bortleClass: 2, notes: '天文台のある自然館あり' },
+        { name: '隠岐', latitude: 36.20, longitude: 133.30, elevation: 50, bortleClass: 1, notes: '離島。フェリー利用' },
+    ],
+    岡山県: [
+        { name: '美星町', latitude: 34.67, longitude: 133.56, elevation: 400, bortleClass: 3, notes: '光害防止条例のある町。天文台あり' },
+        { name: '蒜山高原', latitude: 35.30, longitude: 133.67, elevation: 550, bortleClass: 2, notes: '高原リゾートで宿が多い' },
+    ],
+    広島県: [
+        { name: '深入山', latitude: 34.64, longitude: 132.18, elevation: 800, bortleClass: 2, notes: '芸北の草原' },
+        { name: '神石高原', latitude: 34.70, longitude: 133.27, elevation: 500, bortleClass: 3, notes: '星空観察で知られる高原' },
+    ],
+    山口県: [
+        { name: '秋吉台', latitude: 34.24, longitude: 131.31, elevation: 250, bortleClass: 3, notes: 'カルスト台地で視界が開けている' },
+        { name: '角島', latitude: 34.35, longitude: 130.85, elevation: 20, bortleClass: 3, notes: '日本海側の水平線まで見渡せる' },
+    ],
+    徳島県: [
+        { name: '剣山 見ノ越', latitude: 33.86, longitude: 134.10, elevation: 1400, bortleClass: 1, notes: '四国有数の暗さ。冬季は道路凍結' },
+        { name: '奥祖谷', latitude: 33.85, longitude: 134.05, elevation: 900, bortleClass: 2, notes: 'かずら橋周辺に宿あり' },
+    ],
+    香川県: [
+        { name: '塩江', latitude: 34.17, longitude: 134.05, elevation: 300, bortleClass: 4, notes: '県南部の山間部。温泉あり' },
+        { name: '五色台', latitude: 34.36, longitude: 133.94, elevation: 400, bortleClass: 5, notes: '瀬戸内海側は比較的暗い' },
+    ],
+    愛媛県: [
+        { name: '四国カルスト 姫鶴平', latitude: 33.50, longitude: 132.96, elevation: 1300, bortleClass: 1, notes: '冬季は通行止め。高知県との県境' },
+        { name: '久万高原', latitude: 33.66, longitude: 132.90, elevation: 500, bortleClass: 3, notes: '天体観測館あり' },
+    ],
+    高知県: [
+        { name: '天狗高原', latitude: 33.48, longitude: 133.00, elevation: 1400, bortleClass: 1, notes: '四国カルストの高知側。宿泊施設あり' },
+        { name: '室戸岬', latitude: 33.25, longitude: 134.18, elevation: 50, bortleClass: 2, notes: '南の水平線まで暗い' },
+    ],
+    福岡県: [
+        { name: '星野村', latitude: 33.26, longitude: 130.80, elevation: 400, bortleClass: 3, notes: '公開天文台のある星のふるさと' },
+        { name: '英彦山', latitude: 33.48, longitude: 130.93, elevation: 800, bortleClass: 3, notes: '県東部の山間部' },
+    ],
+    佐賀県: [
+        { name: '天山', latitude: 33.34, longitude: 130.16, elevation: 1000, bortleClass: 3, notes: '山頂近くまで車で行ける' },
+        { name: '七山', latitude: 33.42, longitude: 130.06, elevation: 300, bortleClass: 3, notes: '唐津市の山間部' },
+    ],
+    長崎県: [
+        { name: '雲仙', latitude: 32.74, longitude: 130.26, elevation: 700, bortleClass: 3, notes: '温泉街から離れると暗い' },
+        { name: '五島列島', latitude: 32.70, longitude: 128.84, elevation: 50, bortleClass: 1, notes: '離島。フェリーまたは航空機利用' },
+    ],
+    熊本県: [
+        { name: '阿蘇 大観峰', latitude: 33.00, longitude: 131.05, elevation: 930, bortleClass: 2, notes: '外輪山の北側。駐車場が広い' },
+        { name: '南小国 瀬の本高原', latitude: 33.08, longitude: 131.19, elevation: 1000, bortleClass: 2, notes: '黒川温泉が近い' },
+    ],
+    大分県: [
+        { name: 'くじゅう 長者原', latitude: 33.12, longitude: 131.25, elevation: 1030, bortleClass: 2, notes: 'やまなみハイウェイ沿い' },
+        { name: '豊後大野', latitude: 32.95, longitude: 131.55, elevation: 200, bortleClass: 3, notes: '祖母傾の麓' },
+    ],
+    宮崎県: [
+        { name: '高千穂', latitude: 32.71, longitude: 131.31, elevation: 330, bortleClass: 2, notes: '峡谷の町。旅館が多い' },
+        { name: 'えびの高原', latitude: 31.94, longitude: 130.85, elevation: 1200, bortleClass: 2, notes: '霧島連山の高原' },
+    ],
+    鹿児島県: [
+        { name: '霧島温泉郷', latitude: 31.86, longitude: 130.82, elevation: 700, bortleClass: 2, notes: '温泉宿が多い' },
+        { name: '屋久島', latitude: 30.35, longitude: 130.53, elevation: 50, bortleClass: 1, notes: '離島。高速船または航空機利用' },
+    ],
+    沖縄県: [
+        { name: '国頭村 やんばる', latitude: 26.75, longitude: 128.22, elevation: 100, bortleClass: 2, notes: '本島北部の森林地帯' },
+        { name: '石垣島', latitude: 24.45, longitude: 124.19, elevation: 50, bortleClass: 1, notes: '星空保護区。南十字星が見える' },
+        { name: '西表島', latitude: 24.33, longitude: 123.81, elevation: 10, bortleClass: 1, notes: '星空保護区。石垣島から船で渡る' },
+    ],
+};
+
+/**
+ * 都道府県の星空観察地を推奨順に返す
+ * @param prefecture 都道府県名
+ * @returns 観察地の配列。カタログにない都道府県は空配列
+ */
+export function getDarkSkySites(prefecture: string): DarkSkySite[] {
+    const key = prefecture.trim();
+    return (DARK_SKY_SITES[key] ?? []).map((site) => ({ ...site, prefecture: key }));
+}
+
+/**
+ * 都道府県の上位の星空観察地を返す
+ * @param prefecture 都道府県名
+ * @param limit 最大件数
+ */
+export function getTopDarkSkySites(prefecture: string, limit: number): DarkSkySite[] {
+    return getDarkSkySites(prefecture).slice(0, Math.max(0, limit));
+}
+
+/**
+ * カタログに含まれる全観察地を返す
+ */
+export function getAllDarkSkySites(): DarkSkySite[] {
+    return Object.keys(DARK_SKY_SITES).flatMap((prefecture) => getDarkSkySites(prefecture));
+}
@@ -0,0 +1,156 @@
+import { AstroTime, Body, Equator, Horizon, Observer, SearchAltitude, SearchRiseSet } from 'astronomy-engine';
+import { toJstIsoDate } from '@/lib/moon_phase';
+import { ValidationError } from './app_errors';
+
+const ASTRONOMICAL_TWILIGHT_ALTITUDE = -18;
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 86_400_000;
+// 同じ出没イベントを再検出しないよう、次の検索開始を少し進める (約 1 分)
+const EVENT_SEARCH_STEP_DAYS = 1 / 1440;
+// これより短い暗夜区間は観望に使えないので切り捨てる
+const MIN_DARK_INTERVAL_MS = 60_000;
+
+export interface DarkInterval {
+    /** 開始時刻 (ISO 8601) */
+    start: string;
+    /** 終了時刻 (ISO 8601) */
+    end: string;
+}
+
+export interface NightDarkWindow {
+    /** 夜の始まる日 (Asia/Tokyo, YYYY-MM-DD) */
+    date: string;
+    /** 日の入り (ISO 8601) */
+    sunset: string | null;
+    /** 天文薄明の終わり (ISO 8601) */
+    astronomicalDusk: string | null;
+    /** 翌朝の天文薄明の始まり (ISO 8601) */
+    astronomicalDawn: string | null;
+    /** 翌朝の日の出 (ISO 8601) */
+    sunrise: string | null;
+    /** 日の入りから日の出までの月の出 (ISO 8601) */
+    moonrise: string | null;
+    /** 日の入りから日の出までの月の入り (ISO 8601) */
+    moonset: string | null;
+    /** 天文薄明の間で月が地平線下にある区間 */
+    darkIntervals: DarkInterval[];
+    /** darkIntervals の合計時間 (時間, 小数第1位) */
+    darkHours: number;
+}
+
+/**
+ * 指定地点・指定日の夜 (当日の日の入りから翌日の日の出まで) の暗夜区間を求める
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param date 夜の始まる日 (Asia/Tokyo)
+ * @returns 日の入り・薄明・月の出入りと、月のない暗夜区間
+ */
+export function getNightDarkWindow(latitude: number, longitude: number, date: string | Date): NightDarkWindow {
+    validateCoordinate(latitude, 'latitude');
+    validateCoordinate(longitude, 'longitude');
+
+    const isoDate = toJstIsoDate(date);
+    const noon = new Date(`${isoDate}T12:00:00+09:00`);
+    if (Number.isNaN(noon.getTime())) {
+        throw new ValidationError('date must be a valid ISO 8601 string (YYYY-MM-DD)', 'date');
+    }
+
+    const observer = new Observer(latitude, longitude, 0);
+    const sunset = SearchRiseSet(Body.Sun, observer, -1, noon, 1)?.date ?? null;
+    const sunrise = SearchRiseSet(Body.Sun, observer, +1, sunset ?? noon, 1)?.date ?? null;
+    const dusk = SearchAltitude(Body.Sun, observer, -1, noon, 1, ASTRONOMICAL_TWILIGHT_ALTITUDE)?.date ?? null;
+    const dawn = dusk
+        ? SearchAltitude(Body.Sun, observer, +1, dusk, 1, ASTRONOMICAL_TWILIGHT_ALTITUDE)?.date ?? null
+        : null;
+
+    const nightStart = sunset ?? noon;
+    const nightEnd = sunrise ?? new Date(noon.getTime() + MS_PER_DAY);
+    const moonrise = findMoonEventWithin(observer, +1, nightStart, nightEnd);
+    const moonset = findMoonEventWithin(observer, -1, nightStart, nightEnd);
+
+    const darkIntervals = dusk && dawn ? computeMoonFreeIntervals(observer, dusk, dawn) : [];
+    const darkMs = darkIntervals.reduce((total, interval) => total + (Date.parse(interval.end) - Date.parse(interval.start)), 0);
+
+    return {
+        date: isoDate,
+        sunset: toIsoOrNull(sunset),
+        astronomicalDusk: toIsoOrNull(dusk),
+        astronomicalDawn: toIsoOrNull(dawn),
+        sunrise: toIsoOrNull(sunrise),
+        moonrise: toIsoOrNull(moonrise),
+        moonset: toIsoOrNull(moonset),
+        darkIntervals,
+        darkHours: Number((darkMs / MS_PER_HOUR).toFixed(1)),
+    };
+}
+
+/**
+ * 指定地点・指定時刻の月の高度を求める (大気差を含む)
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param time 時刻
+ * @returns 高度 (度)。地平線下なら負
+ */
+export function getMoonAltitude(latitude: number, longitude: number, time: Date): number {
+    validateCoordinate(latitude, 'latitude');
+    validateCoordinate(longitude, 'longitude');
+
+    const observer = new Observer(latitude, longitude, 0);
+    const { ra, dec } = Equator(Body.Moon, time, observer, true, true);
+    return Horizon(time, observer, ra, dec, 'normal').altitude;
+}
+
+function computeMoonFreeIntervals(observer: Observer, dusk: Date, dawn: Date): DarkInterval[] {
+    const intervals: DarkInterval[] = [];
+    let cursor = dusk;
+    let isMoonUp = isMoonAboveHorizon(observer, dusk);
+
+    while (cursor < dawn) {
+        // 月が出ていれば次の月の入り、沈んでいれば次の月の出までが同じ状態の区間
+        const event = findMoonEventWithin(observer, isMoonUp ? -1 : +1, cursor, dawn);
+        const segmentEnd = event ?? dawn;
+
+        if (!isMoonUp && segmentEnd.getTime() - cursor.getTime() >= MIN_DARK_INTERVAL_MS) {
+            intervals.push({ start: cursor.toISOString(), end: segmentEnd.toISOString() });
+        }
+        if (!event) {
+            break;
+        }
+
+        cursor = event;
+        isMoonUp = !isMoonUp;
+    }
+
+    return intervals;
+}
+
+function isMoonAboveHorizon(observer: Observer, time: Date): boolean {
+    // 次に起きるのが月の入りなら、その時点で月は地平線上にある
+    const nextRise = SearchRiseSet(Body.Moon, observer, +1, time, 2);
+    const nextSet = SearchRiseSet(Body.Moon, observer, -1, time, 2);
+    if (!nextSet) {
+        return false;
+    }
+    return !nextRise || nextSet.date < nextRise.date;
+}
+
+function findMoonEventWithin(observer: Observer, direction: 1 | -1, from: Date, to: Date): Date | null {
+    const start = new AstroTime(from).AddDays(EVENT_SEARCH_STEP_DAYS);
+    const limitDays = (to.getTime() - start.date.getTime()) / MS_PER_DAY;
+    if (limitDays <= 0) {
+        return null;
+    }
+
+    const event = SearchRiseSet(Body.Moon, observer, direction, start, limitDays);
+    return event && event.date <= to ? event.date : null;
+}
+
+function toIsoOrNull(date: Date | null): string | null {
+    return date ? date.toISOString() : null;
+}
+
+function validateCoordinate(value: unknown, label: 'latitude' | 'longitude'): asserts value is number {
+    if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
+        throw new ValidationError(`${label} must be a finite number`, label);
+    }
+}
@@ -0,0 +1,107 @@
+import { ClearSkyConfidence } from '@/lib/clear_sky_confidence';
+import { getNightDarkWindow } from './dark_window_service';
+import { OpenMeteoModelSeries } from './open_meteo_variables';
+import { getCloudCoverByModel } from './open_metro_api_client';
+import { calculateClearSkyProbability, NightHourConditions } from './stargazing_score';
+
+const MS_PER_DAY = 86_400_000;
+// モデル間の晴れ確率の差 (ポイント) と予報の先の日数が、この範囲に収まれば確度を高・中とする
+const HIGH_CONFIDENCE = { maxSpread: 25, maxLeadDays: 7 };
+const MEDIUM_CONFIDENCE = { maxSpread: 50, maxLeadDays: 10 };
+
+/** 1 晩の予報モデルの一致度 */
+export interface NightForecastAgreement {
+    date: string;
+    /** 各モデルの晴れ確率の平均 (0〜100) */
+    clearSkyProbability: number;
+    /** モデル間の晴れ確率の最大と最小の差 (ポイント) */
+    spread: number;
+    /** 晴れ確率を求められたモデルの数 */
+    modelCount: number;
+    confidence: ClearSkyConfidence;
+}
+
+/**
+ * 1 晩の各モデルの晴れ確率から、平均と確度を求める
+ * 確度は、モデルどうしの晴れ確率が近いほど、また予報が近い日ほど高くする。1 モデルしかない夜は低とする。
+ * @param probabilities モデルごとの晴れ確率 (0〜100)
+ * @param leadDays 何日先の夜か (今夜なら 0)
+ * @returns モデルが 1 つもなければ null
+ */
+export function evaluateForecastAgreement(
+    probabilities: number[],
+    leadDays: number,
+): Pick<NightForecastAgreement, 'clearSkyProbability' | 'spread' | 'modelCount' | 'confidence'> | null {
+    if (probabilities.length === 0) {
+        return null;
+    }
+
+    const spread = Math.max(...probabilities) - Math.min(...probabilities);
+    const clearSkyProbability = Math.round(probabilities.reduce((sum, value) => sum + value, 0) / probabilities.length);
+
+    let confidence: ClearSkyConfidence = 'low';
+    if (probabilities.length >= 2) {
+        if (spread <= HIGH_CONFIDENCE.maxSpread && leadDays <= HIGH_CONFIDENCE.maxLeadDays) {
+            confidence = 'high';
+        } else if (spread <= MEDIUM_CONFIDENCE.maxSpread && leadDays <= MEDIUM_CONFIDENCE.maxLeadDays) {
+            confidence = 'medium';
+        }
+    }
+
+    return { clearSkyProbability, spread, modelCount: probabilities.length, confidence };
+}
+
+/**
+ * 期間内の各夜について、複数の予報モデルの晴れ確率の一致度を求める
+ * 晴れ確率の求め方は日ごとの予報 (calculateClearSkyProbability) と同じで、モデルごとの全雲量だけを使う。
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param startDate 開始日 (YYYY-MM-DD)
+ * @param endDate 終了日 (YYYY-MM-DD)
+ * @param today 予報の先の日数を数える基準日 (YYYY-MM-DD)。省略時は今日 (UTC)
+ * @returns 日付順。どのモデルの雲量もない夜は含めない
+ */
+export async function getNightForecastAgreement(
+    latitude: number,
+    longitude: number,
+    startDate: string,
+    endDate: string,
+    today: string = new Date().toISOString().slice(0, 10),
+): Promise<NightForecastAgreement[]> {
+    const seriesByModel = await getCloudCoverByModel(latitude, longitude, startDate, endDate);
+
+    const agreements: NightForecastAgreement[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+        const darkWindow = getNightDarkWindow(latitude, longitude, date);
+        const probabilities = seriesByModel
+            .map((series) => calculateClearSkyProbability(toCloudCoverHours(series), darkWindow))
+            .filter((probability): probability is number => probability !== null);
+        const leadDays = Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / MS_PER_DAY);
+        const agreement = evaluateForecastAgreement(probabilities, leadDays);
+        if (agreement) {
+            agreements.push({ date, ...agreement });
+        }
+    }
+    return agreements;
+}
+
+function toCloudCoverHours(series: OpenMeteoModelSeries): NightHourConditions[] {
+    return series.times.map((time, index) => ({
+        time,
+        cloudCover: series.values[index],
+        cloudCoverLow: Number.NaN,
+        cloudCoverMid: Number.NaN,
+        cloudCoverHigh: Number.NaN,
+        relativeHumidity: Number.NaN,
+        temperature: Number.NaN,
+        dewPoint: Number.NaN,
+        visibility: Number.NaN,
+        windSpeed: Number.NaN,
+    }));
+}
+
+function addDays(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,65 @@
+// 晴れ予報を表示する期間 (今日から何日分か)
+// TODO: WINDOWS_DAYSだけで実現する。
+export const WINDOW_DAYS = 15;
+// 過去の晴れの夜の割合 (気候値) を表示する期間の終わり (今日から何日分か)。新月の前後を 3 か月先まで選べるようにする
+export const CLIMATOLOGY_WINDOW_DAYS = 92;
+
+export interface ForecastWindowBounds {
+    /** 期間の開始日 (YYYY-MM-DD)。提供期間外なら null */
+    start: string | null;
+    /** 期間の終了日 (YYYY-MM-DD)。提供期間外なら null */
+    end: string | null;
+    isOutOfSupportedRange: boolean;
+}
+
+/**
+ * 今日から WINDOW_DAYS 日分の予報期間を、Open-Meteo の提供期間 (環境変数) で切り詰めて求める
+ */
+export function computeForecastWindowBounds(): ForecastWindowBounds {
+    const allowedMin = process.env.OPEN_METEO_ALLOWED_START_DATE_MIN ?? process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MIN;
+    const allowedMax = process.env.OPEN_METEO_ALLOWED_START_DATE_MAX ?? process.env.NEXT_PUBLIC_OPEN_METEO_ALLOWED_START_DATE_MAX;
+    const todayIso = toUtcIsoDate(new Date());
+
+    if (allowedMax && todayIso > allowedMax) {
+        return { start: null, end: null, isOutOfSupportedRange: true };
+    }
+
+    const start = allowedMin ? maxIso(todayIso, allowedMin) : todayIso;
+    const tentativeEnd = addDaysUtcIso(start, WINDOW_DAYS - 1);
+    const end = allowedMax ? minIso(tentativeEnd, allowedMax) : tentativeEnd;
+
+    if (end < start) {
+        return { start: null, end: null, isOutOfSupportedRange: true };
+    }
+
+    return { start, end, isOutOfSupportedRange: false };
+}
+
+/**
+ * 予報期間の翌日から、今日から CLIMATOLOGY_WINDOW_DAYS 日分までの、気候値で晴れやすさを示す期間を求める
+ * 提供期間外で予報を出せない場合は今日から始める。
+ */
+export function computeClimatologyWindowBounds(): { start: string; end: string } {
+    const todayIso = toUtcIsoDate(new Date());
+    const { end: forecastEnd } = computeForecastWindowBounds();
+    const start = forecastEnd ? maxIso(addDaysUtcIso(forecastEnd, 1), todayIso) : todayIso;
+    return { start, end: addDaysUtcIso(todayIso, CLIMATOLOGY_WINDOW_DAYS - 1) };
+}
+
+function toUtcIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function addDaysUtcIso(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return toUtcIsoDate(date);
+}
+
+function maxIso(a: string, b: string): string {
+    return a > b ? a : b;
+}
+
+function minIso(a: string, b: string): string {
+    return a < b ? a : b;
+}
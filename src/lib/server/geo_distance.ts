@@ -0,0 +1,37 @@
+const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * 2 地点間の大円距離 (km) を返す
+ * @param a 地点 A
+ * @param b 地点 B
+ * @returns 距離 (km)
+ */
+export function haversineDistanceKm(a: GeoPoint, b: GeoPoint): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// 道路距離は直線距離よりおおむね 3 割長い。平均時速は高速道路と山道を合わせた目安
+const ROAD_DETOUR_FACTOR = 1.3;
+const AVERAGE_DRIVING_SPEED_KMH = 50;
+
+/**
+ * 2 地点間の車での移動距離 (km) と所要時間 (分) の目安を返す
+ * 道路網のデータは持たないので、直線距離に迂回の係数を掛けて見積もる。
+ */
+export function estimateDrive(a: GeoPoint, b: GeoPoint): { distanceKm: number; durationMinutes: number } {
+    const distanceKm = haversineDistanceKm(a, b) * ROAD_DETOUR_FACTOR;
+    return {
+        distanceKm: Math.round(distanceKm),
+        durationMinutes: Math.round((distanceKm / AVERAGE_DRIVING_SPEED_KMH) * 60),
+    };
+}
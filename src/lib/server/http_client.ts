@@ -0,0 +1,261 @@
+import {
+    UpstreamCircuitOpenError,
+    UpstreamError,
+    UpstreamHttpError,
+    UpstreamNetworkError,
+    UpstreamRateLimitedError,
+    UpstreamTimeoutError,
+} from './upstream_errors';
+
+export type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+/** 実際にリクエストを送る処理。既定はグローバルの fetch */
+export type HttpTransport = (input: string, init: RequestInit & { signal: AbortSignal }) => Promise<Response>;
+
+export interface HttpClientOptions {
+    /** 1 回のリクエストの制限時間 (ミリ秒) */
+    timeoutMs?: number;
+    /** 最初の 1 回を含めた試行回数 */
+    maxAttempts?: number;
+    /** 再試行の待ち時間の基準 (ミリ秒)。試行ごとに 2 倍にする */
+    baseDelayMs?: number;
+    /** 再試行の待ち時間の上限 (ミリ秒) */
+    maxDelayMs?: number;
+    /** Retry-After がこれより長い場合は待たずに失敗させる (ミリ秒) */
+    maxRetryAfterMs?: number;
+    transport?: HttpTransport;
+    /** 0 以上 1 未満の乱数 (ジッター用)。テストで差し替える */
+    random?: () => number;
+    sleep?: (ms: number) => Promise<void>;
+    circuitBreaker?: CircuitBreakerRegistry;
+}
+
+export interface CircuitBreakerOptions {
+    /** 続けて何回失敗したら遮断するか */
+    failureThreshold?: number;
+    /** 遮断してから試しに 1 回呼ぶまでの時間 (ミリ秒) */
+    openDurationMs?: number;
+    now?: () => number;
+}
+
+/** ホストごとのサーキットブレーカー */
+export interface CircuitBreakerRegistry {
+    /** 呼び出してよいか確かめる。遮断中なら UpstreamCircuitOpenError を投げる */
+    assertClosed(host: string): void;
+    recordSuccess(host: string): void;
+    recordFailure(host: string): void;
+    /** 成功とも失敗とも記録せずに終わった試しの呼び出し (呼び出し元の中断など) を終わらせ、次の呼び出しで試せるようにする */
+    releaseProbe(host: string): void;
+    reset(): void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 4_000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 10_000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_OPEN_DURATION_MS = 30_000;
+// エラーに残す応答本文の長さ
+const MAX_ERROR_BODY_LENGTH = 500;
+
+interface HostCircuitState {
+    consecutiveFailures: number;
+    openedAt: number | null;
+    /** 遮断後に試しの呼び出しを 1 回だけ通している間は true */
+    probing: boolean;
+}
+
+/**
+ * ホストごとに連続した失敗を数え、閾値に達したら一定時間呼び出しを遮断するサーキットブレーカーを作る
+ * 遮断時間が過ぎたら 1 回だけ試しに通し、成功すれば元に戻し、失敗すればまた遮断する。
+ */
+export function createCircuitBreakerRegistry({
+    failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+    openDurationMs = DEFAULT_OPEN_DURATION_MS,
+    now = Date.now,
+}: CircuitBreakerOptions = {}): CircuitBreakerRegistry {
+    const states = new Map<string, HostCircuitState>();
+    const stateOf = (host: string): HostCircuitState => {
+        let state = states.get(host);
+        if (!state) {
+            state = { consecutiveFailures: 0, openedAt: null, probing: false };
+            states.set(host, state);
+        }
+        return state;
+    };
+
+    return {
+        assertClosed(host) {
+            const state = stateOf(host);
+            if (state.openedAt === null) {
+                return;
+            }
+            const remaining = state.openedAt + openDurationMs - now();
+            if (remaining > 0 || state.probing) {
+                throw new UpstreamCircuitOpenError(host, Math.max(remaining, 0));
+            }
+            state.probing = true;
+        },
+        recordSuccess(host) {
+            states.set(host, { consecutiveFailures: 0, openedAt: null, probing: false });
+        },
+        recordFailure(host) {
+            const state = stateOf(host);
+            state.consecutiveFailures += 1;
+            // 遮断中に通るのは試しの呼び出しだけなので、遮断中の失敗はそのまま遮断し直す
+            if (state.openedAt !== null || state.consecutiveFailures >= failureThreshold) {
+                state.openedAt = now();
+            }
+            state.probing = false;
+        },
+        releaseProbe(host) {
+            stateOf(host).probing = false;
+        },
+        reset() {
+            states.clear();
+        },
+    };
+}
+
+/** 外部 API クライアントが共有するサーキットブレーカー */
+export const sharedCircuitBreaker = createCircuitBreakerRegistry();
+
+/**
+ * 外部 API 用の fetch を作る
+ * - 1 回ごとに制限時間を設け、超えたら中断する
+ * - ネットワークエラー・タイムアウト・429・5xx のときだけ、指数バックオフ (フルジッター) で再試行する
+ * - 429 や 5xx に Retry-After が付いていれば、maxRetryAfterMs 以内ならその時間待ってから再試行する
+ * - ホストごとのサーキットブレーカーで、失敗が続く API への呼び出しを止める
+ * 200 番台の応答だけを返し、それ以外は UpstreamError の派生クラスを投げる。
+ */
+export function createHttpClient({
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    maxRetryAfterMs = DEFAULT_MAX_RETRY_AFTER_MS,
+    transport = (input, init) => fetch(input, init),
+    random = Math.random,
+    sleep = delay,
+    circuitBreaker = sharedCircuitBreaker,
+}: HttpClientOptions = {}): Fetcher {
+    return async (input, init = {}) => {
+        const host = new URL(input).host;
+        let lastError: UpstreamError | null = null;
+
+        for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
+            try {
+                circuitBreaker.assertClosed(host);
+            } catch (error) {
+                // 再試行の途中で遮断された場合は、遮断の原因になった実際のエラーを返す
+                if (lastError) {
+                    break;
+                }
+                throw error;
+            }
+
+            let retryAfterMs: number | null = null;
+            try {
+                const response = await sendWithTimeout(transport, input, init, host, timeoutMs);
+                if (response.ok) {
+                    circuitBreaker.recordSuccess(host);
+                    return response;
+                }
+
+                const body = await readErrorBody(response);
+                if (!isRetryableStatus(response.status)) {
+                    // 4xx は何度送っても同じなので再試行しない。ホスト自体は応答しているので、サーキットブレーカーでは
+                    // 成功として数えて連続失敗を数え直す (試しの呼び出しならこれで遮断を解く)
+                    circuitBreaker.recordSuccess(host);
+                    throw new UpstreamHttpError(host, response.status, body);
+                }
+                retryAfterMs = parseRetryAfter(response.headers.get('retry-after'), Date.now());
+                lastError = response.status === 429
+                    ? new UpstreamRateLimitedError(host, body, retryAfterMs)
+                    : new UpstreamHttpError(host, response.status, body);
+            } catch (error) {
+                if (error instanceof UpstreamHttpError || init.signal?.aborted) {
+                    throw error;
+                }
+                lastError = error instanceof UpstreamError ? error : new UpstreamNetworkError(host, error);
+            } finally {
+                // 呼び出し元の中断で抜けた場合も、試しの呼び出しのまま遮断し続けないようにする
+                circuitBreaker.releaseProbe(host);
+            }
+
+            circuitBreaker.recordFailure(host);
+            if (attempt + 1 >= maxAttempts || (retryAfterMs !== null && retryAfterMs > maxRetryAfterMs)) {
+                break;
+            }
+            const backoffMs = random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            await sleep(Math.max(backoffMs, retryAfterMs ?? 0));
+        }
+
+        throw lastError ?? new UpstreamError(`Request to ${host} failed`, host);
+    };
+}
+
+async function sendWithTimeout(
+    transport: HttpTransport,
+    input: string,
+    init: RequestInit,
+    host: string,
+    timeoutMs: number,
+): Promise<Response> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error('Request timeout'));
+    }, timeoutMs);
+    // 呼び出し元の中断も伝える
+    const abortFromCaller = () => controller.abort(init.signal?.reason);
+    init.signal?.addEventListener('abort', abortFromCaller);
+
+    try {
+        return await transport(input, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (timedOut) {
+            throw new UpstreamTimeoutError(host, timeoutMs);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeout);
+        init.signal?.removeEventListener('abort', abortFromCaller);
+    }
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After ヘッダー (秒数または HTTP 日付) を待ち時間 (ミリ秒) にする
+ * @param value ヘッダーの値
+ * @param now 現在時刻 (エポックミリ秒)
+ * @returns 待ち時間。ヘッダーがないか解釈できない場合は null
+ */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+    if (!value) {
+        return null;
+    }
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number.parseInt(trimmed, 10) * 1000;
+    }
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+async function readErrorBody(response: Response): Promise<string> {
+    try {
+        return (await response.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+    } catch {
+        return '';
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,277 @@
+import { XMLParser } from 'fast-xml-parser';
+import { DEFAULT_GUESTS, DEFAULT_ROOMS, MAX_ROOMS } from '@/lib/hotel_search_options';
+import { formatNextNewMoonDate } from '@/lib/moon_phase';
+import { isValidStayNights, MAX_STAY_NIGHTS } from '@/lib/stay_dates';
+import { HotelAccommodation, normaliseNumber } from './accommodation_provider';
+import { ConfigurationError, ValidationError } from './app_errors';
+import { createHttpClient, Fetcher } from './http_client';
+import { lookupLightPollution } from './light_pollution_lookup';
+import { buildCacheKey, getResponseCache } from './response_cache';
+import { UpstreamResponseError } from './upstream_errors';
+
+// じゃらん Web サービスの空室検索 API
+const BASE_URL = 'https://jws.jalan.net/APIAdvance/StockSearch/V1/';
+const HOST = 'jws.jalan.net';
+/** じゃらん Web サービスが受け付ける検索半径 (km) の範囲 */
+export const MIN_JALAN_SEARCH_RADIUS_KM = 0.1;
+export const MAX_JALAN_SEARCH_RADIUS_KM = 3;
+const MAX_ADULT_NUM = 9;
+/** じゃらん Web サービスが 1 回に返すプラン数の上限 */
+export const MAX_JALAN_COUNT = 100;
+
+export interface JalanHotelSearchOptions {
+    /** 検索半径 (km)。省略時は MAX_JALAN_SEARCH_RADIUS_KM */
+    searchRadiusKm?: number;
+    /** 1 室あたりの大人の人数。省略時は DEFAULT_GUESTS */
+    adultNum?: number;
+    /** 部屋数。省略時は 1 */
+    roomCount?: number;
+    /** グループ全員の大人の人数 (roomCount〜adultNum × roomCount)。料金の計算に使う。省略時は adultNum × roomCount */
+    guests?: number;
+    /** 取得するプラン数 (1〜MAX_JALAN_COUNT)。省略時は MAX_JALAN_COUNT */
+    count?: number;
+}
+
+interface JalanHotel {
+    HotelID?: number | string;
+    HotelName?: string;
+    HotelAddress?: string;
+    Area?: {
+        Prefecture?: string;
+        SmallArea?: string;
+    };
+    HotelDetailURL?: string;
+    PictureURL?: string;
+    /** 日本測地系の経度 (ミリ秒) */
+    X?: number | string;
+    /** 日本測地系の緯度 (ミリ秒) */
+    Y?: number | string;
+    Rating?: number | string;
+}
+
+interface JalanPlan {
+    PlanDetailURL?: string;
+    PlanSampleRateFrom?: number | string;
+    SampleRate?: number | string;
+    Hotel?: JalanHotel;
+}
+
+/**
+ * じゃらんでチェックインから連泊で空室のある施設を検索する
+ * 空室のあるプランを施設ごとにまとめ、最安のプランの料金を施設の料金とする。
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param checkinDate チェックイン日 (YYYY-MM-DD)
+ * @param nights 泊数 (1〜MAX_STAY_NIGHTS)
+ * @param options 検索半径などの検索条件
+ */
+export async function searchJalanHotelsForStay(
+    latitude: number,
+    longitude: number,
+    checkinDate: string,
+    nights: number,
+    {
+        searchRadiusKm = MAX_JALAN_SEARCH_RADIUS_KM,
+        adultNum = DEFAULT_GUESTS,
+        roomCount = DEFAULT_ROOMS,
+        guests = adultNum * roomCount,
+        count = MAX_JALAN_COUNT,
+    }: JalanHotelSearchOptions = {},
+): Promise<HotelAccommodation[]> {
+    validateCoordinate(latitude, 'latitude');
+    validateCoordinate(longitude, 'longitude');
+    if (!Number.isFinite(searchRadiusKm) || searchRadiusKm < MIN_JALAN_SEARCH_RADIUS_KM || searchRadiusKm > MAX_JALAN_SEARCH_RADIUS_KM) {
+        throw new ValidationError(`searchRadiusKm must be between ${MIN_JALAN_SEARCH_RADIUS_KM} and ${MAX_JALAN_SEARCH_RADIUS_KM}`, 'searchRadiusKm');
+    }
+    if (!Number.isInteger(adultNum) || adultNum < 1 || adultNum > MAX_ADULT_NUM) {
+        throw new ValidationError(`adultNum must be an integer between 1 and ${MAX_ADULT_NUM}`, 'adultNum');
+    }
+    if (!Number.isInteger(roomCount) || roomCount < 1 || roomCount > MAX_ROOMS) {
+        throw new ValidationError(`roomCount must be an integer between 1 and ${MAX_ROOMS}`, 'roomCount');
+    }
+    if (!Number.isInteger(guests) || guests < roomCount || guests > adultNum * roomCount) {
+        throw new ValidationError(`guests must be an integer between ${roomCount} and ${adultNum * roomCount}`, 'guests');
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_JALAN_COUNT) {
+        throw new ValidationError(`count must be an integer between 1 and ${MAX_JALAN_COUNT}`, 'count');
+    }
+    if (!isValidStayNights(nights)) {
+        throw new ValidationError(`nights must be an integer between 1 and ${MAX_STAY_NIGHTS}`, 'nights');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(checkinDate)) {
+        throw new ValidationError('checkinDate must be an ISO 8601 date string (YYYY-MM-DD)', 'checkinDate');
+    }
+
+    const params = buildRequestParams(latitude, longitude, checkinDate, nights, { searchRadiusKm, adultNum, roomCount, count });
+    const xml = await fetchJalanStock(params, createHttpClient());
+    return parseHotelsFromXml(xml, checkinDate, nights, guests, roomCount);
+}
+
+function validateCoordinate(value: unknown, label: 'latitude' | 'longitude'): asserts value is number {
+    if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
+        throw new ValidationError(`${label} must be a finite number`, label);
+    }
+}
+
+function buildRequestParams(
+    latitude: number,
+    longitude: number,
+    checkinDate: string,
+    nights: number,
+    { searchRadiusKm, adultNum, roomCount, count }: Omit<Required<JalanHotelSearchOptions>, 'guests'>,
+): URLSearchParams {
+    const apiKey = process.env.JALAN_API_KEY;
+    if (!apiKey) {
+        throw new ConfigurationError('JALAN_API_KEY');
+    }
+
+    // じゃらん Web サービスは日本測地系の緯度経度をミリ秒単位で受け付ける
+    const tokyo = toTokyoDatum(latitude, longitude);
+    const params = new URLSearchParams();
+    params.set('key', apiKey);
+    params.set('x', Math.round(tokyo.longitude * 3_600_000).toString());
+    params.set('y', Math.round(tokyo.latitude * 3_600_000).toString());
+    params.set('range', searchRadiusKm.toString());
+    params.set('stay_date', checkinDate.replaceAll('-', ''));
+    params.set('stay_count', nights.toString());
+    params.set('room_count', roomCount.toString());
+    params.set('adult_num', adultNum.toString());
+    params.set('count', count.toString());
+    return params;
+}
+
+
+async function fetchJalanStock(params: URLSearchParams, fetcher: Fetcher): Promise<string> {
+    // API キーはキーに含めない
+    const conditions = Object.fromEntries(Array.from(params.entries()).filter(([name]) => name !== 'key'));
+    return getResponseCache().getOrLoad('availability', buildCacheKey({ api: 'jalan', ...conditions }), async () => {
+        const url = `${BASE_URL}?${params.toString()}`;
+        const response = await fetcher(url, { method: 'GET' });
+        return response.text();
+    });
+}
+
+function parseHotelsFromXml(xml: string, checkinDate: string, nights: number, guests: number, roomCount: number): HotelAccommodation[] {
+    if (!xml) {
+        throw new UpstreamResponseError('Empty response body', HOST);
+    }
+
+    const parser = new XMLParser({ ignoreAttributes: false });
+    const parsed = parser.parse(xml);
+    const results = parsed?.Results;
+    if (!results || typeof results !== 'object') {
+        throw new UpstreamResponseError('Jalan Web Service response is not valid XML', HOST);
+    }
+    const errorMessage = results.Error?.Message;
+    if (typeof errorMessage === 'string' && errorMessage.length > 0) {
+        throw new UpstreamResponseError(errorMessage, HOST);
+    }
+
+    const plans: JalanPlan[] = Array.isArray(results.Plan) ? results.Plan : results.Plan ? [results.Plan] : [];
+    const hotels = new Map<string, HotelAccommodation>();
+    for (const plan of plans) {
+        const accommodation = extractAccommodationFromPlan(plan, checkinDate, nights, guests, roomCount);
+        if (!accommodation) {
+            continue;
+        }
+        const existing = hotels.get(accommodation.id);
+        if (!existing || (accommodation.price > 0 && (existing.price <= 0 || accommodation.price < existing.price))) {
+            // 最安のプランの料金と予約ページを採る
+            hotels.set(accommodation.id, accommodation);
+        }
+    }
+
+    return Array.from(hotels.values());
+}
+
+function extractAccommodationFromPlan(
+    plan: JalanPlan,
+    checkinDate: string,
+    nights: number,
+    guests: number,
+    roomCount: number,
+): HotelAccommodation | null {
+    const hotel = plan.Hotel;
+    if (!hotel || hotel.HotelID === undefined || !hotel.HotelName) {
+        return null;
+    }
+
+    const coordinates = parseTokyoDatumCoordinates(hotel.X, hotel.Y);
+    const lightPollution = coordinates ? lookupLightPollution(coordinates.latitude, coordinates.longitude) : null;
+    const prefecture = hotel.Area?.Prefecture?.trim() || extractPrefecture(hotel.HotelAddress ?? '') || '不明';
+    const location = [hotel.Area?.SmallArea, hotel.HotelAddress]
+        .map(value => (typeof value === 'string' ? value.trim() : ''))
+        .find(value => value.length > 0) ?? prefecture;
+    // サンプル料金は大人 1 名の 1 泊あたりなので、ほかの予約サイトと揃えてグループ全員の 1 泊あたりにする
+    const sampleRate = normaliseNumber(plan.PlanSampleRateFrom ?? plan.SampleRate ?? 0, 0);
+
+    return {
+        id: `jalan-${hotel.HotelID}`,
+        name: String(hotel.HotelName),
+        location,
+        prefecture,
+        newMoonDate: formatNextNewMoonDate(checkinDate),
+        price: sampleRate * guests,
+        rating: normaliseNumber(hotel.Rating ?? 0, 1),
+        // 空室検索の結果には指定した部屋数の空きがあるプランだけが含まれ、室数は返らない
+        availableRooms: roomCount,
+        imageUrl: hotel.PictureURL || 'https://images.unsplash.com/photo-1522708323590-d24dbb6b0267?auto=format&fit=crop&w=1080&q=80',
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        lightPollution: lightPollution?.level ?? null,
+        bortleClass: lightPollution?.bortleClass ?? null,
+        bookingUrl: buildJalanBookingUrl(plan.PlanDetailURL || hotel.HotelDetailURL, checkinDate, nights),
+        // 料金はプランの目安料金しか返らないため、プランの一覧は載せない
+        plans: [],
+    };
+}
+
+function parseTokyoDatumCoordinates(x: unknown, y: unknown): { latitude: number; longitude: number } | null {
+    const xMs = typeof x === 'string' ? Number.parseFloat(x) : x;
+    const yMs = typeof y === 'string' ? Number.parseFloat(y) : y;
+    if (typeof xMs !== 'number' || typeof yMs !== 'number' || !Number.isFinite(xMs) || !Number.isFinite(yMs) || xMs === 0 || yMs === 0) {
+        return null;
+    }
+
+    const wgs = toWorldDatum(yMs / 3_600_000, xMs / 3_600_000);
+    return { latitude: Number(wgs.latitude.toFixed(6)), longitude: Number(wgs.longitude.toFixed(6)) };
+}
+
+// 日本測地系と世界測地系の簡易変換 (国内で誤差数 m 程度の近似式)
+function toTokyoDatum(latitude: number, longitude: number): { latitude: number; longitude: number } {
+    return {
+        latitude: latitude + latitude * 0.00010696 - longitude * 0.000017467 - 0.0046020,
+        longitude: longitude + latitude * 0.000046047 + longitude * 0.000083049 - 0.010041,
+    };
+}
+
+function toWorldDatum(latitude: number, longitude: number): { latitude: number; longitude: number } {
+    return {
+        latitude: latitude - latitude * 0.00010695 + longitude * 0.000017464 + 0.0046017,
+        longitude: longitude - latitude * 0.000046038 - longitude * 0.000083043 + 0.010040,
+    };
+}
+
+function extractPrefecture(address: string): string | null {
+    const match = address.trim().match(/^(.+?[都道府県])/u);
+    return match ? match[1] : null;
+}
+
+function buildJalanBookingUrl(detailUrl: string | undefined, checkinDate: string, nights: number): string {
+    if (!detailUrl) {
+        return 'https://www.jalan.net/';
+    }
+
+    try {
+        // 予約ページを宿泊日が選ばれた状態で開く
+        const url = new URL(detailUrl);
+        const [year, month, day] = checkinDate.split('-');
+        url.searchParams.set('stayYear', year);
+        url.searchParams.set('stayMonth', month);
+        url.searchParams.set('stayDay', day);
+        url.searchParams.set('stayCount', nights.toString());
+        return url.toString();
+    } catch {
+        return detailUrl;
+    }
+}
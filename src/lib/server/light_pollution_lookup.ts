@@ -0,0 +1,130 @@
+import { LightPollutionLevel, toLightPollutionLevel } from '@/lib/light_pollution';
+
+// 日本周辺の夜空の明るさを 0.25 度四方のセルごとにボートル・スケール (1〜9) で表した、同梱の粗い格子。
+// 主な市の人口と位置から Walker の法則 (人工光による夜空の明るさは人口に比例し、距離の 2.5 乗で減衰する)
+// に大気による減光を加えて推定し、野辺山・美星・石垣島などの既知の観察地の等級に合うよう区切りを調整した。
+// 衛星観測に基づく値ではないため、セル内の明るさの差や街道沿いの照明は反映されない。
+
+export interface LightPollutionEstimate {
+    /** ボートル・スケールの等級 (1〜9) */
+    bortleClass: number;
+    level: LightPollutionLevel;
+}
+
+// 格子の北西の角 (セルの外縁)
+const GRID_NORTH_LATITUDE = 45.75;
+const GRID_WEST_LONGITUDE = 122.75;
+const GRID_CELL_DEGREES = 0.25;
+
+// 北の行から順に並び、各文字が西から東へ向かうセルの等級を表す。'.' は陸地から遠い海上などの推定対象外のセル
+const BORTLE_GRID: string[] = [
+    '.........................................................................122211..............',
+    '.........................................................................125321..............',
+    '.........................................................................12221...............',
+    '..............................................................................11.............',
+    '............................................................................12221............',
+    '............................................................................224322..2221.....',
+    '............................................................................2333222223321....',
+    '............................................................................3454322353321....',
+    '.......................................................................2233333532223332211221',
+    '......................................................................23344433322222222222352',
+    '.....................................................................223568653223332234322222',
+    '.....................................................................22345564322354323532.111',
+    '......................................................................22334743.2232222222....',
+    '......................................................................23443332...............',
+    '......................................................................233322.................',
+    '.....................................................................235432..................',
+    '.....................................................................234432..................',
+    '......................................................................2222...................',
+    '......................................................................2332...................',
+    '....................................................................223553322................',
+    '....................................................................2355434432...............',
+    '....................................................................2334334432...............',
+    '....................................................................2333333222...............',
+    '...................................................................234333433222..............',
+    '...................................................................2453336435321.............',
+    '..................................................................2233353332222..............',
+    '..................................................................233333373222...............',
+    '..................................................................2463333632.................',
+    '..................................................................23433354332................',
+    '............................................................12223333335565532................',
+    '............................................................2343444334545432.................',
+    '........................................................111223336753365433...................',
+    '.......................................................1122222334433445432...................',
+    '.......................................................22222234663334474332..................',
+    '......................................................234332355333333434642..................',
+    '.....................................................2334543343333334533432..................',
+    '.........................................111........2347565347534444744743...................',
+    '........................................11111.......3354333345545775546532...................',
+    '........................................22222......23553344355444576675432...................',
+    '.......................................222222222222334433333543445798654332..................',
+    '......................................2344333443434345444433434646998854432..................',
+    '....................................22355563344345544558874343445589865432...................',
+    '...................................2233333334434445665558854345785555443.....................',
+    '................................2222363353344447567975575665556445444333.....................',
+    '.........................111..22223333444455854568897455445664333333332......................',
+    '........................22222.233363348655555644456554444333333.22...........................',
+    '........................23322.3454555555554444464544333332...................................',
+    '........................12223445854333356443333533433322.....................................',
+    '..........................234586554333344355322333433322.....................................',
+    '.........................23455554345433333343222.222222......................................',
+    '.......................1223554544345433433222221.............................................',
+    '......................123234554553335322322.1111.............................................',
+    '......................224234544553363222221..................................................',
+    '......................1222.33444333332.......................................................',
+    '............................233333432........................................................',
+    '............................235444743........................................................',
+    '............................235645332........................................................',
+    '.............................344732..........................................................',
+    '..............................33322..........................................................',
+    '..............................222............................................................',
+    '.............................11111...........................................................',
+    '.............................11111...........................................................',
+    '.............................1111............................................................',
+    '..............................11.............................................................',
+    '.............................................................................................',
+    '.............................................................................................',
+    '.............................................................................................',
+    '..........................11.................................................................',
+    '.........................1221................................................................',
+    '.........................2432................................................................',
+    '.........................1221................................................................',
+    '..........................11.................................................................',
+    '.............................................................................................',
+    '.............................................................................................',
+    '....................2111.....................................................................',
+    '...................22221.....................................................................',
+    '..................234322.....................................................................',
+    '.................2357322.....................................................................',
+    '.................235432......................................................................',
+    '..................2332.......................................................................',
+    '.............................................................................................',
+    '.............................................................................................',
+    '........1221.................................................................................',
+    '....111.2342.................................................................................',
+    '..1122212232.................................................................................',
+    '..112532.121.................................................................................',
+    '..112221.....................................................................................',
+];
+
+/**
+ * 同梱の格子から地点の光害の程度を推定する
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @returns 推定した等級とレベル。格子の範囲外や推定対象外のセルでは null
+ */
+export function lookupLightPollution(latitude: number, longitude: number): LightPollutionEstimate | null {
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        return null;
+    }
+
+    const row = Math.floor((GRID_NORTH_LATITUDE - latitude) / GRID_CELL_DEGREES);
+    const column = Math.floor((longitude - GRID_WEST_LONGITUDE) / GRID_CELL_DEGREES);
+    const cell = BORTLE_GRID[row]?.[column];
+    if (cell === undefined || cell === '.') {
+        return null;
+    }
+
+    const bortleClass = Number.parseInt(cell, 10);
+    return { bortleClass, level: toLightPollutionLevel(bortleClass) };
+}
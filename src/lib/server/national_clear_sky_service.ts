@@ -0,0 +1,42 @@
+import { getDailyWeatherSummariesForLocations } from './open_metro_api_client';
+import { listSupportedPrefectures } from './prefecture_geocode';
+import { resolveSearchLocation } from './search_location';
+
+export interface PrefectureNightCondition {
+    prefecture: string;
+    isClearSky: boolean;
+    clearSkyProbability: number | null;
+    stargazingScore: number | null;
+    darkHours: number;
+    moonIlluminatedFraction: number;
+}
+
+/**
+ * 全都道府県の、指定した夜の星空の条件を求める
+ * 各都道府県の代表点 (最もおすすめの星空観察地) の予報を、Open-Meteo の複数地点指定でまとめて取得する。
+ * @param date 夜の日付 (YYYY-MM-DD)
+ * @returns 都道府県の一覧と同じ順序 (北から順)。予報が取れなかった都道府県は含めない
+ */
+export async function getNationalNightConditions(date: string): Promise<PrefectureNightCondition[]> {
+    const locations = listSupportedPrefectures().map((prefecture) => {
+        const { latitude, longitude } = resolveSearchLocation({ prefecture });
+        return { prefecture, latitude, longitude };
+    });
+
+    const forecasts = await getDailyWeatherSummariesForLocations(locations, date, date);
+
+    return locations.flatMap((location, index) => {
+        const summary = forecasts[index]?.find((item) => item.date === date);
+        if (!summary) {
+            return [];
+        }
+        return [{
+            prefecture: location.prefecture,
+            isClearSky: summary.isClearSky,
+            clearSkyProbability: summary.clearSkyProbability,
+            stargazingScore: summary.stargazingScore,
+            darkHours: summary.darkWindow.darkHours,
+            moonIlluminatedFraction: summary.moonIlluminatedFraction,
+        }];
+    });
+}
@@ -0,0 +1,115 @@
+import { findNextNewMoon, toJstIsoDate } from '@/lib/moon_phase';
+import { listClearNightOdds } from './clear_night_climatology';
+import { getNightDarkWindow } from './dark_window_service';
+import { ResolvedSearchLocation } from './search_location';
+import { findMeteorShowerPeaks, getMilkyWayCoreHours, MeteorShowerPeak } from './sky_events';
+
+/** 新月の前後何晩を候補にするか */
+export const NEW_MOON_WINDOW_NIGHTS = 3;
+/** 何か月先までの新月を並べるか */
+export const NEW_MOON_PLANNER_MONTHS = 12;
+
+export interface NewMoonNight {
+    date: string;
+    /** 新月の日から何日ずれているか (前なら負) */
+    daysFromNewMoon: number;
+    /** 月明かりのない暗夜の時間 (時間) */
+    darkHours: number;
+    /** 暗夜のうち天の川の中心部が見える時間 (時間) */
+    milkyWayCoreHours: number;
+    /** 過去の同じ時期に晴れた夜の割合 (%)。気候値がなければ null */
+    clearNightRate: number | null;
+}
+
+export interface NewMoonWindow {
+    /** 新月の瞬間 (ISO 8601) */
+    newMoon: string;
+    /** 新月の日 (Asia/Tokyo, YYYY-MM-DD) */
+    date: string;
+    startDate: string;
+    endDate: string;
+    /** 暗夜の長さと晴れやすさから選んだ、最も星を見やすい夜 */
+    bestDate: string;
+    nights: NewMoonNight[];
+    /** 期間内に極大を迎える流星群 */
+    meteorShowers: MeteorShowerPeak[];
+}
+
+/**
+ * 今後 NEW_MOON_PLANNER_MONTHS か月の新月ごとに、前後 NEW_MOON_WINDOW_NIGHTS 晩の星空の条件をまとめる
+ * 晴れやすさは予報ではなく気候値 (都道府県で指定した場合のみ) を使う。
+ * @param location 検索地点
+ * @param from 起点の時刻。省略時は現在
+ * @returns 新月の早い順
+ */
+export function planNewMoonWindows(location: ResolvedSearchLocation, from: Date = new Date()): NewMoonWindow[] {
+    const until = new Date(from);
+    until.setUTCMonth(until.getUTCMonth() + NEW_MOON_PLANNER_MONTHS);
+
+    const windows: NewMoonWindow[] = [];
+    // 今夜が新月の数日後でも候補に入るよう、少し前から探す
+    let newMoon = findNextNewMoon(new Date(from.getTime() - NEW_MOON_WINDOW_NIGHTS * 86_400_000));
+    while (newMoon < until) {
+        windows.push(buildNewMoonWindow(location, newMoon, toJstIsoDate(from)));
+        newMoon = findNextNewMoon(new Date(newMoon.getTime() + 86_400_000));
+    }
+    return windows.filter((window) => window.nights.length > 0);
+}
+
+/**
+ * 新月の前後の夜のうち、最も星を見やすい夜を選ぶ
+ * 暗夜の時間に晴れの割合を掛けて比べ、同じなら新月に近い夜を選ぶ。
+ */
+export function selectBestNewMoonNight(nights: NewMoonNight[]): NewMoonNight | null {
+    const score = (night: NewMoonNight) => night.darkHours * (night.clearNightRate ?? 100);
+    return nights.reduce<NewMoonNight | null>((best, night) => {
+        if (!best || score(night) > score(best)
+            || (score(night) === score(best) && Math.abs(night.daysFromNewMoon) < Math.abs(best.daysFromNewMoon))) {
+            return night;
+        }
+        return best;
+    }, null);
+}
+
+function buildNewMoonWindow(location: ResolvedSearchLocation, newMoon: Date, today: string): NewMoonWindow {
+    const date = toJstIsoDate(newMoon);
+    const startDate = addDays(date, -NEW_MOON_WINDOW_NIGHTS);
+    const endDate = addDays(date, NEW_MOON_WINDOW_NIGHTS);
+    const rateByDate = new Map(
+        (location.prefecture ? listClearNightOdds(location.prefecture, startDate, endDate) : [])
+            .map((odds) => [odds.date, odds.clearNightRate]),
+    );
+
+    const nights: NewMoonNight[] = [];
+    for (let offset = -NEW_MOON_WINDOW_NIGHTS; offset <= NEW_MOON_WINDOW_NIGHTS; offset += 1) {
+        const night = addDays(date, offset);
+        // 過ぎた夜は候補にしない
+        if (night < today) {
+            continue;
+        }
+        const darkWindow = getNightDarkWindow(location.latitude, location.longitude, night);
+        nights.push({
+            date: night,
+            daysFromNewMoon: offset,
+            darkHours: darkWindow.darkHours,
+            milkyWayCoreHours: getMilkyWayCoreHours(location.latitude, location.longitude, darkWindow),
+            clearNightRate: rateByDate.get(night) ?? null,
+        });
+    }
+
+    return {
+        newMoon: newMoon.toISOString(),
+        date,
+        startDate: nights[0]?.date ?? startDate,
+        endDate,
+        bestDate: selectBestNewMoonNight(nights)?.date ?? date,
+        nights,
+        meteorShowers: findMeteorShowerPeaks(nights[0]?.date ?? startDate, endDate),
+    };
+}
+
+function addDays(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,71 @@
+import { getMoonAltitude, NightDarkWindow } from './dark_window_service';
+import type { NightHourConditions } from './stargazing_score';
+
+const MS_PER_HOUR = 3_600_000;
+
+/** 夜の時間ごとの空の条件 (値がなければ null) */
+export interface NightTimelineHour {
+    /** 時刻 (ISO 8601) */
+    time: string;
+    /** 全雲量 (%) */
+    cloudCover: number | null;
+    /** 下層雲量 (%) */
+    cloudCoverLow: number | null;
+    /** 中層雲量 (%) */
+    cloudCoverMid: number | null;
+    /** 上層雲量 (%) */
+    cloudCoverHigh: number | null;
+    /** 気温 (℃) */
+    temperature: number | null;
+    /** 風速 (km/h) */
+    windSpeed: number | null;
+    /** 相対湿度 (%) */
+    relativeHumidity: number | null;
+    /** 月の高度 (度, 小数第1位)。地平線下なら負 */
+    moonAltitude: number;
+}
+
+/**
+ * 時間ごとの気象条件から、日の入りから日の出までの分を取り出す
+ * 日の入り・日の出が求まらない夜 (白夜・極夜) は、夜の始まる日の 18 時から翌 6 時 (日本時間) までとする。
+ * @param hours 時間ごとの気象条件
+ * @param darkWindow その夜の日の入り・日の出
+ * @returns 日の入りの時刻を含む 1 時間から、時刻順
+ */
+export function selectNightHours(hours: NightHourConditions[], darkWindow: NightDarkWindow): NightHourConditions[] {
+    const { start, end } = resolveNightRange(darkWindow);
+    const from = Math.floor(start / MS_PER_HOUR) * MS_PER_HOUR;
+    return hours
+        .filter((hour) => hour.time >= from && hour.time < end)
+        .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * 夜の時間ごとの気象条件に月の高度を加え、画面に表示する形にする
+ * @param nightHours selectNightHours で取り出した夜の時間ごとの気象条件
+ * @param latitude 月の高度を求める地点の緯度
+ * @param longitude 月の高度を求める地点の経度
+ */
+export function buildNightTimeline(nightHours: NightHourConditions[], latitude: number, longitude: number): NightTimelineHour[] {
+    return nightHours.map((hour) => ({
+        time: new Date(hour.time).toISOString(),
+        cloudCover: finiteOrNull(hour.cloudCover),
+        cloudCoverLow: finiteOrNull(hour.cloudCoverLow),
+        cloudCoverMid: finiteOrNull(hour.cloudCoverMid),
+        cloudCoverHigh: finiteOrNull(hour.cloudCoverHigh),
+        temperature: finiteOrNull(hour.temperature),
+        windSpeed: finiteOrNull(hour.windSpeed),
+        relativeHumidity: finiteOrNull(hour.relativeHumidity),
+        moonAltitude: Number(getMoonAltitude(latitude, longitude, new Date(hour.time)).toFixed(1)),
+    }));
+}
+
+function resolveNightRange(darkWindow: NightDarkWindow): { start: number; end: number } {
+    const start = darkWindow.sunset ? Date.parse(darkWindow.sunset) : Date.parse(`${darkWindow.date}T18:00:00+09:00`);
+    const end = darkWindow.sunrise ? Date.parse(darkWindow.sunrise) : start + 12 * MS_PER_HOUR;
+    return { start, end };
+}
+
+function finiteOrNull(value: number): number | null {
+    return Number.isFinite(value) ? value : null;
+}
@@ -0,0 +1,184 @@
+import { UpstreamResponseError } from './upstream_errors';
+
+export const OPEN_METEO_HOST = 'api.open-meteo.com';
+
+/** Open-Meteo に要求する変数の定義 */
+export interface OpenMeteoVariableDefinition {
+    /** Open-Meteo のパラメータ名 (応答の JSON のキー) */
+    param: string;
+    /** 応答に含まれていなければ応答の誤りとする。false なら欠けた値は NaN とする */
+    required: boolean;
+}
+
+/**
+ * 要求する日次の変数
+ * 変数を増やすときはここに足せば、リクエストと応答の解釈の両方に反映される。
+ */
+export const DAILY_VARIABLES = {
+    weatherCode: { param: 'weather_code', required: true },
+    temperatureMax: { param: 'temperature_2m_max', required: true },
+    temperatureMin: { param: 'temperature_2m_min', required: true },
+} as const satisfies Record<string, OpenMeteoVariableDefinition>;
+
+/**
+ * 要求する時間別の変数
+ * 時間別の値は星空指数などの補助に使うので、欠けていても日次の予報は返す。
+ */
+export const HOURLY_VARIABLES = {
+    weatherCode: { param: 'weather_code', required: false },
+    isDay: { param: 'is_day', required: false },
+    temperature: { param: 'temperature_2m', required: false },
+    cloudCover: { param: 'cloud_cover', required: false },
+    cloudCoverLow: { param: 'cloud_cover_low', required: false },
+    cloudCoverMid: { param: 'cloud_cover_mid', required: false },
+    cloudCoverHigh: { param: 'cloud_cover_high', required: false },
+    relativeHumidity: { param: 'relative_humidity_2m', required: false },
+    dewPoint: { param: 'dew_point_2m', required: false },
+    visibility: { param: 'visibility', required: false },
+    windSpeed: { param: 'wind_speed_10m', required: false },
+} as const satisfies Record<string, OpenMeteoVariableDefinition>;
+
+export type DailyVariable = keyof typeof DAILY_VARIABLES;
+export type HourlyVariable = keyof typeof HOURLY_VARIABLES;
+
+/** 1 地点の予報 (値がない時刻は NaN) */
+export interface OpenMeteoForecast {
+    /** Open-Meteo が返したタイムゾーン */
+    timezone: string;
+    utcOffsetSeconds: number;
+    daily: {
+        /** 日付 (YYYY-MM-DD, 予報のタイムゾーン) */
+        dates: string[];
+        values: Record<DailyVariable, number[]>;
+    };
+    hourly: {
+        /** 時刻 (UNIX ミリ秒) */
+        times: number[];
+        /** 各時刻の日付 (YYYY-MM-DD, 予報のタイムゾーン) */
+        localDates: string[];
+        values: Record<HourlyVariable, number[]>;
+    };
+}
+
+/**
+ * 変数の定義から、リクエストの daily / hourly パラメータの値を作る
+ */
+export function toVariableQuery(variables: Record<string, OpenMeteoVariableDefinition>): string {
+    return Object.values(variables).map((variable) => variable.param).join(',');
+}
+
+/**
+ * 予報 API の応答の JSON を地点ごとの予報にする
+ * 複数地点を指定した場合は地点ごとの応答が配列で返る。
+ * @throws UpstreamResponseError 必須の変数や時刻が応答に含まれていない場合
+ */
+export function parseForecastResponses(json: unknown): OpenMeteoForecast[] {
+    return (Array.isArray(json) ? json : [json]).map(parseForecast);
+}
+
+/** 1 地点・1 モデルの時間別の値 (値がない時刻は NaN) */
+export interface OpenMeteoModelSeries {
+    /** Open-Meteo のモデル名 */
+    model: string;
+    /** 時刻 (UNIX ミリ秒) */
+    times: number[];
+    values: number[];
+}
+
+/**
+ * 複数モデルを指定した予報 API の応答から、1 つの時間別の変数をモデルごとに取り出す
+ * 複数モデルを指定すると、応答のキーは「パラメータ名_モデル名」になる。
+ * @param json 1 地点の応答
+ * @param variable 取り出す変数
+ * @param models 指定したモデル名
+ * @returns 値が 1 つもないモデルは含めない
+ */
+export function parseMultiModelHourly(json: unknown, variable: HourlyVariable, models: readonly string[]): OpenMeteoModelSeries[] {
+    const record = isRecord(json) ? json : {};
+    const utcOffsetSeconds = typeof record.utc_offset_seconds === 'number' ? record.utc_offset_seconds : 0;
+    const hourly = isRecord(record.hourly) ? record.hourly : {};
+    if (!Array.isArray(hourly.time)) {
+        throw new UpstreamResponseError('Open-Meteo API の時間情報を解釈できませんでした', OPEN_METEO_HOST);
+    }
+    const times = hourly.time.map((time) => parseHourlyTime(String(time), utcOffsetSeconds));
+    const { param } = HOURLY_VARIABLES[variable];
+
+    return models
+        .map((model) => {
+            const raw = hourly[`${param}_${model}`];
+            const values = times.map((_, index) => toNumber(Array.isArray(raw) ? raw[index] : undefined));
+            return { model, times, values };
+        })
+        .filter((series) => series.values.some((value) => Number.isFinite(value)));
+}
+
+function parseForecast(json: unknown): OpenMeteoForecast {
+    const record = isRecord(json) ? json : {};
+    const utcOffsetSeconds = typeof record.utc_offset_seconds === 'number' ? record.utc_offset_seconds : 0;
+    if (!isRecord(record.daily)) {
+        throw new UpstreamResponseError('Open-Meteo API の応答に日次データが含まれていません', OPEN_METEO_HOST);
+    }
+    const daily = record.daily;
+    const hourly = isRecord(record.hourly) ? record.hourly : {};
+
+    const dailyValues = parseVariables(daily, DAILY_VARIABLES);
+    const dailyTimes = Array.isArray(daily.time) ? daily.time.map(String) : [];
+    if (dailyTimes.length === 0 || dailyTimes.some((time) => !/^\d{4}-\d{2}-\d{2}/.test(time))) {
+        throw new UpstreamResponseError('Open-Meteo API の時間情報を解釈できませんでした', OPEN_METEO_HOST);
+    }
+
+    const hourlyTimes = Array.isArray(hourly.time) ? hourly.time.map(String) : [];
+    const hourlyValues = parseVariables(hourly, HOURLY_VARIABLES, hourlyTimes.length);
+
+    return {
+        timezone: typeof record.timezone === 'string' ? record.timezone : 'UTC',
+        utcOffsetSeconds,
+        daily: {
+            dates: dailyTimes.map((time) => time.slice(0, 10)),
+            values: dailyValues,
+        },
+        hourly: {
+            times: hourlyTimes.map((time) => parseHourlyTime(time, utcOffsetSeconds)),
+            localDates: hourlyTimes.map((time) => time.slice(0, 10)),
+            values: hourlyValues,
+        },
+    };
+}
+
+function parseVariables<K extends string>(
+    source: Record<string, unknown>,
+    variables: Record<K, OpenMeteoVariableDefinition>,
+    length?: number,
+): Record<K, number[]> {
+    const entries = (Object.entries(variables) as Array<[K, OpenMeteoVariableDefinition]>).map(([key, variable]) => {
+        const raw = source[variable.param];
+        if (!Array.isArray(raw)) {
+            if (variable.required) {
+                throw new UpstreamResponseError(`Open-Meteo API 応答に ${variable.param} が含まれていません`, OPEN_METEO_HOST);
+            }
+            return [key, Array.from({ length: length ?? 0 }, () => Number.NaN)];
+        }
+        if (variable.required && raw.length === 0) {
+            throw new UpstreamResponseError(`Open-Meteo API の ${variable.param} データが空です`, OPEN_METEO_HOST);
+        }
+        // 時刻の数がわかっている場合は長さをそろえ、足りない分は NaN とする
+        return [key, length === undefined ? raw.map(toNumber) : Array.from({ length }, (_, index) => toNumber(raw[index]))];
+    });
+    return Object.fromEntries(entries) as Record<K, number[]>;
+}
+
+function toNumber(value: unknown): number {
+    return value === null || value === undefined ? Number.NaN : Number(value);
+}
+
+function parseHourlyTime(value: string, utcOffsetSeconds: number): number {
+    // timezone 指定時の Open-Meteo は現地時刻をオフセットなしで返す
+    if (/(Z|[+-]\d{2}:\d{2})$/.test(value)) {
+        return Date.parse(value);
+    }
+    return Date.parse(`${value}Z`) - utcOffsetSeconds * 1000;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
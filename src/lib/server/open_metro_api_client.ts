@@ -1,14 +1,36 @@
-import { fetchWeatherApi } from 'openmeteo';
 import * as dns from 'dns';
 import * as https from 'https';
-
-type WeatherApiResponse = Awaited<ReturnType<typeof fetchWeatherApi>> extends Array<infer T> ? T : never;
+import { getMoonPhaseInfo } from '@/lib/moon_phase';
+import { ValidationError } from './app_errors';
+import { getNightDarkWindow, NightDarkWindow } from './dark_window_service';
+import { createHttpClient } from './http_client';
+import { selectNightHours } from './night_timeline';
+import {
+    DAILY_VARIABLES,
+    HOURLY_VARIABLES,
+    OPEN_METEO_HOST,
+    OpenMeteoForecast,
+    OpenMeteoModelSeries,
+    parseForecastResponses,
+    parseMultiModelHourly,
+    toVariableQuery,
+} from './open_meteo_variables';
+import { buildCacheKey, getResponseCache } from './response_cache';
+import { calculateClearSkyProbability, calculateStargazingScore, NightHourConditions } from './stargazing_score';
+import { UpstreamResponseError } from './upstream_errors';
 
 const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1/forecast';
-const DAILY_VARIABLES = 'weather_code,temperature_2m_max,temperature_2m_min';
-const HOURLY_VARIABLES = 'weather_code,is_day,temperature_2m';
-const MAX_FETCH_RETRIES = 3;
-const RETRY_DELAY_MS = 1_000;
+const OPEN_METEO_ELEVATION_URL = 'https://api.open-meteo.com/v1/elevation';
+// 1 リクエストで指定する地点数の上限 (URL 長と応答サイズを抑えるため)
+const MAX_LOCATIONS_PER_REQUEST = 50;
+const DAILY_QUERY = toVariableQuery(DAILY_VARIABLES);
+const HOURLY_QUERY = toVariableQuery(HOURLY_VARIABLES);
+/**
+ * 予報の一致度を見るために比べるモデル
+ * 気象庁 (JMA)・欧州中期予報センター (ECMWF)・米国海洋大気庁 (GFS)。JMA は 11 日先までしかない。
+ */
+export const COMPARISON_MODELS = ['jma_seamless', 'ecmwf_ifs025', 'gfs_seamless'] as const;
+const REQUEST_TIMEOUT_MS = 10_000;
 
 const OPEN_METEO_ALLOWED_START_DATE_MIN = process.env.OPEN_METEO_ALLOWED_START_DATE_MIN;
 const OPEN_METEO_ALLOWED_START_DATE_MAX = process.env.OPEN_METEO_ALLOWED_START_DATE_MAX;
@@ -26,6 +48,21 @@ export interface DailyWeatherSummary {
     timezone: string;
     /** 晴れ (weather code 0 or 1) かどうか */
     isClearSky: boolean;
+    /** その日の夜の薄明・月の出入りと暗夜区間 */
+    darkWindow: NightDarkWindow;
+    /** 月の輝面比 (0〜1, JST 正午時点) */
+    moonIlluminatedFraction: number;
+    /** 暗夜の時間帯で評価した星空指数 (0〜100)。夜間の時間別データがなければ null */
+    stargazingScore: number | null;
+    /** 夜間に晴れ (雲量が閾値未満) と予報された時間の割合 (%)。夜間の時間別データがなければ null */
+    clearSkyProbability: number | null;
+    /** 日の入りから日の出までの時間ごとの気象条件 (時刻順) */
+    nightHours: NightHourConditions[];
+}
+
+export interface WeatherLocation {
+    latitude: number;
+    longitude: number;
 }
 
 export async function getDailyWeatherSummary(
@@ -37,32 +74,25 @@ export async function getDailyWeatherSummary(
     validateCoordinate(longitude, 'longitude');
 
     const targetDateIso = normaliseDate(date);
-
-    const minAllowed = OPEN_METEO_ALLOWED_START_DATE_MIN;
-    const maxAllowed = OPEN_METEO_ALLOWED_START_DATE_MAX;
-    if (minAllowed && targetDateIso < minAllowed) {
-        throw new RangeError(`start_date must be on or after ${minAllowed}`);
-    }
-    if (maxAllowed && targetDateIso > maxAllowed) {
-        throw new RangeError(`start_date must be on or before ${maxAllowed}`);
-    }
+    assertAllowedDateRange(targetDateIso, targetDateIso);
 
     const responses = await fetchWeatherWithRetry({
         latitude,
         longitude,
-        daily: DAILY_VARIABLES,
-        hourly: HOURLY_VARIABLES,
+        daily: DAILY_QUERY,
+        hourly: HOURLY_QUERY,
         start_date: targetDateIso,
-        end_date: targetDateIso,
+        // 夜は日付をまたぐので、翌朝までの時間別データを取得する
+        end_date: addDaysIso(targetDateIso, 1),
         timezone: 'Asia/Tokyo',
     });
     if (!responses.length) {
-        throw new Error('Open-Meteo API からの応答が空でした');
+        throw new UpstreamResponseError('Open-Meteo API からの応答が空でした', OPEN_METEO_HOST);
     }
 
-    const summaries = extractSummariesFromResponse(responses[0], targetDateIso, targetDateIso);
+    const summaries = extractSummariesFromResponse(responses[0], targetDateIso, targetDateIso, latitude, longitude);
     if (!summaries.length) {
-        throw new Error('Open-Meteo API から対象日のデータを取得できませんでした');
+        throw new UpstreamResponseError('Open-Meteo API から対象日のデータを取得できませんでした', OPEN_METEO_HOST);
     }
 
     return summaries[0];
@@ -79,100 +109,166 @@ export async function getDailyWeatherSummariesRange(
 
     const startIso = normaliseDate(startDate);
     const endIso = normaliseDate(endDate);
+    assertAllowedDateRange(startIso, endIso);
 
-    if (startIso > endIso) {
-        throw new RangeError('startDate must be earlier than or equal to endDate');
+    const responses = await fetchWeatherWithRetry({
+        latitude,
+        longitude,
+        daily: DAILY_QUERY,
+        hourly: HOURLY_QUERY,
+        start_date: startIso,
+        // 夜は日付をまたぐので、最終日の翌朝までの時間別データを取得する
+        end_date: addDaysIso(endIso, 1),
+        timezone: 'Asia/Tokyo',
+    });
+
+    if (!responses.length) {
+        throw new UpstreamResponseError('Open-Meteo API からの応答が空でした', OPEN_METEO_HOST);
     }
 
-    const minAllowed = OPEN_METEO_ALLOWED_START_DATE_MIN;
-    const maxAllowed = OPEN_METEO_ALLOWED_START_DATE_MAX;
-    if (minAllowed && startIso < minAllowed) {
-        throw new RangeError(`date range start must be on or after ${minAllowed}`);
+    return extractSummariesFromResponse(responses[0], startIso, endIso, latitude, longitude);
+}
+
+/**
+ * 複数地点の日次予報を Open-Meteo の複数地点指定でまとめて取得する
+ * @param locations 地点の配列
+ * @param startDate 開始日
+ * @param endDate 終了日
+ * @returns locations と同じ順序の、地点ごとの日次予報
+ */
+export async function getDailyWeatherSummariesForLocations(
+    locations: WeatherLocation[],
+    startDate: string | Date,
+    endDate: string | Date,
+): Promise<DailyWeatherSummary[][]> {
+    for (const location of locations) {
+        validateCoordinate(location.latitude, 'latitude');
+        validateCoordinate(location.longitude, 'longitude');
     }
-    if (maxAllowed && endIso > maxAllowed) {
-        throw new RangeError(`date range end must be on or before ${maxAllowed}`);
+    if (locations.length === 0) {
+        return [];
     }
 
-    const responses = await fetchWeatherWithRetry({
+    const startIso = normaliseDate(startDate);
+    const endIso = normaliseDate(endDate);
+    assertAllowedDateRange(startIso, endIso);
+
+    const chunks = chunkLocations(locations);
+    const results = await Promise.all(
+        chunks.map(async chunk => {
+            const responses = await fetchWeatherWithRetry({
+                latitude: chunk.map(location => location.latitude).join(','),
+                longitude: chunk.map(location => location.longitude).join(','),
+                daily: DAILY_QUERY,
+                hourly: HOURLY_QUERY,
+                start_date: startIso,
+                end_date: addDaysIso(endIso, 1),
+                timezone: 'Asia/Tokyo',
+            });
+            if (responses.length !== chunk.length) {
+                throw new UpstreamResponseError('Open-Meteo API の応答地点数がリクエストと一致しません', OPEN_METEO_HOST);
+            }
+            return responses.map((response, index) =>
+                extractSummariesFromResponse(response, startIso, endIso, chunk[index].latitude, chunk[index].longitude));
+        }),
+    );
+
+    return results.flat();
+}
+
+/**
+ * 1 地点の時間別の雲量を、COMPARISON_MODELS のモデルごとに取得する
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param startDate 開始日
+ * @param endDate 終了日 (夜は日付をまたぐので、翌朝までの分を取得する)
+ * @returns 雲量の予報があるモデルだけ
+ */
+export async function getCloudCoverByModel(
+    latitude: number,
+    longitude: number,
+    startDate: string | Date,
+    endDate: string | Date,
+): Promise<OpenMeteoModelSeries[]> {
+    validateCoordinate(latitude, 'latitude');
+    validateCoordinate(longitude, 'longitude');
+
+    const startIso = normaliseDate(startDate);
+    const endIso = normaliseDate(endDate);
+    assertAllowedDateRange(startIso, endIso);
+
+    const json = await fetchOpenMeteoWithRetry(OPEN_METEO_BASE_URL, {
         latitude,
         longitude,
-        daily: DAILY_VARIABLES,
-        hourly: HOURLY_VARIABLES,
+        hourly: HOURLY_VARIABLES.cloudCover.param,
+        models: COMPARISON_MODELS.join(','),
         start_date: startIso,
-        end_date: endIso,
+        end_date: addDaysIso(endIso, 1),
         timezone: 'Asia/Tokyo',
     });
+    return parseMultiModelHourly(json, 'cloudCover', COMPARISON_MODELS);
+}
 
-    if (!responses.length) {
-        throw new Error('Open-Meteo API からの応答が空でした');
+/**
+ * 複数地点の標高を Open-Meteo の標高 API で取得する
+ * @param locations 地点の配列
+ * @returns locations と同じ順序の標高 (m)
+ */
+export async function getElevations(locations: WeatherLocation[]): Promise<number[]> {
+    for (const location of locations) {
+        validateCoordinate(location.latitude, 'latitude');
+        validateCoordinate(location.longitude, 'longitude');
     }
 
-    return extractSummariesFromResponse(responses[0], startIso, endIso);
+    const results = await Promise.all(
+        chunkLocations(locations).map(async chunk => {
+            const json = await fetchOpenMeteoWithRetry(OPEN_METEO_ELEVATION_URL, {
+                latitude: chunk.map(location => location.latitude).join(','),
+                longitude: chunk.map(location => location.longitude).join(','),
+            });
+            const elevations = typeof json === 'object' && json !== null ? (json as { elevation?: unknown }).elevation : undefined;
+            if (!Array.isArray(elevations) || elevations.length !== chunk.length) {
+                throw new UpstreamResponseError('Open-Meteo API の標高データを解釈できませんでした', OPEN_METEO_HOST);
+            }
+            return elevations.map(value => Math.round(Number(value)));
+        }),
+    );
+
+    return results.flat();
 }
 
-async function fetchWeatherWithRetry(params: Parameters<typeof fetchWeatherApi>[1]): Promise<Awaited<ReturnType<typeof fetchWeatherApi>>> {
-    let attempt = 0;
-    let lastError: unknown;
-
-    console.log('Fetching weather with params:', params);
-    while (attempt < MAX_FETCH_RETRIES) {
-        try {
-            // 注意:
-            // 2025-10-11 時点の観測では、api.open-meteo.com は IPv4 経路でのみ応答し、
-            // IPv6 経路では接続が確立できない（curl -4 は成功、-6 は失敗）ことが確認した。
-            // Node のグローバル fetch が環境によっては IPv6 を優先して使ってタイムアウトすることがあるため、ここでは明示的に IPv4 を優先する。
-            // 接続時には元のホスト名を SNI (servername) と
-            // Host ヘッダに設定して TLS と仮想ホスティングの互換性を保つ。
-            const json = await fetchOpenMeteoByIp(params, RETRY_DELAY_MS * attempt + 10000);
-            console.log('Fetched weather JSON:', JSON.stringify(json));
-            const adapter = buildAdapterFromJson(json);
-            const pretty = revealAdapter(adapter);
-            console.dir(pretty, { depth: null });
-            return [adapter] as unknown as Awaited<ReturnType<typeof fetchWeatherApi>>;
-        }
-        catch (err) {
-            lastError = err;
-            attempt += 1;
-            if (attempt >= MAX_FETCH_RETRIES) {
-                const message = lastError instanceof Error ? lastError.message : 'Unknown error';
-                throw new Error(`Open-Meteo API へのアクセスに失敗しました (${message})`);
-            }
-            await delay(RETRY_DELAY_MS * attempt);
-        }
+function chunkLocations(locations: WeatherLocation[]): WeatherLocation[][] {
+    const chunks: WeatherLocation[][] = [];
+    for (let index = 0; index < locations.length; index += MAX_LOCATIONS_PER_REQUEST) {
+        chunks.push(locations.slice(index, index + MAX_LOCATIONS_PER_REQUEST));
     }
+    return chunks;
+}
 
-    throw new Error('Open-Meteo API へのアクセスに失敗しました');
+async function fetchWeatherWithRetry(params: Record<string, unknown>): Promise<OpenMeteoForecast[]> {
+    const json = await fetchOpenMeteoWithRetry(OPEN_METEO_BASE_URL, params);
+    return parseForecastResponses(json);
 }
-// 関数プロパティを呼んで可読なオブジェクトに変換してログ出力する例
-function revealAdapter(adapter: any) {
-    const daily = typeof adapter.daily === 'function' ? adapter.daily() : adapter.daily;
-    const hourly = typeof adapter.hourly === 'function' ? adapter.hourly() : adapter.hourly;
-    const utcOffsetSeconds = typeof adapter.utcOffsetSeconds === 'function' ? adapter.utcOffsetSeconds() : adapter.utcOffsetSeconds;
-    const timezone = typeof adapter.timezone === 'function' ? adapter.timezone() : adapter.timezone;
-
-    const dailyObj = {
-        startTimestamp: typeof daily.time === 'function' ? daily.time() : daily.time,
-        intervalSeconds: typeof daily.interval === 'function' ? daily.interval() : daily.interval,
-        weather_code: daily.variables?.(0)?.valuesArray?.() ?? null,
-        temperature_2m_max: daily.variables?.(1)?.valuesArray?.() ?? null,
-        temperature_2m_min: daily.variables?.(2)?.valuesArray?.() ?? null,
-    };
-
-    const hourlyObj = hourly
-        ? {
-            startTimestamp: typeof hourly.time === 'function' ? hourly.time() : hourly.time,
-            intervalSeconds: typeof hourly.interval === 'function' ? hourly.interval() : hourly.interval,
-            weather_code: hourly.variables?.(0)?.valuesArray?.() ?? null,
-            temperature_2m: hourly.variables?.(1)?.valuesArray?.() ?? null,
-            is_day: hourly.variables?.(2)?.valuesArray?.() ?? null,
-        }
-        : null;
 
-    return { utcOffsetSeconds, timezone, daily: dailyObj, hourly: hourlyObj };
+async function fetchOpenMeteoWithRetry(baseUrl: string, params: Record<string, unknown>): Promise<unknown> {
+    const source = baseUrl === OPEN_METEO_ELEVATION_URL ? 'elevation' : 'forecast';
+    return getResponseCache().getOrLoad(source, buildCacheKey({ baseUrl, ...params }), () => fetchOpenMeteoUncached(baseUrl, params));
+}
+
+async function fetchOpenMeteoUncached(baseUrl: string, params: Record<string, unknown>): Promise<unknown> {
+    // 注意:
+    // 2025-10-11 時点の観測では、api.open-meteo.com は IPv4 経路でのみ応答し、
+    // IPv6 経路では接続が確立できない（curl -4 は成功、-6 は失敗）ことが確認した。
+    // Node のグローバル fetch が環境によっては IPv6 を優先して使ってタイムアウトすることがあるため、ここでは明示的に IPv4 を優先する。
+    // 接続時には元のホスト名を SNI (servername) と
+    // Host ヘッダに設定して TLS と仮想ホスティングの互換性を保つ。
+    const fetcher = createHttpClient({ timeoutMs: REQUEST_TIMEOUT_MS, transport: fetchOpenMeteoByIp });
+    const response = await fetcher(buildUrlFromParams(baseUrl, params), { method: 'GET' });
+    return response.json();
 }
 // params オブジェクトから Open-Meteo リクエスト用の URL 文字列を構築する
-function buildUrlFromParams(params: Record<string, unknown>): string {
-    const u = new URL(OPEN_METEO_BASE_URL);
+function buildUrlFromParams(baseUrl: string, params: Record<string, unknown>): string {
+    const u = new URL(baseUrl);
     const sp = u.searchParams;
     for (const [k, v] of Object.entries(params)) {
         if (v === undefined || v === null) continue;
@@ -186,203 +282,125 @@ function buildUrlFromParams(params: Record<string, unknown>): string {
     return u.toString();
 }
 
-async function fetchOpenMeteoByIp(params: Parameters<typeof fetchWeatherApi>[1], timeoutMs = 10000): Promise<any> {
+async function fetchOpenMeteoByIp(url: string, init: RequestInit & { signal: AbortSignal }): Promise<Response> {
     // api.open-meteo.com を解決し、IPv4 を優先して選択する（Open‑Meteo は現状 IPv4 のみ応答するため）
-    const host = new URL(OPEN_METEO_BASE_URL).hostname;
+    const u = new URL(url);
+    const host = u.hostname;
     const addrs = await dns.promises.lookup(host, { all: true });
     const v4 = addrs.find(a => a.family === 4) ?? addrs[0];
     if (!v4) throw new Error('DNS lookup failed for Open-Meteo');
     const ip = v4.address;
 
-    const url = buildUrlFromParams(params as Record<string, unknown>);
-    const u = new URL(url);
-
-    return await new Promise<any>((resolve, reject) => {
+    return await new Promise<Response>((resolve, reject) => {
         const opts: https.RequestOptions = {
             host: ip,
             port: 443,
             path: `${u.pathname}${u.search}`,
-            method: 'GET',
+            method: init.method ?? 'GET',
             headers: {
                 Host: host,
                 Accept: 'application/json',
                 'User-Agent': 'node-fetch',
             },
             servername: host, // SNI (サーバー名インジケータ)
-            timeout: timeoutMs,
+            // 制限時間は呼び出し側 (http_client) の signal で管理する
+            signal: init.signal,
         };
 
         const req = https.request(opts, res => {
             const bufs: Buffer[] = [];
             res.on('data', d => bufs.push(Buffer.from(d)));
             res.on('end', () => {
-                try {
-                    const body = Buffer.concat(bufs).toString('utf8');
-                    const json = JSON.parse(body);
-                    resolve(json);
-                }
-                catch (e) {
-                    reject(e);
+                const headers = new Headers();
+                for (const [name, value] of Object.entries(res.headers ?? {})) {
+                    if (typeof value === 'string') headers.set(name, value);
                 }
+                resolve(new Response(Buffer.concat(bufs).toString('utf8'), { status: res.statusCode ?? 200, headers }));
             });
         });
         req.on('error', reject);
-        req.on('timeout', () => req.destroy(new Error('timeout')));
         req.end();
     });
 }
 
-function buildAdapterFromJson(json: any) {
-    // extractSummaryFromResponse で使用されるメソッドを提供する最小限のアダプタ
-    // 関数プロパティにしているのは、処理速度とメモリ使用量の向上のため
-    return {
-        __raw: json,
-        daily: () => {
-            const daily = json.daily || {};
-            return {
-                variables: (index: number) => {
-                    const map: Record<number, any[]> = {
-                        0: daily.weather_code,
-                        1: daily.temperature_2m_max,
-                        2: daily.temperature_2m_min,
-                    };
-                    const arr = map[index];
-                    if (!arr) return null;
-                    return {
-                        valuesArray: () => Array.from(arr as any[]),
-                    };
-                },
-                time: () => {
-                    const t = daily.time;
-                    if (!t || t.length === 0) return NaN;
-                    return Math.floor(new Date(t[0]).getTime() / 1000);
-                },
-                interval: () => {
-                    const t = daily.time;
-                    if (!t || t.length < 2) return 86400;
-                    return Math.floor((new Date(t[1]).getTime() - new Date(t[0]).getTime()) / 1000);
-                },
-            };
-        },
-        hourly: () => {
-            const hourly = json.hourly || {};
-            return {
-                variables: (index: number) => {
-                    const map: Record<number, any[]> = {
-                        0: hourly.weather_code,
-                        1: hourly.temperature_2m,
-                        2: hourly.is_day,
-                    };
-                    const arr = map[index];
-                    if (!arr) return null;
-                    return {
-                        valuesArray: () => Array.from(arr as any[]),
-                    };
-                },
-                time: () => {
-                    const t = hourly.time;
-                    if (!t || t.length === 0) return NaN;
-                    return Math.floor(new Date(t[0]).getTime() / 1000);
-                },
-                interval: () => {
-                    const t = hourly.time;
-                    if (!t || t.length < 2) return 3600;
-                    return Math.floor((new Date(t[1]).getTime() - new Date(t[0]).getTime()) / 1000);
-                },
-                isoTimes: () => Array.isArray(hourly.time) ? Array.from(hourly.time) : [],
-            };
-        },
-        utcOffsetSeconds: () => (json.utc_offset_seconds ?? 0),
-        timezone: () => (json.timezone ?? null),
-    };
-}
-
-function delay(ms: number): Promise<void> {
-    return new Promise(resolve => {
-        setTimeout(resolve, ms);
-    });
-}
-
-function extractSummariesFromResponse(response: WeatherApiResponse, targetStartIso: string, targetEndIso: string): DailyWeatherSummary[] {
-    try {
-        const pretty = revealAdapter(response);
-        console.dir(pretty, { depth: null });
-    } catch (e) {
-        // 変換に失敗した場合はフォールバックで raw オブジェクトを出力する
-        console.log('Open-Meteo API response (raw):', response);
-    }
-    const daily = response.daily();
-    if (!daily) {
-        throw new Error('Open-Meteo API の応答に日次データが含まれていません');
-    }
-
-    const utcOffsetSeconds = response.utcOffsetSeconds();
-    const weatherCodes = extractVariableValues(daily, 0, 'weather code');
-    const temperatureMaxValues = extractVariableValues(daily, 1, 'temperature_2m_max');
-    const temperatureMinValues = extractVariableValues(daily, 2, 'temperature_2m_min');
-    const length = Math.min(weatherCodes.length, temperatureMaxValues.length, temperatureMinValues.length);
+function extractSummariesFromResponse(
+    forecast: OpenMeteoForecast,
+    targetStartIso: string,
+    targetEndIso: string,
+    latitude: number,
+    longitude: number,
+): DailyWeatherSummary[] {
+    const { weatherCode: weatherCodes, temperatureMax: temperatureMaxValues, temperatureMin: temperatureMinValues } = forecast.daily.values;
+    const length = Math.min(forecast.daily.dates.length, weatherCodes.length, temperatureMaxValues.length, temperatureMinValues.length);
     if (!Number.isFinite(length) || length <= 0) {
-        throw new Error('Open-Meteo API の日次データ長が不正です');
+        throw new UpstreamResponseError('Open-Meteo API の日次データ長が不正です', OPEN_METEO_HOST);
     }
 
-    const startTimestamp = Number(daily.time());
-    const interval = daily.interval();
-
-    if (Number.isNaN(startTimestamp) || interval <= 0) {
-        throw new Error('Open-Meteo API の時間情報を解釈できませんでした');
-    }
-
-    const timezone = response.timezone() ?? 'UTC';
-    const rawJson = (response as unknown as { __raw?: any }).__raw;
+    const nightHours = extractNightHourConditions(forecast);
     const summaries: DailyWeatherSummary[] = [];
 
     for (let index = 0; index < length; index += 1) {
-        const timestamp = startTimestamp + index * interval + utcOffsetSeconds;
-        const iso = new Date(timestamp * 1000).toISOString().slice(0, 10);
+        const iso = forecast.daily.dates[index];
         if (iso < targetStartIso || iso > targetEndIso) {
             continue;
         }
 
         const weatherCode = Math.trunc(weatherCodes[index]);
         const baseIsClearSky = weatherCode === 0 || weatherCode === 1;
-        const hourlyClearSky = determineNightClearSky(rawJson, iso);
+        const hourlyClearSky = determineNightClearSky(forecast, iso);
         const isClearSky = typeof hourlyClearSky === 'boolean' ? hourlyClearSky : baseIsClearSky;
+        const darkWindow = getNightDarkWindow(latitude, longitude, iso);
+        const { illuminatedFraction } = getMoonPhaseInfo(iso);
 
         summaries.push({
             date: iso,
             weatherCode,
             temperatureMax: temperatureMaxValues[index],
             temperatureMin: temperatureMinValues[index],
-            timezone,
+            timezone: forecast.timezone,
             isClearSky,
+            darkWindow,
+            moonIlluminatedFraction: illuminatedFraction,
+            stargazingScore: calculateStargazingScore(nightHours, darkWindow, illuminatedFraction),
+            clearSkyProbability: calculateClearSkyProbability(nightHours, darkWindow),
+            nightHours: selectNightHours(nightHours, darkWindow),
         });
     }
 
     if (!summaries.length) {
-        throw new Error('Open-Meteo API から対象期間のデータを取得できませんでした');
+        throw new UpstreamResponseError('Open-Meteo API から対象期間のデータを取得できませんでした', OPEN_METEO_HOST);
     }
 
     summaries.sort((a, b) => a.date.localeCompare(b.date));
     return summaries;
 }
 
-function extractSummaryFromResponse(response: WeatherApiResponse, targetDateIso: string): DailyWeatherSummary {
-    const summaries = extractSummariesFromResponse(response, targetDateIso, targetDateIso);
-    const summary = summaries[0];
-    console.log('Extracted DailyWeatherSummary:', summary);
-    return summary;
-}
-
 function validateCoordinate(value: unknown, label: 'latitude' | 'longitude'): asserts value is number {
     if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
-        throw new TypeError(`${label} must be a finite number`);
+        throw new ValidationError(`${label} must be a finite number`, label);
+    }
+}
+
+/** 開始日が終了日以前で、期間が Open-Meteo で取得できる範囲に収まっているか確かめる */
+function assertAllowedDateRange(startIso: string, endIso: string): void {
+    if (startIso > endIso) {
+        throw new ValidationError('startDate must be earlier than or equal to endDate', 'date');
+    }
+
+    const minAllowed = OPEN_METEO_ALLOWED_START_DATE_MIN;
+    const maxAllowed = OPEN_METEO_ALLOWED_START_DATE_MAX;
+    if (minAllowed && startIso < minAllowed) {
+        throw new ValidationError(`date range start must be on or after ${minAllowed}`, 'date');
+    }
+    if (maxAllowed && endIso > maxAllowed) {
+        throw new ValidationError(`date range end must be on or before ${maxAllowed}`, 'date');
     }
 }
 
 function normaliseDate(date: string | Date): string {
     if (date instanceof Date) {
         if (Number.isNaN(date.getTime())) {
-            throw new TypeError('Invalid Date object was provided');
+            throw new ValidationError('Invalid Date object was provided', 'date');
         }
         return toIsoDate(date);
     }
@@ -390,65 +408,36 @@ function normaliseDate(date: string | Date): string {
     if (typeof date === 'string') {
         const parsed = new Date(date);
         if (Number.isNaN(parsed.getTime())) {
-            throw new TypeError('date must be a valid ISO 8601 string (YYYY-MM-DD)');
+            throw new ValidationError('date must be a valid ISO 8601 string (YYYY-MM-DD)', 'date');
         }
         return toIsoDate(parsed);
     }
 
-    throw new TypeError('date must be a string or Date');
+    throw new ValidationError('date must be a string or Date', 'date');
 }
 
 function toIsoDate(date: Date): string {
     return date.toISOString().slice(0, 10);
 }
 
-function extractVariableValues(
-    variableSource: NonNullable<ReturnType<WeatherApiResponse['daily']>>,
-    index: number,
-    label: string,
-): number[] {
-    const variables = variableSource.variables(index);
-    if (!variables) {
-        throw new Error(`Open-Meteo API 応答に ${label} が含まれていません`);
-    }
-
-    const values = variables.valuesArray();
-    if (!values || values.length === 0) {
-        throw new Error(`Open-Meteo API の ${label} データが空です`);
-    }
-
-    return Array.from(values);
+function addDaysIso(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return toIsoDate(date);
 }
 
-function determineNightClearSky(rawJson: any, targetDateIso: string): boolean | null {
-    if (!rawJson || !rawJson.hourly) {
-        return null;
-    }
-
-    const { time, weather_code: weatherCodes, is_day: isDayFlags } = rawJson.hourly;
-
-    if (!Array.isArray(time) || !Array.isArray(weatherCodes) || !Array.isArray(isDayFlags)) {
-        return null;
-    }
-
-    const length = Math.min(time.length, weatherCodes.length, isDayFlags.length);
+function determineNightClearSky(forecast: OpenMeteoForecast, targetDateIso: string): boolean | null {
+    const { localDates, values } = forecast.hourly;
     let nightSamples = 0;
     let clearSamples = 0;
 
-    for (let i = 0; i < length; i += 1) {
-        const iso = typeof time[i] === 'string' ? time[i] : String(time[i]);
-        const datePart = iso.slice(0, 10);
-        if (datePart !== targetDateIso) {
-            continue;
-        }
-
-        const isNight = Number(isDayFlags[i]) === 0;
-        if (!isNight) {
+    for (let i = 0; i < localDates.length; i += 1) {
+        if (localDates[i] !== targetDateIso || values.isDay[i] !== 0) {
             continue;
         }
 
         nightSamples += 1;
-        const code = Number(weatherCodes[i]);
+        const code = values.weatherCode[i];
         if (code === 0 || code === 1) {
             clearSamples += 1;
         }
@@ -461,3 +450,20 @@ function determineNightClearSky(rawJson: any, targetDateIso: string): boolean |
     return clearSamples / nightSamples >= 0.8;
 }
 
+function extractNightHourConditions(forecast: OpenMeteoForecast): NightHourConditions[] {
+    const { times, values } = forecast.hourly;
+    return times
+        .map((time, index) => ({
+            time,
+            cloudCover: values.cloudCover[index],
+            cloudCoverLow: values.cloudCoverLow[index],
+            cloudCoverMid: values.cloudCoverMid[index],
+            cloudCoverHigh: values.cloudCoverHigh[index],
+            relativeHumidity: values.relativeHumidity[index],
+            temperature: values.temperature[index],
+            dewPoint: values.dewPoint[index],
+            visibility: values.visibility[index],
+            windSpeed: values.windSpeed[index],
+        }))
+        .filter((hour) => Number.isFinite(hour.time));
+}
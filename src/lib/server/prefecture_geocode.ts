@@ -61,3 +61,86 @@ export function getPrefectureCoordinates(prefecture: string): Coordinates | null
 export function listSupportedPrefectures(): string[] {
     return Object.keys(PREFECTURE_COORDINATES);
 }
+
+// 車で行き来できる隣の都道府県。陸の県境に加え、本州と四国・九州・北海道を結ぶ橋やトンネル
+// (明石海峡大橋、瀬戸大橋、しまなみ海道、関門トンネル、青函トンネル、東京湾アクアライン) でつながる組も含める。
+const PREFECTURE_NEIGHBORS: Record<string, string[]> = {
+    北海道: ['青森県'],
+    青森県: ['北海道', '岩手県', '秋田県'],
+    岩手県: ['青森県', '秋田県', '宮城県'],
+    宮城県: ['岩手県', '秋田県', '山形県', '福島県'],
+    秋田県: ['青森県', '岩手県', '宮城県', '山形県'],
+    山形県: ['秋田県', '宮城県', '福島県', '新潟県'],
+    福島県: ['宮城県', '山形県', '新潟県', '群馬県', '栃木県', '茨城県'],
+    茨城県: ['福島県', '栃木県', '埼玉県', '千葉県'],
+    栃木県: ['福島県', '茨城県', '群馬県', '埼玉県'],
+    群馬県: ['福島県', '栃木県', '埼玉県', '長野県', '新潟県'],
+    埼玉県: ['茨城県', '栃木県', '群馬県', '長野県', '山梨県', '東京都', '千葉県'],
+    千葉県: ['茨城県', '埼玉県', '東京都', '神奈川県'],
+    東京都: ['埼玉県', '千葉県', '神奈川県', '山梨県'],
+    神奈川県: ['東京都', '千葉県', '山梨県', '静岡県'],
+    新潟県: ['山形県', '福島県', '群馬県', '長野県', '富山県'],
+    富山県: ['新潟県', '長野県', '岐阜県', '石川県'],
+    石川県: ['富山県', '岐阜県', '福井県'],
+    福井県: ['石川県', '岐阜県', '滋賀県', '京都府'],
+    山梨県: ['埼玉県', '東京都', '神奈川県', '静岡県', '長野県'],
+    長野県: ['新潟県', '群馬県', '埼玉県', '山梨県', '静岡県', '愛知県', '岐阜県', '富山県'],
+    岐阜県: ['富山県', '石川県', '福井県', '長野県', '愛知県', '三重県', '滋賀県'],
+    静岡県: ['神奈川県', '山梨県', '長野県', '愛知県'],
+    愛知県: ['静岡県', '長野県', '岐阜県', '三重県'],
+    三重県: ['愛知県', '岐阜県', '滋賀県', '京都府', '奈良県', '和歌山県'],
+    滋賀県: ['福井県', '岐阜県', '三重県', '京都府'],
+    京都府: ['福井県', '滋賀県', '三重県', '奈良県', '大阪府', '兵庫県'],
+    大阪府: ['京都府', '奈良県', '和歌山県', '兵庫県'],
+    兵庫県: ['京都府', '大阪府', '岡山県', '鳥取県', '徳島県'],
+    奈良県: ['京都府', '大阪府', '三重県', '和歌山県'],
+    和歌山県: ['大阪府', '奈良県', '三重県'],
+    鳥取県: ['兵庫県', '岡山県', '島根県', '広島県'],
+    島根県: ['鳥取県', '広島県', '山口県'],
+    岡山県: ['兵庫県', '鳥取県', '広島県', '香川県'],
+    広島県: ['岡山県', '鳥取県', '島根県', '山口県', '愛媛県'],
+    山口県: ['島根県', '広島県', '福岡県'],
+    徳島県: ['香川県', '愛媛県', '高知県', '兵庫県'],
+    香川県: ['徳島県', '愛媛県', '岡山県'],
+    愛媛県: ['香川県', '徳島県', '高知県', '広島県'],
+    高知県: ['徳島県', '愛媛県'],
+    福岡県: ['山口県', '佐賀県', '熊本県', '大分県'],
+    佐賀県: ['福岡県', '長崎県'],
+    長崎県: ['佐賀県'],
+    熊本県: ['福岡県', '大分県', '宮崎県', '鹿児島県'],
+    大分県: ['福岡県', '熊本県', '宮崎県'],
+    宮崎県: ['大分県', '熊本県', '鹿児島県'],
+    鹿児島県: ['熊本県', '宮崎県'],
+    沖縄県: [],
+};
+
+/**
+ * 車で行き来できる隣の都道府県を返す
+ * @param prefecture 都道府県名
+ * @param maxHops 何県先までたどるか (1 なら隣接する都道府県だけ)
+ * @returns 近い順 (県境をまたぐ回数の少ない順) の都道府県と、またぐ回数。未対応の都道府県なら空配列
+ */
+export function getNeighborPrefectures(prefecture: string, maxHops = 1): { prefecture: string; hops: number }[] {
+    const start = prefecture.trim();
+    if (!PREFECTURE_NEIGHBORS[start]) {
+        return [];
+    }
+
+    const visited = new Set([start]);
+    const result: { prefecture: string; hops: number }[] = [];
+    let frontier = [start];
+    for (let hops = 1; hops <= maxHops && frontier.length > 0; hops += 1) {
+        const next: string[] = [];
+        for (const current of frontier) {
+            for (const neighbor of PREFECTURE_NEIGHBORS[current] ?? []) {
+                if (!visited.has(neighbor)) {
+                    visited.add(neighbor);
+                    next.push(neighbor);
+                    result.push({ prefecture: neighbor, hops });
+                }
+            }
+        }
+        frontier = next;
+    }
+    return result;
+}
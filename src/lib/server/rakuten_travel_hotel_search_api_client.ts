@@ -1,23 +1,34 @@
-const BASE_URL = 'https://app.rakuten.co.jp/services/api/Travel/SimpleHotelSearch/20170426';
-const REQUEST_TIMEOUT_MS = 5_000;
-const MAX_RETRIES = 3;
-const SEARCH_RADIUS_KM = 3;
-const SYNODIC_MONTH_DAYS = 29.530588853;
-
-export interface RakutenHotelAccommodation {
-    id: string;
-    name: string;
-    location: string;
-    prefecture: string;
-    newMoonDate: string;
-    clearSkyProbability: number;
-    price: number;
-    rating: number;
-    availableRooms: number;
-    imageUrl: string;
-    altitude: number;
-    bookingUrl: string;
-}
+import { AccommodationPlan, selectCheapestPlans, toMealPlan } from '@/lib/accommodation_plans';
+import { DEFAULT_GUESTS, DEFAULT_ROOMS, MAX_ROOMS } from '@/lib/hotel_search_options';
+import { formatNextNewMoonDate } from '@/lib/moon_phase';
+import { isValidStayNights, MAX_STAY_NIGHTS } from '@/lib/stay_dates';
+import { HotelAccommodation, normaliseNumber } from './accommodation_provider';
+import { ConfigurationError, ValidationError } from './app_errors';
+import { settleWithConcurrency } from './concurrency';
+import { createHttpClient, Fetcher } from './http_client';
+import { lookupLightPollution } from './light_pollution_lookup';
+import { buildCacheKey, getResponseCache } from './response_cache';
+import { UpstreamHttpError, UpstreamResponseError } from './upstream_errors';
+
+// 空室検索。指定した日程・人数・部屋数で空きのあるプランだけが、施設ごとに返る
+const BASE_URL = 'https://app.rakuten.co.jp/services/api/Travel/VacantHotelSearch/20170426';
+const HOST = 'app.rakuten.co.jp';
+/** 楽天トラベル API が受け付ける検索半径 (km) の範囲 */
+export const MIN_SEARCH_RADIUS_KM = 0.1;
+export const MAX_SEARCH_RADIUS_KM = 3;
+/** 楽天トラベル API が受け付ける 1 室あたりの大人の人数の上限 */
+const MAX_ADULT_NUM = 99;
+/** 楽天トラベル API が 1 回 (1 ページ) に返す施設数の上限 */
+export const MAX_HITS = 30;
+const DEFAULT_HITS = 10;
+/** 1 回の検索でたどるページ数の上限 */
+export const MAX_PAGES = 10;
+const DEFAULT_MAX_PAGES = 3;
+/** ページを同時に取得する数の上限 */
+const MAX_PAGE_CONCURRENCY = 5;
+const DEFAULT_PAGE_CONCURRENCY = 2;
+
+export type RakutenHotelAccommodation = HotelAccommodation;
 
 interface RakutenApiResponseError {
     error?: string;
@@ -29,6 +40,7 @@ interface RakutenHotelWrapper {
         hotelBasicInfo?: RakutenHotelBasicInfo;
         hotelDetailInfo?: RakutenHotelDetailInfo;
         hotelRatingInfo?: RakutenHotelRatingInfo;
+        roomInfo?: RakutenRoomInfo[];
     }>;
     hotelBasicInfo?: RakutenHotelBasicInfo;
     hotelDetailInfo?: RakutenHotelDetailInfo;
@@ -55,6 +67,31 @@ interface RakutenHotelDetailInfo {
     roomCount?: number;
 }
 
+/** 空室のある 1 プラン。roomBasicInfo と dailyCharge が別々の要素で返る */
+type RakutenRoomInfo = {
+    roomBasicInfo?: RakutenRoomBasicInfo;
+    dailyCharge?: RakutenDailyCharge;
+};
+
+interface RakutenRoomBasicInfo {
+    roomName?: string;
+    planName?: string;
+    /** 1: 朝食付き */
+    withBreakfastFlag?: number;
+    /** 1: 夕食付き */
+    withDinnerFlag?: number;
+    reserveUrl?: string;
+}
+
+interface RakutenDailyCharge {
+    stayDate?: string;
+    /** 1 人 (chargeFlag が 0) または 1 室 (chargeFlag が 1) あたりの料金 */
+    rakutenCharge?: number;
+    /** 指定した人数・部屋数・泊数の合計料金 */
+    total?: number;
+    chargeFlag?: number;
+}
+
 interface RakutenHotelRatingInfo {
     locationAverage?: number;
     serviceAverage?: number;
@@ -62,42 +99,151 @@ interface RakutenHotelRatingInfo {
     totalScore?: number;
 }
 
-type Fetcher = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+export interface HotelSearchOptions {
+    /** 検索半径 (km, MIN_SEARCH_RADIUS_KM〜MAX_SEARCH_RADIUS_KM)。省略時は MAX_SEARCH_RADIUS_KM */
+    searchRadiusKm?: number;
+    /** 1 室あたりの大人の人数。省略時は DEFAULT_GUESTS */
+    adultNum?: number;
+    /** 部屋数 (1〜MAX_ROOMS)。省略時は 1 */
+    roomNum?: number;
+    /**
+     * グループ全員の大人の人数 (roomNum〜adultNum × roomNum)。料金の計算に使う。省略時は adultNum × roomNum
+     * 人数が部屋数で割り切れない場合、API には多い方の 1 室あたりの人数 (adultNum) を渡すので、実際の人数はここで指定する。
+     */
+    guests?: number;
+    /** 1 ページあたりの施設数 (1〜MAX_HITS)。省略時は 10 */
+    hits?: number;
+    /** たどるページ数の上限 (1〜MAX_PAGES)。省略時は 3 */
+    maxPages?: number;
+    /** ページを同時に取得する数 (1〜5)。省略時は 2 */
+    pageConcurrency?: number;
+}
+
+interface RakutenPagingInfo {
+    recordCount?: number;
+    pageCount?: number;
+    page?: number;
+}
 
 export async function searchHotelsWithAvailability(
     latitude: number,
     longitude: number,
     stayDates: Array<string | Date>,
+    options: HotelSearchOptions = {},
 ): Promise<RakutenHotelAccommodation[]> {
     validateCoordinate(latitude, 'latitude');
     validateCoordinate(longitude, 'longitude');
+    const conditions = normaliseSearchOptions(options);
     const normalisedStayDates = normaliseStayDates(stayDates);
     if (normalisedStayDates.length === 0) {
-        throw new Error('stayDates must contain at least one date');
+        throw new ValidationError('stayDates must contain at least one date', 'stayDates');
     }
 
-    const fetcher = createFetchClient();
+    const fetcher = createHttpClient();
     const accommodations = await Promise.all(
         normalisedStayDates.map(async stayDate => {
-            const params = buildRequestParams(latitude, longitude, stayDate);
-            const data = await fetchRakutenHotels(params, fetcher);
-            return transformHotelsToAccommodation(data, stayDate);
+            const checkoutDate = calculateCheckoutDate(stayDate);
+            const params = buildRequestParams(latitude, longitude, stayDate, checkoutDate, conditions);
+            return fetchRakutenHotelPages(params, fetcher, conditions, (data) => transformHotelsToAccommodation(data, stayDate, checkoutDate, conditions));
         }),
     );
 
     return mergeAccommodations(accommodations.flat());
 }
 
+/**
+ * チェックイン日から連泊で空室のある施設を検索する
+ * チェックイン〜チェックアウトをまとめて指定し、全泊で空きのある施設だけを返す。
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param checkinDate チェックイン日
+ * @param nights 泊数 (1〜MAX_STAY_NIGHTS)
+ * @param options 検索半径などの検索条件
+ */
+export async function searchHotelsForStay(
+    latitude: number,
+    longitude: number,
+    checkinDate: string | Date,
+    nights: number,
+    options: HotelSearchOptions = {},
+): Promise<RakutenHotelAccommodation[]> {
+    validateCoordinate(latitude, 'latitude');
+    validateCoordinate(longitude, 'longitude');
+    const conditions = normaliseSearchOptions(options);
+    if (!isValidStayNights(nights)) {
+        throw new ValidationError(`nights must be an integer between 1 and ${MAX_STAY_NIGHTS}`, 'nights');
+    }
+
+    const checkin = normaliseDateInput(checkinDate);
+    const checkoutDate = calculateCheckoutDate(checkin, nights);
+    const params = buildRequestParams(latitude, longitude, checkin, checkoutDate, conditions);
+    const accommodations = await fetchRakutenHotelPages(
+        params,
+        createHttpClient(),
+        conditions,
+        (data) => transformHotelsToAccommodation(data, checkin, checkoutDate, conditions),
+    );
+    return mergeAccommodations(accommodations);
+}
+
 function validateCoordinate(value: unknown, label: 'latitude' | 'longitude'): asserts value is number {
     if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
-        throw new TypeError(`${label} must be a finite number`);
+        throw new ValidationError(`${label} must be a finite number`, label);
+    }
+}
+
+function normaliseSearchOptions({
+    searchRadiusKm = MAX_SEARCH_RADIUS_KM,
+    adultNum = DEFAULT_GUESTS,
+    roomNum = DEFAULT_ROOMS,
+    guests,
+    hits = DEFAULT_HITS,
+    maxPages = DEFAULT_MAX_PAGES,
+    pageConcurrency = DEFAULT_PAGE_CONCURRENCY,
+}: HotelSearchOptions): Required<HotelSearchOptions> {
+    validateSearchRadius(searchRadiusKm);
+    validateAdultNum(adultNum);
+    if (!Number.isInteger(roomNum) || roomNum < 1 || roomNum > MAX_ROOMS) {
+        throw new ValidationError(`roomNum must be an integer between 1 and ${MAX_ROOMS}`, 'roomNum');
+    }
+    const totalGuests = guests ?? adultNum * roomNum;
+    if (!Number.isInteger(totalGuests) || totalGuests < roomNum || totalGuests > adultNum * roomNum) {
+        throw new ValidationError(`guests must be an integer between ${roomNum} and ${adultNum * roomNum}`, 'guests');
+    }
+    if (!Number.isInteger(hits) || hits < 1 || hits > MAX_HITS) {
+        throw new ValidationError(`hits must be an integer between 1 and ${MAX_HITS}`, 'hits');
+    }
+    if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_PAGES) {
+        throw new ValidationError(`maxPages must be an integer between 1 and ${MAX_PAGES}`, 'maxPages');
     }
+    if (!Number.isInteger(pageConcurrency) || pageConcurrency < 1 || pageConcurrency > MAX_PAGE_CONCURRENCY) {
+        throw new ValidationError(`pageConcurrency must be an integer between 1 and ${MAX_PAGE_CONCURRENCY}`, 'pageConcurrency');
+    }
+    return { searchRadiusKm, adultNum, roomNum, guests: totalGuests, hits, maxPages, pageConcurrency };
 }
 
-function buildRequestParams(latitude: number, longitude: number, stayDate: string): URLSearchParams {
+function validateSearchRadius(value: unknown): asserts value is number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < MIN_SEARCH_RADIUS_KM || value > MAX_SEARCH_RADIUS_KM) {
+        throw new ValidationError(`searchRadiusKm must be between ${MIN_SEARCH_RADIUS_KM} and ${MAX_SEARCH_RADIUS_KM}`, 'searchRadiusKm');
+    }
+}
+
+function validateAdultNum(value: unknown): asserts value is number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_ADULT_NUM) {
+        throw new ValidationError(`adultNum must be an integer between 1 and ${MAX_ADULT_NUM}`, 'adultNum');
+    }
+}
+
+function buildRequestParams(
+    latitude: number,
+    longitude: number,
+    checkinDate: string,
+    checkoutDate: string,
+    { searchRadiusKm, adultNum, roomNum, hits }: Required<HotelSearchOptions>,
+): URLSearchParams {
     const appId = process.env.RAKUTEN_APP_ID;
     if (!appId) {
-        throw new Error('RAKUTEN_APP_ID is not set');
+        throw new ConfigurationError('RAKUTEN_APP_ID');
     }
 
     const params = new URLSearchParams();
@@ -106,87 +252,97 @@ function buildRequestParams(latitude: number, longitude: number, stayDate: strin
     params.set('formatVersion', '1');
     params.set('latitude', latitude.toString());
     params.set('longitude', longitude.toString());
-    params.set('searchRadius', SEARCH_RADIUS_KM.toString());
-    params.set('vacancy', '1');
+    params.set('searchRadius', searchRadiusKm.toString());
     params.set('datumType', '1');
-    params.set('hits', '10');
-    params.set('checkinDate', stayDate);
-    params.set('checkoutDate', calculateCheckoutDate(stayDate));
-    params.set('adultNum', '2');
-    params.set('roomNum', '1');
+    params.set('hits', hits.toString());
+    params.set('checkinDate', checkinDate);
+    params.set('checkoutDate', checkoutDate);
+    params.set('adultNum', adultNum.toString());
+    params.set('roomNum', roomNum.toString());
     return params;
 }
 
-function calculateCheckoutDate(stayDate: string): string {
+function calculateCheckoutDate(stayDate: string, nights = 1): string {
     const stay = new Date(`${stayDate}T00:00:00Z`);
     if (Number.isNaN(stay.getTime())) {
-        throw new Error('Invalid stayDate provided');
+        throw new ValidationError('Invalid stayDate provided', 'stayDates');
     }
 
-    stay.setUTCDate(stay.getUTCDate() + 1);
+    stay.setUTCDate(stay.getUTCDate() + nights);
     return toIsoDate(stay);
 }
 
-function createFetchClient(): Fetcher {
-    return async (input, init = {}) => {
-        let attempt = 0;
-        let lastError: Error | null = null;
-
-        while (attempt < MAX_RETRIES) {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(new Error('Request timeout')), REQUEST_TIMEOUT_MS);
-
-            const result = await fetch(input, { ...init, signal: controller.signal })
-                .then(async response => {
-                    if (response.status === 200) {
-                        return { success: true as const, response };
-                    }
-                    if (response.status === 400) {
-                        try {
-                            const bodyText = await response.clone().text();
-                            console.error('Rakuten Travel API returned 400. Response body:', bodyText);
-                        }
-                        catch (error) {
-                            console.error('Rakuten Travel API returned 400 but response body could not be read.', error);
-                        }
-                    }
-                    lastError = new Error(`Unexpected status code: ${response.status}`);
-                    return { success: false as const };
-                })
-                .catch(error => {
-                    const err = error instanceof Error ? error : new Error('Unknown fetch error');
-                    lastError = err;
-                    return { success: false as const };
-                })
-                .finally(() => {
-                    clearTimeout(timeout);
-                });
-
-            if (result.success) {
-                return result.response;
+
+async function fetchRakutenHotels(params: URLSearchParams, fetcher: Fetcher): Promise<unknown> {
+    // アプリ ID はキーに含めない
+    const conditions = Object.fromEntries(Array.from(params.entries()).filter(([name]) => name !== 'applicationId'));
+    return getResponseCache().getOrLoad('availability', buildCacheKey({ api: 'rakuten', ...conditions }), async () => {
+        const url = `${BASE_URL}?${params.toString()}`;
+        try {
+            const response = await fetcher(url, { method: 'GET' });
+            return response.json();
+        } catch (error) {
+            // 条件に合う施設がない場合は 404 (not_found) が返る
+            if (error instanceof UpstreamHttpError && error.upstreamStatus === 404) {
+                return { hotels: [] };
             }
-            attempt += 1;
+            throw error;
         }
+    });
+}
 
-        console.error('Max retries reached. Last error:', lastError);
-        throw lastError ?? new Error('Failed to fetch Rakuten Travel Simple Hotel Search API');
-    };
+/**
+ * 1 ページ目の pagingInfo から総ページ数を読み、maxPages までの残りのページを取得して変換する
+ * 2 ページ目以降の取得に失敗した場合は、取得できたページの結果だけを返す。
+ */
+async function fetchRakutenHotelPages(
+    params: URLSearchParams,
+    fetcher: Fetcher,
+    { maxPages, pageConcurrency }: Required<HotelSearchOptions>,
+    transform: (payload: unknown) => RakutenHotelAccommodation[],
+): Promise<RakutenHotelAccommodation[]> {
+    const firstPage = await fetchRakutenHotels(withPage(params, 1), fetcher);
+    const accommodations = transform(firstPage);
+
+    const pageCount = Math.min(readPageCount(firstPage), maxPages);
+    const remainingPages = Array.from({ length: Math.max(0, pageCount - 1) }, (_, index) => index + 2);
+    const results = await settleWithConcurrency(remainingPages, pageConcurrency, async (page) => transform(await fetchRakutenHotels(withPage(params, page), fetcher)));
+
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            accommodations.push(...result.value);
+        } else {
+            console.warn(`Failed to fetch Rakuten Travel page ${remainingPages[index]}:`, result.reason instanceof Error ? result.reason.message : result.reason);
+        }
+    });
+    return accommodations;
 }
 
-async function fetchRakutenHotels(params: URLSearchParams, fetcher: Fetcher): Promise<unknown> {
-    const url = `${BASE_URL}?${params.toString()}`;
-    const response = await fetcher(url, { method: 'GET' });
-    return response.json();
+function withPage(params: URLSearchParams, page: number): URLSearchParams {
+    const paged = new URLSearchParams(params);
+    paged.set('page', page.toString());
+    return paged;
+}
+
+function readPageCount(payload: unknown): number {
+    const pagingInfo = payload && typeof payload === 'object' ? (payload as { pagingInfo?: RakutenPagingInfo }).pagingInfo : undefined;
+    const pageCount = pagingInfo?.pageCount;
+    return typeof pageCount === 'number' && Number.isInteger(pageCount) && pageCount > 0 ? pageCount : 1;
 }
 
-function transformHotelsToAccommodation(payload: unknown, stayDate: string): RakutenHotelAccommodation[] {
+function transformHotelsToAccommodation(
+    payload: unknown,
+    checkinDate: string,
+    checkoutDate: string,
+    conditions: Required<HotelSearchOptions>,
+): RakutenHotelAccommodation[] {
     if (!payload || typeof payload !== 'object') {
-        throw new Error('Rakuten Travel API response is not valid JSON');
+        throw new UpstreamResponseError('Rakuten Travel API response is not valid JSON', HOST);
     }
 
     const { error, error_description: errorDescription } = payload as RakutenApiResponseError;
     if (error) {
-        throw new Error(errorDescription ?? error);
+        throw new UpstreamResponseError(errorDescription ?? error, HOST);
     }
 
     const hotels = Array.isArray((payload as { hotels?: RakutenHotelWrapper[] }).hotels)
@@ -194,19 +350,21 @@ function transformHotelsToAccommodation(payload: unknown, stayDate: string): Rak
         : [];
 
     return hotels
-        .map(wrapper => extractAccommodationFromWrapper(wrapper, stayDate))
+        .map(wrapper => extractAccommodationFromWrapper(wrapper, checkinDate, checkoutDate, conditions))
         .filter((item): item is RakutenHotelAccommodation => item !== null);
 }
 
-function extractAccommodationFromWrapper(wrapper: RakutenHotelWrapper, stayDate: string): RakutenHotelAccommodation | null {
+function extractAccommodationFromWrapper(
+    wrapper: RakutenHotelWrapper,
+    checkinDate: string,
+    checkoutDate: string,
+    { adultNum, roomNum, guests }: Required<HotelSearchOptions>,
+): RakutenHotelAccommodation | null {
     const hotelEntries = Array.isArray(wrapper.hotel) ? wrapper.hotel : [];
 
     const basicInfo = hotelEntries.find(entry => entry.hotelBasicInfo)?.hotelBasicInfo
         ?? wrapper.hotelBasicInfo
         ?? undefined;
-    const detailInfo = hotelEntries.find(entry => entry.hotelDetailInfo)?.hotelDetailInfo
-        ?? wrapper.hotelDetailInfo
-        ?? undefined;
     const ratingInfo = hotelEntries.find(entry => entry.hotelRatingInfo)?.hotelRatingInfo
         ?? wrapper.hotelRatingInfo
         ?? undefined;
@@ -225,29 +383,100 @@ function extractAccommodationFromWrapper(wrapper: RakutenHotelWrapper, stayDate:
     const location = locationCandidates.join(' ') || prefecture;
 
     const rating = normaliseNumber(basicInfo.reviewAverage ?? ratingInfo?.totalScore ?? 0, 1);
-    const clearSkyProbability = estimateClearSkyProbability(rating, ratingInfo?.locationAverage);
-    const availableRooms = detailInfo?.roomCount && detailInfo.roomCount > 0 ? detailInfo.roomCount : 1;
+    // roomCount は施設の総室数で空室数ではない。空室検索では指定した部屋数が空いている施設だけが返るので、指定した部屋数とみなす
+    const availableRooms = roomNum;
+    const nights = countNights(checkinDate, checkoutDate);
+    const plans = selectCheapestPlans(
+        hotelEntries
+            .filter(entry => Array.isArray(entry.roomInfo))
+            .map(entry => extractPlan(entry.roomInfo as RakutenRoomInfo[], { nights, guests, rooms: roomNum, quotedGuests: adultNum * roomNum }))
+            .filter((plan): plan is AccommodationPlan => plan !== null),
+    );
 
-    const latitude = typeof basicInfo.latitude === 'number' ? basicInfo.latitude : null;
-    const altitude = latitude !== null ? estimateAltitudeFromLatitude(latitude) : 0;
+    const latitude = typeof basicInfo.latitude === 'number' && Number.isFinite(basicInfo.latitude) ? basicInfo.latitude : null;
+    const longitude = typeof basicInfo.longitude === 'number' && Number.isFinite(basicInfo.longitude) ? basicInfo.longitude : null;
     const imageUrl = chooseImageUrl(basicInfo);
+    const lightPollution = latitude !== null && longitude !== null ? lookupLightPollution(latitude, longitude) : null;
 
     return {
         id: String(basicInfo.hotelNo),
         name: basicInfo.hotelName,
         location,
         prefecture,
-        newMoonDate: formatNextNewMoonDate(new Date(stayDate)),
-        clearSkyProbability,
-        price: normaliseNumber(basicInfo.hotelMinCharge ?? 0, 0),
+        newMoonDate: formatNextNewMoonDate(checkinDate),
+        // 空きのあるプランが取れれば、その最安値 (グループ全員の 1 泊あたり) を料金とする。
+        // 取れなければ最低料金 (大人 1 名の 1 泊あたり) をグループ全員の人数ぶんにして単位を揃える
+        price: plans[0]?.pricePerNight ?? normaliseNumber((basicInfo.hotelMinCharge ?? 0) * guests, 0),
         rating,
         availableRooms,
         imageUrl,
-        altitude,
-        bookingUrl: buildRakutenBookingUrl(basicInfo, stayDate),
+        latitude,
+        longitude,
+        lightPollution: lightPollution?.level ?? null,
+        bortleClass: lightPollution?.bortleClass ?? null,
+        bookingUrl: buildRakutenBookingUrl(basicInfo, checkinDate, checkoutDate),
+        plans,
+    };
+}
+
+interface PlanParty {
+    /** 泊数 */
+    nights: number;
+    /** グループ全員の大人の人数 */
+    guests: number;
+    /** 部屋数 */
+    rooms: number;
+    /** API に渡した人数 (1 室あたりの人数 × 部屋数)。API が返す合計料金はこの人数ぶん */
+    quotedGuests: number;
+}
+
+/**
+ * roomInfo の要素 (部屋・プランの情報と料金) から 1 つのプランを組み立てる
+ */
+function extractPlan(roomInfo: RakutenRoomInfo[], party: PlanParty): AccommodationPlan | null {
+    const basic = roomInfo.find(item => item.roomBasicInfo)?.roomBasicInfo;
+    const charges = roomInfo.flatMap(item => (item.dailyCharge ? [item.dailyCharge] : []));
+    if (!basic?.planName) {
+        return null;
+    }
+
+    const totalPrice = calculatePlanTotal(charges, party);
+    if (totalPrice <= 0) {
+        return null;
+    }
+    const { nights } = party;
+
+    return {
+        planName: basic.planName,
+        roomName: basic.roomName?.trim() || '部屋タイプ指定なし',
+        meals: toMealPlan(basic.withBreakfastFlag === 1, basic.withDinnerFlag === 1),
+        pricePerNight: Math.round(totalPrice / nights),
+        totalPrice,
+        bookingUrl: basic.reserveUrl || null,
     };
 }
 
+function calculatePlanTotal(charges: RakutenDailyCharge[], { nights, guests, rooms, quotedGuests }: PlanParty): number {
+    const quoted = charges.find(charge => typeof charge.total === 'number' && charge.total > 0);
+    if (quoted?.total !== undefined) {
+        // 1 人あたりの料金のプランでは、API に渡した人数ぶんの合計を実際の人数ぶんに直す
+        return normaliseNumber(quoted.chargeFlag === 1 ? quoted.total : (quoted.total * guests) / quotedGuests, 0);
+    }
+
+    // 合計が返らない場合は 1 人 (1 室) あたりの料金から求める
+    const charge = charges.find(item => typeof item.rakutenCharge === 'number' && item.rakutenCharge > 0);
+    if (!charge || charge.rakutenCharge === undefined) {
+        return 0;
+    }
+    const units = charge.chargeFlag === 1 ? rooms : guests;
+    return normaliseNumber(charge.rakutenCharge * units * nights, 0);
+}
+
+function countNights(checkinDate: string, checkoutDate: string): number {
+    const nights = Math.round((Date.parse(`${checkoutDate}T00:00:00Z`) - Date.parse(`${checkinDate}T00:00:00Z`)) / 86_400_000);
+    return Math.max(1, nights);
+}
+
 function mergeAccommodations(accommodations: RakutenHotelAccommodation[]): RakutenHotelAccommodation[] {
     const merged = new Map<string, RakutenHotelAccommodation>();
 
@@ -258,16 +487,15 @@ function mergeAccommodations(accommodations: RakutenHotelAccommodation[]): Rakut
             continue;
         }
 
-        const combinedAvailableRooms = existing.availableRooms + accommodation.availableRooms;
+        const availableRooms = Math.max(existing.availableRooms, accommodation.availableRooms);
         const betterRating = accommodation.rating > existing.rating ? accommodation.rating : existing.rating;
-        const betterClearSky = Math.max(existing.clearSkyProbability, accommodation.clearSkyProbability);
         const newMoonDate = existing.newMoonDate <= accommodation.newMoonDate ? existing.newMoonDate : accommodation.newMoonDate;
 
         merged.set(accommodation.id, {
             ...existing,
-            availableRooms: combinedAvailableRooms,
+            availableRooms,
+            plans: selectCheapestPlans([...existing.plans, ...accommodation.plans]),
             rating: betterRating,
-            clearSkyProbability: betterClearSky,
             newMoonDate,
         });
     }
@@ -277,7 +505,7 @@ function mergeAccommodations(accommodations: RakutenHotelAccommodation[]): Rakut
 
 function normaliseStayDates(stayDates: Array<string | Date>): string[] {
     if (!Array.isArray(stayDates)) {
-        throw new TypeError('stayDates must be an array of string or Date');
+        throw new ValidationError('stayDates must be an array of string or Date', 'stayDates');
     }
 
     return stayDates.map(date => normaliseDateInput(date)).filter((value, index, array) => array.indexOf(value) === index);
@@ -286,7 +514,7 @@ function normaliseStayDates(stayDates: Array<string | Date>): string[] {
 function normaliseDateInput(value: string | Date): string {
     if (value instanceof Date) {
         if (Number.isNaN(value.getTime())) {
-            throw new TypeError('Invalid Date object was provided in stayDates');
+            throw new ValidationError('Invalid Date object was provided in stayDates', 'stayDates');
         }
         return toIsoDate(value);
     }
@@ -294,12 +522,12 @@ function normaliseDateInput(value: string | Date): string {
     if (typeof value === 'string') {
         const parsed = new Date(value);
         if (Number.isNaN(parsed.getTime())) {
-            throw new TypeError('stayDates must only contain ISO 8601 date strings (YYYY-MM-DD) or Date objects');
+            throw new ValidationError('stayDates must only contain ISO 8601 date strings (YYYY-MM-DD) or Date objects', 'stayDates');
         }
         return toIsoDate(parsed);
     }
 
-    throw new TypeError('stayDates must only contain string or Date values');
+    throw new ValidationError('stayDates must only contain string or Date values', 'stayDates');
 }
 
 function toIsoDate(date: Date): string {
@@ -321,25 +549,6 @@ function extractPrefectureAndCity(address: string): { prefecture: string; city:
     return { prefecture: trimmed, city: '' };
 }
 
-function normaliseNumber(value: number | string, digits: number): number {
-    const parsed = typeof value === 'string' ? Number.parseFloat(value) : value;
-    if (!Number.isFinite(parsed)) {
-        return 0;
-    }
-    return Number(parsed.toFixed(digits));
-}
-
-function estimateClearSkyProbability(reviewAverage: number, locationAverage?: number): number {
-    const base = Number.isFinite(locationAverage) ? locationAverage ?? 0 : reviewAverage;
-    const probability = Math.min(95, Math.max(40, Math.round(base * 18)));
-    return probability;
-}
-
-function estimateAltitudeFromLatitude(latitude: number): number {
-    const base = Math.max(0, Math.abs(latitude - 35));
-    return Math.round(base * 120);
-}
-
 function chooseImageUrl(info: RakutenHotelBasicInfo): string {
     if (info.hotelImageUrl && info.hotelImageUrl.length > 0) {
         return info.hotelImageUrl;
@@ -350,24 +559,14 @@ function chooseImageUrl(info: RakutenHotelBasicInfo): string {
     return 'https://images.unsplash.com/photo-1522708323590-d24dbb6b0267?auto=format&fit=crop&w=1080&q=80';
 }
 
-function formatNextNewMoonDate(referenceDate = new Date()): string {
-    const referenceNewMoon = new Date('2024-01-11T11:57:00Z');
-    const msPerDay = 86_400_000;
-    const diffDays = (referenceDate.getTime() - referenceNewMoon.getTime()) / msPerDay;
-    const cycles = Number.isFinite(diffDays) ? Math.max(0, Math.ceil(diffDays / SYNODIC_MONTH_DAYS)) : 0;
-    const nextNewMoon = new Date(referenceNewMoon.getTime() + cycles * SYNODIC_MONTH_DAYS * msPerDay);
-    const formatter = new Intl.DateTimeFormat('ja-JP', { year: 'numeric', month: 'long', day: 'numeric' });
-    return formatter.format(nextNewMoon);
-}
-
-function buildRakutenBookingUrl(info: RakutenHotelBasicInfo, stayDate: string): string {
+function buildRakutenBookingUrl(info: RakutenHotelBasicInfo, checkinDate: string, checkoutDate: string): string {
     // 楽天の API は planListUrl（施設のプラン一覧）を返すことがある。優先的に使用。
     if (info.planListUrl && info.planListUrl.length > 0) {
         try {
             const u = new URL(info.planListUrl);
             // 可能ならチェックイン/チェックアウトの日付をクエリに付与
-            u.searchParams.set('checkinDate', stayDate);
-            u.searchParams.set('checkoutDate', calculateCheckoutDate(stayDate));
+            u.searchParams.set('checkinDate', checkinDate);
+            u.searchParams.set('checkoutDate', checkoutDate);
             return u.toString();
         } catch {
             // 無効 URL の場合はフォールバック
@@ -379,8 +578,8 @@ function buildRakutenBookingUrl(info: RakutenHotelBasicInfo, stayDate: string):
     if (hotelNo) {
         const u = new URL('https://hotel.travel.rakuten.co.jp/hotelinfo/plan/');
         u.searchParams.set('f_no', hotelNo);
-        u.searchParams.set('checkinDate', stayDate);
-        u.searchParams.set('checkoutDate', calculateCheckoutDate(stayDate));
+        u.searchParams.set('checkinDate', checkinDate);
+        u.searchParams.set('checkoutDate', checkoutDate);
         return u.toString();
     }
 
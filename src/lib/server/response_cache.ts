@@ -0,0 +1,329 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+
+/** キャッシュする外部 API の応答の種類 */
+export type CacheSource = 'forecast' | 'elevation' | 'geocode' | 'availability';
+
+/**
+ * 種類ごとの保持期間 (ミリ秒)
+ * 予報は 1 時間ごとに更新されるので 1 時間、住所と標高はほぼ変わらないので数週間、空室は数分で入れ替わるので 5 分とする。
+ */
+export const CACHE_TTL_MS: Record<CacheSource, number> = {
+    forecast: 60 * 60 * 1000,
+    elevation: 28 * 24 * 60 * 60 * 1000,
+    geocode: 21 * 24 * 60 * 60 * 1000,
+    availability: 5 * 60 * 1000,
+};
+
+/**
+ * 外部 API の呼び出しに失敗したとき、期限切れのキャッシュを代わりに返してよい期間 (期限からのミリ秒)
+ * 古い予報でも何もないよりはよいが、空室は古いと誤解を招くので短くする。
+ */
+export const STALE_IF_ERROR_MS: Record<CacheSource, number> = {
+    forecast: 6 * 60 * 60 * 1000,
+    elevation: 90 * 24 * 60 * 60 * 1000,
+    geocode: 90 * 24 * 60 * 60 * 1000,
+    availability: 30 * 60 * 1000,
+};
+
+const CACHE_SOURCES = Object.keys(CACHE_TTL_MS) as CacheSource[];
+// メモリに保持する件数の上限。超えたら古い順に捨てる
+const DEFAULT_MAX_MEMORY_ENTRIES = 1_000;
+
+export interface CacheEntry {
+    value: unknown;
+    /** 期限 (エポックミリ秒) */
+    expiresAt: number;
+}
+
+/** キャッシュの保存先 */
+export interface CacheBackend {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export interface CacheSourceMetrics {
+    hits: number;
+    misses: number;
+    /** 保存先の読み書きに失敗した回数 (失敗しても API の呼び出しは続ける) */
+    errors: number;
+    /** 読み込みに失敗し、期限切れのキャッシュを代わりに返した回数 */
+    stale: number;
+}
+
+export type CacheMetrics = Record<CacheSource, CacheSourceMetrics>;
+
+export interface ResponseCache {
+    /**
+     * キャッシュがあればそれを返し、なければ load の結果を保存して返す
+     * 同じキーの読み込み中に呼ばれた場合は、その結果を待って共有する。load が失敗した場合は保存しない。
+     * load が失敗しても STALE_IF_ERROR_MS 以内の期限切れのキャッシュがあればそれを返す (trackStaleness で検知できる)。
+     * @param source 応答の種類 (保持期間を決める)
+     * @param key リクエストを一意に表すキー
+     * @param load 外部 API を呼ぶ処理
+     */
+    getOrLoad<T>(source: CacheSource, key: string, load: () => Promise<T>): Promise<T>;
+    getMetrics(): CacheMetrics;
+    clear(): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+    backend: CacheBackend;
+    /** 現在時刻 (エポックミリ秒) を返す関数。テストで時計を差し替えるために使う */
+    now?: () => number;
+    ttlMs?: Record<CacheSource, number>;
+    staleIfErrorMs?: Record<CacheSource, number>;
+}
+
+interface LoadedValue {
+    value: unknown;
+    stale: boolean;
+}
+
+// trackStaleness の呼び出しごとに、期限切れのキャッシュを返したかを記録する
+const stalenessContext = new AsyncLocalStorage<{ stale: boolean }>();
+
+/**
+ * 外部 API の応答のキャッシュを作る
+ */
+export function createResponseCache({
+    backend,
+    now = Date.now,
+    ttlMs = CACHE_TTL_MS,
+    staleIfErrorMs = STALE_IF_ERROR_MS,
+}: ResponseCacheOptions): ResponseCache {
+    const metrics = createEmptyMetrics();
+    const pending = new Map<string, Promise<LoadedValue>>();
+
+    const readEntry = async (source: CacheSource, key: string): Promise<CacheEntry | undefined> => {
+        try {
+            return await backend.get(key);
+        } catch (error) {
+            metrics[source].errors += 1;
+            console.warn('Failed to read response cache:', error instanceof Error ? error.message : error);
+            return undefined;
+        }
+    };
+
+    const writeEntry = async (source: CacheSource, key: string, entry: CacheEntry): Promise<void> => {
+        try {
+            await backend.set(key, entry);
+        } catch (error) {
+            metrics[source].errors += 1;
+            console.warn('Failed to write response cache:', error instanceof Error ? error.message : error);
+        }
+    };
+
+    return {
+        async getOrLoad<T>(source: CacheSource, key: string, load: () => Promise<T>): Promise<T> {
+            const cacheKey = `${source}:${key}`;
+            const entry = await readEntry(source, cacheKey);
+            if (entry && entry.expiresAt > now()) {
+                metrics[source].hits += 1;
+                return entry.value as T;
+            }
+
+            const inFlight = pending.get(cacheKey);
+            if (inFlight) {
+                metrics[source].hits += 1;
+                return unwrapLoaded<T>(await inFlight);
+            }
+
+            metrics[source].misses += 1;
+            const loading = (async (): Promise<LoadedValue> => {
+                try {
+                    const value = await load();
+                    await writeEntry(source, cacheKey, { value, expiresAt: now() + ttlMs[source] });
+                    return { value, stale: false };
+                } catch (error) {
+                    if (entry && entry.expiresAt + staleIfErrorMs[source] > now()) {
+                        metrics[source].stale += 1;
+                        console.warn(`Serving stale ${source} cache:`, error instanceof Error ? error.message : error);
+                        return { value: entry.value, stale: true };
+                    }
+                    throw error;
+                }
+            })();
+            pending.set(cacheKey, loading);
+            try {
+                return unwrapLoaded<T>(await loading);
+            } finally {
+                pending.delete(cacheKey);
+            }
+        },
+
+        getMetrics(): CacheMetrics {
+            return Object.fromEntries(CACHE_SOURCES.map((source) => [source, { ...metrics[source] }])) as CacheMetrics;
+        },
+
+        async clear(): Promise<void> {
+            await backend.clear();
+            Object.assign(metrics, createEmptyMetrics());
+        },
+    };
+}
+
+/**
+ * プロセスのメモリに保持するキャッシュの保存先
+ * @param maxEntries 保持する件数の上限
+ * @param now 現在時刻を返す関数 (期限切れの掃除に使う)
+ */
+export function createMemoryCacheBackend(maxEntries = DEFAULT_MAX_MEMORY_ENTRIES, now: () => number = Date.now): CacheBackend {
+    const entries = new Map<string, CacheEntry>();
+
+    return {
+        async get(key) {
+            return entries.get(key);
+        },
+        async set(key, entry) {
+            // 挿入順を更新するため、いったん消してから入れ直す
+            entries.delete(key);
+            entries.set(key, entry);
+            if (entries.size <= maxEntries) {
+                return;
+            }
+            const current = now();
+            for (const [storedKey, stored] of entries) {
+                if (stored.expiresAt <= current) {
+                    entries.delete(storedKey);
+                }
+            }
+            while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest === undefined) {
+                    break;
+                }
+                entries.delete(oldest);
+            }
+        },
+        async delete(key) {
+            entries.delete(key);
+        },
+        async clear() {
+            entries.clear();
+        },
+    };
+}
+
+/**
+ * ディレクトリに JSON ファイルとして保存するキャッシュの保存先
+ * 開発サーバーの再起動をまたいで予報や住所を使い回すためのもの。ファイル名はキーのハッシュにする。
+ * @param directory 保存先のディレクトリ (なければ作る)
+ */
+export function createFileCacheBackend(directory: string): CacheBackend {
+    const filePath = (key: string) => path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+    return {
+        async get(key) {
+            try {
+                const parsed = JSON.parse(await fs.readFile(filePath(key), 'utf8'));
+                return parsed && typeof parsed.expiresAt === 'number' ? (parsed as CacheEntry) : undefined;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+        async set(key, entry) {
+            await fs.mkdir(directory, { recursive: true });
+            // 書き込み途中のファイルを読まないよう、別名で書いてから置き換える
+            const target = filePath(key);
+            const temporary = `${target}.${process.pid}.tmp`;
+            await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+            await fs.rename(temporary, target);
+        },
+        async delete(key) {
+            await fs.rm(filePath(key), { force: true });
+        },
+        async clear() {
+            await fs.rm(directory, { recursive: true, force: true });
+        },
+    };
+}
+
+let sharedCache: ResponseCache | null = null;
+
+/**
+ * 外部 API クライアントが共有するキャッシュを返す
+ * 保存先は環境変数 RESPONSE_CACHE_BACKEND で選ぶ。
+ * - memory (既定): プロセスのメモリ
+ * - file: RESPONSE_CACHE_DIR (既定は .cache/responses) のファイル
+ * - none: キャッシュしない
+ */
+export function getResponseCache(): ResponseCache {
+    if (!sharedCache) {
+        sharedCache = createResponseCache({ backend: createBackendFromEnv() });
+    }
+    return sharedCache;
+}
+
+/**
+ * 共有のキャッシュを作り直す (環境変数を変えたテストで使う)
+ */
+export function resetResponseCache(): void {
+    sharedCache = null;
+}
+
+/**
+ * 処理の中で期限切れのキャッシュが使われたかを調べる
+ * 外部 API の失敗で古いデータを返した場合に、画面で「古い情報」と示すために使う。
+ * @param task 外部 API クライアントを呼ぶ処理
+ */
+export async function trackStaleness<T>(task: () => Promise<T>): Promise<{ value: T; stale: boolean }> {
+    const state = { stale: false };
+    const value = await stalenessContext.run(state, task);
+    return { value, stale: state.stale };
+}
+
+function unwrapLoaded<T>({ value, stale }: LoadedValue): T {
+    const state = stalenessContext.getStore();
+    if (stale && state) {
+        state.stale = true;
+    }
+    return value as T;
+}
+
+/**
+ * キャッシュのキーに使うため、値をキーの順序によらない文字列にする
+ */
+export function buildCacheKey(value: unknown): string {
+    return JSON.stringify(value, (_, item) => (
+        item && typeof item === 'object' && !Array.isArray(item)
+            ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+            : item
+    ));
+}
+
+function createBackendFromEnv(): CacheBackend {
+    const kind = process.env.RESPONSE_CACHE_BACKEND ?? 'memory';
+    switch (kind) {
+        case 'memory':
+            return createMemoryCacheBackend();
+        case 'file':
+            return createFileCacheBackend(process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), '.cache', 'responses'));
+        case 'none':
+            return createNoopCacheBackend();
+        default:
+            throw new Error(`Unsupported RESPONSE_CACHE_BACKEND: ${kind}`);
+    }
+}
+
+function createNoopCacheBackend(): CacheBackend {
+    return {
+        async get() {
+            return undefined;
+        },
+        async set() {},
+        async delete() {},
+        async clear() {},
+    };
+}
+
+function createEmptyMetrics(): CacheMetrics {
+    return Object.fromEntries(CACHE_SOURCES.map((source) => [source, { hits: 0, misses: 0, errors: 0, stale: 0 }])) as CacheMetrics;
+}
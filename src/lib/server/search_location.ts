@@ -0,0 +1,60 @@
+import { NotFoundError, ValidationError } from './app_errors';
+import { DarkSkySite, getTopDarkSkySites } from './dark_sky_sites';
+import { getPrefectureCoordinates } from './prefecture_geocode';
+
+/** 都道府県で検索するときに宿を探す星空観察地の最大数 */
+export const MAX_SEARCH_SITES = 3;
+
+export interface SearchLocationInput {
+    prefecture?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+}
+
+export interface ResolvedSearchLocation {
+    latitude: number;
+    longitude: number;
+    /** 都道府県で指定された場合の都道府県名。座標で指定された場合は null */
+    prefecture: string | null;
+    /** 都道府県で指定された場合に宿を探す星空観察地 (推奨順)。座標指定やカタログにない都道府県では空配列 */
+    sites: DarkSkySite[];
+}
+
+/**
+ * 検索地点を座標に解決する
+ * 緯度経度が指定されていればそれを優先する。
+ * 都道府県の場合は県内で最もおすすめの星空観察地を代表点とし、カタログになければ県庁所在地を使う。
+ * @param input 都道府県または緯度経度
+ * @returns 検索地点の座標
+ */
+export function resolveSearchLocation({ prefecture, latitude, longitude }: SearchLocationInput): ResolvedSearchLocation {
+    const hasLatitude = latitude !== undefined && latitude !== null;
+    const hasLongitude = longitude !== undefined && longitude !== null;
+    if (hasLatitude || hasLongitude) {
+        validateCoordinate(latitude, 'latitude', 90);
+        validateCoordinate(longitude, 'longitude', 180);
+        return { latitude, longitude, prefecture: null, sites: [] };
+    }
+
+    if (!prefecture) {
+        throw new ValidationError('prefecture or latitude/longitude is required', 'prefecture');
+    }
+    const coords = getPrefectureCoordinates(prefecture);
+    if (!coords) {
+        throw new NotFoundError(`Unsupported prefecture: ${prefecture}`, 'PREFECTURE_NOT_SUPPORTED');
+    }
+    const sites = getTopDarkSkySites(prefecture, MAX_SEARCH_SITES);
+    const [primarySite] = sites;
+    return primarySite
+        ? { latitude: primarySite.latitude, longitude: primarySite.longitude, prefecture, sites }
+        : { ...coords, prefecture, sites };
+}
+
+function validateCoordinate(value: unknown, label: 'latitude' | 'longitude', limit: number): asserts value is number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ValidationError(`${label} must be a finite number`, label);
+    }
+    if (Math.abs(value) > limit) {
+        throw new ValidationError(`${label} must be between -${limit} and ${limit}`, label);
+    }
+}
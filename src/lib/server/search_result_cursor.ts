@@ -0,0 +1,124 @@
+import { randomUUID } from 'node:crypto';
+import { NotFoundError, ValidationError } from './app_errors';
+
+/** 1 ページに返す件数 */
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 50;
+// 検索結果を続きのページ用に保持する時間と件数。超えたものは古い順に捨てる
+const RESULT_TTL_MS = 10 * 60 * 1000;
+const MAX_STORED_RESULTS = 100;
+
+export interface ResultPage<T> {
+    items: T[];
+    /** 続きのページを取得するためのカーソル。最後のページでは null */
+    nextCursor: string | null;
+    /** 表示条件を適用した検索結果の総件数 */
+    totalCount: number;
+    /** 先頭のページを指すカーソル。表示条件を変えて再検索せずに読み直すときに使う */
+    firstCursor: string;
+}
+
+/** 保持した検索結果の全件に適用する絞り込み・並び替え。ページを読むたびに適用する */
+export type ResultView<T> = (items: T[]) => T[];
+
+interface StoredResult {
+    items: unknown[];
+    expiresAt: number;
+}
+
+interface CursorPayload {
+    id: string;
+    offset: number;
+}
+
+// 検索結果はこのプロセスのメモリにだけ保持する。サーバーを複数台で動かす場合や再起動をまたぐとカーソルは期限切れになるので、
+// 複数インスタンスで動かすときは共有ストアに置き換えるか、同じインスタンスへ振り分ける必要がある
+const storedResults = new Map<string, StoredResult>();
+
+const keepAll = <T>(items: T[]): T[] => items;
+
+/**
+ * 検索結果の全件を保持し、表示条件を適用した先頭ページとカーソルを返す
+ * 表示条件は保持した全件に対して適用するので、条件を変えても firstCursor から読み直せる。
+ * @param items 検索結果 (表示条件を適用する前の全件)
+ * @param pageSize 1 ページの件数
+ * @param view 絞り込み・並び替え
+ * @param now 現在時刻 (ミリ秒)
+ */
+export function paginateResults<T>(items: T[], pageSize = DEFAULT_PAGE_SIZE, view: ResultView<T> = keepAll, now = Date.now()): ResultPage<T> {
+    validatePageSize(pageSize);
+
+    purgeExpiredResults(now);
+    // Map は挿入順なので、先頭から捨てれば古いものから消える。捨てるのは新しく保持するときだけにする
+    while (storedResults.size >= MAX_STORED_RESULTS) {
+        const oldest = storedResults.keys().next().value;
+        if (oldest === undefined) {
+            break;
+        }
+        storedResults.delete(oldest);
+    }
+    const id = randomUUID();
+    storedResults.set(id, { items, expiresAt: now + RESULT_TTL_MS });
+    return sliceStoredResult(id, view(items), 0, pageSize);
+}
+
+/**
+ * カーソルが指すページを、保持した全件に表示条件を適用して返す
+ * @param cursor paginateResults などが発行したカーソル
+ * @param pageSize 1 ページの件数
+ * @param view 絞り込み・並び替え (カーソルを発行したときと同じ条件を渡す。firstCursor なら変えてよい)
+ * @param now 現在時刻 (ミリ秒)
+ * @throws {ValidationError} カーソルの形式やページの件数が不正な場合
+ * @throws {NotFoundError} 保持期間が過ぎた・サーバーが再起動したなどで検索結果が残っていない場合 (code は CURSOR_EXPIRED)
+ */
+export function readResultPage<T>(cursor: string, pageSize = DEFAULT_PAGE_SIZE, view: ResultView<T> = keepAll, now = Date.now()): ResultPage<T> {
+    validatePageSize(pageSize);
+    const { id, offset } = decodeCursor(cursor);
+
+    purgeExpiredResults(now);
+    const stored = storedResults.get(id);
+    if (!stored) {
+        throw new NotFoundError('cursor has expired; search again', 'CURSOR_EXPIRED');
+    }
+    return sliceStoredResult(id, view(stored.items as T[]), offset, pageSize);
+}
+
+function sliceStoredResult<T>(id: string, items: T[], offset: number, pageSize: number): ResultPage<T> {
+    const nextOffset = offset + pageSize;
+    return {
+        items: items.slice(offset, nextOffset),
+        nextCursor: nextOffset < items.length ? encodeCursor({ id, offset: nextOffset }) : null,
+        totalCount: items.length,
+        firstCursor: encodeCursor({ id, offset: 0 }),
+    };
+}
+
+function validatePageSize(pageSize: number): void {
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        throw new ValidationError(`pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`, 'pageSize');
+    }
+}
+
+function purgeExpiredResults(now: number): void {
+    for (const [id, stored] of storedResults) {
+        if (stored.expiresAt <= now) {
+            storedResults.delete(id);
+        }
+    }
+}
+
+function encodeCursor(payload: CursorPayload): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (typeof payload?.id === 'string' && Number.isInteger(payload?.offset) && payload.offset >= 0) {
+            return { id: payload.id, offset: payload.offset };
+        }
+    } catch {
+        // 下で不正なカーソルとして扱う
+    }
+    throw new ValidationError('cursor is invalid', 'cursor');
+}
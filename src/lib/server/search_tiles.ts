@@ -0,0 +1,49 @@
+import { GeoPoint, haversineDistanceKm } from './geo_distance';
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+/**
+ * 半径 radiusKm の円を、半径 tileRadiusKm の円で隙間なく覆う検索地点を返す
+ * 六角格子に並べた地点のうち、担当範囲が検索範囲にかかるものを中心に近い順に返す。
+ * @param center 検索の中心
+ * @param radiusKm 検索したい半径 (km)
+ * @param tileRadiusKm 1 回の検索で探せる半径 (km)
+ * @returns 検索地点。radiusKm が tileRadiusKm 以下なら中心だけ
+ */
+export function buildSearchTiles(center: GeoPoint, radiusKm: number, tileRadiusKm: number): GeoPoint[] {
+    if (!(tileRadiusKm > 0)) {
+        throw new RangeError('tileRadiusKm must be positive');
+    }
+    if (radiusKm <= tileRadiusKm) {
+        return [center];
+    }
+
+    // 六角格子の各点が受け持つ六角形は、外接円が半径 tileRadiusKm の円になる
+    const columnSpacingKm = tileRadiusKm * Math.sqrt(3);
+    const rowSpacingKm = tileRadiusKm * 1.5;
+    const reachKm = radiusKm + tileRadiusKm;
+    const maxRow = Math.ceil(reachKm / rowSpacingKm);
+    const maxColumn = Math.ceil(reachKm / columnSpacingKm) + 1;
+    const kmPerDegreeLongitude = KM_PER_DEGREE_LATITUDE * Math.cos((center.latitude * Math.PI) / 180);
+
+    const tiles: Array<GeoPoint & { distanceKm: number }> = [];
+    for (let row = -maxRow; row <= maxRow; row += 1) {
+        const offsetKm = Math.abs(row) % 2 === 1 ? columnSpacingKm / 2 : 0;
+        for (let column = -maxColumn; column <= maxColumn; column += 1) {
+            const xKm = column * columnSpacingKm + offsetKm;
+            const yKm = row * rowSpacingKm;
+            const point = {
+                latitude: center.latitude + yKm / KM_PER_DEGREE_LATITUDE,
+                longitude: center.longitude + xKm / kmPerDegreeLongitude,
+            };
+            const distanceKm = haversineDistanceKm(center, point);
+            if (distanceKm <= reachKm) {
+                tiles.push({ ...point, distanceKm });
+            }
+        }
+    }
+
+    return tiles
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+        .map(({ latitude, longitude }) => ({ latitude, longitude }));
+}
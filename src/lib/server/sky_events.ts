@@ -0,0 +1,78 @@
+import { Horizon, Observer } from 'astronomy-engine';
+import { NightDarkWindow } from './dark_window_service';
+
+// 銀河中心 (いて座 A*) の赤経 (時) と赤緯 (度)。J2000 の値で、歳差によるずれ (数十年で 0.5 度未満) は無視する
+const GALACTIC_CENTER = { ra: 17.761, dec: -29.008 };
+// 銀河中心がこの高度 (度) 以上にあれば天の川の中心部が見えるとする。低いと地上の大気と街明かりに埋もれる
+const MILKY_WAY_CORE_MIN_ALTITUDE = 15;
+const SAMPLE_STEP_MS = 15 * 60_000;
+const MS_PER_HOUR = 3_600_000;
+
+export interface MeteorShower {
+    name: string;
+    /** 極大の夜の始まる日 (MM-DD)。年により前後 1 日ずれる */
+    peakNight: string;
+    /** 極大時の 1 時間あたりの流星数 (ZHR) の目安 */
+    zenithalHourlyRate: number;
+}
+
+/** 主な流星群 (国際流星機構の年間予報の平均的な極大日) */
+export const METEOR_SHOWERS: MeteorShower[] = [
+    { name: 'しぶんぎ座流星群', peakNight: '01-03', zenithalHourlyRate: 110 },
+    { name: 'こと座流星群', peakNight: '04-22', zenithalHourlyRate: 18 },
+    { name: 'みずがめ座η流星群', peakNight: '05-05', zenithalHourlyRate: 50 },
+    { name: 'ペルセウス座流星群', peakNight: '08-12', zenithalHourlyRate: 100 },
+    { name: 'オリオン座流星群', peakNight: '10-21', zenithalHourlyRate: 20 },
+    { name: 'しし座流星群', peakNight: '11-17', zenithalHourlyRate: 15 },
+    { name: 'ふたご座流星群', peakNight: '12-14', zenithalHourlyRate: 150 },
+];
+
+export interface MeteorShowerPeak {
+    name: string;
+    /** 極大の夜の始まる日 (YYYY-MM-DD) */
+    date: string;
+    zenithalHourlyRate: number;
+}
+
+/**
+ * 期間内に極大を迎える流星群を返す
+ * @param startDate 開始日 (YYYY-MM-DD)
+ * @param endDate 終了日 (YYYY-MM-DD)
+ * @returns 日付順
+ */
+export function findMeteorShowerPeaks(startDate: string, endDate: string): MeteorShowerPeak[] {
+    const startYear = Number.parseInt(startDate.slice(0, 4), 10);
+    const endYear = Number.parseInt(endDate.slice(0, 4), 10);
+    const peaks: MeteorShowerPeak[] = [];
+    for (let year = startYear; year <= endYear; year += 1) {
+        for (const shower of METEOR_SHOWERS) {
+            const date = `${year}-${shower.peakNight}`;
+            if (date >= startDate && date <= endDate) {
+                peaks.push({ name: shower.name, date, zenithalHourlyRate: shower.zenithalHourlyRate });
+            }
+        }
+    }
+    return peaks.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 暗夜区間のうち、天の川の中心部 (銀河中心) が地平線から十分高く昇っている時間を求める
+ * @param latitude 緯度
+ * @param longitude 経度
+ * @param darkWindow その夜の暗夜区間
+ * @returns 時間 (小数第1位)。15 分ごとの高度で数える
+ */
+export function getMilkyWayCoreHours(latitude: number, longitude: number, darkWindow: NightDarkWindow): number {
+    const observer = new Observer(latitude, longitude, 0);
+    let visibleMs = 0;
+    for (const interval of darkWindow.darkIntervals) {
+        const end = Date.parse(interval.end);
+        for (let time = Date.parse(interval.start); time < end; time += SAMPLE_STEP_MS) {
+            const { altitude } = Horizon(new Date(time), observer, GALACTIC_CENTER.ra, GALACTIC_CENTER.dec, 'normal');
+            if (altitude >= MILKY_WAY_CORE_MIN_ALTITUDE) {
+                visibleMs += Math.min(SAMPLE_STEP_MS, end - time);
+            }
+        }
+    }
+    return Number((visibleMs / MS_PER_HOUR).toFixed(1));
+}
@@ -0,0 +1,211 @@
+import type { NightDarkWindow } from './dark_window_service';
+
+interface ScoreRange {
+    /** この値で満点 */
+    best: number;
+    /** この値で 0 点 */
+    worst: number;
+}
+
+export interface StargazingScoreConfig {
+    weights: Record<'cloudCover' | 'moon' | 'humidity' | 'visibility' | 'wind', number>;
+    cloudLayerWeights: Record<'low' | 'mid' | 'high', number>;
+    relativeHumidity: ScoreRange;
+    dewPointSpread: ScoreRange;
+    visibility: ScoreRange;
+    windSpeed: ScoreRange;
+}
+
+/**
+ * 星空指数の重みと各要素の評価範囲。
+ * 重みの合計で正規化するので、合計が 1 である必要はない。
+ */
+export const STARGAZING_SCORE_CONFIG: StargazingScoreConfig = {
+    weights: {
+        cloudCover: 0.45,
+        moon: 0.2,
+        humidity: 0.15,
+        visibility: 0.1,
+        wind: 0.1,
+    },
+    /** 雲量の層ごとの影響度 (下層雲ほど星を完全に隠す) */
+    cloudLayerWeights: {
+        low: 1,
+        mid: 0.8,
+        high: 0.5,
+    },
+    /** 相対湿度 (%): best 以下で満点、worst 以上で 0 点 */
+    relativeHumidity: { best: 60, worst: 100 },
+    /** 気温と露点の差 (℃): best 以上で満点、worst 以下で 0 点 (夜露・霧の出やすさ) */
+    dewPointSpread: { best: 5, worst: 0 },
+    /** 視程 (m) */
+    visibility: { best: 20_000, worst: 5_000 },
+    /** 地上 10m の風速 (km/h): 望遠鏡のぶれと体感温度 */
+    windSpeed: { best: 10, worst: 36 },
+};
+
+/** この雲量 (%) 未満の時間を「晴れ」とみなす */
+export const CLEAR_SKY_CLOUD_COVER_THRESHOLD = 30;
+
+export interface NightHourConditions {
+    /** 時刻 (UNIX ミリ秒) */
+    time: number;
+    /** 全雲量 (%) */
+    cloudCover: number;
+    /** 下層雲量 (%) */
+    cloudCoverLow: number;
+    /** 中層雲量 (%) */
+    cloudCoverMid: number;
+    /** 上層雲量 (%) */
+    cloudCoverHigh: number;
+    /** 相対湿度 (%) */
+    relativeHumidity: number;
+    /** 気温 (℃) */
+    temperature: number;
+    /** 露点 (℃) */
+    dewPoint: number;
+    /** 視程 (m) */
+    visibility: number;
+    /** 風速 (km/h) */
+    windSpeed: number;
+}
+
+/**
+ * 1 晩の星空指数 (0〜100) を求める
+ * 雲量・湿度・視程・風は暗夜区間の時間帯だけで平均し、月は輝面比と出ている時間の割合で評価する。
+ * 暗夜区間がない夜 (月が一晩中出ている等) は天文薄明の間、それもなければ日没〜日の出の時間帯で平均する。
+ * @param hours 時間ごとの気象条件
+ * @param darkWindow その夜の暗夜区間
+ * @param moonIlluminatedFraction 月の輝面比 (0〜1)
+ * @param config 重みと評価範囲
+ * @returns 星空指数。対象時間帯の気象データがなければ null
+ */
+export function calculateStargazingScore(
+    hours: NightHourConditions[],
+    darkWindow: NightDarkWindow,
+    moonIlluminatedFraction: number,
+    config: StargazingScoreConfig = STARGAZING_SCORE_CONFIG,
+): number | null {
+    const targetHours = selectTargetHours(hours, darkWindow);
+    if (targetHours.length === 0) {
+        return null;
+    }
+
+    const components = {
+        cloudCover: average(targetHours.map(hour => 1 - effectiveCloudCover(hour, config))),
+        moon: moonDarknessScore(darkWindow, moonIlluminatedFraction),
+        humidity: average(targetHours.map(hour => minFinite(
+            linearScore(hour.relativeHumidity, config.relativeHumidity.best, config.relativeHumidity.worst),
+            linearScore(hour.temperature - hour.dewPoint, config.dewPointSpread.best, config.dewPointSpread.worst),
+        ))),
+        visibility: average(targetHours.map(hour => linearScore(hour.visibility, config.visibility.best, config.visibility.worst))),
+        wind: average(targetHours.map(hour => linearScore(hour.windSpeed, config.windSpeed.best, config.windSpeed.worst))),
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [key, weight] of Object.entries(config.weights) as Array<[keyof StargazingScoreConfig['weights'], number]>) {
+        const value = components[key];
+        if (!Number.isFinite(value)) {
+            continue;
+        }
+        weighted += value * weight;
+        totalWeight += weight;
+    }
+
+    if (totalWeight === 0) {
+        return null;
+    }
+    return Math.round((weighted / totalWeight) * 100);
+}
+
+/**
+ * 1 晩のうち晴れと予報された時間の割合 (%) を求める
+ * 対象時間帯は calculateStargazingScore と同じく暗夜区間を優先する。
+ * @param hours 時間ごとの気象条件
+ * @param darkWindow その夜の暗夜区間
+ * @returns 晴れの時間の割合 (0〜100)。対象時間帯の雲量データがなければ null
+ */
+export function calculateClearSkyProbability(hours: NightHourConditions[], darkWindow: NightDarkWindow): number | null {
+    const cloudCovers = selectTargetHours(hours, darkWindow)
+        .map(hour => hour.cloudCover)
+        .filter(value => Number.isFinite(value));
+    if (cloudCovers.length === 0) {
+        return null;
+    }
+
+    const clearHours = cloudCovers.filter(value => value < CLEAR_SKY_CLOUD_COVER_THRESHOLD).length;
+    return Math.round((clearHours / cloudCovers.length) * 100);
+}
+
+function selectTargetHours(hours: NightHourConditions[], darkWindow: NightDarkWindow): NightHourConditions[] {
+    const candidates: Array<Array<{ start: string | null; end: string | null }>> = [
+        darkWindow.darkIntervals,
+        [{ start: darkWindow.astronomicalDusk, end: darkWindow.astronomicalDawn }],
+        [{ start: darkWindow.sunset, end: darkWindow.sunrise }],
+    ];
+
+    for (const intervals of candidates) {
+        const ranges = intervals
+            .filter((interval): interval is { start: string; end: string } => Boolean(interval.start && interval.end))
+            .map(interval => ({ start: Date.parse(interval.start), end: Date.parse(interval.end) }));
+        const selected = hours.filter(hour => ranges.some(range => hour.time >= range.start && hour.time < range.end));
+        if (selected.length > 0) {
+            return selected;
+        }
+    }
+    return [];
+}
+
+function effectiveCloudCover(hour: NightHourConditions, config: StargazingScoreConfig): number {
+    // 各層を独立に空を覆う確率とみなして重ね合わせる
+    const layers: Array<[number, number]> = [
+        [hour.cloudCoverLow, config.cloudLayerWeights.low],
+        [hour.cloudCoverMid, config.cloudLayerWeights.mid],
+        [hour.cloudCoverHigh, config.cloudLayerWeights.high],
+    ];
+    if (layers.every(([cover]) => !Number.isFinite(cover))) {
+        return Number.NaN;
+    }
+    const clearFraction = layers.reduce((clear, [cover, weight]) => {
+        const fraction = Number.isFinite(cover) ? clamp(cover / 100, 0, 1) * weight : 0;
+        return clear * (1 - fraction);
+    }, 1);
+    return 1 - clearFraction;
+}
+
+function moonDarknessScore(darkWindow: NightDarkWindow, moonIlluminatedFraction: number): number {
+    const illumination = Number.isFinite(moonIlluminatedFraction) ? clamp(moonIlluminatedFraction, 0, 1) : 1;
+    const { astronomicalDusk, astronomicalDawn } = darkWindow;
+    if (!astronomicalDusk || !astronomicalDawn) {
+        return 1 - illumination;
+    }
+
+    const nightHours = (Date.parse(astronomicalDawn) - Date.parse(astronomicalDusk)) / 3_600_000;
+    const moonUpFraction = nightHours > 0 ? clamp(1 - darkWindow.darkHours / nightHours, 0, 1) : 1;
+    return 1 - illumination * moonUpFraction;
+}
+
+function linearScore(value: number, best: number, worst: number): number {
+    if (!Number.isFinite(value)) {
+        return Number.NaN;
+    }
+    return clamp((value - worst) / (best - worst), 0, 1);
+}
+
+function minFinite(...values: number[]): number {
+    const finite = values.filter(value => Number.isFinite(value));
+    return finite.length > 0 ? Math.min(...finite) : Number.NaN;
+}
+
+function average(values: number[]): number {
+    const finite = values.filter(value => Number.isFinite(value));
+    if (finite.length === 0) {
+        return Number.NaN;
+    }
+    return finite.reduce((sum, value) => sum + value, 0) / finite.length;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
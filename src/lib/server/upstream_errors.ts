@@ -0,0 +1,86 @@
+import { ApiErrorCode } from '@/lib/api_errors';
+import { AppError } from './app_errors';
+
+/**
+ * 外部 API の呼び出しに失敗したことを表すエラー
+ * host で失敗した API を区別する。
+ */
+export class UpstreamError extends AppError {
+    readonly host: string;
+
+    constructor(
+        message: string,
+        host: string,
+        options?: { cause?: unknown; code?: ApiErrorCode; status?: number },
+    ) {
+        super(message, options?.code ?? 'UPSTREAM_UNAVAILABLE', options?.status ?? 503, { cause: options?.cause });
+        this.name = 'UpstreamError';
+        this.host = host;
+    }
+}
+
+/** 応答が制限時間内に返らなかった */
+export class UpstreamTimeoutError extends UpstreamError {
+    readonly timeoutMs: number;
+
+    constructor(host: string, timeoutMs: number) {
+        super(`Request timeout after ${timeoutMs}ms (${host})`, host, { code: 'UPSTREAM_TIMEOUT' });
+        this.name = 'UpstreamTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/** 接続できなかった (DNS の解決失敗や接続の切断など) */
+export class UpstreamNetworkError extends UpstreamError {
+    constructor(host: string, cause: unknown) {
+        super(`Network error (${host}): ${cause instanceof Error ? cause.message : String(cause)}`, host, { cause });
+        this.name = 'UpstreamNetworkError';
+    }
+}
+
+/** 200 番台以外の状態コードが返った */
+export class UpstreamHttpError extends UpstreamError {
+    /** 外部 API が返した状態コード */
+    readonly upstreamStatus: number;
+    /** 応答本文 (ログ用に先頭だけ) */
+    readonly body: string;
+
+    constructor(host: string, upstreamStatus: number, body: string, options?: { code?: ApiErrorCode; status?: number }) {
+        super(`Unexpected status code: ${upstreamStatus}`, host, { code: options?.code ?? 'UPSTREAM_BAD_RESPONSE', status: options?.status ?? 502 });
+        this.name = 'UpstreamHttpError';
+        this.upstreamStatus = upstreamStatus;
+        this.body = body;
+    }
+}
+
+/** 429 が返り、再試行しても制限が解けなかった */
+export class UpstreamRateLimitedError extends UpstreamHttpError {
+    /** Retry-After で指定された待ち時間 (ミリ秒)。指定がなければ null */
+    readonly retryAfterMs: number | null;
+
+    constructor(host: string, body: string, retryAfterMs: number | null) {
+        super(host, 429, body, { code: 'UPSTREAM_RATE_LIMITED', status: 429 });
+        this.name = 'UpstreamRateLimitedError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/** 失敗が続いたため、しばらくその API を呼ばずに失敗させている */
+export class UpstreamCircuitOpenError extends UpstreamError {
+    /** 再び呼び出しを試すまでの時間 (ミリ秒) */
+    readonly retryAfterMs: number;
+
+    constructor(host: string, retryAfterMs: number) {
+        super(`Circuit breaker is open for ${host}; retry in ${Math.ceil(retryAfterMs / 1000)}s`, host);
+        this.name = 'UpstreamCircuitOpenError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/** 応答は返ったが、エラーを含んでいるか解釈できなかった */
+export class UpstreamResponseError extends UpstreamError {
+    constructor(message: string, host: string) {
+        super(message, host, { code: 'UPSTREAM_BAD_RESPONSE', status: 502 });
+        this.name = 'UpstreamResponseError';
+    }
+}
@@ -1,8 +1,11 @@
 import { XMLParser } from 'fast-xml-parser';
+import { ConfigurationError, NotFoundError, ValidationError } from './app_errors';
+import { createHttpClient, Fetcher } from './http_client';
+import { buildCacheKey, getResponseCache } from './response_cache';
+import { UpstreamResponseError } from './upstream_errors';
 
 const BASE_URL = 'https://map.yahooapis.jp/geoapi/V1/reverseGeoCoder';
-const REQUEST_TIMEOUT_MS = 5_000;
-const MAX_RETRIES = 3;
+const HOST = 'map.yahooapis.jp';
 
 /**
  * 緯度経度から住所を取得する
@@ -15,21 +18,24 @@ export async function getYahooReverseGeocodedAddress(latitude: number, longitude
     validateCoordinate(longitude, 'longitude');
 
     const params = buildRequestParams(latitude, longitude);
-    const fetcher = createFetchClient();
-    const xml = await fetchReverseGeocoder(params, fetcher);
-    return parseAddressFromXml(xml);
+    // 住所はほとんど変わらないので、解釈した結果をキャッシュする
+    return getResponseCache().getOrLoad('geocode', buildCacheKey({ latitude, longitude }), async () => {
+        const fetcher = createHttpClient();
+        const xml = await fetchReverseGeocoder(params, fetcher);
+        return parseAddressFromXml(xml);
+    });
 }
 
 function validateCoordinate(value: unknown, label: 'latitude' | 'longitude'): asserts value is number {
     if (typeof value !== 'number' || Number.isNaN(value) || !Number.isFinite(value)) {
-        throw new TypeError(`${label} must be a finite number`);
+        throw new ValidationError(`${label} must be a finite number`, label);
     }
 }
 
 function buildRequestParams(latitude: number, longitude: number): URLSearchParams {
     const appId = process.env.YAHOO_APP_CLIENT_ID;
     if (!appId) {
-        throw new Error('YAHOO_APP_CLIENT_ID is not set');
+        throw new ConfigurationError('YAHOO_APP_CLIENT_ID');
     }
 
     const params = new URLSearchParams();
@@ -42,44 +48,6 @@ function buildRequestParams(latitude: number, longitude: number): URLSearchParam
     return params;
 }
 
-type Fetcher = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
-
-function createFetchClient(): Fetcher {
-    return async (input, init = {}) => {
-        let attempt = 0;
-        let lastError: Error | null = null;
-
-        while (attempt < MAX_RETRIES) {
-            const controller = new AbortController();
-            const timeout = setTimeout(() => controller.abort(new Error('Request timeout')), REQUEST_TIMEOUT_MS);
-
-            const result = await fetch(input, { ...init, signal: controller.signal })
-                .then(response => {
-                    if (response.status === 200) {
-                        return { success: true as const, response };
-                    }
-                    lastError = new Error(`Unexpected status code: ${response.status}`);
-                    return { success: false as const };
-                })
-                .catch(error => {
-                    const err = error instanceof Error ? error : new Error('Unknown fetch error');
-                    lastError = err;
-                    return { success: false as const };
-                })
-                .finally(() => {
-                    clearTimeout(timeout);
-                });
-
-            if (result.success) {
-                return result.response;
-            }
-            attempt += 1;
-        }
-        console.error('Max retries reached. Last error:', lastError);
-
-        throw lastError ?? new Error('Failed to fetch Yahoo Reverse Geocoder API');
-    };
-}
 
 async function fetchReverseGeocoder(params: URLSearchParams, fetcher: Fetcher): Promise<string> {
     const url = `${BASE_URL}?${params.toString()}`;
@@ -89,7 +57,7 @@ async function fetchReverseGeocoder(params: URLSearchParams, fetcher: Fetcher):
 
 function parseAddressFromXml(xml: string): string {
     if (!xml) {
-        throw new Error('Empty response body');
+        throw new UpstreamResponseError('Empty response body', HOST);
     }
 
     const parser = new XMLParser({ ignoreAttributes: false });
@@ -104,5 +72,5 @@ function parseAddressFromXml(xml: string): string {
         }
     }
 
-    throw new Error('Address not found in Yahoo Reverse Geocoder response');
+    throw new NotFoundError('Address not found in Yahoo Reverse Geocoder response');
 }
@@ -0,0 +1,31 @@
+/** 一度に検索できる最大泊数 */
+export const MAX_STAY_NIGHTS = 7;
+
+/**
+ * 泊数が検索可能な範囲 (1〜MAX_STAY_NIGHTS の整数) かどうか
+ * @param nights 泊数
+ */
+export function isValidStayNights(nights: unknown): nights is number {
+    return typeof nights === 'number' && Number.isInteger(nights) && nights >= 1 && nights <= MAX_STAY_NIGHTS;
+}
+
+/**
+ * ISO 8601 の日付 (YYYY-MM-DD) に日数を足す
+ * @param isoDate 基準日
+ * @param days 足す日数 (負数も可)
+ */
+export function addDaysToIsoDate(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * チェックイン日から泊数分の宿泊日 (各夜の始まる日) を列挙する
+ * @param checkinDate チェックイン日 (YYYY-MM-DD)
+ * @param nights 泊数
+ * @returns 宿泊日の配列。先頭がチェックイン日、末尾がチェックアウト前日
+ */
+export function listStayNights(checkinDate: string, nights: number): string[] {
+    return Array.from({ length: nights }, (_, index) => addDaysToIsoDate(checkinDate, index));
+}
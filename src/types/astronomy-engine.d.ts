@@ -0,0 +1,63 @@
+// astronomy-engine は package.json の exports の import 条件に型定義を持たないため、
+// moduleResolution: bundler では同梱の astronomy.d.ts を解決できない。
+// このリポジトリで使う API だけを宣言する。
+declare module 'astronomy-engine' {
+    export type FlexibleDateTime = Date | number | AstroTime;
+
+    export enum Body {
+        Sun = 'Sun',
+        Moon = 'Moon',
+    }
+
+    export class AstroTime {
+        date: Date;
+        ut: number;
+        tt: number;
+        constructor(date: FlexibleDateTime);
+        AddDays(days: number): AstroTime;
+    }
+
+    export class Observer {
+        latitude: number;
+        longitude: number;
+        height: number;
+        constructor(latitude: number, longitude: number, height: number);
+    }
+
+    export class IlluminationInfo {
+        time: AstroTime;
+        mag: number;
+        phase_angle: number;
+        phase_fraction: number;
+        helio_dist: number;
+        geo_dist: number;
+    }
+
+    export class EquatorialCoordinates {
+        ra: number;
+        dec: number;
+        dist: number;
+    }
+
+    export class HorizontalCoordinates {
+        azimuth: number;
+        altitude: number;
+        ra: number;
+        dec: number;
+    }
+
+    export function Equator(body: Body, date: FlexibleDateTime, observer: Observer, ofdate: boolean, aberration: boolean): EquatorialCoordinates;
+    export function Horizon(date: FlexibleDateTime, observer: Observer, ra: number, dec: number, refraction?: string): HorizontalCoordinates;
+    export function Illumination(body: Body, date: FlexibleDateTime): IlluminationInfo;
+    export function MoonPhase(date: FlexibleDateTime): number;
+    export function SearchMoonPhase(targetLon: number, dateStart: FlexibleDateTime, limitDays: number): AstroTime | null;
+    export function SearchRiseSet(body: Body, observer: Observer, direction: number, dateStart: FlexibleDateTime, limitDays: number): AstroTime | null;
+    export function SearchAltitude(
+        body: Body,
+        observer: Observer,
+        direction: number,
+        dateStart: FlexibleDateTime,
+        limitDays: number,
+        altitude: number,
+    ): AstroTime | null;
+}
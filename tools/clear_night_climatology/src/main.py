@@ -0,0 +1,193 @@
+"""過去の晴れの夜の割合 (気候値) を集計し、アプリに同梱するデータを生成する
+
+Open-Meteo の Historical Weather API から都道府県の代表点の時間別の天気コードを
+取得し、晴れの夜だった割合を週ごとに求めて TypeScript のファイルに書き出す。
+"""
+
+import argparse
+import datetime as dt
+import json
+import re
+import time
+import urllib.parse
+import urllib.request
+from collections import defaultdict
+from pathlib import Path
+
+# 設定
+ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive"
+YEARS = 10  # 既定の集計年数 (前年まで)
+WEEKS = 52  # 1 年の週の数 (clear_night_climatology.ts と合わせる)
+CLEAR_WEATHER_CODES = {0, 1}  # 快晴・晴れ
+CLEAR_NIGHT_RATIO = 0.8  # 夜間のこの割合以上が晴れなら晴れの夜
+REQUEST_INTERVAL_SECONDS = 2.0  # リクエストの間隔
+MAX_ATTEMPTS = 3  # 失敗時の試行回数
+
+REPO_ROOT = Path(__file__).resolve().parents[3]
+SERVER_DIR = REPO_ROOT / "src" / "lib" / "server"
+OUTPUT_PATH = SERVER_DIR / "clear_night_climatology_data.ts"
+
+# ------------- 代表点 ----------------
+
+_PREFECTURE_LINE = re.compile(
+    r"^\s{4}(\S+?):\s*\{\s*latitude:\s*([\d.]+),\s*longitude:\s*([\d.]+)"
+)
+_SITES_HEADER = re.compile(r"^\s{4}(\S+?):\s*\[\s*$")
+_SITE_LINE = re.compile(r"latitude:\s*([\d.]+),\s*longitude:\s*([\d.]+)")
+
+
+def load_representative_points() -> dict[str, tuple[float, float]]:
+    """検索と同じ代表点を、アプリのソースから読み取る。
+
+    各都道府県の先頭の星空観察地を使い、なければ県庁所在地を使う。
+    """
+    points: dict[str, tuple[float, float]] = {}
+    geocode = (SERVER_DIR / "prefecture_geocode.ts").read_text("utf-8")
+    for line in geocode.splitlines():
+        match = _PREFECTURE_LINE.match(line)
+        if match:
+            points[match[1]] = (float(match[2]), float(match[3]))
+
+    sites = (SERVER_DIR / "dark_sky_sites.ts").read_text("utf-8")
+    current: str | None = None
+    for line in sites.splitlines():
+        header = _SITES_HEADER.match(line)
+        if header:
+            current = header[1]
+            continue
+        site = _SITE_LINE.search(line)
+        if current and site:
+            points[current] = (float(site[1]), float(site[2]))
+            current = None  # 先頭の観察地だけ使う
+
+    if not points:
+        raise RuntimeError("代表点を読み取れませんでした")
+    return points
+
+
+# ------------- 取得と集計 ----------------
+
+
+def fetch_hourly(
+    latitude: float, longitude: float, start: dt.date, end: dt.date
+) -> dict:
+    """代表点の時間別の天気コードと昼夜を取得する。"""
+    query = urllib.parse.urlencode(
+        {
+            "latitude": latitude,
+            "longitude": longitude,
+            "start_date": start.isoformat(),
+            "end_date": end.isoformat(),
+            "hourly": "weather_code,is_day",
+            "timezone": "Asia/Tokyo",
+        }
+    )
+    for attempt in range(1, MAX_ATTEMPTS + 1):
+        try:
+            with urllib.request.urlopen(
+                f"{ARCHIVE_URL}?{query}", timeout=120
+            ) as response:
+                return json.load(response)["hourly"]
+        except OSError:
+            if attempt == MAX_ATTEMPTS:
+                raise
+            time.sleep(REQUEST_INTERVAL_SECONDS * attempt * 5)
+    raise AssertionError("unreachable")
+
+
+def to_week(date: dt.date) -> int:
+    """1 月 1 日から 7 日ごとの週 (0 始まり)。年末の端数は最後の週に含める。"""
+    return min((date.timetuple().tm_yday - 1) // 7, WEEKS - 1)
+
+
+def clear_night_rates(hourly: dict) -> list[int | None]:
+    """時間別のデータから、週ごとの晴れの夜の割合 (%) を求める。
+
+    夜のデータが 1 つもない週は 0% ではなく None にする。
+    """
+    samples: dict[str, list[int]] = defaultdict(lambda: [0, 0])
+    for stamp, code, is_day in zip(
+        hourly["time"], hourly["weather_code"], hourly["is_day"]
+    ):
+        if code is None or is_day != 0:
+            continue
+        night = samples[stamp[:10]]
+        night[0] += 1
+        if code in CLEAR_WEATHER_CODES:
+            night[1] += 1
+
+    nights = [0] * WEEKS
+    clear_nights = [0] * WEEKS
+    for date, (total, clear) in samples.items():
+        week = to_week(dt.date.fromisoformat(date))
+        nights[week] += 1
+        if clear / total >= CLEAR_NIGHT_RATIO:
+            clear_nights[week] += 1
+
+    return [
+        round(100 * clear / total) if total else None
+        for clear, total in zip(clear_nights, nights)
+    ]
+
+
+# ------------- 出力 ----------------
+
+
+def render_rate(rate: int | None) -> str:
+    """夜のデータがない週は null として書き出す。"""
+    return "null" if rate is None else str(rate)
+
+
+def render_dataset(
+    rates: dict[str, list[int | None]], start_year: int, end_year: int
+) -> str:
+    """同梱するデータの TypeScript のソースを作る。"""
+    rows = "\n".join(
+        f"        {prefecture}: [{', '.join(map(render_rate, values))}],"
+        for prefecture, values in rates.items()
+    )
+    return f"""// tools/clear_night_climatology で生成するファイル。手で編集しない。
+// Open-Meteo の過去の気象データから、都道府県の代表点で晴れの夜だった割合 (%) を 1 年 52 週に分けて集計したもの。
+
+export interface ClearNightClimatologyDataset {{
+    /** 集計した期間 (年)。まだ生成していなければ null */
+    period: {{ startYear: number; endYear: number }} | null;
+    /** 都道府県ごとの、週 (1 月 1 日から 7 日ごと。52 週目は年末まで) の晴れの夜の割合 (%)。夜のデータがない週は null */
+    rates: Record<string, (number | null)[]>;
+}}
+
+export const CLEAR_NIGHT_CLIMATOLOGY: ClearNightClimatologyDataset = {{
+    period: {{ startYear: {start_year}, endYear: {end_year} }},
+    rates: {{
+{rows}
+    }},
+}};
+"""
+
+
+def main() -> None:
+    last_year = dt.date.today().year - 1
+    parser = argparse.ArgumentParser(description=__doc__)
+    parser.add_argument("--start-year", type=int, default=last_year - YEARS + 1)
+    parser.add_argument("--end-year", type=int, default=last_year)
+    parser.add_argument("--output", type=Path, default=OUTPUT_PATH)
+    args = parser.parse_args()
+
+    start = dt.date(args.start_year, 1, 1)
+    end = dt.date(args.end_year, 12, 31)
+    rates: dict[str, list[int | None]] = {}
+    points = load_representative_points()
+    for prefecture, (latitude, longitude) in points.items():
+        hourly = fetch_hourly(latitude, longitude, start, end)
+        rates[prefecture] = clear_night_rates(hourly)
+        print(f"{prefecture}: {rates[prefecture]}")
+        time.sleep(REQUEST_INTERVAL_SECONDS)
+
+    args.output.write_text(
+        render_dataset(rates, args.start_year, args.end_year), "utf-8"
+    )
+    print(f"saved: {args.output}")
+
+
+if __name__ == "__main__":
+    main()